@@ -0,0 +1,109 @@
+import Text from "@/components/common/Text";
+import { AccountStatsHistory } from "../actions/accountStats";
+import {
+  AccountStats,
+  accountStatChange,
+  accountStatNames,
+} from "@/utils/accountStats";
+
+const statLabels: { [name in keyof AccountStats]: string } = {
+  followers: "Followers",
+  following: "Following",
+  likes: "Likes",
+  posts: "Posts",
+};
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 60;
+
+// Draws the follower count as a line across the days it was collected.
+const buildFollowerLine = (days: AccountStatsHistory["days"]) => {
+  const points = days
+    .map(({ stats }, index) => ({ index, followers: stats.followers }))
+    .filter(
+      (point): point is { index: number; followers: number } =>
+        point.followers !== null
+    );
+  if (points.length < 2) {
+    return null;
+  }
+  const min = Math.min(...points.map(({ followers }) => followers));
+  const max = Math.max(...points.map(({ followers }) => followers));
+  const lastIndex = days.length - 1;
+  return points
+    .map(({ index, followers }) => {
+      const x = (index / lastIndex) * CHART_WIDTH;
+      // A flat line sits in the middle rather than along the bottom.
+      const y =
+        max === min
+          ? CHART_HEIGHT / 2
+          : CHART_HEIGHT - ((followers - min) / (max - min)) * CHART_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+};
+
+export default function AccountGrowthChart({
+  history,
+}: {
+  history: AccountStatsHistory | undefined;
+}) {
+  if (!history || history.days.length === 0) {
+    return (
+      <Text
+        color="secondary"
+        text="Growth shows up here after your account's first full day."
+      />
+    );
+  }
+  const latest = history.days[history.days.length - 1].stats;
+  const followerLine = buildFollowerLine(history.days);
+  return (
+    <div className="flex flex-col items-center gap-2 w-full">
+      {followerLine && (
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full max-w-[240px] h-[60px] overflow-visible"
+          aria-label="Followers over time"
+        >
+          <polyline
+            points={followerLine}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={2}
+            className="text-orange-600"
+          />
+        </svg>
+      )}
+      <div className="flex flex-wrap justify-center gap-4 text-sm">
+        {accountStatNames
+          .filter((name) => latest[name] !== null)
+          .map((name) => {
+            const change = accountStatChange(history.days, name);
+            return (
+              <div key={name} className="flex flex-col items-center">
+                <span className="font-semibold">
+                  {latest[name]!.toLocaleString()}
+                </span>
+                <span className="text-gray-500">{statLabels[name]}</span>
+                {change !== null && change !== 0 && (
+                  <span
+                    className={change > 0 ? "text-green-600" : "text-red-600"}
+                  >
+                    {change > 0 ? "+" : ""}
+                    {change.toLocaleString()}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+      </div>
+      <Text
+        color="secondary"
+        text={`Since ${new Date(
+          history.days[0].capturedOn
+        ).toLocaleDateString()}`}
+      />
+    </div>
+  );
+}
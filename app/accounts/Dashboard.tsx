@@ -23,18 +23,29 @@ import {
   YoutubeChannelWithVideoRestrictions,
 } from "../actions/socialMediaAccounts";
 import { InstagramAccount } from "@/utils/facebookSdk";
+import { Tables } from "@/types/supabase";
+import { PublishPlatform } from "@/utils/publishRetry";
+import QueueSlotsEditor from "./QueueSlotsEditor";
+import AccountGrowthChart from "./AccountGrowthChart";
+import { AccountStatsHistory } from "../actions/accountStats";
 
 export default function Dashboard({
   userId,
+  workspaceId,
   instagramAccounts,
   tiktokAccounts,
   youtubeChannels,
+  queueSlots,
+  accountStats,
   authError,
 }: {
   userId: string;
+  workspaceId: string;
   instagramAccounts: InstagramAccountWithVideoRestrictions[];
   tiktokAccounts: TikTokAccountWithVideoRestrictions[];
   youtubeChannels: YoutubeChannelWithVideoRestrictions[];
+  queueSlots: Tables<"account-queue-slots">[];
+  accountStats: AccountStatsHistory[];
   authError: string;
 }) {
   const [deleteInstagramAccountState, deleteInstagramAccountFormAction] =
@@ -127,6 +138,17 @@ export default function Dashboard({
     }
   }, [saveInstagramAccountState]);
 
+  const accountQueueSlots = (platform: PublishPlatform, accountId: string) =>
+    queueSlots.filter(
+      (slot) => slot.platform === platform && slot.account_id === accountId
+    );
+
+  const accountGrowth = (platform: PublishPlatform, accountId: string) =>
+    accountStats.find(
+      (history) =>
+        history.platform === platform && history.accountId === accountId
+    );
+
   const constructSocialAccountBlock = (
     instagramAccountToDelete: InstagramAccountWithVideoRestrictions | undefined,
     tiktokAccountToDelete: TikTokAccountWithVideoRestrictions | undefined,
@@ -241,6 +263,11 @@ export default function Dashboard({
                   value={account.id}
                 />
                 <input type={"hidden"} name={"userId"} value={userId} />
+                <input
+                  type={"hidden"}
+                  name={"workspaceId"}
+                  value={workspaceId}
+                />
 
                 <div className="flex items-center gap-2">
                   <div className="relative w-8 h-8">
@@ -295,6 +322,16 @@ export default function Dashboard({
                       <XCircleIcon className="w-6 h-6 text-red-600" />
                     </button>
                   </div>
+                  <AccountGrowthChart
+                    history={accountGrowth("instagram", account.id)}
+                  />
+                  <QueueSlotsEditor
+                    userId={userId}
+                    workspaceId={workspaceId}
+                    platform="instagram"
+                    accountId={account.id}
+                    slots={accountQueueSlots("instagram", account.id)}
+                  />
                 </div>
               ))}
               {youtubeChannels.map((channel) => (
@@ -322,6 +359,16 @@ export default function Dashboard({
                       <XCircleIcon className="w-6 h-6 text-red-600" />
                     </button>
                   </div>
+                  <AccountGrowthChart
+                    history={accountGrowth("youtube", channel.id)}
+                  />
+                  <QueueSlotsEditor
+                    userId={userId}
+                    workspaceId={workspaceId}
+                    platform="youtube"
+                    accountId={channel.id}
+                    slots={accountQueueSlots("youtube", channel.id)}
+                  />
                 </div>
               ))}
               {tiktokAccounts.map((account) => (
@@ -349,6 +396,16 @@ export default function Dashboard({
                       <XCircleIcon className="w-6 h-6 text-red-600" />
                     </button>
                   </div>
+                  <AccountGrowthChart
+                    history={accountGrowth("tiktok", account.id)}
+                  />
+                  <QueueSlotsEditor
+                    userId={userId}
+                    workspaceId={workspaceId}
+                    platform="tiktok"
+                    accountId={account.id}
+                    slots={accountQueueSlots("tiktok", account.id)}
+                  />
                 </div>
               ))}
             </div>
@@ -385,6 +442,7 @@ export default function Dashboard({
                 value={instagramAccountToDelete.instagram_business_account_id}
               />
               <input type={"hidden"} name={"userId"} value={userId} />
+              <input type={"hidden"} name={"workspaceId"} value={workspaceId} />
               <Button intent="danger" type={"submit"}>
                 Delete
               </Button>
@@ -398,6 +456,7 @@ export default function Dashboard({
                 value={tiktokAccountToDelete.id}
               />
               <input type={"hidden"} name={"userId"} value={userId} />
+              <input type={"hidden"} name={"workspaceId"} value={workspaceId} />
               <Button intent="danger" type={"submit"}>
                 Delete
               </Button>
@@ -411,6 +470,7 @@ export default function Dashboard({
                 value={youtubeChannelToDelete.id}
               />
               <input type={"hidden"} name={"userId"} value={userId} />
+              <input type={"hidden"} name={"workspaceId"} value={workspaceId} />
               <Button intent="danger" type={"submit"}>
                 Delete
               </Button>
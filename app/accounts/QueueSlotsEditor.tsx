@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { XMarkIcon } from "@heroicons/react/24/solid";
+import { Button } from "@/components/common/Button";
+import Text from "@/components/common/Text";
+import Selector, { SelectorOption } from "@/components/common/Selector";
+import { addQueueSlot, deleteQueueSlot } from "../actions/queueSlots";
+import { PublishPlatform } from "@/utils/publishRetry";
+import { Tables } from "@/types/supabase";
+import { daysOfWeek, formatQueueSlot } from "@/utils/queueSlots";
+
+const dayOptions: SelectorOption<number>[] = daysOfWeek.map((name, value) => ({
+  name,
+  value,
+}));
+
+export default function QueueSlotsEditor({
+  userId,
+  workspaceId,
+  platform,
+  accountId,
+  slots,
+}: {
+  userId: string;
+  workspaceId: string;
+  platform: PublishPlatform;
+  accountId: string;
+  slots: Tables<"account-queue-slots">[];
+}) {
+  const router = useRouter();
+  const [day, setDay] = useState(dayOptions[1]);
+  const [timeOfDay, setTimeOfDay] = useState("09:00");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const addSlot = async () => {
+    setIsSaving(true);
+    try {
+      await addQueueSlot({
+        userId,
+        workspaceId,
+        platform,
+        accountId,
+        dayOfWeek: day.value,
+        timeOfDay,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Sorry, we had an issue adding your queue slot. Please try again."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSlot = async (slotId: string) => {
+    setIsSaving(true);
+    try {
+      await deleteQueueSlot({ userId, slotId });
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Sorry, we had an issue deleting your queue slot. Please try again."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 w-full text-sm">
+      <Text alignment="left" color="secondary" text="Queue slots" />
+      {slots.length === 0 && (
+        <Text
+          alignment="left"
+          color="secondary"
+          text="Add a slot to start adding posts to this account's queue."
+        />
+      )}
+      {slots.map((slot) => (
+        <div key={slot.id} className="flex items-center justify-between gap-2">
+          <p>{formatQueueSlot(slot)}</p>
+          <button
+            aria-label={`Delete ${formatQueueSlot(slot)} slot`}
+            disabled={isSaving}
+            onClick={() => deleteSlot(slot.id)}
+            type={"button"}
+          >
+            <XMarkIcon className="w-4 h-4 text-red-600" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Selector
+          selected={day}
+          setSelected={setDay}
+          options={dayOptions}
+          styleOverride="w-36"
+        />
+        <input
+          className="rounded-md p-1 border-2 border-gray-500"
+          type="time"
+          value={timeOfDay}
+          onChange={(event) => setTimeOfDay(event.target.value)}
+        />
+        <Button
+          intent="secondary"
+          size="sm"
+          loading={isSaving}
+          disabled={!timeOfDay}
+          onClick={addSlot}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { redirect } from "next/navigation";
 import { getUser } from "@/app/actions/user";
+import { getCurrentWorkspace } from "@/app/actions/workspaces";
 import Dashboard from "@/app/accounts/Dashboard";
 import { fetchUserConnectSocialMediaAccounts } from "../actions/socialMediaAccounts";
+import { fetchQueueSlots } from "../actions/queueSlots";
+import { fetchAccountStatsHistory } from "../actions/accountStats";
 
 export const maxDuration = 300;
 
@@ -14,16 +17,27 @@ export default async function Page({
   if (!user) {
     redirect("/login");
   }
+  const workspace = await getCurrentWorkspace(user.id);
 
-  const { instagramAccounts, tiktokAccounts, youtubeChannels } =
-    await fetchUserConnectSocialMediaAccounts(user.id);
+  const [
+    { instagramAccounts, tiktokAccounts, youtubeChannels },
+    queueSlots,
+    accountStats,
+  ] = await Promise.all([
+    fetchUserConnectSocialMediaAccounts(workspace.id),
+    fetchQueueSlots(workspace.id),
+    fetchAccountStatsHistory(workspace.id),
+  ]);
 
   return (
     <Dashboard
       userId={user.id}
+      workspaceId={workspace.id}
       instagramAccounts={instagramAccounts}
       tiktokAccounts={tiktokAccounts}
       youtubeChannels={youtubeChannels}
+      queueSlots={queueSlots}
+      accountStats={accountStats}
       authError={searchParams.error}
     />
   );
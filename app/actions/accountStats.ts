@@ -0,0 +1,146 @@
+"use server";
+
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import {
+  createAdminClient,
+  createClient,
+  SupabaseServerClient,
+} from "@/utils/supabase/server";
+import { platformAdapters } from "@/utils/platforms";
+import { PublishPlatform } from "@/utils/publishRetry";
+import { AccountStats, toAccountStats } from "@/utils/accountStats";
+import { TablesInsert } from "@/types/supabase";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
+
+// How far back the Dashboard's growth charts go.
+const ACCOUNT_STATS_HISTORY_DAYS = 90;
+
+export type AccountStatsHistory = {
+  platform: PublishPlatform;
+  accountId: string;
+  days: { capturedOn: string; stats: AccountStats }[];
+};
+
+export const collectAccountStats = async () => {
+  const logger = new Logger().with({
+    function: "collectAccountStats",
+  });
+  logger.info(startingFunctionString);
+  const supabase = createAdminClient();
+  const platforms = Object.keys(platformAdapters) as PublishPlatform[];
+  let numberOfSnapshots = 0;
+  for (let i = 0; i < platforms.length; i++) {
+    numberOfSnapshots += await collectPlatformAccountStats({
+      platform: platforms[i],
+      supabase,
+      logger,
+    });
+  }
+  logger.info(endingFunctionString, { numberOfSnapshots });
+  await logger.flush();
+  return numberOfSnapshots;
+};
+
+// An account whose token was revoked is skipped until it's reconnected, and
+// its chart shows a gap for those days.
+const collectPlatformAccountStats = async ({
+  platform,
+  supabase,
+  logger,
+}: {
+  platform: PublishPlatform;
+  supabase: SupabaseServerClient;
+  logger: Logger;
+}) => {
+  const adapter = platformAdapters[platform];
+  const { data: accounts, error } = await supabase
+    .from(adapter.accountTable)
+    .select("*");
+  if (error) {
+    logger.error(errorString, { ...error, platform });
+    throw error;
+  }
+  const snapshots: TablesInsert<"account-stats-snapshots">[] = [];
+  for (let i = 0; i < accounts.length; i++) {
+    const account = accounts[i];
+    // TikTok's table allows an account without an owner or workspace.
+    if (!account.user_id || !account.workspace_id) {
+      continue;
+    }
+    try {
+      const stats = await adapter.fetchAccountStats({
+        account: decryptAccountTokens(adapter.accountTable, account),
+      });
+      snapshots.push({
+        user_id: account.user_id,
+        workspace_id: account.workspace_id,
+        platform,
+        account_id: account.id,
+        captured_at: new Date().toISOString(),
+        ...stats,
+      });
+    } catch (error) {
+      logger.error(errorString, {
+        error: error instanceof Error ? error.message : JSON.stringify(error),
+        platform,
+        accountId: account.id,
+      });
+    }
+  }
+  if (snapshots.length === 0) {
+    return 0;
+  }
+  const { error: upsertError } = await supabase
+    .from("account-stats-snapshots")
+    .upsert(snapshots, { onConflict: "platform,account_id,captured_on" });
+  if (upsertError) {
+    logger.error(errorString, { ...upsertError, platform });
+    throw upsertError;
+  }
+  return snapshots.length;
+};
+
+export const fetchAccountStatsHistory = async (workspaceId: string) => {
+  const logger = new Logger().with({
+    function: "fetchAccountStatsHistory",
+    workspaceId,
+  });
+  const since = new Date(
+    Date.now() - ACCOUNT_STATS_HISTORY_DAYS * 24 * 60 * 60 * 1000
+  )
+    .toISOString()
+    .slice(0, 10);
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("account-stats-snapshots")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .gte("captured_on", since)
+    .order("captured_on", { ascending: true });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your account growth. Please try again."
+    );
+  }
+  const histories: { [accountKey: string]: AccountStatsHistory } = {};
+  data.forEach((snapshot) => {
+    const accountKey = `${snapshot.platform}-${snapshot.account_id}`;
+    histories[accountKey] ??= {
+      platform: snapshot.platform as PublishPlatform,
+      accountId: snapshot.account_id,
+      days: [],
+    };
+    histories[accountKey].days.push({
+      capturedOn: snapshot.captured_on,
+      stats: toAccountStats(snapshot),
+    });
+  });
+  return Object.values(histories);
+};
@@ -1,15 +1,17 @@
 "use server";
-import { Logger } from "next-axiom";
 import {
   endingFunctionString,
   errorString,
   startingFunctionString,
   warningString,
+  Logger,
 } from "@/utils/logging";
 import { buildGraphAPIURL, FacebookGraphError } from "@/utils/facebookSdk";
-import { createClient } from "@/utils/supabase/server";
+import { createClient, SupabaseServerClient } from "@/utils/supabase/server";
 import { revalidatePath } from "next/cache";
 import { fetchAccessTokenForInstagramBusinessAccountId } from "./socialMediaPosts";
+import { AccountStats, emptyAccountStats } from "@/utils/accountStats";
+import { encryptAccountTokens } from "@/utils/platforms/accountTokens";
 
 export const saveInstagramAccount = async (prevState: any, data: FormData) => {
   const appScopedUserId = data.get("appScopedUserId") as string;
@@ -19,19 +21,21 @@ export const saveInstagramAccount = async (prevState: any, data: FormData) => {
   ) as string;
   const facebookPageId = data.get("facebookPageId") as string;
   const userId = data.get("userId") as string;
+  const workspaceId = data.get("workspaceId") as string;
   let logger = new Logger().with({
     appScopedUserId,
     accessToken,
     instagramBusinessAccountId,
     facebookPageId,
     userId,
+    workspaceId,
     function: "saveInstagramAccount",
   });
   try {
     logger.info(startingFunctionString);
     const isAlreadySaved = await checkIfInstagramAccountIsAlreadySaved({
       instagramBusinessAccountId,
-      userId,
+      workspaceId,
     });
     if (isAlreadySaved) {
       logger.info("Instagram account already saved");
@@ -43,12 +47,15 @@ export const saveInstagramAccount = async (prevState: any, data: FormData) => {
       shortLivedAccessToken: accessToken,
     });
     const supabase = createClient();
-    const { error } = await supabase.from("instagram-accounts").insert({
-      facebook_page_id: facebookPageId,
-      instagram_business_account_id: instagramBusinessAccountId,
-      access_token: longLivedPageAccessToken,
-      user_id: userId,
-    });
+    const { error } = await supabase.from("instagram-accounts").insert(
+      encryptAccountTokens("instagram-accounts", {
+        facebook_page_id: facebookPageId,
+        instagram_business_account_id: instagramBusinessAccountId,
+        access_token: longLivedPageAccessToken,
+        user_id: userId,
+        workspace_id: workspaceId,
+      })
+    );
     if (error) {
       logger.error(errorString, error);
       await logger.flush();
@@ -84,15 +91,15 @@ export const saveInstagramAccount = async (prevState: any, data: FormData) => {
 
 const checkIfInstagramAccountIsAlreadySaved = async ({
   instagramBusinessAccountId,
-  userId,
+  workspaceId,
 }: {
   instagramBusinessAccountId: string;
-  userId: string;
+  workspaceId: string;
 }) => {
   const logger = new Logger().with({
     function: "checkIfInstagramAccountIsAlreadySaved",
     instagramBusinessAccountId,
-    userId,
+    workspaceId,
   });
   try {
     const supabase = createClient();
@@ -101,7 +108,7 @@ const checkIfInstagramAccountIsAlreadySaved = async ({
       .from("instagram-accounts")
       .select("*")
       .eq("instagram_business_account_id", instagramBusinessAccountId)
-      .eq("user_id", userId);
+      .eq("workspace_id", workspaceId);
     if (error) {
       logger.error(errorString, error);
       await logger.flush();
@@ -127,9 +134,11 @@ export const deleteInstagramAccount = async (
     "instagramBusinessAccountId"
   ) as string;
   const userId = data.get("userId") as string;
+  const workspaceId = data.get("workspaceId") as string;
   await _deleteInstagramAccount({
     instagramBusinessAccountId,
     userId,
+    workspaceId,
   });
   return {
     data: "Successfully deleted Instagram account",
@@ -140,20 +149,24 @@ export const deleteInstagramAccount = async (
 const _deleteInstagramAccount = async ({
   instagramBusinessAccountId,
   userId,
+  workspaceId,
 }: {
   instagramBusinessAccountId: string;
   userId: string;
+  workspaceId: string;
 }) => {
   const logger = new Logger().with({
     instagramBusinessAccountId,
     userId,
+    workspaceId,
     function: "_deleteInstagramAccount",
   });
   const supabase = createClient();
   const { error } = await supabase
     .from("instagram-accounts")
     .delete()
-    .eq("instagram_business_account_id", instagramBusinessAccountId);
+    .eq("instagram_business_account_id", instagramBusinessAccountId)
+    .eq("workspace_id", workspaceId);
   if (error) {
     logger.error(errorString, error);
     await logger.flush();
@@ -219,6 +232,44 @@ export const fetchInstagramUsernameFromPageId = async ({
   return data;
 };
 
+// Instagram doesn't report an account's total likes.
+export const fetchInstagramAccountStats = async ({
+  instagramBusinessAccountId,
+  accessToken,
+}: {
+  instagramBusinessAccountId: string;
+  accessToken: string;
+}): Promise<AccountStats> => {
+  const logger = new Logger().with({
+    function: "fetchInstagramAccountStats",
+    instagramBusinessAccountId,
+  });
+  const response = await fetch(
+    buildGraphAPIURL({
+      path: `/${instagramBusinessAccountId}`,
+      searchParams: { fields: "followers_count,follows_count,media_count" },
+      accessToken,
+    })
+  );
+  const data = (await response.json()) as {
+    error?: FacebookGraphError;
+    followers_count?: number;
+    follows_count?: number;
+    media_count?: number;
+  };
+  if (data.error) {
+    logger.error(errorString, data.error);
+    await logger.flush();
+    throw new Error("Failed fetching Instagram account stats");
+  }
+  return {
+    ...emptyAccountStats,
+    followers: data.followers_count ?? null,
+    following: data.follows_count ?? null,
+    posts: data.media_count ?? null,
+  };
+};
+
 const fetchLongLivedUserAccessToken = async ({
   appScopedUserId,
   shortLivedAccessToken,
@@ -231,15 +282,18 @@ const fetchLongLivedUserAccessToken = async ({
     shortLivedAccessToken,
     appScopedUserId,
   });
-  const response = await fetch(
-    `https://graph.facebook.com/v${process.env.FACEBOOK_GRAPH_API_VERSION}/oauth/access_token?
-      grant_type=fb_exchange_token&client_id=${process.env.NEXT_PUBLIC_FACEBOOK_CLIENT_ID}&
-      client_secret=${process.env.FACEBOOK_CLIENT_SECRET}&
-      fb_exchange_token=${shortLivedAccessToken}`,
-    {
-      method: "GET",
-    }
-  );
+  const url = buildGraphAPIURL({
+    path: "/oauth/access_token",
+    searchParams: {
+      grant_type: "fb_exchange_token",
+      client_id: process.env.NEXT_PUBLIC_FACEBOOK_CLIENT_ID,
+      client_secret: process.env.FACEBOOK_CLIENT_SECRET,
+      fb_exchange_token: shortLivedAccessToken,
+    },
+  });
+  const response = await fetch(url, {
+    method: "GET",
+  });
   const data = (await response.json()) as {
     error: FacebookGraphError;
     access_token: string;
@@ -297,19 +351,22 @@ const fetchLongLivedPageAccessToken = async ({
 
 export const fetchInstagramPublishingRateLimit = async ({
   instagramBusinessAccountId,
-  userId,
+  workspaceId,
+  supabase,
 }: {
   instagramBusinessAccountId: string;
-  userId: string;
+  workspaceId: string;
+  supabase?: SupabaseServerClient;
 }) => {
   const logger = new Logger().with({
     function: "fetchInstagramPublishingRateLimit",
     instagramBusinessAccountId,
-    userId,
+    workspaceId,
   });
   const accessToken = await fetchAccessTokenForInstagramBusinessAccountId({
     instagramBusinessAccountId,
-    userId,
+    workspaceId,
+    supabase,
   });
   const graphUrl = buildGraphAPIURL({
     path: `/${instagramBusinessAccountId}/content_publishing_limit`,
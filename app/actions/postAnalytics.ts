@@ -0,0 +1,241 @@
+"use server";
+
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import {
+  createAdminClient,
+  createClient,
+  SupabaseServerClient,
+} from "@/utils/supabase/server";
+import { platformAdapters } from "@/utils/platforms";
+import { TrackedPost } from "@/utils/platforms/types";
+import { PublishPlatform } from "@/utils/publishRetry";
+import {
+  PostMetrics,
+  sumPostMetrics,
+  toPostMetrics,
+} from "@/utils/postAnalytics";
+import { TablesInsert } from "@/types/supabase";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
+
+// Most of a post's views come in its first few weeks, so older posts stop
+// being collected to keep each run bounded.
+const METRICS_COLLECTION_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type PostAnalytics = {
+  socialMediaPostId: string;
+  platform: PublishPlatform;
+  accountId: string;
+  platformPostId: string;
+  capturedAt: string;
+  metrics: PostMetrics;
+};
+
+export type AccountAnalytics = {
+  platform: PublishPlatform;
+  accountId: string;
+  numberOfPosts: number;
+  totals: PostMetrics;
+};
+
+export type PostMetricsHistory = {
+  platform: PublishPlatform;
+  accountId: string;
+  platformPostId: string;
+  snapshots: { capturedAt: string; metrics: PostMetrics }[];
+};
+
+export const collectPostMetrics = async () => {
+  const logger = new Logger().with({
+    function: "collectPostMetrics",
+  });
+  logger.info(startingFunctionString);
+  const supabase = createAdminClient();
+  const publishedSince = new Date(
+    Date.now() - METRICS_COLLECTION_WINDOW_MS
+  ).toISOString();
+  const platforms = Object.keys(platformAdapters) as PublishPlatform[];
+  let numberOfSnapshots = 0;
+  for (let i = 0; i < platforms.length; i++) {
+    numberOfSnapshots += await collectPlatformMetrics({
+      platform: platforms[i],
+      publishedSince,
+      supabase,
+      logger,
+    });
+  }
+  logger.info(endingFunctionString, { numberOfSnapshots });
+  await logger.flush();
+  return numberOfSnapshots;
+};
+
+// One account failing, e.g. with a revoked token, doesn't stop the others.
+const collectPlatformMetrics = async ({
+  platform,
+  publishedSince,
+  supabase,
+  logger,
+}: {
+  platform: PublishPlatform;
+  publishedSince: string;
+  supabase: SupabaseServerClient;
+  logger: Logger;
+}) => {
+  const adapter = platformAdapters[platform];
+  const trackedPosts = await adapter.listTrackedPosts({
+    publishedSince,
+    supabase,
+  });
+  if (trackedPosts.length === 0) {
+    return 0;
+  }
+  const postsByAccount: { [accountId: string]: TrackedPost[] } = {};
+  trackedPosts.forEach((post) => {
+    postsByAccount[post.accountId] ??= [];
+    postsByAccount[post.accountId].push(post);
+  });
+  const { data: accounts, error } = await supabase
+    .from(adapter.accountTable)
+    .select("*")
+    .in("id", Object.keys(postsByAccount));
+  if (error) {
+    logger.error(errorString, { ...error, platform });
+    throw error;
+  }
+  const snapshots: TablesInsert<"post-metric-snapshots">[] = [];
+  for (let i = 0; i < accounts.length; i++) {
+    const account = accounts[i];
+    const posts = postsByAccount[account.id];
+    const workspaceId = account.workspace_id;
+    // Snapshots are shown per workspace, so an account outside one is skipped.
+    if (!workspaceId) {
+      continue;
+    }
+    try {
+      const metrics = await adapter.fetchPostMetrics({
+        account: decryptAccountTokens(adapter.accountTable, account),
+        platformPostIds: posts.map(({ platformPostId }) => platformPostId),
+      });
+      posts.forEach((post) => {
+        if (metrics[post.platformPostId]) {
+          snapshots.push({
+            user_id: post.userId,
+            workspace_id: workspaceId,
+            parent_social_media_post_id: post.parentSocialMediaPostId,
+            platform,
+            account_id: post.accountId,
+            platform_post_id: post.platformPostId,
+            ...metrics[post.platformPostId],
+          });
+        }
+      });
+    } catch (error) {
+      logger.error(errorString, {
+        error: error instanceof Error ? error.message : JSON.stringify(error),
+        platform,
+        accountId: account.id,
+      });
+    }
+  }
+  if (snapshots.length === 0) {
+    return 0;
+  }
+  const { error: insertError } = await supabase
+    .from("post-metric-snapshots")
+    .insert(snapshots);
+  if (insertError) {
+    logger.error(errorString, { ...insertError, platform });
+    throw insertError;
+  }
+  return snapshots.length;
+};
+
+export const fetchAnalyticsOverview = async (workspaceId: string) => {
+  const logger = new Logger().with({
+    function: "fetchAnalyticsOverview",
+    workspaceId,
+  });
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("latest-post-metric-snapshots")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("captured_at", { ascending: false });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your analytics. Please try again."
+    );
+  }
+  const posts: PostAnalytics[] = data.map((snapshot) => ({
+    socialMediaPostId: snapshot.parent_social_media_post_id!,
+    platform: snapshot.platform as PublishPlatform,
+    accountId: snapshot.account_id!,
+    platformPostId: snapshot.platform_post_id!,
+    capturedAt: snapshot.captured_at!,
+    metrics: toPostMetrics(snapshot),
+  }));
+  const postsByAccount: { [accountKey: string]: PostAnalytics[] } = {};
+  posts.forEach((post) => {
+    const accountKey = `${post.platform}-${post.accountId}`;
+    postsByAccount[accountKey] ??= [];
+    postsByAccount[accountKey].push(post);
+  });
+  const accounts: AccountAnalytics[] = Object.values(postsByAccount).map(
+    (accountPosts) => ({
+      platform: accountPosts[0].platform,
+      accountId: accountPosts[0].accountId,
+      numberOfPosts: accountPosts.length,
+      totals: sumPostMetrics(accountPosts.map(({ metrics }) => metrics)),
+    })
+  );
+  return { accounts, posts };
+};
+
+export const fetchPostMetricsHistory = async ({
+  socialMediaPostId,
+  workspaceId,
+}: {
+  socialMediaPostId: string;
+  workspaceId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "fetchPostMetricsHistory",
+    socialMediaPostId,
+    workspaceId,
+  });
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("post-metric-snapshots")
+    .select("*")
+    .eq("parent_social_media_post_id", socialMediaPostId)
+    .eq("workspace_id", workspaceId)
+    .order("captured_at", { ascending: true });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading this post's analytics. Please try again."
+    );
+  }
+  const histories: { [postKey: string]: PostMetricsHistory } = {};
+  data.forEach((snapshot) => {
+    const postKey = `${snapshot.platform}-${snapshot.platform_post_id}`;
+    histories[postKey] ??= {
+      platform: snapshot.platform as PublishPlatform,
+      accountId: snapshot.account_id,
+      platformPostId: snapshot.platform_post_id,
+      snapshots: [],
+    };
+    histories[postKey].snapshots.push({
+      capturedAt: snapshot.captured_at,
+      metrics: toPostMetrics(snapshot),
+    });
+  });
+  return Object.values(histories);
+};
@@ -0,0 +1,225 @@
+"use server";
+
+import { errorString, Logger } from "@/utils/logging";
+import { createClient } from "@/utils/supabase/server";
+import { Tables } from "@/types/supabase";
+import {
+  InstagramDestinationSettings,
+  SocialMediaPostDestination,
+  SocialMediaPostDestinationStatus,
+  SocialMediaPostStatus,
+  TikTokDestinationSettings,
+  YoutubeDestinationSettings,
+} from "./socialMediaPostQueue";
+
+const POST_HISTORY_PAGE_SIZE = 50;
+
+export type SocialMediaPostOutcome = {
+  destinationId: string | null;
+  platform: SocialMediaPostDestination["platform"];
+  accountId: string;
+  status: SocialMediaPostDestinationStatus;
+  errorMessage: string | null;
+  nextAttemptAt: string | null;
+  scheduledAt: string | null;
+  caption: string | null;
+  url: string | null;
+  // Published to the creator's TikTok inbox rather than their profile.
+  sentToInbox: boolean;
+};
+
+export type SocialMediaPostHistoryEntry = {
+  id: string;
+  createdAt: string;
+  scheduledAt: string | null;
+  status: SocialMediaPostStatus;
+  // Left by the editor who rejected the post.
+  reviewComment: string | null;
+  outcomes: SocialMediaPostOutcome[];
+};
+
+export const fetchSocialMediaPostHistory = async (workspaceId: string) => {
+  const logger = new Logger().with({
+    function: "fetchSocialMediaPostHistory",
+    workspaceId,
+  });
+  const supabase = createClient();
+  const { data: posts, error } = await supabase
+    .from("social-media-posts")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: false })
+    .limit(POST_HISTORY_PAGE_SIZE);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your posts. Please try again."
+    );
+  }
+  const postIds = posts.map((post) => post.id);
+
+  const [destinations, instagramPosts, tiktokPosts, youtubePosts] =
+    await Promise.all([
+      supabase
+        .from("social-media-post-destinations")
+        .select("*")
+        .in("parent_social_media_post_id", postIds)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("instagram-posts")
+        .select("*")
+        .in("parent_social_media_post_id", postIds),
+      supabase
+        .from("tiktok-posts")
+        .select("*")
+        .in("parent_social_media_post_id", postIds),
+      supabase
+        .from("youtube-posts")
+        .select("*")
+        .in("parent_social_media_post_id", postIds),
+    ]);
+  const queryError =
+    destinations.error ??
+    instagramPosts.error ??
+    tiktokPosts.error ??
+    youtubePosts.error;
+  if (queryError) {
+    logger.error(errorString, queryError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your posts. Please try again."
+    );
+  }
+
+  return posts
+    .map(
+      (post): SocialMediaPostHistoryEntry => ({
+        id: post.id,
+        createdAt: post.created_at,
+        scheduledAt: post.scheduled_at,
+        status: post.status as SocialMediaPostStatus,
+        reviewComment: post.review_comment,
+        outcomes: buildOutcomes({
+          destinations: (destinations.data ?? []).filter(
+            (destination) => destination.parent_social_media_post_id === post.id
+          ),
+          instagramPosts: (instagramPosts.data ?? []).filter(
+            (row) => row.parent_social_media_post_id === post.id
+          ),
+          tiktokPosts: (tiktokPosts.data ?? []).filter(
+            (row) => row.parent_social_media_post_id === post.id
+          ),
+          youtubePosts: (youtubePosts.data ?? []).filter(
+            (row) => row.parent_social_media_post_id === post.id
+          ),
+        }),
+      })
+    )
+    .filter((entry) => entry.outcomes.length > 0);
+};
+
+// Posts published before destinations were persisted only have their platform
+// rows, so those are folded in as published outcomes.
+const buildOutcomes = ({
+  destinations,
+  instagramPosts,
+  tiktokPosts,
+  youtubePosts,
+}: {
+  destinations: Tables<"social-media-post-destinations">[];
+  instagramPosts: Tables<"instagram-posts">[];
+  tiktokPosts: Tables<"tiktok-posts">[];
+  youtubePosts: Tables<"youtube-posts">[];
+}) => {
+  const outcomes: SocialMediaPostOutcome[] = destinations.map(
+    (destination) => ({
+      destinationId: destination.id,
+      platform: destination.platform as SocialMediaPostDestination["platform"],
+      accountId: destination.account_id,
+      status: destination.status as SocialMediaPostDestinationStatus,
+      errorMessage: destination.error_message,
+      nextAttemptAt: destination.next_attempt_at,
+      scheduledAt: destination.scheduled_at,
+      caption: captionFromSettings(destination),
+      url: destination.platform_post_url,
+      sentToInbox:
+        destination.platform === "tiktok" &&
+        (destination.settings as TikTokDestinationSettings).postMode ===
+          "MEDIA_UPLOAD",
+    })
+  );
+  const hasOutcome = (
+    platform: SocialMediaPostDestination["platform"],
+    accountId: string
+  ) =>
+    outcomes.some(
+      (outcome) =>
+        outcome.platform === platform && outcome.accountId === accountId
+    );
+
+  instagramPosts.forEach((row) => {
+    if (!hasOutcome("instagram", row.instagram_account_id)) {
+      outcomes.push({
+        destinationId: null,
+        platform: "instagram",
+        accountId: row.instagram_account_id,
+        status: "published",
+        errorMessage: null,
+        nextAttemptAt: null,
+        scheduledAt: null,
+        caption: row.caption,
+        url: row.permalink,
+        sentToInbox: false,
+      });
+    }
+  });
+  tiktokPosts.forEach((row) => {
+    if (!hasOutcome("tiktok", row.tiktok_account_id)) {
+      outcomes.push({
+        destinationId: null,
+        platform: "tiktok",
+        accountId: row.tiktok_account_id,
+        status: "published",
+        errorMessage: null,
+        nextAttemptAt: null,
+        scheduledAt: null,
+        caption: row.caption,
+        url: row.permalink,
+        sentToInbox: row.post_mode === "MEDIA_UPLOAD",
+      });
+    }
+  });
+  youtubePosts.forEach((row) => {
+    if (!hasOutcome("youtube", row.youtube_channel_id)) {
+      outcomes.push({
+        destinationId: null,
+        platform: "youtube",
+        accountId: row.youtube_channel_id,
+        status: "published",
+        errorMessage: null,
+        nextAttemptAt: null,
+        scheduledAt: null,
+        caption: row.title,
+        url: `https://www.youtube.com/watch?v=${row.id}`,
+        sentToInbox: false,
+      });
+    }
+  });
+  return outcomes;
+};
+
+const captionFromSettings = (
+  destination: Tables<"social-media-post-destinations">
+) => {
+  switch (destination.platform) {
+    case "instagram":
+      return (destination.settings as InstagramDestinationSettings).caption;
+    case "tiktok":
+      return (destination.settings as TikTokDestinationSettings).caption;
+    case "youtube":
+      return (destination.settings as YoutubeDestinationSettings).title;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,353 @@
+"use server";
+
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import { createClient, SupabaseServerClient } from "@/utils/supabase/server";
+import { PublishPlatform } from "@/utils/publishRetry";
+import {
+  findNextFreeSlotTime,
+  isValidTimeZone,
+  listUpcomingSlotTimes,
+} from "@/utils/queueSlots";
+import { revalidatePath } from "next/cache";
+
+// Destinations that haven't started publishing yet can still be moved between
+// slots.
+const movableDestinationStatuses = ["uploading", "pending"];
+
+export const fetchQueueSlots = async (workspaceId: string) => {
+  const logger = new Logger().with({
+    function: "fetchQueueSlots",
+    workspaceId,
+  });
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("account-queue-slots")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("day_of_week", { ascending: true })
+    .order("time_of_day", { ascending: true });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your queue slots. Please try again."
+    );
+  }
+  return data;
+};
+
+export const addQueueSlot = async ({
+  userId,
+  workspaceId,
+  platform,
+  accountId,
+  dayOfWeek,
+  timeOfDay,
+  timezone,
+}: {
+  userId: string;
+  workspaceId: string;
+  platform: PublishPlatform;
+  accountId: string;
+  dayOfWeek: number;
+  timeOfDay: string;
+  timezone: string;
+}) => {
+  const logger = new Logger().with({
+    function: "addQueueSlot",
+    userId,
+    workspaceId,
+    platform,
+    accountId,
+    dayOfWeek,
+    timeOfDay,
+    timezone,
+  });
+  logger.info(startingFunctionString);
+  if (
+    !Number.isInteger(dayOfWeek) ||
+    dayOfWeek < 0 ||
+    dayOfWeek > 6 ||
+    !/^([01]\d|2[0-3]):[0-5]\d$/.test(timeOfDay) ||
+    !isValidTimeZone(timezone)
+  ) {
+    logger.error(errorString, { error: "Invalid queue slot" });
+    await logger.flush();
+    throw new Error("Please pick a valid day and time for your queue slot.");
+  }
+  const supabase = createClient();
+  const { error } = await supabase.from("account-queue-slots").insert({
+    user_id: userId,
+    workspace_id: workspaceId,
+    platform,
+    account_id: accountId,
+    day_of_week: dayOfWeek,
+    time_of_day: timeOfDay,
+    timezone,
+  });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      error.code === "23505"
+        ? "This account already has a queue slot at that time."
+        : "Sorry, we had an issue adding your queue slot. Please try again."
+    );
+  }
+  await reshuffleAccountQueue({ workspaceId, platform, accountId, supabase });
+  logger.info(endingFunctionString);
+  await logger.flush();
+  revalidatePath("/accounts");
+};
+
+export const deleteQueueSlot = async ({
+  userId,
+  slotId,
+}: {
+  userId: string;
+  slotId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "deleteQueueSlot",
+    userId,
+    slotId,
+  });
+  logger.info(startingFunctionString);
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("account-queue-slots")
+    .delete()
+    .eq("id", slotId)
+    .select("platform, account_id, workspace_id")
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue deleting your queue slot. Please try again."
+    );
+  }
+  await reshuffleAccountQueue({
+    workspaceId: data.workspace_id,
+    platform: data.platform as PublishPlatform,
+    accountId: data.account_id,
+    supabase,
+  });
+  logger.info(endingFunctionString);
+  await logger.flush();
+  revalidatePath("/accounts");
+};
+
+// Picks the next free slot for every destination. Destinations are allocated
+// in order, so two destinations on the same account get consecutive slots.
+export const assignQueueSlotTimes = async ({
+  workspaceId,
+  destinations,
+  supabase = createClient(),
+}: {
+  workspaceId: string;
+  destinations: { platform: PublishPlatform; accountId: string }[];
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "assignQueueSlotTimes",
+    workspaceId,
+  });
+  const takenTimesByAccount: { [accountKey: string]: string[] } = {};
+  const scheduledTimes: string[] = [];
+  for (let i = 0; i < destinations.length; i++) {
+    const { platform, accountId } = destinations[i];
+    const accountKey = `${platform}-${accountId}`;
+    const { slots, queuedDestinations } = await fetchAccountQueue({
+      workspaceId,
+      platform,
+      accountId,
+      supabase,
+    });
+    if (slots.length === 0) {
+      logger.error(errorString, {
+        error: "Account has no queue slots",
+        platform,
+        accountId,
+      });
+      await logger.flush();
+      throw new Error(
+        "One of your accounts doesn't have any queue slots yet. Add some on the accounts page first."
+      );
+    }
+    takenTimesByAccount[accountKey] ??= queuedDestinations.map(
+      ({ scheduled_at }) => scheduled_at!
+    );
+    const slotTime = findNextFreeSlotTime({
+      slots,
+      takenTimes: takenTimesByAccount[accountKey],
+      after: new Date(),
+    });
+    if (!slotTime) {
+      logger.error(errorString, {
+        error: "Queue is full",
+        platform,
+        accountId,
+      });
+      await logger.flush();
+      throw new Error(
+        "One of your accounts has a full queue. Add more queue slots or remove a queued post first."
+      );
+    }
+    takenTimesByAccount[accountKey].push(slotTime.toISOString());
+    scheduledTimes.push(slotTime.toISOString());
+  }
+  return scheduledTimes;
+};
+
+// Moves an account's queued destinations into its earliest upcoming slots, so
+// removing a post or changing the slots doesn't leave gaps in the queue.
+export const reshuffleAccountQueue = async ({
+  workspaceId,
+  platform,
+  accountId,
+  supabase = createClient(),
+}: {
+  workspaceId: string;
+  platform: PublishPlatform;
+  accountId: string;
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "reshuffleAccountQueue",
+    workspaceId,
+    platform,
+    accountId,
+  });
+  const { slots, queuedDestinations } = await fetchAccountQueue({
+    workspaceId,
+    platform,
+    accountId,
+    supabase,
+  });
+  if (slots.length === 0 || queuedDestinations.length === 0) {
+    return;
+  }
+  const slotTimes = listUpcomingSlotTimes(slots, new Date());
+  const movedDestinations = queuedDestinations
+    .map((destination, index) => ({
+      destination,
+      scheduledAt: slotTimes[index]?.toISOString(),
+    }))
+    .filter(
+      ({ destination, scheduledAt }) =>
+        scheduledAt &&
+        new Date(destination.scheduled_at!).getTime() !==
+          new Date(scheduledAt).getTime()
+    );
+  for (let i = 0; i < movedDestinations.length; i++) {
+    const { destination, scheduledAt } = movedDestinations[i];
+    const { error } = await supabase
+      .from("social-media-post-destinations")
+      .update({
+        scheduled_at: scheduledAt,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", destination.id)
+      .in("status", movableDestinationStatuses);
+    if (error) {
+      logger.error(errorString, error);
+      await logger.flush();
+      throw new Error(
+        "Sorry, we had an issue updating your queue. Please try again."
+      );
+    }
+  }
+  const socialMediaPostIds = Array.from(
+    new Set(
+      movedDestinations.map(
+        ({ destination }) => destination.parent_social_media_post_id
+      )
+    )
+  );
+  for (let i = 0; i < socialMediaPostIds.length; i++) {
+    await updateQueuedPostScheduledAt({
+      socialMediaPostId: socialMediaPostIds[i],
+      supabase,
+    });
+  }
+  logger.info("Reshuffled queue", {
+    numberOfDestinations: movedDestinations.length,
+  });
+  await logger.flush();
+};
+
+const fetchAccountQueue = async ({
+  workspaceId,
+  platform,
+  accountId,
+  supabase,
+}: {
+  workspaceId: string;
+  platform: PublishPlatform;
+  accountId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const [slots, queuedDestinations] = await Promise.all([
+    supabase
+      .from("account-queue-slots")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .eq("platform", platform)
+      .eq("account_id", accountId),
+    supabase
+      .from("social-media-post-destinations")
+      .select("*")
+      .eq("platform", platform)
+      .eq("account_id", accountId)
+      .eq("queued", true)
+      .in("status", movableDestinationStatuses)
+      .gt("scheduled_at", new Date().toISOString())
+      .order("scheduled_at", { ascending: true }),
+  ]);
+  const error = slots.error ?? queuedDestinations.error;
+  if (error) {
+    throw error;
+  }
+  return {
+    slots: slots.data ?? [],
+    queuedDestinations: queuedDestinations.data ?? [],
+  };
+};
+
+// A scheduled post is promoted once its earliest destination is due; the other
+// destinations wait for their own slot.
+const updateQueuedPostScheduledAt = async ({
+  socialMediaPostId,
+  supabase,
+}: {
+  socialMediaPostId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const { data, error } = await supabase
+    .from("social-media-post-destinations")
+    .select("scheduled_at")
+    .eq("parent_social_media_post_id", socialMediaPostId)
+    .not("scheduled_at", "is", null)
+    .order("scheduled_at", { ascending: true })
+    .limit(1);
+  if (error) {
+    throw error;
+  }
+  if (data.length === 0) {
+    return;
+  }
+  const { error: postError } = await supabase
+    .from("social-media-posts")
+    .update({ scheduled_at: data[0].scheduled_at })
+    .eq("id", socialMediaPostId)
+    .in("status", ["uploading", "pending_approval", "scheduled"]);
+  if (postError) {
+    throw postError;
+  }
+};
@@ -1,8 +1,7 @@
 "use server";
 
-import { errorString } from "@/utils/logging";
+import { errorString, Logger } from "@/utils/logging";
 import { createAdminClient, createClient } from "@/utils/supabase/server";
-import { Logger } from "next-axiom";
 import { fetchCreatorInfo } from "./tiktok";
 import { Tables } from "@/types/supabase";
 import {
@@ -11,13 +10,17 @@ import {
 } from "./instagramAccounts";
 import { getYoutubeChannelInfo } from "./youtube";
 import { Credentials } from "google-auth-library";
+import { TikTokCreatorConstraints } from "@/utils/tiktok";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
 
 const bucketName =
   process.env.NEXT_PUBLIC_SOCIAL_MEDIA_POST_MEDIA_FILES_STORAGE_BUCKET;
 
-export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
+export const fetchUserConnectSocialMediaAccounts = async (
+  workspaceId: string
+) => {
   const logger = new Logger().with({
-    userId,
+    workspaceId,
     function: "fetchUserConnectSocialMediaAccounts",
   });
   if (!bucketName) {
@@ -29,14 +32,17 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
   }
   const supabase = createClient();
   const { data: instagramAccounts, error: instagramAccountError } =
-    await supabase.from("instagram-accounts").select("*").eq("user_id", userId);
+    await supabase
+      .from("instagram-accounts")
+      .select("*")
+      .eq("workspace_id", workspaceId);
   if (instagramAccountError) {
     logger.error(errorString, instagramAccountError);
   }
   const { data: youtubeChannels, error: youtubeChannelError } = await supabase
     .from("youtube-channels")
     .select("*")
-    .eq("user_id", userId);
+    .eq("workspace_id", workspaceId);
   if (youtubeChannelError) {
     logger.error(errorString, youtubeChannelError);
   }
@@ -44,7 +50,7 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
   const { data: tiktokAccounts, error: tiktokAccountError } = await supabase
     .from("tiktok-accounts")
     .select("*")
-    .eq("user_id", userId);
+    .eq("workspace_id", workspaceId);
   if (tiktokAccountError) {
     logger.error(errorString, tiktokAccountError);
   }
@@ -58,7 +64,8 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
 
             const response = await fetchInstagramUsernameFromPageId({
               instagramBusinessAccountId: account.instagram_business_account_id,
-              accessToken: account.access_token,
+              accessToken: decryptAccountTokens("instagram-accounts", account)
+                .access_token,
             });
 
             username = response?.username;
@@ -69,7 +76,7 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
               quota_usage,
             } = await fetchInstagramPublishingRateLimit({
               instagramBusinessAccountId: account.instagram_business_account_id,
-              userId,
+              workspaceId,
             });
             return {
               ...account,
@@ -97,7 +104,8 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
         youtubeChannels?.map(
           async (channel): Promise<YoutubeChannelWithVideoRestrictions> => {
             const channelInfo = await getYoutubeChannelInfo(
-              channel.credentials as Credentials
+              decryptAccountTokens("youtube-channels", channel)
+                .credentials as Credentials
             );
             const thumbnail = channelInfo?.thumbnail;
             return {
@@ -118,8 +126,8 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
     ? await Promise.all(
         tiktokAccounts?.map(
           async (account): Promise<TikTokAccountWithVideoRestrictions> => {
-            const { data, errorMessage } = await fetchCreatorInfo(
-              account.access_token
+            const { data, constraints, errorMessage } = await fetchCreatorInfo(
+              decryptAccountTokens("tiktok-accounts", account).access_token
             );
             return {
               ...account,
@@ -132,6 +140,7 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
               min_video_duration: 3,
               max_video_duration: data?.max_video_post_duration_sec ?? 0,
               max_video_size: 1024 * 1024 * 1024 * 4,
+              creator_constraints: constraints,
               error: errorMessage,
             };
           }
@@ -146,9 +155,42 @@ export const fetchUserConnectSocialMediaAccounts = async (userId: string) => {
   };
 };
 
+export type AccountSummary = {
+  name: string;
+  pictureUrl: string;
+};
+
+// Names and pictures keyed by account id, for the pages that list posts.
+export const fetchAccountSummaries = async (workspaceId: string) => {
+  const { instagramAccounts, tiktokAccounts, youtubeChannels } =
+    await fetchUserConnectSocialMediaAccounts(workspaceId);
+  const accounts: { [accountId: string]: AccountSummary } = {};
+  instagramAccounts.forEach((account) => {
+    accounts[account.id] = {
+      name: account.account_name,
+      pictureUrl: account.picture_file_path,
+    };
+  });
+  tiktokAccounts.forEach((account) => {
+    accounts[account.id] = {
+      name: account.account_name,
+      pictureUrl: account.profile_picture_file_path,
+    };
+  });
+  youtubeChannels.forEach((channel) => {
+    accounts[channel.id] = {
+      name: channel.channel_custom_url,
+      pictureUrl: channel.profile_picture_path,
+    };
+  });
+  return accounts;
+};
+
 export type TikTokAccountWithVideoRestrictions = Tables<"tiktok-accounts"> & {
   profile_picture_file_path: string;
   account_name: string;
+  // Null when TikTok wouldn't tell us, in which case `error` is set.
+  creator_constraints: TikTokCreatorConstraints | null;
 } & VideoPostingRestrictions;
 
 export type YoutubeChannelWithVideoRestrictions = Tables<"youtube-channels"> &
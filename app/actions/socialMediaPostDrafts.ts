@@ -0,0 +1,311 @@
+"use server";
+
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import { createClient } from "@/utils/supabase/server";
+import {
+  deleteFiles,
+  getSignedUrl,
+  socialMediaPostMediaFilesStorageBucket,
+} from "@/utils/supabase/storage";
+import { PublishPlatform } from "@/utils/publishRetry";
+import { revalidatePath } from "next/cache";
+import { PrivacyLevel } from "./tiktok";
+import { YoutubeVideoStatus } from "./youtube";
+import { SocialMediaPostStatus } from "./socialMediaPostQueue";
+
+// Long enough for the create-post page to download the media back into the
+// form after opening a draft.
+const DRAFT_MEDIA_URL_DURATION_SECONDS = 60 * 60;
+
+export type SocialMediaPostDraftSettings = {
+  selectedAccounts: { platform: PublishPlatform; accountId: string }[];
+  baseCaption?: string;
+  // Per-platform text is null while it follows the base caption.
+  instagramCaption: string | null;
+  tiktokTitle: string;
+  tiktokCaption: string | null;
+  tiktokPrivacyLevel: PrivacyLevel;
+  disableDuet: boolean;
+  disableComment: boolean;
+  disableStitch: boolean;
+  tiktokAutoAddMusicToPhotos: boolean;
+  tiktokShouldDiscloseContent: boolean;
+  tiktokIsYourBrandPromotion: boolean;
+  tiktokIsBrandedContent: boolean;
+  tiktokInboxAccountIds?: string[];
+  youtubeTitle: string | null;
+  youtubeVisibility: YoutubeVideoStatus;
+  youtubeDescription: string;
+  youtubeTags: string[];
+  youtubeCategoryId: string;
+  youtubeDefaultLanguage: string;
+  youtubeMadeForKids: boolean;
+  showWatermark: boolean;
+};
+
+export type SocialMediaPostDraft = {
+  id: string;
+  updatedAt: string;
+  settings: SocialMediaPostDraftSettings;
+  mediaFiles: { path: string; url: string }[];
+};
+
+const draftStatus: SocialMediaPostStatus = "draft";
+
+export const createSocialMediaPostDraft = async ({
+  userId,
+  workspaceId,
+}: {
+  userId: string;
+  workspaceId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "createSocialMediaPostDraft",
+    userId,
+    workspaceId,
+  });
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("social-media-posts")
+    .insert({
+      user_id: userId,
+      workspace_id: workspaceId,
+      status: draftStatus,
+    })
+    .select("id")
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue saving your draft. Please try again."
+    );
+  }
+  logger.info("Social media post draft created", {
+    socialMediaPostId: data.id,
+  });
+  await logger.flush();
+  return data.id;
+};
+
+// Row level security limits posts to the user's workspaces, so any teammate
+// can pick up and edit a draft.
+export const saveSocialMediaPostDraft = async ({
+  socialMediaPostId,
+  userId,
+  settings,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+  settings: SocialMediaPostDraftSettings;
+}) => {
+  const logger = new Logger().with({
+    function: "saveSocialMediaPostDraft",
+    socialMediaPostId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("social-media-posts")
+    .update({
+      draft_settings: settings,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", socialMediaPostId)
+    .eq("status", draftStatus)
+    .select("id");
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue saving your draft. Please try again."
+    );
+  }
+  if (data.length === 0) {
+    logger.error(errorString, { error: "Draft not found" });
+    await logger.flush();
+    throw new Error(
+      "This draft has already been posted. Please refresh the page to start a new post."
+    );
+  }
+  logger.info(endingFunctionString);
+  await logger.flush();
+  revalidatePath("/posts");
+};
+
+export const fetchSocialMediaPostDrafts = async (workspaceId: string) => {
+  const logger = new Logger().with({
+    function: "fetchSocialMediaPostDrafts",
+    workspaceId,
+  });
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("social-media-posts")
+    .select("id, updated_at, draft_settings")
+    .eq("workspace_id", workspaceId)
+    .eq("status", draftStatus)
+    .order("updated_at", { ascending: false });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your drafts. Please try again."
+    );
+  }
+  return data
+    .filter((draft) => draft.draft_settings)
+    .map((draft) => ({
+      id: draft.id,
+      updatedAt: draft.updated_at,
+      settings: draft.draft_settings as SocialMediaPostDraftSettings,
+    }));
+};
+
+export const fetchSocialMediaPostDraft = async ({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}): Promise<SocialMediaPostDraft> => {
+  const logger = new Logger().with({
+    function: "fetchSocialMediaPostDraft",
+    socialMediaPostId,
+    userId,
+  });
+  const supabase = createClient();
+  const { data: draft, error } = await supabase
+    .from("social-media-posts")
+    .select("id, updated_at, draft_settings")
+    .eq("id", socialMediaPostId)
+    .eq("status", draftStatus)
+    .single();
+  if (error || !draft.draft_settings) {
+    logger.error(errorString, error ?? { error: "Draft has no settings" });
+    await logger.flush();
+    throw new Error("Sorry, we couldn't find this draft.");
+  }
+  const { data: mediaFiles, error: mediaFilesError } = await supabase
+    .from("social-media-post-media-files")
+    .select("media_file_path")
+    .eq("parent_social_media_post_id", socialMediaPostId)
+    .order("created_at", { ascending: true });
+  if (mediaFilesError) {
+    logger.error(errorString, mediaFilesError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your draft. Please try again."
+    );
+  }
+  return {
+    id: draft.id,
+    updatedAt: draft.updated_at,
+    settings: draft.draft_settings as SocialMediaPostDraftSettings,
+    mediaFiles: await Promise.all(
+      mediaFiles.map(async ({ media_file_path }) => ({
+        path: media_file_path,
+        url: await getSignedUrl({
+          bucketName: socialMediaPostMediaFilesStorageBucket,
+          duration: DRAFT_MEDIA_URL_DURATION_SECONDS,
+          filePath: media_file_path,
+          supabase,
+        }),
+      }))
+    ),
+  };
+};
+
+// The form uploads every file again when a draft is saved or posted, so the
+// previous uploads are cleared first to keep the media in the user's order. A
+// draft being posted is already uploading by the time its media is replaced.
+export const clearSocialMediaPostDraftMediaFiles = async ({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "clearSocialMediaPostDraftMediaFiles",
+    socialMediaPostId,
+    userId,
+  });
+  const supabase = createClient();
+  const { data: draft, error: draftError } = await supabase
+    .from("social-media-posts")
+    .select("id")
+    .eq("id", socialMediaPostId)
+    .in("status", [draftStatus, "uploading"])
+    .maybeSingle();
+  if (draftError || !draft) {
+    logger.error(errorString, draftError ?? { error: "Draft not found" });
+    await logger.flush();
+    throw new Error(
+      "This draft has already been posted. Please refresh the page to start a new post."
+    );
+  }
+  const { data: mediaFiles, error } = await supabase
+    .from("social-media-post-media-files")
+    .delete()
+    .eq("parent_social_media_post_id", socialMediaPostId)
+    .select("media_file_path");
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue saving your draft. Please try again."
+    );
+  }
+  try {
+    await deleteFiles({
+      bucketName: socialMediaPostMediaFilesStorageBucket,
+      filePaths: mediaFiles.map(({ media_file_path }) => media_file_path),
+      supabase,
+    });
+  } catch (error) {
+    // Uploads overwrite files at the same path, so a leftover file is only
+    // wasted storage.
+    logger.error(errorString, {
+      error: error instanceof Error ? error.message : JSON.stringify(error),
+    });
+  }
+  await logger.flush();
+};
+
+export const deleteSocialMediaPostDraft = async ({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "deleteSocialMediaPostDraft",
+    socialMediaPostId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  await clearSocialMediaPostDraftMediaFiles({ socialMediaPostId, userId });
+  const supabase = createClient();
+  const { error } = await supabase
+    .from("social-media-posts")
+    .delete()
+    .eq("id", socialMediaPostId)
+    .eq("status", draftStatus);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue deleting your draft. Please try again."
+    );
+  }
+  logger.info(endingFunctionString);
+  await logger.flush();
+  revalidatePath("/posts");
+};
@@ -0,0 +1,1179 @@
+"use server";
+
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import {
+  createAdminClient,
+  createClient,
+  SupabaseServerClient,
+} from "@/utils/supabase/server";
+import {
+  calculateNextAttemptAt,
+  isRetryableError,
+  PublishPlatform,
+  retryPolicies,
+} from "@/utils/publishRetry";
+import { Tables, TablesUpdate } from "@/types/supabase";
+import { getPlatformAdapter } from "@/utils/platforms";
+import { PlatformAccountTable } from "@/utils/platforms/types";
+import { PrivacyLevel, TikTokPostMode } from "./tiktok";
+import { YoutubeVideoStatus } from "./youtube";
+import { assignQueueSlotTimes, reshuffleAccountQueue } from "./queueSlots";
+import { socialMediaPostMediaFilesStorageBucket } from "@/utils/supabase/storage";
+import { canPublishPosts } from "@/utils/workspaceRoles";
+import { fetchWorkspaceRole } from "./workspaces";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
+
+export type SocialMediaPostStatus =
+  | "draft"
+  | "uploading"
+  | "pending_approval"
+  | "rejected"
+  | "scheduled"
+  | "publishing"
+  | "published"
+  | "failed";
+
+export type SocialMediaPostDestinationStatus =
+  | "uploading"
+  | "pending"
+  | "processing"
+  | "published"
+  | "failed"
+  | "rejected";
+
+export type InstagramDestinationSettings = {
+  caption: string;
+  postType: "video" | "image";
+};
+
+export type TikTokDestinationSettings = {
+  title?: string;
+  caption: string;
+  postType: "video" | "image";
+  privacyLevel: PrivacyLevel;
+  disableDuet: boolean;
+  disableComment: boolean;
+  disableStitch: boolean;
+  autoAddMusic: boolean;
+  brandOrganicToggle: boolean;
+  brandContentToggle: boolean;
+  // Destinations queued before inbox uploads were added are direct posts.
+  postMode?: TikTokPostMode;
+  // Destinations queued before this was recorded skip the duration check.
+  videoDurationSec?: number;
+};
+
+export type YoutubeDestinationSettings = {
+  title: string;
+  // Destinations queued before visibility was added only have isPrivate.
+  isPrivate?: boolean;
+  visibility?: YoutubeVideoStatus;
+  description?: string;
+  tags?: string[];
+  categoryId?: string;
+  madeForKids?: boolean;
+  defaultLanguage?: string;
+  thumbnailPath?: string;
+};
+
+export type SocialMediaPostDestination =
+  | {
+      platform: "instagram";
+      accountId: string;
+      settings: InstagramDestinationSettings;
+    }
+  | {
+      platform: "tiktok";
+      accountId: string;
+      settings: TikTokDestinationSettings;
+    }
+  | {
+      platform: "youtube";
+      accountId: string;
+      settings: YoutubeDestinationSettings;
+    };
+
+// Destinations are advanced in small batches so a single cron invocation stays
+// well within the function's max duration.
+const DESTINATIONS_BATCH_SIZE = 10;
+// Longer than the 300 second max duration so a destination whose step was cut
+// off by a function timeout becomes claimable again on the next run.
+const DESTINATION_LOCK_DURATION_MS = 6 * 60 * 1000;
+// Media is uploaded from the browser, so a post that is still uploading this
+// long after it was enqueued was abandoned (tab closed, connection lost) and
+// will never start.
+const STALE_UPLOAD_DURATION_MS = 60 * 60 * 1000;
+
+const activeDestinationStatuses: SocialMediaPostDestinationStatus[] = [
+  "pending",
+  "processing",
+];
+
+export const enqueueSocialMediaPost = async ({
+  socialMediaPostId,
+  userId,
+  workspaceId,
+  destinations,
+  scheduledAt,
+  addToQueue = false,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+  workspaceId: string;
+  destinations: SocialMediaPostDestination[];
+  scheduledAt?: string;
+  addToQueue?: boolean;
+}) => {
+  const logger = new Logger().with({
+    function: "enqueueSocialMediaPost",
+    socialMediaPostId,
+    userId,
+    workspaceId,
+    scheduledAt,
+    addToQueue,
+  });
+  logger.info(startingFunctionString);
+
+  const scheduledAtDate = scheduledAt ? new Date(scheduledAt) : new Date();
+  if (isNaN(scheduledAtDate.getTime())) {
+    logger.error(errorString, { error: "Invalid scheduled time" });
+    await logger.flush();
+    throw new Error("Please pick a valid date and time for your post.");
+  }
+  if (scheduledAt && scheduledAtDate.getTime() <= Date.now()) {
+    logger.error(errorString, { error: "Scheduled time is in the past" });
+    await logger.flush();
+    throw new Error("Please pick a time in the future for your post.");
+  }
+  if (destinations.length === 0) {
+    logger.error(errorString, { error: "No destinations provided" });
+    await logger.flush();
+    throw new Error("Please select at least one account to post to.");
+  }
+
+  const supabase = createClient();
+  // Queued destinations each take their account's next free slot instead of
+  // sharing the post's time.
+  const queueSlotTimes = addToQueue
+    ? await assignQueueSlotTimes({ workspaceId, destinations, supabase })
+    : [];
+  const { data, error: destinationsError } = await supabase
+    .from("social-media-post-destinations")
+    .insert(
+      destinations.map((destination, index) => ({
+        parent_social_media_post_id: socialMediaPostId,
+        user_id: userId,
+        platform: destination.platform,
+        account_id: destination.accountId,
+        settings: destination.settings,
+        status: "uploading",
+        queued: addToQueue,
+        scheduled_at: queueSlotTimes[index] ?? null,
+      }))
+    )
+    .select("*");
+  if (destinationsError) {
+    logger.error(errorString, destinationsError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue creating your post. Please try again."
+    );
+  }
+
+  const status: SocialMediaPostStatus = "uploading";
+  const { error: postError } = await supabase
+    .from("social-media-posts")
+    .update({
+      status,
+      // Drafts can be much older than the upload that's about to start, so
+      // this is what failStaleUploads goes by rather than created_at.
+      updated_at: new Date().toISOString(),
+      scheduled_at: addToQueue
+        ? queueSlotTimes.reduce((earliest, time) =>
+            time < earliest ? time : earliest
+          )
+        : scheduledAtDate.toISOString(),
+    })
+    .eq("id", socialMediaPostId)
+    .eq("workspace_id", workspaceId);
+  if (postError) {
+    logger.error(errorString, postError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue creating your post. Please try again."
+    );
+  }
+
+  logger.info(endingFunctionString, { status });
+  await logger.flush();
+  return data;
+};
+
+// Called once the browser has finished uploading the post's media, handing the
+// post over to the queue either right away or at its scheduled time.
+export const startSocialMediaPost = async ({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "startSocialMediaPost",
+    socialMediaPostId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  const errorMessage =
+    "Sorry, we had an issue creating your post. Please try again.";
+  const { socialMediaPost } = await fetchSocialMediaPostToPublish({
+    socialMediaPostId,
+    errorMessage,
+    logger,
+  });
+  const status = await releaseSocialMediaPost({
+    socialMediaPost,
+    fromStatus: "uploading",
+    errorMessage,
+    logger,
+  });
+  logger.info(endingFunctionString, { status });
+  await logger.flush();
+  return status;
+};
+
+// Used instead of startSocialMediaPost by contributors, whose posts wait for
+// an owner or editor to approve them. The destinations stay uploading, so
+// queued ones keep their slots in the meantime.
+export const submitSocialMediaPostForApproval = async ({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "submitSocialMediaPostForApproval",
+    socialMediaPostId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  const supabase = createClient();
+  const status: SocialMediaPostStatus = "pending_approval";
+  const { error } = await supabase
+    .from("social-media-posts")
+    .update({
+      status,
+      review_comment: null,
+      reviewed_by: null,
+      reviewed_at: null,
+    })
+    .eq("id", socialMediaPostId)
+    .eq("status", "uploading");
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue submitting your post. Please try again."
+    );
+  }
+  logger.info(endingFunctionString, { status });
+  await logger.flush();
+  return status;
+};
+
+export const approveSocialMediaPost = async ({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "approveSocialMediaPost",
+    socialMediaPostId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  const errorMessage =
+    "Sorry, we had an issue approving this post. Please try again.";
+  const { socialMediaPost, signedInUserId } =
+    await fetchSocialMediaPostToPublish({
+      socialMediaPostId,
+      errorMessage,
+      logger,
+    });
+  if (socialMediaPost.status !== "pending_approval") {
+    throw new Error("This post has already been reviewed.");
+  }
+  const status = await releaseSocialMediaPost({
+    socialMediaPost,
+    fromStatus: "pending_approval",
+    review: {
+      reviewed_by: signedInUserId,
+      reviewed_at: new Date().toISOString(),
+    },
+    errorMessage,
+    logger,
+  });
+  logger.info(endingFunctionString, { status });
+  await logger.flush();
+  return status;
+};
+
+// The comment is shown on the post so the contributor knows what to change
+// before creating it again.
+export const rejectSocialMediaPost = async ({
+  socialMediaPostId,
+  userId,
+  comment,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+  comment: string;
+}) => {
+  const logger = new Logger().with({
+    function: "rejectSocialMediaPost",
+    socialMediaPostId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  if (!comment.trim()) {
+    throw new Error("Please let your teammate know why the post was rejected.");
+  }
+  const errorMessage =
+    "Sorry, we had an issue rejecting this post. Please try again.";
+  const { socialMediaPost, signedInUserId } =
+    await fetchSocialMediaPostToPublish({
+      socialMediaPostId,
+      errorMessage,
+      logger,
+    });
+  if (socialMediaPost.status !== "pending_approval") {
+    throw new Error("This post has already been reviewed.");
+  }
+  const supabase = createClient();
+  const status: SocialMediaPostStatus = "rejected";
+  const { data: rejectedPosts, error } = await supabase
+    .from("social-media-posts")
+    .update({
+      status,
+      review_comment: comment.trim(),
+      reviewed_by: signedInUserId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", socialMediaPostId)
+    .eq("status", "pending_approval")
+    .select("id");
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(errorMessage);
+  }
+  if (rejectedPosts.length === 0) {
+    throw new Error("This post has already been reviewed.");
+  }
+  const { data: destinations, error: destinationsError } = await supabase
+    .from("social-media-post-destinations")
+    .update({ status: "rejected", updated_at: new Date().toISOString() })
+    .eq("parent_social_media_post_id", socialMediaPostId)
+    .eq("status", "uploading")
+    .select("platform, account_id, queued");
+  if (destinationsError) {
+    logger.error(errorString, destinationsError);
+    await logger.flush();
+    throw new Error(errorMessage);
+  }
+  // The posts queued after this one move up into the slots it held.
+  const queuedDestinations = destinations.filter(({ queued }) => queued);
+  for (let i = 0; i < queuedDestinations.length; i++) {
+    await reshuffleAccountQueue({
+      workspaceId: socialMediaPost.workspace_id,
+      platform: queuedDestinations[i].platform as PublishPlatform,
+      accountId: queuedDestinations[i].account_id,
+      supabase,
+    });
+  }
+  logger.info(endingFunctionString, { status });
+  await logger.flush();
+  return status;
+};
+
+// Contributors can't publish, schedule or review posts, only submit them for
+// approval.
+const fetchSocialMediaPostToPublish = async ({
+  socialMediaPostId,
+  errorMessage,
+  logger,
+}: {
+  socialMediaPostId: string;
+  errorMessage: string;
+  logger: Logger;
+}) => {
+  const supabase = createClient();
+  const { data: socialMediaPost, error } = await supabase
+    .from("social-media-posts")
+    .select("*")
+    .eq("id", socialMediaPostId)
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(errorMessage);
+  }
+  const { userId: signedInUserId, role } = await fetchWorkspaceRole(
+    socialMediaPost.workspace_id
+  );
+  if (!canPublishPosts(role)) {
+    logger.info("User can't publish posts", { role });
+    await logger.flush();
+    throw new Error(
+      "Only owners and editors can publish posts. Please submit your post for approval instead."
+    );
+  }
+  return { socialMediaPost, signedInUserId };
+};
+
+// Hands the post's destinations to the queue and publishes the post now, or
+// schedules it when its time is still to come.
+const releaseSocialMediaPost = async ({
+  socialMediaPost,
+  fromStatus,
+  review,
+  errorMessage,
+  logger,
+}: {
+  socialMediaPost: Tables<"social-media-posts">;
+  fromStatus: SocialMediaPostStatus;
+  review?: Pick<
+    TablesUpdate<"social-media-posts">,
+    "reviewed_by" | "reviewed_at"
+  >;
+  errorMessage: string;
+  logger: Logger;
+}) => {
+  const supabase = createClient();
+  const status: SocialMediaPostStatus =
+    socialMediaPost.scheduled_at &&
+    new Date(socialMediaPost.scheduled_at).getTime() > Date.now()
+      ? "scheduled"
+      : "publishing";
+  // The post moves first, so a post someone else already released or reviewed
+  // doesn't get its destinations handed to the queue a second time.
+  const { data: releasedPosts, error: postError } = await supabase
+    .from("social-media-posts")
+    .update({ status, ...review })
+    .eq("id", socialMediaPost.id)
+    .eq("status", fromStatus)
+    .select("id");
+  if (postError) {
+    logger.error(errorString, postError);
+    await logger.flush();
+    throw new Error(errorMessage);
+  }
+  if (releasedPosts.length === 0) {
+    logger.info("Post is no longer in the expected status", { fromStatus });
+    await logger.flush();
+    throw new Error(
+      fromStatus === "pending_approval"
+        ? "This post has already been reviewed."
+        : errorMessage
+    );
+  }
+
+  const { error: destinationsError } = await supabase
+    .from("social-media-post-destinations")
+    .update({ status: "pending", updated_at: new Date().toISOString() })
+    .eq("parent_social_media_post_id", socialMediaPost.id)
+    .eq("status", "uploading");
+  if (destinationsError) {
+    logger.error(errorString, destinationsError);
+    await logger.flush();
+    throw new Error(errorMessage);
+  }
+  return status;
+};
+
+export const advanceSocialMediaPostDestination = async ({
+  destinationId,
+  userId,
+}: {
+  destinationId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "advanceSocialMediaPostDestination",
+    destinationId,
+    userId,
+  });
+  const supabase = createClient();
+  const { data: currentDestination, error } = await supabase
+    .from("social-media-post-destinations")
+    .select("*")
+    .eq("id", destinationId)
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error("Sorry, we couldn't find this post. Please try again.");
+  }
+  const { socialMediaPost } = await fetchSocialMediaPostToPublish({
+    socialMediaPostId: currentDestination.parent_social_media_post_id,
+    errorMessage: "Sorry, we couldn't find this post. Please try again.",
+    logger,
+  });
+  // Only posts that have been released to the queue are published, a post
+  // that is still uploading, waiting for approval or scheduled stays where it
+  // is. Destinations that aren't queued have no time of their own, so the
+  // post's time has to be checked here.
+  if (
+    socialMediaPost.status !== "publishing" ||
+    (socialMediaPost.scheduled_at &&
+      new Date(socialMediaPost.scheduled_at).getTime() > Date.now())
+  ) {
+    logger.info("Post isn't due to publish", {
+      status: socialMediaPost.status,
+      scheduledAt: socialMediaPost.scheduled_at,
+    });
+    await logger.flush();
+    return toDestinationProgress(currentDestination);
+  }
+  const destination = await advanceDestination({
+    destinationId,
+    userId,
+    supabase,
+  });
+  await updateSocialMediaPostStatus({
+    socialMediaPostId: destination.parent_social_media_post_id,
+    supabase,
+  });
+  logger.info("Advanced destination", { status: destination.status });
+  await logger.flush();
+  return toDestinationProgress(destination);
+};
+
+const toDestinationProgress = (
+  destination: Tables<"social-media-post-destinations">
+) => ({
+  status: destination.status as SocialMediaPostDestinationStatus,
+  errorMessage: destination.error_message,
+  nextAttemptAt: destination.next_attempt_at,
+  url: destination.platform_post_url,
+  // Between 0 and 1 while a chunked upload is in progress.
+  uploadProgress:
+    destination.upload_size &&
+    destination.uploaded_bytes < destination.upload_size
+      ? destination.uploaded_bytes / destination.upload_size
+      : null,
+});
+
+// Puts a failed destination back in the queue. The media uploaded with the
+// original post is reused, so the user doesn't have to recreate the post.
+export const retrySocialMediaPostDestination = async ({
+  destinationId,
+  userId,
+}: {
+  destinationId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "retrySocialMediaPostDestination",
+    destinationId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  const supabase = createClient();
+  const { data: destination, error } = await supabase
+    .from("social-media-post-destinations")
+    .select("*")
+    .eq("id", destinationId)
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error("Sorry, we couldn't find this post. Please try again.");
+  }
+  if (destination.status !== "failed") {
+    logger.info("Destination has not failed", { status: destination.status });
+    await logger.flush();
+    return destination.status as SocialMediaPostDestinationStatus;
+  }
+  await fetchSocialMediaPostToPublish({
+    socialMediaPostId: destination.parent_social_media_post_id,
+    errorMessage:
+      "Sorry, we had an issue retrying your post. Please try again.",
+    logger,
+  });
+  try {
+    await fetchMediaFilePaths({
+      parentSocialMediaPostId: destination.parent_social_media_post_id,
+      supabase,
+    });
+  } catch (error) {
+    logger.error(errorString, {
+      error: error instanceof Error ? error.message : JSON.stringify(error),
+    });
+    await logger.flush();
+    throw new Error(
+      "The media for this post never finished uploading. Please create the post again."
+    );
+  }
+
+  const { error: destinationError } = await supabase
+    .from("social-media-post-destinations")
+    .update({
+      status: "pending",
+      platform_reference_id: null,
+      upload_url: null,
+      upload_size: null,
+      uploaded_bytes: 0,
+      error_message: null,
+      attempts: 0,
+      next_attempt_at: null,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", destinationId)
+    .eq("status", "failed");
+  if (destinationError) {
+    logger.error(errorString, destinationError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue retrying your post. Please try again."
+    );
+  }
+  const status: SocialMediaPostStatus = "publishing";
+  const { error: postError } = await supabase
+    .from("social-media-posts")
+    .update({ status })
+    .eq("id", destination.parent_social_media_post_id)
+    .in("status", ["published", "failed"]);
+  if (postError) {
+    logger.error(errorString, postError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue retrying your post. Please try again."
+    );
+  }
+  logger.info(endingFunctionString);
+  await logger.flush();
+  return "pending" as SocialMediaPostDestinationStatus;
+};
+
+// Takes a post out of the queue before it starts publishing. The posts queued
+// after it move up into the slots it frees.
+export const removeQueuedSocialMediaPost = async ({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "removeQueuedSocialMediaPost",
+    socialMediaPostId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  const supabase = createClient();
+  const { data: socialMediaPost, error: postError } = await supabase
+    .from("social-media-posts")
+    .select("workspace_id")
+    .eq("id", socialMediaPostId)
+    .single();
+  if (postError) {
+    logger.error(errorString, postError);
+    await logger.flush();
+    throw new Error("Sorry, we couldn't find this post. Please try again.");
+  }
+  const { role } = await fetchWorkspaceRole(socialMediaPost.workspace_id);
+  if (!canPublishPosts(role)) {
+    logger.info("User can't remove scheduled posts", { role });
+    await logger.flush();
+    throw new Error("Only owners and editors can remove scheduled posts.");
+  }
+  const { data: destinations, error } = await supabase
+    .from("social-media-post-destinations")
+    .select("platform, account_id, queued")
+    .eq("parent_social_media_post_id", socialMediaPostId);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error("Sorry, we couldn't find this post. Please try again.");
+  }
+  const { data: mediaFiles, error: mediaFilesError } = await supabase
+    .from("social-media-post-media-files")
+    .select("media_file_path")
+    .eq("parent_social_media_post_id", socialMediaPostId);
+  if (mediaFilesError) {
+    logger.error(errorString, mediaFilesError);
+  }
+
+  const { data: deletedPosts, error: deleteError } = await supabase
+    .from("social-media-posts")
+    .delete()
+    .eq("id", socialMediaPostId)
+    .eq("status", "scheduled")
+    .select("id, workspace_id");
+  if (deleteError) {
+    logger.error(errorString, deleteError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue removing your post. Please try again."
+    );
+  }
+  if (deletedPosts.length === 0) {
+    logger.info("Post is no longer scheduled");
+    await logger.flush();
+    throw new Error(
+      "This post has already started publishing, so it can't be removed."
+    );
+  }
+
+  if (mediaFiles && mediaFiles.length > 0) {
+    const { error: storageError } = await supabase.storage
+      .from(socialMediaPostMediaFilesStorageBucket)
+      .remove(mediaFiles.map(({ media_file_path }) => media_file_path));
+    if (storageError) {
+      logger.error(errorString, storageError);
+    }
+  }
+
+  const queuedDestinations = destinations.filter(({ queued }) => queued);
+  for (let i = 0; i < queuedDestinations.length; i++) {
+    await reshuffleAccountQueue({
+      workspaceId: deletedPosts[0].workspace_id,
+      platform: queuedDestinations[i].platform as PublishPlatform,
+      accountId: queuedDestinations[i].account_id,
+      supabase,
+    });
+  }
+  logger.info(endingFunctionString);
+  await logger.flush();
+};
+
+export const processSocialMediaPostQueue = async () => {
+  const logger = new Logger().with({
+    function: "processSocialMediaPostQueue",
+  });
+  logger.info(startingFunctionString);
+  const supabase = createAdminClient();
+
+  await failStaleUploads({ supabase, logger });
+
+  const { error: promoteError } = await supabase
+    .from("social-media-posts")
+    .update({ status: "publishing" })
+    .eq("status", "scheduled")
+    .lte("scheduled_at", new Date().toISOString());
+  if (promoteError) {
+    logger.error(errorString, promoteError);
+    await logger.flush();
+    throw promoteError;
+  }
+
+  const { data: publishingPosts, error: postsError } = await supabase
+    .from("social-media-posts")
+    .select("id")
+    .eq("status", "publishing");
+  if (postsError) {
+    logger.error(errorString, postsError);
+    await logger.flush();
+    throw postsError;
+  }
+
+  const { data: destinations, error: destinationsError } = await supabase
+    .from("social-media-post-destinations")
+    .select("*")
+    .in(
+      "parent_social_media_post_id",
+      publishingPosts.map((post) => post.id)
+    )
+    .in("status", activeDestinationStatuses)
+    .or(buildUnlockedFilter())
+    .or(buildDueFilter())
+    .or(buildScheduledFilter())
+    .order("updated_at", { ascending: true })
+    .limit(DESTINATIONS_BATCH_SIZE);
+  if (destinationsError) {
+    logger.error(errorString, destinationsError);
+    await logger.flush();
+    throw destinationsError;
+  }
+
+  await Promise.allSettled(
+    destinations.map((destination) =>
+      advanceDestination({
+        destinationId: destination.id,
+        userId: destination.user_id,
+        supabase,
+      })
+    )
+  );
+
+  const socialMediaPostIds = Array.from(
+    new Set(
+      destinations.map((destination) => destination.parent_social_media_post_id)
+    )
+  );
+  for (let i = 0; i < socialMediaPostIds.length; i++) {
+    await updateSocialMediaPostStatus({
+      socialMediaPostId: socialMediaPostIds[i],
+      supabase,
+    });
+  }
+
+  logger.info(endingFunctionString, {
+    numberOfDestinations: destinations.length,
+  });
+  await logger.flush();
+};
+
+const failStaleUploads = async ({
+  supabase,
+  logger,
+}: {
+  supabase: SupabaseServerClient;
+  logger: Logger;
+}) => {
+  const { data: stalePosts, error } = await supabase
+    .from("social-media-posts")
+    .update({ status: "failed" })
+    .eq("status", "uploading")
+    .lt(
+      "updated_at",
+      new Date(Date.now() - STALE_UPLOAD_DURATION_MS).toISOString()
+    )
+    .select("id");
+  if (error) {
+    logger.error(errorString, error);
+    return;
+  }
+  if (stalePosts.length === 0) {
+    return;
+  }
+  const { error: destinationsError } = await supabase
+    .from("social-media-post-destinations")
+    .update({
+      status: "failed",
+      error_message:
+        "Your upload didn't finish. Please try creating the post again.",
+      updated_at: new Date().toISOString(),
+    })
+    .in(
+      "parent_social_media_post_id",
+      stalePosts.map((post) => post.id)
+    )
+    .eq("status", "uploading");
+  if (destinationsError) {
+    logger.error(errorString, destinationsError);
+  }
+  logger.info("Failed stale uploads", { numberOfPosts: stalePosts.length });
+};
+
+const buildUnlockedFilter = () =>
+  `locked_until.is.null,locked_until.lt."${new Date().toISOString()}"`;
+
+// Destinations waiting out a retry backoff aren't due until next_attempt_at.
+const buildDueFilter = () =>
+  `next_attempt_at.is.null,next_attempt_at.lte."${new Date().toISOString()}"`;
+
+// Queued destinations aren't due until their own slot, even once the post has
+// started publishing to its other destinations.
+const buildScheduledFilter = () =>
+  `scheduled_at.is.null,scheduled_at.lte."${new Date().toISOString()}"`;
+
+// Runs a single step of a destination's publishing state machine. Each step is
+// short enough to fit in one request, so whichever of the cron worker or the
+// create-post page claims the destination first can move it forward.
+const advanceDestination = async ({
+  destinationId,
+  userId,
+  supabase,
+}: {
+  destinationId: string;
+  userId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "advanceDestination",
+    destinationId,
+    userId,
+  });
+  const { data: claimedDestinations, error: claimError } = await supabase
+    .from("social-media-post-destinations")
+    .update({
+      locked_until: new Date(
+        Date.now() + DESTINATION_LOCK_DURATION_MS
+      ).toISOString(),
+    })
+    .eq("id", destinationId)
+    .in("status", activeDestinationStatuses)
+    .or(buildUnlockedFilter())
+    .or(buildDueFilter())
+    .or(buildScheduledFilter())
+    .select("*");
+  if (claimError) {
+    logger.error(errorString, claimError);
+    await logger.flush();
+    throw claimError;
+  }
+
+  if (claimedDestinations.length === 0) {
+    // Either finished already, waiting to be retried or another run currently
+    // holds the lock.
+    const { data, error } = await supabase
+      .from("social-media-post-destinations")
+      .select("*")
+      .eq("id", destinationId)
+      .single();
+    if (error) {
+      logger.error(errorString, error);
+      await logger.flush();
+      throw error;
+    }
+    return data;
+  }
+
+  const destination = claimedDestinations[0];
+  let update: TablesUpdate<"social-media-post-destinations">;
+  try {
+    update = {
+      ...(await runDestinationStep({ destination, supabase })),
+      attempts: 0,
+      next_attempt_at: null,
+      error_message: null,
+    };
+  } catch (error) {
+    update = handleDestinationStepError({ destination, error, logger });
+  }
+
+  const { data, error } = await supabase
+    .from("social-media-post-destinations")
+    .update({
+      ...update,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", destinationId)
+    .select("*")
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw error;
+  }
+  logger.info("Destination step finished", { status: data.status });
+  await logger.flush();
+  return data;
+};
+
+// Transient failures leave the destination in its current status so the same
+// step runs again once the backoff has passed; anything else fails it.
+const handleDestinationStepError = ({
+  destination,
+  error,
+  logger,
+}: {
+  destination: Tables<"social-media-post-destinations">;
+  error: unknown;
+  logger: Logger;
+}): TablesUpdate<"social-media-post-destinations"> => {
+  const platform = destination.platform as PublishPlatform;
+  const attempts = destination.attempts + 1;
+  const errorMessage =
+    error instanceof Error
+      ? error.message
+      : "Something went wrong making your post. Please try again.";
+  const willRetry =
+    isRetryableError(error) && attempts < retryPolicies[platform].maxAttempts;
+  logger.error(errorString, {
+    platform,
+    attempts,
+    willRetry,
+    error: error instanceof Error ? error.message : JSON.stringify(error),
+  });
+  if (willRetry) {
+    return {
+      attempts,
+      next_attempt_at: calculateNextAttemptAt({
+        platform,
+        attempts,
+      }).toISOString(),
+      error_message: errorMessage,
+    };
+  }
+  return {
+    status: "failed",
+    attempts,
+    next_attempt_at: null,
+    error_message: errorMessage,
+  };
+};
+
+const runDestinationStep = async ({
+  destination,
+  supabase,
+}: {
+  destination: Tables<"social-media-post-destinations">;
+  supabase: SupabaseServerClient;
+}): Promise<TablesUpdate<"social-media-post-destinations">> => {
+  const {
+    parent_social_media_post_id: parentSocialMediaPostId,
+    user_id: userId,
+    account_id: accountId,
+    platform_reference_id: platformReferenceId,
+  } = destination;
+  const status = destination.status as SocialMediaPostDestinationStatus;
+  const adapter = getPlatformAdapter(destination.platform);
+  const context = {
+    destination,
+    settings: destination.settings,
+    account: await fetchDestinationAccount({
+      table: adapter.accountTable,
+      accountId,
+      parentSocialMediaPostId,
+      supabase,
+    }),
+    userId,
+    parentSocialMediaPostId,
+    mediaFilePaths: await fetchMediaFilePaths({
+      parentSocialMediaPostId,
+      supabase,
+    }),
+    supabase,
+  };
+
+  if (status === "pending") {
+    const { error } = await adapter.fetchLimits(context);
+    if (error) {
+      throw error;
+    }
+    const { referenceId, upload } = await adapter.prepare(context);
+    return {
+      status: "processing",
+      platform_reference_id: referenceId,
+      upload_url: upload?.url ?? null,
+      upload_size: upload?.size ?? null,
+      uploaded_bytes: 0,
+    };
+  }
+  if ((await adapter.pollStatus(context, platformReferenceId)) !== "ready") {
+    return {};
+  }
+  const { platformPostId, url } = await adapter.publish(
+    context,
+    platformReferenceId
+  );
+  return {
+    status: "published",
+    platform_reference_id: platformPostId ?? platformReferenceId,
+    platform_post_url: url,
+  };
+};
+
+// Accounts are shared within a workspace, so the account only has to belong to
+// the post's workspace rather than to whoever created the post.
+const fetchDestinationAccount = async <T extends PlatformAccountTable>({
+  table,
+  accountId,
+  parentSocialMediaPostId,
+  supabase,
+}: {
+  table: T;
+  accountId: string;
+  parentSocialMediaPostId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const { data: post, error: postError } = await supabase
+    .from("social-media-posts")
+    .select("workspace_id")
+    .eq("id", parentSocialMediaPostId)
+    .single();
+  if (postError) {
+    throw postError;
+  }
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .eq("id", accountId)
+    .eq("workspace_id", post.workspace_id)
+    .single();
+  if (error) {
+    throw new Error(
+      "We couldn't find this account anymore. Please reconnect it and try again."
+    );
+  }
+  return decryptAccountTokens(table, data as Tables<T>);
+};
+
+// Files are uploaded one after another, so creation order is the order the
+// user arranged them in.
+const fetchMediaFilePaths = async ({
+  parentSocialMediaPostId,
+  supabase,
+}: {
+  parentSocialMediaPostId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const { data, error } = await supabase
+    .from("social-media-post-media-files")
+    .select("media_file_path")
+    .eq("parent_social_media_post_id", parentSocialMediaPostId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  if (data.length === 0) {
+    throw new Error("No media files found for this post");
+  }
+  return data.map(({ media_file_path }) => media_file_path);
+};
+
+const updateSocialMediaPostStatus = async ({
+  socialMediaPostId,
+  supabase,
+}: {
+  socialMediaPostId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "updateSocialMediaPostStatus",
+    socialMediaPostId,
+  });
+  const { data, error } = await supabase
+    .from("social-media-post-destinations")
+    .select("status")
+    .eq("parent_social_media_post_id", socialMediaPostId);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    return;
+  }
+  const statuses = data.map(
+    ({ status }) => status as SocialMediaPostDestinationStatus
+  );
+  if (statuses.some((status) => activeDestinationStatuses.includes(status))) {
+    return;
+  }
+  const status: SocialMediaPostStatus = statuses.every(
+    (status) => status === "published"
+  )
+    ? "published"
+    : "failed";
+  const { error: updateError } = await supabase
+    .from("social-media-posts")
+    .update({ status })
+    .eq("id", socialMediaPostId)
+    .eq("status", "publishing");
+  if (updateError) {
+    logger.error(errorString, updateError);
+  }
+  logger.info("Updated post status", { status });
+  await logger.flush();
+};
@@ -1,20 +1,33 @@
 "use server";
 
-import { Logger } from "next-axiom";
-import { errorString } from "@/utils/logging";
-import { createClient } from "@/utils/supabase/server";
-import { buildGraphAPIURL, FacebookGraphError } from "@/utils/facebookSdk";
+import { errorString, Logger } from "@/utils/logging";
+import { createClient, SupabaseServerClient } from "@/utils/supabase/server";
+import {
+  buildGraphAPIURL,
+  FacebookGraphError,
+  isRetryableGraphError,
+} from "@/utils/facebookSdk";
 import { getSignedUrl } from "@/utils/supabase/storage";
+import { isRetryableStatus, PublishError } from "@/utils/publishRetry";
+import { emptyPostMetrics, PostMetrics } from "@/utils/postAnalytics";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
 
 const bucketName =
   process.env.NEXT_PUBLIC_SOCIAL_MEDIA_POST_MEDIA_FILES_STORAGE_BUCKET;
 
 type PostType = "video" | "image";
 
-export const createSocialMediaPost = async (userId: string) => {
+export const createSocialMediaPost = async ({
+  userId,
+  workspaceId,
+}: {
+  userId: string;
+  workspaceId: string;
+}) => {
   const logger = new Logger().with({
     function: "createSocialMediaPost",
     userId,
+    workspaceId,
   });
 
   const supabase = createClient();
@@ -22,6 +35,10 @@ export const createSocialMediaPost = async (userId: string) => {
     .from("social-media-posts")
     .insert({
       user_id: userId,
+      workspace_id: workspaceId,
+      // Not the column's published default, which contributors aren't
+      // allowed to create.
+      status: "uploading",
     })
     .select("id");
   if (error) {
@@ -50,15 +67,19 @@ export const createInstagramContainer = async ({
   filePath,
   caption,
   userId,
+  workspaceId,
   postType,
   isCarouselItem,
+  supabase,
 }: {
   instagramBusinessAccountId: string;
   filePath: string;
   caption?: string;
   userId: string;
+  workspaceId: string;
   postType: PostType;
   isCarouselItem: boolean;
+  supabase?: SupabaseServerClient;
 }) => {
   let logger = new Logger().with({
     function: "createInstagramContainer",
@@ -71,7 +92,8 @@ export const createInstagramContainer = async ({
   });
   const accessToken = await fetchAccessTokenForInstagramBusinessAccountId({
     instagramBusinessAccountId,
-    userId,
+    workspaceId,
+    supabase,
   });
 
   if (!bucketName) {
@@ -85,6 +107,7 @@ export const createInstagramContainer = async ({
     bucketName,
     duration: 600,
     filePath,
+    supabase,
   });
   const videoSearchParams = {
     video_url: signedUrl,
@@ -99,7 +122,7 @@ export const createInstagramContainer = async ({
   if (postType === "video") {
     carouselSearchParams = {
       video_url: signedUrl,
-      media_type: "REELS",
+      media_type: "VIDEO",
       is_carousel_item: true,
     };
   } else if (postType === "image") {
@@ -144,7 +167,11 @@ export const createInstagramContainer = async ({
   if (facebookGraphError) {
     logger.error(errorString, facebookGraphError);
     await logger.flush();
-    throw new Error(`Error: ${facebookGraphError.message}`);
+    throw new PublishError(`Error: ${facebookGraphError.message}`, {
+      retryable:
+        isRetryableGraphError(facebookGraphError) ||
+        isRetryableStatus(resp.status),
+    });
   }
   await logger.flush();
   return id;
@@ -154,16 +181,21 @@ export const createInstagramCarouselContainer = async ({
   instagramCarouselMediaContainerIds,
   instagramBusinessAccountId,
   userId,
+  workspaceId,
   caption,
+  supabase,
 }: {
   instagramCarouselMediaContainerIds: string[];
   instagramBusinessAccountId: string;
   userId: string;
+  workspaceId: string;
   caption: string;
+  supabase?: SupabaseServerClient;
 }) => {
   const accessToken = await fetchAccessTokenForInstagramBusinessAccountId({
     instagramBusinessAccountId,
-    userId,
+    workspaceId,
+    supabase,
   });
   let logger = new Logger().with({
     function: "createInstagramCarouselContainer",
@@ -197,7 +229,11 @@ export const createInstagramCarouselContainer = async ({
   if (facebookGraphError) {
     logger.error(errorString, facebookGraphError);
     await logger.flush();
-    throw new Error("Failed creating carousel container");
+    throw new PublishError("Failed creating carousel container", {
+      retryable:
+        isRetryableGraphError(facebookGraphError) ||
+        isRetryableStatus(resp.status),
+    });
   }
   await logger.flush();
   return id;
@@ -211,110 +247,102 @@ type StatusCode =
   | "PUBLISHED"
   | null;
 
-export const checkInstagramContainerStatus = async ({
-  containerIds,
+export const fetchInstagramContainerStatus = async ({
+  containerId,
   instagramBusinessAccountId,
   userId,
+  workspaceId,
+  supabase,
 }: {
-  containerIds: string[];
+  containerId: string;
   instagramBusinessAccountId: string;
   userId: string;
+  workspaceId: string;
+  supabase?: SupabaseServerClient;
 }) => {
-  let logger = new Logger().with({
-    function: "checkInstagramContainerStatus",
-    containerIds,
+  const logger = new Logger().with({
+    function: "fetchInstagramContainerStatus",
+    containerId,
     instagramBusinessAccountId,
     userId,
   });
-
   const accessToken = await fetchAccessTokenForInstagramBusinessAccountId({
     instagramBusinessAccountId,
-    userId,
+    workspaceId,
+    supabase,
+  });
+  const statusCode = await fetchContainerStatusCode({
+    containerId,
+    accessToken,
+    logger,
   });
+  logger.info("Checked media container status", { statusCode });
+  await logger.flush();
+  return statusCode;
+};
 
-  const checkStatus = async (containerId: string): Promise<StatusCode> => {
-    let numberOfPolls = 0;
-    const maxNumberOfPolls = 15;
-    let statusCode: StatusCode = null;
+const fetchContainerStatusCode = async ({
+  containerId,
+  accessToken,
+  logger,
+}: {
+  containerId: string;
+  accessToken: string;
+  logger: Logger;
+}): Promise<StatusCode> => {
+  const graphUrl = buildGraphAPIURL({
+    path: `/${containerId}`,
+    searchParams: {
+      fields: "status_code",
+    },
+    accessToken,
+  });
+  const resp = await fetch(graphUrl, {
+    method: "GET",
+  });
+  const {
+    error,
+    status_code,
+  }: { error: FacebookGraphError; status_code: StatusCode } = await resp.json();
 
-    const graphUrl = buildGraphAPIURL({
-      path: `/${containerId}`,
-      searchParams: {
-        fields: "status_code",
-      },
-      accessToken,
+  if (error) {
+    logger.error("Failed checking media container status", error);
+    await logger.flush();
+    throw new PublishError("Failed checking media container status", {
+      retryable: isRetryableGraphError(error) || isRetryableStatus(resp.status),
+    });
+  }
+  if (status_code === "ERROR") {
+    logger.error("Media container processing failed", {
+      containerId,
+      status_code,
     });
-
-    while (statusCode !== "FINISHED") {
-      const resp = await fetch(graphUrl, {
-        method: "GET",
-      });
-      const {
-        error,
-        status_code,
-      }: { error: FacebookGraphError; status_code: StatusCode } =
-        await resp.json();
-
-      statusCode = status_code;
-
-      if (error) {
-        logger.error("Failed checking media container status", error);
-        await logger.flush();
-        throw new Error("Failed checking media container status");
-      }
-      if (statusCode === "ERROR") {
-        logger.error("Media container processing failed", {
-          containerId,
-          status_code,
-        });
-        await logger.flush();
-        throw new Error("Media container processing failed");
-      }
-      if (statusCode === "EXPIRED") {
-        logger.error("Media container processing expired", {
-          containerId,
-          status_code,
-        });
-        await logger.flush();
-        throw new Error("Media container processing expired");
-      }
-      if (numberOfPolls > maxNumberOfPolls) {
-        logger.error("Status check timed out", {
-          containerId,
-        });
-        await logger.flush();
-        throw new Error("Status check timed out");
-      }
-
-      logger.info("Checked media container status", {
-        containerId,
-        statusCode,
-      });
-      numberOfPolls++;
-      await new Promise((resolve) => setTimeout(resolve, 15000));
-    }
-
-    logger.info("Returning status code", { statusCode });
     await logger.flush();
-    return statusCode;
-  };
-
-  // Run checkStatus for all containerIds concurrently
-  const statusPromises = containerIds.map(checkStatus);
-  await Promise.all(statusPromises);
-
-  logger.info("All containers have finished processing", { containerIds });
-  await logger.flush();
+    throw new Error("Media container processing failed");
+  }
+  if (status_code === "EXPIRED") {
+    logger.error("Media container processing expired", {
+      containerId,
+      status_code,
+    });
+    await logger.flush();
+    throw new Error("Media container processing expired");
+  }
+  return status_code;
 };
 
 export const publishInstagramMediaContainer = async ({
   instagramBusinessAccountId,
   instagramMediaContainerId,
   userId,
+  workspaceId,
+  supabase,
 }: {
   instagramBusinessAccountId: string;
   instagramMediaContainerId: string;
   userId: string;
+  workspaceId: string;
+  supabase?: SupabaseServerClient;
 }) => {
   let logger = new Logger().with({
     function: "publishInstagramMediaContainer",
@@ -325,7 +353,8 @@ export const publishInstagramMediaContainer = async ({
 
   const accessToken = await fetchAccessTokenForInstagramBusinessAccountId({
     instagramBusinessAccountId,
-    userId,
+    workspaceId,
+    supabase,
   });
   const graphUrl = buildGraphAPIURL({
     path: `/${instagramBusinessAccountId}/media_publish`,
@@ -350,30 +379,156 @@ export const publishInstagramMediaContainer = async ({
   if (error) {
     logger.error(errorString, error);
     await logger.flush();
-    throw new Error("Failed publishing media container");
+    throw new PublishError("Failed publishing media container", {
+      retryable: isRetryableGraphError(error) || isRetryableStatus(resp.status),
+    });
   }
   await logger.flush();
   return id;
 };
 
-export const fetchAccessTokenForInstagramBusinessAccountId = async ({
+// The media is already live by the time we ask, so a missing permalink only
+// leaves the post without a link rather than failing it.
+export const fetchInstagramMediaPermalink = async ({
   instagramBusinessAccountId,
+  instagramMediaId,
   userId,
+  workspaceId,
+  supabase,
 }: {
   instagramBusinessAccountId: string;
+  instagramMediaId: string;
   userId: string;
+  workspaceId: string;
+  supabase?: SupabaseServerClient;
 }) => {
   const logger = new Logger().with({
-    function: "fetchAccessTokenForInstagramBusinessAccountId",
+    function: "fetchInstagramMediaPermalink",
     instagramBusinessAccountId,
+    instagramMediaId,
     userId,
   });
-  const supabase = createClient();
+  const accessToken = await fetchAccessTokenForInstagramBusinessAccountId({
+    instagramBusinessAccountId,
+    workspaceId,
+    supabase,
+  });
+  const graphUrl = buildGraphAPIURL({
+    path: `/${instagramMediaId}`,
+    searchParams: {
+      fields: "permalink",
+    },
+    accessToken,
+  });
+  const resp = await fetch(graphUrl, {
+    method: "GET",
+  });
+  const { error, permalink } = (await resp.json()) as {
+    error?: FacebookGraphError;
+    permalink?: string;
+  };
+  if (error || !permalink) {
+    logger.error(errorString, error ?? { error: "No permalink returned" });
+    await logger.flush();
+    return null;
+  }
+  return permalink;
+};
+
+type InstagramInsight = {
+  name: "reach" | "plays" | "saved";
+  values: { value: number }[];
+};
+
+// Likes and comments are fields on the media, the rest are insights. Plays
+// are only reported for videos.
+export const fetchInstagramMediaMetrics = async ({
+  instagramMediaId,
+  accessToken,
+}: {
+  instagramMediaId: string;
+  accessToken: string;
+}): Promise<PostMetrics> => {
+  const logger = new Logger().with({
+    function: "fetchInstagramMediaMetrics",
+    instagramMediaId,
+  });
+  const mediaResp = await fetch(
+    buildGraphAPIURL({
+      path: `/${instagramMediaId}`,
+      searchParams: {
+        fields: "media_type,like_count,comments_count",
+      },
+      accessToken,
+    }),
+    { method: "GET" }
+  );
+  const media = (await mediaResp.json()) as {
+    error?: FacebookGraphError;
+    media_type?: string;
+    like_count?: number;
+    comments_count?: number;
+  };
+  if (media.error) {
+    logger.error(errorString, media.error);
+    await logger.flush();
+    throw new Error("Failed fetching Instagram media");
+  }
+  const metrics = ["reach", "saved"];
+  if (media.media_type === "VIDEO" || media.media_type === "REELS") {
+    metrics.push("plays");
+  }
+  const insightsResp = await fetch(
+    buildGraphAPIURL({
+      path: `/${instagramMediaId}/insights`,
+      searchParams: {
+        metric: metrics.join(","),
+      },
+      accessToken,
+    }),
+    { method: "GET" }
+  );
+  const { error, data } = (await insightsResp.json()) as {
+    error?: FacebookGraphError;
+    data?: InstagramInsight[];
+  };
+  if (error || !data) {
+    logger.error(errorString, error ?? { error: "No insights returned" });
+    await logger.flush();
+    throw new Error("Failed fetching Instagram media insights");
+  }
+  const insight = (name: InstagramInsight["name"]) =>
+    data.find((item) => item.name === name)?.values[0]?.value ?? null;
+  return {
+    ...emptyPostMetrics,
+    views: insight("plays"),
+    reach: insight("reach"),
+    likes: media.like_count ?? null,
+    comments: media.comments_count ?? null,
+    saves: insight("saved"),
+  };
+};
+
+// Any member of the workspace can post with the accounts a teammate connected.
+export const fetchAccessTokenForInstagramBusinessAccountId = async ({
+  instagramBusinessAccountId,
+  workspaceId,
+  supabase = createClient(),
+}: {
+  instagramBusinessAccountId: string;
+  workspaceId: string;
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "fetchAccessTokenForInstagramBusinessAccountId",
+    instagramBusinessAccountId,
+    workspaceId,
+  });
   const { data, error } = await supabase
     .from("instagram-accounts")
     .select("access_token")
     .eq("instagram_business_account_id", instagramBusinessAccountId)
-    .eq("user_id", userId);
+    .eq("workspace_id", workspaceId);
   if (error) {
     logger.error(errorString, error);
     await logger.flush();
@@ -394,9 +549,9 @@ export const fetchAccessTokenForInstagramBusinessAccountId = async ({
     await logger.flush();
     throw new Error("No data returned from instagram-accounts select");
   }
-  logger.info("Access token retrieved", { accessToken: data[0].access_token });
+  logger.info("Access token retrieved");
   await logger.flush();
-  return data[0].access_token;
+  return decryptAccountTokens("instagram-accounts", data[0]).access_token;
 };
 
 export const saveInstagramId = async ({
@@ -405,12 +560,16 @@ export const saveInstagramId = async ({
   caption,
   userId,
   instagramAccountId,
+  permalink = null,
+  supabase = createClient(),
 }: {
   instagramMediaId: string;
   parentSocialMediaPostId: string;
   caption: string;
   userId: string;
   instagramAccountId: string;
+  permalink?: string | null;
+  supabase?: SupabaseServerClient;
 }) => {
   const logger = new Logger().with({
     function: "saveInstagramId",
@@ -418,13 +577,13 @@ export const saveInstagramId = async ({
     caption,
     userId,
   });
-  const supabase = createClient();
   const { error } = await supabase.from("instagram-posts").insert({
     instagram_media_id: instagramMediaId,
     parent_social_media_post_id: parentSocialMediaPostId,
     caption,
     user_id: userId,
     instagram_account_id: instagramAccountId,
+    permalink,
   });
   if (error) {
     logger.error(errorString, error);
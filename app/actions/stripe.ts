@@ -6,9 +6,9 @@ import { redirect } from "next/navigation";
 import { headers } from "next/headers";
 import { stripe } from "@/lib/stripe";
 import { getUser } from "@/app/actions/user";
-import { Logger } from "next-axiom";
 import { trackServerEvent } from "@/utils/posthog/utils";
 import { getURL } from "@/utils/utils";
+import { Logger } from "@/utils/logging";
 
 export async function createCheckoutSession(data: FormData): Promise<void> {
   const log = new Logger().with({
@@ -1,59 +1,69 @@
 "use server";
 
+import { errorString, Logger } from "@/utils/logging";
+import { createClient, SupabaseServerClient } from "@/utils/supabase/server";
 import {
-  endingFunctionString,
-  errorString,
-  startingFunctionString,
-} from "@/utils/logging";
-import { createAdminClient, createClient } from "@/utils/supabase/server";
-import {
+  fetchFileChunk,
+  fetchFileMetadata,
   getSignedUrl,
   socialMediaPostMediaFilesStorageBucket,
 } from "@/utils/supabase/storage";
-import { Logger } from "next-axiom";
+import { isRetryableStatus, PublishError } from "@/utils/publishRetry";
+import {
+  buildTikTokAPIURL,
+  calculateTikTokChunkRange,
+  calculateTikTokChunks,
+  findTikTokCreatorConflict,
+  TikTokCreatorConstraints,
+  TikTokVideoSource,
+  tiktokVideoSource,
+} from "@/utils/tiktok";
+import { emptyPostMetrics, PostMetrics } from "@/utils/postAnalytics";
+import { AccountStats } from "@/utils/accountStats";
+import { TikTokDestinationSettings } from "./socialMediaPostQueue";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
-import * as crypto from "node:crypto";
+import { cookies } from "next/headers";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
+import {
+  createTikTokOAuthState,
+  getTikTokRedirectURI,
+  TIKTOK_OAUTH_COOKIE,
+  TIKTOK_OAUTH_COOKIE_MAX_AGE,
+} from "@/utils/tiktokOAuth";
 
 export const loginWithTikTok = async () => {
-  // const csrfState = Math.random().toString(36).substring(2);
-
-  const codeVerifier = generateRandomString(128);
-  const codeChallenge = crypto
-    .createHash("sha256")
-    .update(codeVerifier)
-    .digest("hex");
+  const { state, codeChallenge, cookie } = createTikTokOAuthState();
+  cookies().set(TIKTOK_OAUTH_COOKIE, cookie, {
+    path: "/auth/tiktok/callback",
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: TIKTOK_OAUTH_COOKIE_MAX_AGE,
+  });
 
   let url = "https://www.tiktok.com/v2/auth/authorize/";
 
   // the following params need to be in `application/x-www-form-urlencoded` format.
   url += `?client_key=${process.env.TIKTOK_CLIENT_KEY}`;
-  url += "&scope=user.info.profile,user.info.stats,video.publish,video.upload";
+  url +=
+    "&scope=user.info.profile,user.info.stats,video.list,video.publish,video.upload";
   url += "&response_type=code";
-  // url += `&redirect_uri=${headers().get("origin")}/accounts`;
-  url += `&redirect_uri=https://socialqueue.ai/auth/tiktok/callback`;
+  url += `&redirect_uri=${encodeURIComponent(getTikTokRedirectURI())}`;
+  url += `&state=${state}`;
   url += `&code_challenge=${codeChallenge}`;
   url += "&code_challenge_method=S256";
   redirect(url);
 };
 
-const generateRandomString = (length: number) => {
-  var result = "";
-  var characters =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~";
-  var charactersLength = characters.length;
-  for (var i = 0; i < length; i++) {
-    result += characters.charAt(Math.floor(Math.random() * charactersLength));
-  }
-  return result;
-};
-
 export const deleteTikTokAccount = async (prevState: any, data: FormData) => {
   const userId = data.get("userId") as string;
+  const workspaceId = data.get("workspaceId") as string;
   const tiktokAccountId = data.get("tiktokAccountId") as string;
   const logger = new Logger().with({
     function: "deleteTikTokAccount",
     userId,
+    workspaceId,
     tiktokAccountId,
   });
   const supabase = createClient();
@@ -61,7 +71,7 @@ export const deleteTikTokAccount = async (prevState: any, data: FormData) => {
     const { error } = await supabase
       .from("tiktok-accounts")
       .delete()
-      .eq("user_id", userId)
+      .eq("workspace_id", workspaceId)
       .eq("id", tiktokAccountId);
     if (error) {
       logger.error(errorString, error);
@@ -100,6 +110,15 @@ export const deleteTikTokAccount = async (prevState: any, data: FormData) => {
     error: null,
   };
 };
+
+// Whatever doesn't fit in one step's share of the 300 second max duration is
+// sent by the next step.
+const TIKTOK_UPLOAD_STEP_DURATION_MS = 4 * 60 * 1000;
+
+// MEDIA_UPLOAD sends the post to the creator's TikTok inbox, where they finish
+// editing and post it from the app.
+export type TikTokPostMode = "DIRECT_POST" | "MEDIA_UPLOAD";
+
 export type PrivacyLevel =
   | "PUBLIC_TO_EVERYONE"
   | "MUTUAL_FOLLOW_FRIENDS"
@@ -112,7 +131,7 @@ export const uploadTikTokPost = async ({
   autoAddMusic,
   caption,
   accessToken,
-  filePath,
+  filePaths,
   privacyLevel,
   disableDuet,
   disableComment,
@@ -121,13 +140,15 @@ export const uploadTikTokPost = async ({
   postType,
   brandOrganicToggle,
   brandContentToggle,
+  postMode = "DIRECT_POST",
+  supabase,
 }: {
   userId: string;
   title?: string;
   autoAddMusic: boolean;
   caption: string;
   accessToken: string;
-  filePath: string;
+  filePaths: string[];
   privacyLevel: PrivacyLevel;
   disableDuet: boolean;
   disableComment: boolean;
@@ -136,29 +157,73 @@ export const uploadTikTokPost = async ({
   postType: "video" | "image";
   brandOrganicToggle: boolean;
   brandContentToggle: boolean;
+  postMode?: TikTokPostMode;
+  supabase?: SupabaseServerClient;
 }) => {
   let logger = new Logger().with({
     function: "uploadTikTokPost",
+    postMode,
     userId,
     caption,
-    accessToken,
-    filePath,
+    filePaths,
     privacyLevel,
     disableDuet,
     disableComment,
     videoCoverTimestamp,
   });
-  const signedUrl = await getSignedUrl({
-    bucketName: socialMediaPostMediaFilesStorageBucket,
-    duration: 600,
-    filePath: filePath,
-  });
+  // Photos can only be pulled from a URL.
+  const videoSource: TikTokVideoSource =
+    postType === "video" ? tiktokVideoSource : "PULL_FROM_URL";
+  const signedUrls =
+    videoSource === "PULL_FROM_URL"
+      ? await Promise.all(
+          filePaths.map((filePath) =>
+            getSignedUrl({
+              bucketName: socialMediaPostMediaFilesStorageBucket,
+              duration: 600,
+              filePath,
+              supabase,
+            })
+          )
+        )
+      : [];
   logger = logger.with({
-    signedUrl,
+    signedUrls,
+    videoSource,
   });
-
+  const videoSize =
+    videoSource === "FILE_UPLOAD"
+      ? (
+          await fetchFileMetadata({
+            bucketName: socialMediaPostMediaFilesStorageBucket,
+            filePath: filePaths[0],
+            supabase,
+          })
+        ).size
+      : 0;
+  const { chunkSize, totalChunkCount } = calculateTikTokChunks(videoSize);
+
+  let url;
   let body;
-  if (postType === "video") {
+  const videoSourceInfo =
+    videoSource === "FILE_UPLOAD"
+      ? {
+          source: "FILE_UPLOAD",
+          video_size: videoSize,
+          chunk_size: chunkSize,
+          total_chunk_count: totalChunkCount,
+        }
+      : {
+          source: "PULL_FROM_URL",
+          video_url: signedUrls[0],
+        };
+  if (postType === "video" && postMode === "MEDIA_UPLOAD") {
+    // The creator adds the caption and settings in the app, so the inbox
+    // endpoint only takes the video.
+    url = buildTikTokAPIURL("/v2/post/publish/inbox/video/init/");
+    body = { source_info: videoSourceInfo };
+  } else if (postType === "video") {
+    url = buildTikTokAPIURL("/v2/post/publish/video/init/");
     body = {
       post_info: {
         title: caption,
@@ -170,50 +235,47 @@ export const uploadTikTokPost = async ({
         brand_organic_toggle: brandOrganicToggle,
         brand_content_toggle: brandContentToggle,
       },
-      source_info: {
-        source: "PULL_FROM_URL",
-        video_url: signedUrl,
-      },
+      source_info: videoSourceInfo,
     };
-  } else if (postType === "image") {
+  } else {
+    // Photo posts go through the content endpoint rather than the video one.
+    url = buildTikTokAPIURL("/v2/post/publish/content/init/");
     body = {
       media_type: "PHOTO",
-      post_mode: "DIRECT_POST",
+      post_mode: postMode,
       post_info: {
         title,
         description: caption,
         privacy_level: privacyLevel,
         disable_comment: disableComment,
         auto_add_music: autoAddMusic,
-        video_cover_timestamp_ms: videoCoverTimestamp,
         brand_organic_toggle: brandOrganicToggle,
         brand_content_toggle: brandContentToggle,
       },
       source_info: {
         source: "PULL_FROM_URL",
-        video_url: signedUrl,
+        photo_cover_index: 0,
+        photo_images: signedUrls,
       },
     };
   }
 
-  const response = await fetch(
-    "https://open.tiktokapis.com/v2/post/publish/video/init/",
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json; charset=UTF-8",
-      },
-      body: JSON.stringify(body),
-    }
-  );
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json; charset=UTF-8",
+    },
+    body: JSON.stringify(body),
+  });
 
   const { data, error } = (await response.json()) as {
     data?: {
       publish_id: string;
+      upload_url?: string;
     };
     error?: {
-      code: string;
+      code: TikTokCreatorInfoErrorCode;
       message: string;
       log_id: string;
     };
@@ -224,12 +286,105 @@ export const uploadTikTokPost = async ({
       error: `Failed to upload post to TikTok`,
       ...error,
     });
-    throw new Error(`Failed to upload post to TikTok`);
+    await logger.flush();
+    throw new PublishError(
+      (error && generateErrorMessage(error.code)) ??
+        `Failed to upload post to TikTok`,
+      {
+        retryable: error?.code
+          ? retryableTikTokErrorCodes.includes(error.code)
+          : isRetryableStatus(response.status),
+      }
+    );
   }
   if (!data) {
     throw new Error(`Failed to upload post to TikTok`);
   }
-  return data.publish_id;
+  return {
+    publishId: data.publish_id,
+    // The video is sent to this url by uploadTikTokVideoChunks.
+    upload: data.upload_url
+      ? { url: data.upload_url, size: videoSize }
+      : undefined,
+  };
+};
+
+// Sends the video to the upload url from a FILE_UPLOAD post, a chunk at a time
+// from storage, until it's all uploaded or the step runs out of time. Returns
+// how many bytes TikTok has, which is also recorded on the destination.
+export const uploadTikTokVideoChunks = async ({
+  destinationId,
+  uploadUrl,
+  videoPath,
+  videoSize,
+  uploadedBytes,
+  supabase = createClient(),
+}: {
+  destinationId: string;
+  uploadUrl: string;
+  videoPath: string;
+  videoSize: number;
+  uploadedBytes: number;
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "uploadTikTokVideoChunks",
+    destinationId,
+    videoPath,
+    videoSize,
+    uploadedBytes,
+  });
+  const deadline = Date.now() + TIKTOK_UPLOAD_STEP_DURATION_MS;
+  const signedUrl = await getSignedUrl({
+    bucketName: socialMediaPostMediaFilesStorageBucket,
+    duration: 600,
+    filePath: videoPath,
+    supabase,
+  });
+  while (uploadedBytes < videoSize && Date.now() < deadline) {
+    const { start, end } = calculateTikTokChunkRange({
+      videoSize,
+      start: uploadedBytes,
+    });
+    const chunk = await fetchFileChunk({ signedUrl, start, end });
+    const response = await fetch(uploadUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "video/mp4",
+        "Content-Range": `bytes ${start}-${end}/${videoSize}`,
+      },
+      body: chunk,
+    });
+    if (!response.ok) {
+      logger.error(errorString, {
+        error: "Failed to upload video chunk to TikTok",
+        status: response.status,
+        start,
+        end,
+      });
+      await logger.flush();
+      throw new PublishError(
+        "Sorry, we had an issue uploading your video to TikTok. Please try again.",
+        { retryable: isRetryableStatus(response.status) }
+      );
+    }
+    uploadedBytes = end + 1;
+    const { error } = await supabase
+      .from("social-media-post-destinations")
+      .update({
+        uploaded_bytes: uploadedBytes,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", destinationId);
+    if (error) {
+      logger.error(errorString, error);
+      await logger.flush();
+      throw error;
+    }
+  }
+  logger.info("TikTok upload progress", { uploadedBytes });
+  await logger.flush();
+  return uploadedBytes;
 };
 
 export const writeTikTokPostToSupabase = async ({
@@ -242,6 +397,10 @@ export const writeTikTokPostToSupabase = async ({
   disableDuet,
   videoCoverTimestamp,
   tiktokAccountId,
+  postMode = "DIRECT_POST",
+  publicPostId = null,
+  permalink = null,
+  supabase = createClient(),
 }: {
   userId: string;
   publishId: string;
@@ -252,6 +411,10 @@ export const writeTikTokPostToSupabase = async ({
   disableDuet: boolean;
   videoCoverTimestamp: number;
   tiktokAccountId: string;
+  postMode?: TikTokPostMode;
+  publicPostId?: string | null;
+  permalink?: string | null;
+  supabase?: SupabaseServerClient;
 }) => {
   const logger = new Logger().with({
     function: "writeTikTokPostToSupabase",
@@ -263,8 +426,8 @@ export const writeTikTokPostToSupabase = async ({
     disableComment,
     disableDuet,
     videoCoverTimestamp,
+    postMode,
   });
-  const supabase = createClient();
   const { error: supabaseError } = await supabase.from("tiktok-posts").insert({
     user_id: userId,
     publish_id: publishId,
@@ -276,6 +439,9 @@ export const writeTikTokPostToSupabase = async ({
     disable_stitch: false,
     video_cover_timestamp_ms: videoCoverTimestamp,
     tiktok_account_id: tiktokAccountId,
+    post_mode: postMode,
+    publicaly_available_post_id: publicPostId,
+    permalink,
   });
   if (supabaseError) {
     logger.error(errorString, supabaseError);
@@ -284,7 +450,19 @@ export const writeTikTokPostToSupabase = async ({
   }
 };
 
-type StatusCode = "PROCESSING_DOWNLOAD" | "PUBLISH_COMPLETE" | "FAILED";
+type StatusCode =
+  | "PROCESSING_UPLOAD"
+  | "PROCESSING_DOWNLOAD"
+  | "SEND_TO_USER_INBOX"
+  | "PUBLISH_COMPLETE"
+  | "FAILED";
+
+// Inbox uploads stop at SEND_TO_USER_INBOX until the creator posts them, which
+// may be never, so that's as far as we follow them.
+const finishedStatusCodes: StatusCode[] = [
+  "PUBLISH_COMPLETE",
+  "SEND_TO_USER_INBOX",
+];
 
 type FailureReason =
   | "file_format_check_failed"
@@ -309,7 +487,7 @@ type TikTokPublishStatusResponseType = {
   data: {
     status: StatusCode;
     fail_reason?: FailureReason;
-    publicaly_available_post_id: [string];
+    publicaly_available_post_id?: (string | number)[];
     uploaded_bytes: number;
   };
   error: {
@@ -319,26 +497,16 @@ type TikTokPublishStatusResponseType = {
   };
 };
 
-export const checkTikTokPublishStatus = async ({
-  publishIds,
+export const fetchTikTokPublishStatus = async ({
+  publishId,
   accessToken,
 }: {
-  publishIds: string[];
+  publishId: string;
   accessToken: string;
 }) => {
-  let logger = new Logger().with({
-    function: "checkTikTokPublishStatus",
-    publishIds,
-    accessToken,
-  });
-
-  const checkStatus = async (publishId: string): Promise<StatusCode> => {
-    let numberOfPolls = 0;
-    const maxNumberOfPolls = 15;
-    let statusCode: StatusCode | null = null;
-
-    const url = `https://open.tiktokapis.com/v2/post/publish/status/fetch/`;
-    const response = await fetch(url, {
+  const response = await fetch(
+    buildTikTokAPIURL("/v2/post/publish/status/fetch/"),
+    {
       method: "POST",
       headers: {
         Authorization: `Bearer ${accessToken}`,
@@ -347,59 +515,20 @@ export const checkTikTokPublishStatus = async ({
       body: JSON.stringify({
         publish_id: publishId,
       }),
-    });
-    const { error, data }: TikTokPublishStatusResponseType =
-      await response.json();
-    if (error) {
-      handleTikTokPublishError(error.code);
-    }
-    statusCode = data.status;
-    handleTikTokPublishStatus(statusCode, data.fail_reason);
-
-    while (statusCode !== "PUBLISH_COMPLETE") {
-      const resp = await fetch(url, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json; charset=UTF-8",
-        },
-        body: JSON.stringify({
-          publish_id: publishId,
-        }),
-      });
-      const { error, data }: TikTokPublishStatusResponseType =
-        await resp.json();
-      if (error) {
-        handleTikTokPublishError(error.code);
-      }
-
-      statusCode = data.status;
-      handleTikTokPublishStatus(statusCode, data.fail_reason);
-
-      if (numberOfPolls > maxNumberOfPolls) {
-        logger.error("Status check timed out");
-        await logger.flush();
-        throw new Error("Status check timed out");
-      }
-
-      logger.info("Checked tiktok publish status", {
-        statusCode,
-      });
-      numberOfPolls++;
-      await new Promise((resolve) => setTimeout(resolve, 15000));
     }
-
-    logger.info("Returning tiktok publish status code", { statusCode });
-    await logger.flush();
-    return statusCode;
+  );
+  const { error, data }: TikTokPublishStatusResponseType =
+    await response.json();
+  if (error) {
+    handleTikTokPublishError(error.code);
+  }
+  handleTikTokPublishStatus(data.status, data.fail_reason);
+  return {
+    status: data.status,
+    isFinished: finishedStatusCodes.includes(data.status),
+    // Only set once a public post has passed moderation.
+    publicPostId: data.publicaly_available_post_id?.[0]?.toString() ?? null,
   };
-
-  // Run checkStatus for all containerIds concurrently
-  const statusPromises = publishIds.map(checkStatus);
-  await Promise.all(statusPromises);
-
-  logger.info("All tiktok publish ids have finished processing");
-  await logger.flush();
 };
 
 const handleTikTokPublishError = (error: ErrorCode) => {
@@ -419,11 +548,15 @@ const handleTikTokPublishError = (error: ErrorCode) => {
         "It seems like you didn't have the right permissions to post this video. Please reconnect your account and try again."
       );
     case "rate_limit_exceeded":
-      throw Error(
-        "You've made too many requests to TikTok recently. Please try again in a few minutes."
+      throw new PublishError(
+        "You've made too many requests to TikTok recently. Please try again in a few minutes.",
+        { retryable: true }
       );
     case "internal_error":
-      throw Error("Something went wrong making your post. Please try again.");
+      throw new PublishError(
+        "Something went wrong making your post. Please try again.",
+        { retryable: true }
+      );
     case "ok":
       return;
     default:
@@ -437,6 +570,7 @@ const handleTikTokPublishStatus = (
 ) => {
   switch (status) {
     case "PUBLISH_COMPLETE":
+    case "SEND_TO_USER_INBOX":
       return;
     case "FAILED":
       switch (failReason) {
@@ -471,11 +605,130 @@ const handleTikTokPublishStatus = (
             "Something went wrong making your post. Please try again."
           );
       }
+    case "PROCESSING_UPLOAD":
     case "PROCESSING_DOWNLOAD":
       return;
   }
 };
 
+// TikTok's video query takes at most 20 ids per request.
+const TIKTOK_VIDEO_QUERY_BATCH_SIZE = 20;
+
+type TikTokVideoQueryResponse = {
+  data?: {
+    videos: {
+      id: string;
+      view_count?: number;
+      like_count?: number;
+      comment_count?: number;
+      share_count?: number;
+    }[];
+  };
+  error: {
+    code: ErrorCode;
+    message: string;
+    log_id: string;
+  };
+};
+
+// Videos that were deleted or made private are left out of the result.
+export const fetchTikTokVideoMetrics = async ({
+  accessToken,
+  videoIds,
+}: {
+  accessToken: string;
+  videoIds: string[];
+}) => {
+  const logger = new Logger().with({
+    function: "fetchTikTokVideoMetrics",
+    videoIds,
+  });
+  const metrics: { [videoId: string]: PostMetrics } = {};
+  for (let i = 0; i < videoIds.length; i += TIKTOK_VIDEO_QUERY_BATCH_SIZE) {
+    const response = await fetch(
+      buildTikTokAPIURL(
+        "/v2/video/query/?fields=id,view_count,like_count,comment_count,share_count"
+      ),
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json; charset=UTF-8",
+        },
+        body: JSON.stringify({
+          filters: {
+            video_ids: videoIds.slice(i, i + TIKTOK_VIDEO_QUERY_BATCH_SIZE),
+          },
+        }),
+      }
+    );
+    const { data, error } = (await response.json()) as TikTokVideoQueryResponse;
+    if (error.code !== "ok" || !data) {
+      logger.error(errorString, error);
+      await logger.flush();
+      throw new Error("Failed fetching TikTok video metrics");
+    }
+    data.videos.forEach((video) => {
+      metrics[video.id] = {
+        ...emptyPostMetrics,
+        views: video.view_count ?? null,
+        likes: video.like_count ?? null,
+        comments: video.comment_count ?? null,
+        shares: video.share_count ?? null,
+      };
+    });
+  }
+  return metrics;
+};
+
+type TikTokUserInfoResponse = {
+  data?: {
+    user?: {
+      follower_count?: number;
+      following_count?: number;
+      likes_count?: number;
+      video_count?: number;
+    };
+  };
+  error: {
+    code: ErrorCode;
+    message: string;
+    log_id: string;
+  };
+};
+
+export const fetchTikTokUserStats = async (
+  accessToken: string
+): Promise<AccountStats> => {
+  const logger = new Logger().with({
+    function: "fetchTikTokUserStats",
+  });
+  const response = await fetch(
+    buildTikTokAPIURL(
+      "/v2/user/info/?fields=follower_count,following_count,likes_count,video_count"
+    ),
+    {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    }
+  );
+  const { data, error } = (await response.json()) as TikTokUserInfoResponse;
+  if (error.code !== "ok" || !data?.user) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error("Failed fetching TikTok account stats");
+  }
+  const { user } = data;
+  return {
+    followers: user.follower_count ?? null,
+    following: user.following_count ?? null,
+    likes: user.likes_count ?? null,
+    posts: user.video_count ?? null,
+  };
+};
+
 type TikTokCreatorInfoErrorCode =
   | "ok"
   | "spam_risk_too_many_posts"
@@ -487,6 +740,12 @@ type TikTokCreatorInfoErrorCode =
   | "rate_limit_exceeded"
   | "internal_error";
 
+// Anything else, e.g. spam_risk_too_many_posts, won't succeed by asking again.
+const retryableTikTokErrorCodes: TikTokCreatorInfoErrorCode[] = [
+  "rate_limit_exceeded",
+  "internal_error",
+];
+
 type TikTokCreatorInfoResponse = {
   data: {
     creator_avatar_url: string;
@@ -511,7 +770,7 @@ export const fetchCreatorInfo = async (accessToken: string) => {
     accessToken,
   });
   const response = await fetch(
-    "https://open.tiktokapis.com/v2/post/publish/creator_info/query/",
+    buildTikTokAPIURL("/v2/post/publish/creator_info/query/"),
     {
       method: "POST",
       headers: {
@@ -526,7 +785,84 @@ export const fetchCreatorInfo = async (accessToken: string) => {
     await logger.flush();
   }
 
-  return { data, errorMessage: generateErrorMessage(error.code) };
+  return {
+    data,
+    constraints:
+      error.code === "ok"
+        ? ({
+            privacyLevelOptions: data.privacy_level_options,
+            commentDisabled: data.comment_disabled,
+            duetDisabled: data.duet_disabled,
+            stitchDisabled: data.stitch_disabled,
+            maxVideoPostDurationSec: data.max_video_post_duration_sec,
+          } as TikTokCreatorConstraints)
+        : null,
+    errorMessage: generateErrorMessage(error.code),
+    isRetryableError: retryableTikTokErrorCodes.includes(error.code),
+  };
+};
+
+// TikTok asks for creator_info to be queried again right before posting, in
+// case the creator's settings changed while the form was open.
+export const checkTikTokCreatorInfo = async ({
+  workspaceId,
+  destinations,
+}: {
+  workspaceId: string;
+  destinations: { accountId: string; settings: TikTokDestinationSettings }[];
+}) => {
+  const logger = new Logger().with({
+    function: "checkTikTokCreatorInfo",
+    workspaceId,
+  });
+  const directPosts = destinations.filter(
+    ({ settings }) => settings.postMode !== "MEDIA_UPLOAD"
+  );
+  if (directPosts.length === 0) {
+    return;
+  }
+  const supabase = createClient();
+  const { data: accounts, error } = await supabase
+    .from("tiktok-accounts")
+    .select("id, access_token")
+    .eq("workspace_id", workspaceId)
+    .in(
+      "id",
+      directPosts.map(({ accountId }) => accountId)
+    );
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue checking your TikTok account. Please try again."
+    );
+  }
+  for (let i = 0; i < directPosts.length; i++) {
+    const { accountId, settings } = directPosts[i];
+    const account = accounts.find(({ id }) => id === accountId);
+    if (!account) {
+      logger.error(errorString, {
+        error: "TikTok account not found",
+        accountId,
+      });
+      await logger.flush();
+      throw new Error("Please reconnect your TikTok account and try again.");
+    }
+    const { constraints, errorMessage } = await fetchCreatorInfo(
+      decryptAccountTokens("tiktok-accounts", account).access_token
+    );
+    const conflict = constraints
+      ? findTikTokCreatorConflict({ constraints, settings })
+      : errorMessage;
+    if (conflict) {
+      logger.warn("TikTok creator can't make this post", {
+        accountId,
+        conflict,
+      });
+      await logger.flush();
+      throw new Error(conflict);
+    }
+  }
 };
 
 const generateErrorMessage = (error: TikTokCreatorInfoErrorCode) => {
@@ -551,89 +887,3 @@ const generateErrorMessage = (error: TikTokCreatorInfoErrorCode) => {
       return "It seems like TikTok is having some issues — please try again later";
   }
 };
-
-export const refreshTikTokAccessTokens = async () => {
-  const supabase = createAdminClient();
-  const logger = new Logger().with({
-    function: "refreshTikTokAccessTokens",
-  });
-  const { data, error } = await supabase.from("tiktok-accounts").select("*");
-  logger.info(startingFunctionString);
-  if (error) {
-    logger.error(errorString, error);
-    await logger.flush();
-    throw error;
-  }
-  if (!data) {
-    logger.error(errorString, {
-      error: "No data returned from tiktok accounts",
-    });
-    await logger.flush();
-    throw error;
-  }
-  for (let i = 0; i < data.length; i++) {
-    const { refresh_token, id } = data[i];
-    await refreshTikTokAccessToken({ refreshToken: refresh_token, id });
-  }
-  logger.info(endingFunctionString, {
-    numberOfAccounts: data.length,
-  });
-  await logger.flush();
-};
-
-type TikTokRefreshTokenResponse = {
-  access_token?: string;
-  expires_in?: number;
-  open_id?: string;
-  refresh_expires_in?: number;
-  refresh_token?: string;
-  scope?: string;
-  token_type?: string;
-  error?: string;
-  error_description?: string;
-};
-
-const refreshTikTokAccessToken = async ({
-  refreshToken,
-  id,
-}: {
-  refreshToken: string;
-  id: string;
-}) => {
-  const logger = new Logger().with({
-    function: "refreshTikTokAccessToken",
-    refreshToken,
-    id,
-  });
-  logger.info(startingFunctionString);
-  const supabase = createClient();
-  const response = await fetch("https://open.tiktokapis.com/v2/oauth/token/", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: `client_key=${process.env.TIKTOK_CLIENT_KEY}&client_secret=${process.env.TIKTOK_CLIENT_SECRET}&grant_type=refresh_token&refresh_token=${refreshToken}`,
-  });
-  const { error, error_description, refresh_token, access_token } =
-    (await response.json()) as TikTokRefreshTokenResponse;
-  if (error) {
-    logger.error(errorString, { error, error_description });
-    await logger.flush();
-    throw Error(error);
-  }
-  const { error: updateError } = await supabase
-    .from("tiktok-accounts")
-    .update({
-      refresh_token,
-      access_token,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", id);
-  if (updateError) {
-    logger.error(errorString, updateError);
-    await logger.flush();
-    throw updateError;
-  }
-  logger.info(endingFunctionString);
-  await logger.flush();
-};
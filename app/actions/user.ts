@@ -1,11 +1,11 @@
 "use server";
 
 import { createClient } from "@/utils/supabase/server";
-import { Logger } from "next-axiom";
 import {
   endingFunctionString,
   errorString,
   startingFunctionString,
+  Logger,
 } from "@/utils/logging";
 import { redirect } from "next/navigation";
 
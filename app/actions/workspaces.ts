@@ -0,0 +1,558 @@
+"use server";
+
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import {
+  canManageMembers,
+  toWorkspaceRole,
+  WorkspaceRole,
+} from "@/utils/workspaceRoles";
+
+// Remembers which of the user's workspaces they last switched to.
+const CURRENT_WORKSPACE_COOKIE = "workspace_id";
+
+export type Workspace = {
+  id: string;
+  name: string;
+  // The signed in user's role in this workspace.
+  role: WorkspaceRole;
+};
+
+export type WorkspaceMember = {
+  userId: string;
+  email: string;
+  role: WorkspaceRole;
+};
+
+export type WorkspaceInvitation = {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string;
+};
+
+export const fetchWorkspaces = async (userId: string) => {
+  const logger = new Logger().with({
+    function: "fetchWorkspaces",
+    userId,
+  });
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("workspace-members")
+    .select("role, workspaces(id, name)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your workspaces. Please try again."
+    );
+  }
+  return data.flatMap(({ role, workspaces }): Workspace[] =>
+    workspaces
+      ? [
+          {
+            id: workspaces.id,
+            name: workspaces.name,
+            role: toWorkspaceRole(role),
+          },
+        ]
+      : []
+  );
+};
+
+// Looks up the signed in user rather than trusting a user id from the client,
+// which any teammate could fill in with an owner's.
+export const fetchWorkspaceRole = async (workspaceId: string) => {
+  const logger = new Logger().with({
+    function: "fetchWorkspaceRole",
+    workspaceId,
+  });
+  const supabase = createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("Please sign in again.");
+  }
+  const { data, error } = await supabase
+    .from("workspace-members")
+    .select("role")
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your workspace. Please try again."
+    );
+  }
+  if (!data) {
+    throw new Error("You're not a member of this workspace.");
+  }
+  return { userId: user.id, role: toWorkspaceRole(data.role) };
+};
+
+// Falls back to the workspace the user joined first, which is their personal
+// one, when they haven't switched or were removed from the one they had.
+export const getCurrentWorkspace = async (userId: string) => {
+  const workspaces = await fetchWorkspaces(userId);
+  const currentWorkspaceId = cookies().get(CURRENT_WORKSPACE_COOKIE)?.value;
+  const workspace =
+    workspaces.find(({ id }) => id === currentWorkspaceId) ?? workspaces[0];
+  if (!workspace) {
+    throw new Error(
+      "Sorry, we couldn't find your workspace. Please sign in again."
+    );
+  }
+  return workspace;
+};
+
+export const switchWorkspace = async ({
+  userId,
+  workspaceId,
+}: {
+  userId: string;
+  workspaceId: string;
+}) => {
+  const workspaces = await fetchWorkspaces(userId);
+  if (!workspaces.some(({ id }) => id === workspaceId)) {
+    throw new Error("You're not a member of this workspace.");
+  }
+  cookies().set(CURRENT_WORKSPACE_COOKIE, workspaceId, {
+    path: "/",
+    sameSite: "lax",
+  });
+  revalidatePath("/", "layout");
+};
+
+export const createWorkspace = async ({
+  userId,
+  name,
+}: {
+  userId: string;
+  name: string;
+}) => {
+  const logger = new Logger().with({
+    function: "createWorkspace",
+    userId,
+    name,
+  });
+  logger.info(startingFunctionString);
+  if (!name.trim()) {
+    throw new Error("Please give your workspace a name.");
+  }
+  const supabase = createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const { data: workspace, error } = await supabase
+    .from("workspaces")
+    .insert({ name: name.trim(), created_by: userId })
+    .select("id, name")
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue creating your workspace. Please try again."
+    );
+  }
+  const { error: memberError } = await supabase
+    .from("workspace-members")
+    .insert({
+      workspace_id: workspace.id,
+      user_id: userId,
+      email: user?.email ?? "",
+      role: "owner",
+    });
+  if (memberError) {
+    logger.error(errorString, memberError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue creating your workspace. Please try again."
+    );
+  }
+  logger.info(endingFunctionString, { workspaceId: workspace.id });
+  await logger.flush();
+  revalidatePath("/workspaces");
+  const createdWorkspace: Workspace = { ...workspace, role: "owner" };
+  return createdWorkspace;
+};
+
+export const fetchWorkspaceMembers = async (workspaceId: string) => {
+  const logger = new Logger().with({
+    function: "fetchWorkspaceMembers",
+    workspaceId,
+  });
+  const supabase = createClient();
+  const [members, invitations] = await Promise.all([
+    supabase
+      .from("workspace-members")
+      .select("user_id, email, role")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("workspace-invitations")
+      .select("id, email, role")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: true }),
+  ]);
+  const error = members.error ?? invitations.error;
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your teammates. Please try again."
+    );
+  }
+  return {
+    members: (members.data ?? []).map(
+      ({ user_id, email, role }): WorkspaceMember => ({
+        userId: user_id,
+        email,
+        role: toWorkspaceRole(role),
+      })
+    ),
+    invitations: (invitations.data ?? []).map(({ id, email, role }) => ({
+      id,
+      email,
+      role: toWorkspaceRole(role),
+    })),
+  };
+};
+
+// The invitee joins the next time they sign in with this email, whether or
+// not they already have an account, and gets the role they were invited with.
+export const inviteToWorkspace = async ({
+  workspaceId,
+  userId,
+  email,
+  role = "editor",
+}: {
+  workspaceId: string;
+  userId: string;
+  email: string;
+  role?: WorkspaceRole;
+}) => {
+  const logger = new Logger().with({
+    function: "inviteToWorkspace",
+    workspaceId,
+    userId,
+    role,
+  });
+  logger.info(startingFunctionString);
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+$/.test(normalizedEmail)) {
+    throw new Error("Please enter a valid email address.");
+  }
+  const { role: signedInUserRole } = await fetchWorkspaceRole(workspaceId);
+  if (!canManageMembers(signedInUserRole)) {
+    throw new Error("Only owners can invite teammates.");
+  }
+  const supabase = createClient();
+  const { data: members, error: membersError } = await supabase
+    .from("workspace-members")
+    .select("email")
+    .eq("workspace_id", workspaceId);
+  if (membersError) {
+    logger.error(errorString, membersError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue sending your invitation. Please try again."
+    );
+  }
+  if (members.some(({ email }) => email.toLowerCase() === normalizedEmail)) {
+    throw new Error("This person is already in your workspace.");
+  }
+  const { error } = await supabase.from("workspace-invitations").insert({
+    workspace_id: workspaceId,
+    email: normalizedEmail,
+    invited_by: userId,
+    role,
+  });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      error.code === "23505"
+        ? "This person has already been invited."
+        : "Sorry, we had an issue sending your invitation. Please try again."
+    );
+  }
+  logger.info(endingFunctionString);
+  await logger.flush();
+  revalidatePath("/workspaces");
+};
+
+export const fetchPendingWorkspaceInvitations = async (userId: string) => {
+  const logger = new Logger().with({
+    function: "fetchPendingWorkspaceInvitations",
+    userId,
+  });
+  const supabase = createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user?.email) {
+    return [];
+  }
+  const { data, error } = await supabase
+    .from("workspace-invitations")
+    .select("id, workspace_id, email, workspaces(name)")
+    .eq("email", user.email.toLowerCase())
+    .order("created_at", { ascending: true });
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue loading your invitations. Please try again."
+    );
+  }
+  return data.map(
+    (invitation): WorkspaceInvitation => ({
+      id: invitation.id,
+      workspaceId: invitation.workspace_id,
+      workspaceName: invitation.workspaces?.name ?? "A workspace",
+      email: invitation.email,
+    })
+  );
+};
+
+export const acceptWorkspaceInvitation = async ({
+  invitationId,
+  userId,
+}: {
+  invitationId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "acceptWorkspaceInvitation",
+    invitationId,
+    userId,
+  });
+  logger.info(startingFunctionString);
+  const supabase = createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const { data: invitation, error } = await supabase
+    .from("workspace-invitations")
+    .select("workspace_id, email, role")
+    .eq("id", invitationId)
+    .single();
+  if (error || !user?.email) {
+    logger.error(errorString, error ?? { error: "User has no email" });
+    await logger.flush();
+    throw new Error("Sorry, we couldn't find this invitation.");
+  }
+  const { error: memberError } = await supabase
+    .from("workspace-members")
+    .insert({
+      workspace_id: invitation.workspace_id,
+      user_id: userId,
+      email: user.email,
+      role: invitation.role,
+    });
+  // Accepting twice, e.g. from two tabs, leaves the user a member either way.
+  if (memberError && memberError.code !== "23505") {
+    logger.error(errorString, memberError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue joining this workspace. Please try again."
+    );
+  }
+  const { error: deleteError } = await supabase
+    .from("workspace-invitations")
+    .delete()
+    .eq("id", invitationId);
+  if (deleteError) {
+    logger.error(errorString, deleteError);
+  }
+  logger.info(endingFunctionString, { workspaceId: invitation.workspace_id });
+  await logger.flush();
+  revalidatePath("/workspaces");
+  return invitation.workspace_id;
+};
+
+export const revokeWorkspaceInvitation = async ({
+  invitationId,
+  userId,
+}: {
+  invitationId: string;
+  userId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "revokeWorkspaceInvitation",
+    invitationId,
+    userId,
+  });
+  const supabase = createClient();
+  const { data: invitation, error: invitationError } = await supabase
+    .from("workspace-invitations")
+    .select("workspace_id")
+    .eq("id", invitationId)
+    .single();
+  if (invitationError) {
+    logger.error(errorString, invitationError);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue removing this invitation. Please try again."
+    );
+  }
+  const { role: signedInUserRole } = await fetchWorkspaceRole(
+    invitation.workspace_id
+  );
+  if (!canManageMembers(signedInUserRole)) {
+    throw new Error("Only owners can cancel invitations.");
+  }
+  const { error } = await supabase
+    .from("workspace-invitations")
+    .delete()
+    .eq("id", invitationId);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue removing this invitation. Please try again."
+    );
+  }
+  revalidatePath("/workspaces");
+};
+
+// Owners can remove teammates and anyone can leave, but someone always has to
+// stay behind as an owner to manage the workspace's accounts and posts.
+export const removeWorkspaceMember = async ({
+  workspaceId,
+  userId,
+  memberUserId,
+}: {
+  workspaceId: string;
+  userId: string;
+  memberUserId: string;
+}) => {
+  const logger = new Logger().with({
+    function: "removeWorkspaceMember",
+    workspaceId,
+    userId,
+    memberUserId,
+  });
+  logger.info(startingFunctionString);
+  const { userId: signedInUserId, role } = await fetchWorkspaceRole(
+    workspaceId
+  );
+  if (memberUserId !== signedInUserId && !canManageMembers(role)) {
+    throw new Error("Only owners can remove teammates.");
+  }
+  await checkWorkspaceKeepsAnOwner({
+    workspaceId,
+    memberUserId,
+    errorMessage:
+      "Sorry, we had an issue removing this teammate. Please try again.",
+    logger,
+  });
+  const supabase = createClient();
+  const { error } = await supabase
+    .from("workspace-members")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", memberUserId);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue removing this teammate. Please try again."
+    );
+  }
+  logger.info(endingFunctionString);
+  await logger.flush();
+  revalidatePath("/workspaces");
+};
+
+export const updateWorkspaceMemberRole = async ({
+  workspaceId,
+  userId,
+  memberUserId,
+  role,
+}: {
+  workspaceId: string;
+  userId: string;
+  memberUserId: string;
+  role: WorkspaceRole;
+}) => {
+  const logger = new Logger().with({
+    function: "updateWorkspaceMemberRole",
+    workspaceId,
+    userId,
+    memberUserId,
+    role,
+  });
+  logger.info(startingFunctionString);
+  const { role: signedInUserRole } = await fetchWorkspaceRole(workspaceId);
+  if (!canManageMembers(signedInUserRole)) {
+    throw new Error("Only owners can change roles.");
+  }
+  if (role !== "owner") {
+    await checkWorkspaceKeepsAnOwner({
+      workspaceId,
+      memberUserId,
+      errorMessage:
+        "Sorry, we had an issue changing this role. Please try again.",
+      logger,
+    });
+  }
+  const supabase = createClient();
+  const { error } = await supabase
+    .from("workspace-members")
+    .update({ role })
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", memberUserId);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(
+      "Sorry, we had an issue changing this role. Please try again."
+    );
+  }
+  logger.info(endingFunctionString);
+  await logger.flush();
+  revalidatePath("/workspaces");
+};
+
+// Throws when the member is the workspace's last owner, since nobody else
+// could invite teammates or change roles once they're gone.
+const checkWorkspaceKeepsAnOwner = async ({
+  workspaceId,
+  memberUserId,
+  errorMessage,
+  logger,
+}: {
+  workspaceId: string;
+  memberUserId: string;
+  errorMessage: string;
+  logger: Logger;
+}) => {
+  const supabase = createClient();
+  const { data: owners, error } = await supabase
+    .from("workspace-members")
+    .select("user_id")
+    .eq("workspace_id", workspaceId)
+    .eq("role", "owner");
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(errorMessage);
+  }
+  if (owners.every(({ user_id }) => user_id === memberUserId)) {
+    throw new Error("A workspace needs at least one owner.");
+  }
+};
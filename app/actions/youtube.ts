@@ -1,21 +1,30 @@
 "use server";
 
+import { errorString, startingFunctionString, Logger } from "@/utils/logging";
+import { isRetryableStatus, PublishError } from "@/utils/publishRetry";
+import { emptyPostMetrics, PostMetrics } from "@/utils/postAnalytics";
+import { AccountStats, emptyAccountStats } from "@/utils/accountStats";
+import { createClient, SupabaseServerClient } from "@/utils/supabase/server";
 import {
-  endingFunctionString,
-  errorString,
-  startingFunctionString,
-} from "@/utils/logging";
-import { createAdminClient, createClient } from "@/utils/supabase/server";
-import youtubeAuthClient from "@/utils/youtube";
+  downloadFile,
+  fetchFileChunk,
+  fetchFileMetadata,
+  getSignedUrl,
+  socialMediaPostMediaFilesStorageBucket,
+} from "@/utils/supabase/storage";
+import {
+  createYoutubeAuthClient,
+  youtubeRequestOptions,
+} from "@/utils/youtube";
 import { randomBytes } from "crypto";
-import { Credentials } from "google-auth-library";
+import { Credentials, OAuth2Client } from "google-auth-library";
 import { google } from "googleapis";
-import { Logger } from "next-axiom/dist/logger";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { Readable } from "node:stream";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
 
-export type YoutubeVideoStatus = "private" | "public";
+export type YoutubeVideoStatus = "private" | "public" | "unlisted";
 
 export const connectYoutubeAccount = async () => {
   const scopes = [
@@ -24,7 +33,7 @@ export const connectYoutubeAccount = async () => {
   ];
 
   const state = randomBytes(32).toString("hex");
-  const authUrl = youtubeAuthClient.generateAuthUrl({
+  const authUrl = createYoutubeAuthClient().generateAuthUrl({
     access_type: "offline",
     scope: scopes,
     include_granted_scopes: true,
@@ -35,104 +44,430 @@ export const connectYoutubeAccount = async () => {
   redirect(authUrl);
 };
 
-export const postVideoToYoutube = async ({
-  title,
-  video,
+export type YoutubeVideoMetadata = {
+  title: string;
+  visibility: YoutubeVideoStatus;
+  description?: string;
+  tags?: string[];
+  categoryId?: string;
+  madeForKids?: boolean;
+  defaultLanguage?: string;
+};
+
+type YoutubeAPIErrorResponse = {
+  error?: { code?: number; message?: string; errors?: unknown[] };
+};
+
+// Every chunk but the last has to be a multiple of 256 KiB.
+const YOUTUBE_UPLOAD_CHUNK_SIZE = 32 * 256 * 1024;
+// Stops sending chunks with enough of the 300 second max duration left to
+// record the progress. The next queue step carries on from there.
+const YOUTUBE_UPLOAD_STEP_DURATION_MS = 4 * 60 * 1000;
+const youtubeUploadErrorMessage =
+  "Sorry, we couldn't upload your video to YouTube. Please try again.";
+
+// Opens a resumable upload session for the video. The video itself is sent in
+// chunks by resumeYoutubeVideoUpload, so it never has to fit in memory.
+export const startYoutubeVideoUpload = async ({
+  userId,
+  destinationId,
+  youtubeChannelId,
+  videoPath,
+  metadata,
+  supabase = createClient(),
+}: {
+  userId: string;
+  destinationId: string;
+  youtubeChannelId: string;
+  videoPath: string;
+  metadata: YoutubeVideoMetadata;
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "startYoutubeVideoUpload",
+    userId,
+    destinationId,
+    youtubeChannelId,
+    videoPath,
+  });
+  logger.info(startingFunctionString);
+  const [authHeaders, video] = await Promise.all([
+    fetchYoutubeAuthHeaders({ youtubeChannelId, supabase }),
+    fetchFileMetadata({
+      bucketName: socialMediaPostMediaFilesStorageBucket,
+      filePath: videoPath,
+      supabase,
+    }),
+  ]);
+  const url = new URL(
+    "upload/youtube/v3/videos",
+    youtubeRequestOptions.rootUrl || "https://www.googleapis.com/"
+  );
+  url.searchParams.set("uploadType", "resumable");
+  url.searchParams.set("part", "snippet,status");
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      ...authHeaders,
+      "Content-Type": "application/json; charset=UTF-8",
+      "X-Upload-Content-Length": String(video.size),
+      "X-Upload-Content-Type": video.mimeType || "video/mp4",
+    },
+    body: JSON.stringify({
+      snippet: {
+        title: metadata.title,
+        description: metadata.description,
+        tags: metadata.tags ?? [],
+        categoryId: metadata.categoryId,
+        defaultLanguage: metadata.defaultLanguage,
+        defaultAudioLanguage: metadata.defaultLanguage,
+      },
+      status: {
+        privacyStatus: metadata.visibility,
+        selfDeclaredMadeForKids: metadata.madeForKids,
+      },
+    }),
+  });
+  if (!response.ok) {
+    await throwYoutubeUploadError({ response, logger });
+  }
+  const sessionUrl = response.headers.get("Location");
+  if (!sessionUrl) {
+    logger.error(errorString, { error: "Upload session url not found" });
+    await logger.flush();
+    throw new Error(youtubeUploadErrorMessage);
+  }
+  // A retried destination starts over with a new session.
+  const { error } = await supabase.from("youtube-upload-sessions").upsert(
+    {
+      user_id: userId,
+      destination_id: destinationId,
+      session_url: sessionUrl,
+      video_path: videoPath,
+      video_size: video.size,
+      uploaded_bytes: 0,
+      video_id: null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "destination_id" }
+  );
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw error;
+  }
+  logger.info("Youtube upload session started", { videoSize: video.size });
+  await logger.flush();
+};
+
+// Sends the video in chunks, streamed from storage, until it's uploaded or the
+// step runs out of time. Returns the video id once YouTube has all of it.
+export const resumeYoutubeVideoUpload = async ({
+  userId,
+  destinationId,
+  youtubeChannelId,
+  supabase = createClient(),
+}: {
+  userId: string;
+  destinationId: string;
+  youtubeChannelId: string;
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "resumeYoutubeVideoUpload",
+    userId,
+    destinationId,
+    youtubeChannelId,
+  });
+  const deadline = Date.now() + YOUTUBE_UPLOAD_STEP_DURATION_MS;
+  const { data: session, error } = await supabase
+    .from("youtube-upload-sessions")
+    .select("*")
+    .eq("destination_id", destinationId)
+    .single();
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw error;
+  }
+  if (session.video_id) {
+    return session.video_id;
+  }
+  const authHeaders = await fetchYoutubeAuthHeaders({
+    youtubeChannelId,
+    supabase,
+  });
+  const saveProgress = async ({
+    uploadedBytes,
+    videoId,
+  }: {
+    uploadedBytes: number;
+    videoId: string | null;
+  }) => {
+    const { error } = await supabase
+      .from("youtube-upload-sessions")
+      .update({
+        uploaded_bytes: uploadedBytes,
+        video_id: videoId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", session.id);
+    if (error) {
+      logger.error(errorString, error);
+      await logger.flush();
+      throw error;
+    }
+  };
+  // A step cut off by a timeout can have sent bytes it never recorded, so
+  // YouTube is asked where to carry on from.
+  let progress = await sendYoutubeUploadChunk({
+    sessionUrl: session.session_url,
+    videoSize: session.video_size,
+    authHeaders,
+    logger,
+  });
+  await saveProgress(progress);
+  const signedUrl = await getSignedUrl({
+    bucketName: socialMediaPostMediaFilesStorageBucket,
+    duration: 600,
+    filePath: session.video_path,
+    supabase,
+  });
+  while (!progress.videoId && Date.now() < deadline) {
+    const start = progress.uploadedBytes;
+    const end =
+      Math.min(start + YOUTUBE_UPLOAD_CHUNK_SIZE, session.video_size) - 1;
+    const chunk = await fetchFileChunk({ signedUrl, start, end });
+    progress = await sendYoutubeUploadChunk({
+      sessionUrl: session.session_url,
+      videoSize: session.video_size,
+      authHeaders,
+      chunk: { start, end, body: chunk },
+      logger,
+    });
+    await saveProgress(progress);
+  }
+  logger.info("Youtube upload progress", {
+    uploadedBytes: progress.uploadedBytes,
+    videoSize: session.video_size,
+    videoId: progress.videoId,
+  });
+  await logger.flush();
+  return progress.videoId;
+};
+
+export const writeYoutubePostToSupabase = async ({
+  videoId,
   userId,
   parentSocialMediaPostId,
   youtubeChannelId,
-  isPrivate,
+  metadata,
+  thumbnailPath,
+  supabase = createClient(),
 }: {
-  title: string;
-  video: File;
+  videoId: string;
   userId: string;
   parentSocialMediaPostId: string;
   youtubeChannelId: string;
-  isPrivate: boolean;
+  metadata: YoutubeVideoMetadata;
+  thumbnailPath?: string;
+  supabase?: SupabaseServerClient;
 }) => {
   const logger = new Logger().with({
-    function: "postVideoToYoutube",
-    title,
+    function: "writeYoutubePostToSupabase",
+    videoId,
     userId,
     parentSocialMediaPostId,
     youtubeChannelId,
   });
-  logger.info(startingFunctionString);
-  const youtubeAccount = await getYoutubeAccountForUser({
-    userId,
+  if (thumbnailPath) {
+    const [thumbnail, authClient] = await Promise.all([
+      downloadFile({
+        bucketName: socialMediaPostMediaFilesStorageBucket,
+        filePath: thumbnailPath,
+        supabase,
+      }),
+      fetchYoutubeAuthClient({ youtubeChannelId, supabase }),
+    ]);
+    await setYoutubeThumbnail({ videoId, thumbnail, authClient, logger });
+  }
+  const { error } = await supabase.from("youtube-posts").insert({
+    id: videoId,
+    parent_social_media_post_id: parentSocialMediaPostId,
+    title: metadata.title,
+    description: metadata.description,
+    tags: metadata.tags ?? [],
+    category_id: metadata.categoryId,
+    privacy_status: metadata.visibility,
+    self_declared_made_for_kids: metadata.madeForKids,
+    default_language: metadata.defaultLanguage,
+    thumbnail_path: thumbnailPath,
+    user_id: userId,
+    youtube_channel_id: youtubeChannelId,
+  });
+  // The video is live either way, so failing here would only upload it again.
+  if (error) {
+    logger.error(errorString, error);
+  }
+  await logger.flush();
+};
+
+const fetchYoutubeAuthClient = async ({
+  youtubeChannelId,
+  supabase,
+}: {
+  youtubeChannelId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const { credentials } = await getYoutubeChannel({
+    youtubeChannelId,
+    supabase,
+  });
+  const authClient = createYoutubeAuthClient();
+  authClient.setCredentials(credentials as Credentials);
+  return authClient;
+};
+
+const fetchYoutubeAuthHeaders = async ({
+  youtubeChannelId,
+  supabase,
+}: {
+  youtubeChannelId: string;
+  supabase: SupabaseServerClient;
+}) => {
+  const authClient = await fetchYoutubeAuthClient({
     youtubeChannelId,
+    supabase,
+  });
+  const { Authorization } = await authClient.getRequestHeaders();
+  return { Authorization };
+};
+
+// Without a chunk this only asks YouTube how many bytes it has received.
+const sendYoutubeUploadChunk = async ({
+  sessionUrl,
+  videoSize,
+  authHeaders,
+  chunk,
+  logger,
+}: {
+  sessionUrl: string;
+  videoSize: number;
+  authHeaders: { Authorization: string };
+  chunk?: { start: number; end: number; body: ArrayBuffer };
+  logger: Logger;
+}): Promise<{ uploadedBytes: number; videoId: string | null }> => {
+  const response = await fetch(sessionUrl, {
+    method: "PUT",
+    // YouTube answers an unfinished upload with a 308 that has no Location.
+    redirect: "manual",
+    headers: {
+      ...authHeaders,
+      "Content-Range": chunk
+        ? `bytes ${chunk.start}-${chunk.end}/${videoSize}`
+        : `bytes */${videoSize}`,
+    },
+    body: chunk?.body,
+  });
+  if (response.status === 308) {
+    // Range is left out until YouTube has received any bytes.
+    const range = response.headers.get("Range");
+    return {
+      uploadedBytes: range ? Number(range.split("-")[1]) + 1 : 0,
+      videoId: null,
+    };
+  }
+  if (!response.ok) {
+    await throwYoutubeUploadError({ response, logger });
+  }
+  const { id } = (await response.json()) as { id?: string };
+  if (!id) {
+    logger.error(errorString, { error: "Video id not found" });
+    await logger.flush();
+    throw new Error(youtubeUploadErrorMessage);
+  }
+  return { uploadedBytes: videoSize, videoId: id };
+};
+
+const throwYoutubeUploadError = async ({
+  response,
+  logger,
+}: {
+  response: Response;
+  logger: Logger;
+}): Promise<never> => {
+  const { error } = (await response
+    .json()
+    .catch(() => ({}))) as YoutubeAPIErrorResponse;
+  logger.error(errorString, {
+    status: response.status,
+    error: error?.message,
+    errors: error?.errors,
+  });
+  await logger.flush();
+  // Upload sessions expire after about a week.
+  if (response.status === 404 || response.status === 410) {
+    throw new PublishError(
+      "Your YouTube upload expired before it finished. Please retry the post.",
+      { retryable: false }
+    );
+  }
+  throw new PublishError(error?.message ?? youtubeUploadErrorMessage, {
+    retryable: isRetryableStatus(response.status),
   });
+};
 
-  const { credentials } = youtubeAccount;
-  youtubeAuthClient.setCredentials(credentials as Credentials);
+// The video is already live by the time the thumbnail is set, so a failure here
+// is logged rather than failing the post, which would upload it a second time.
+// Custom thumbnails also need a verified channel, which we can't check upfront.
+const setYoutubeThumbnail = async ({
+  videoId,
+  thumbnail,
+  authClient,
+  logger,
+}: {
+  videoId: string;
+  thumbnail: File;
+  authClient: OAuth2Client;
+  logger: Logger;
+}) => {
   try {
     const youtube = google.youtube("v3");
-    const resp = await youtube.videos.insert({
-      auth: youtubeAuthClient,
-      part: ["snippet", "status"],
-      requestBody: {
-        snippet: { title },
-        status: { privacyStatus: isPrivate ? "private" : "public" },
-      },
-      media: {
-        body: Readable.from(video.stream() as any),
-        mimeType: "video/mp4",
+    await youtube.thumbnails.set(
+      {
+        auth: authClient,
+        videoId,
+        media: {
+          body: Readable.from(thumbnail.stream() as any),
+          mimeType: thumbnail.type || "image/jpeg",
+        },
       },
-    });
-    const videoId = resp?.data.id;
-    if (!videoId) {
-      logger.error(errorString, {
-        error: "Video id not found",
-      });
-      await logger.flush();
-      return {
-        error:
-          "Sorry, we couldn't upload your video to YouTube. Please try again.",
-      };
-    }
-    logger.info("Video uploaded to youtube", {
+      youtubeRequestOptions
+    );
+    logger.info("Thumbnail set on youtube video", { videoId });
+  } catch (error: any) {
+    logger.error(errorString, {
       videoId,
+      error:
+        error?.response?.data?.error?.message ??
+        (error instanceof Error ? error.message : String(error)),
     });
-    await logger.flush();
-    const supabase = createClient();
-    await supabase.from("youtube-posts").insert({
-      id: videoId,
-      parent_social_media_post_id: parentSocialMediaPostId,
-      title,
-      user_id: userId,
-      youtube_channel_id: youtubeChannelId,
-    });
-  } catch (error: any) {
-    // Handle API errors
-    if (error.response && error.response.data) {
-      const apiError = error.response.data.error;
-      logger.error(errorString, {
-        error: apiError.message,
-        code: apiError.code,
-        errors: apiError.errors,
-      });
-    } else {
-      logger.error(errorString, {
-        error: error instanceof Error ? error.message : String(error),
-      });
-    }
-    await logger.flush();
-    throw error;
   }
 };
 
-const getYoutubeAccountForUser = async ({
-  userId,
+// Whoever posts may not be the teammate who connected the channel, so it's
+// looked up by id alone and the queue checks it belongs to the post's
+// workspace.
+const getYoutubeChannel = async ({
   youtubeChannelId,
+  supabase,
 }: {
-  userId: string;
   youtubeChannelId: string;
+  supabase: SupabaseServerClient;
 }) => {
-  const supabase = createClient();
   const { data, error } = await supabase
     .from("youtube-channels")
     .select("*")
-    .eq("user_id", userId)
     .eq("id", youtubeChannelId);
   if (error) {
     throw error;
@@ -140,14 +475,16 @@ const getYoutubeAccountForUser = async ({
   if (!data[0]) {
     throw new Error("Youtube account not found");
   }
-  return data[0];
+  return decryptAccountTokens("youtube-channels", data[0]);
 };
 
 export const deleteYoutubeChannel = async (prevState: any, data: FormData) => {
   const userId = data.get("userId") as string;
+  const workspaceId = data.get("workspaceId") as string;
   const youtubeChannelId = data.get("youtubeChannelId") as string;
   const logger = new Logger().with({
     userId,
+    workspaceId,
     youtubeChannelId,
   });
   const supabase = createClient();
@@ -155,7 +492,7 @@ export const deleteYoutubeChannel = async (prevState: any, data: FormData) => {
     const { error } = await supabase
       .from("youtube-channels")
       .delete()
-      .eq("user_id", userId)
+      .eq("workspace_id", workspaceId)
       .eq("id", youtubeChannelId);
     if (error) {
       logger.error(errorString, error);
@@ -198,19 +535,94 @@ export const deleteYoutubeChannel = async (prevState: any, data: FormData) => {
   };
 };
 
+// videos.list takes at most 50 ids per request.
+const YOUTUBE_VIDEOS_LIST_BATCH_SIZE = 50;
+
+// Deleted videos are left out of the result.
+export const fetchYoutubeVideoMetrics = async ({
+  credentials,
+  videoIds,
+}: {
+  credentials: Credentials;
+  videoIds: string[];
+}) => {
+  const authClient = createYoutubeAuthClient();
+  authClient.setCredentials(credentials);
+  const service = google.youtube("v3");
+  const metrics: { [videoId: string]: PostMetrics } = {};
+  for (let i = 0; i < videoIds.length; i += YOUTUBE_VIDEOS_LIST_BATCH_SIZE) {
+    const response = await service.videos.list(
+      {
+        auth: authClient,
+        part: ["statistics"],
+        id: videoIds.slice(i, i + YOUTUBE_VIDEOS_LIST_BATCH_SIZE),
+      },
+      youtubeRequestOptions
+    );
+    response.data.items?.forEach(({ id, statistics }) => {
+      if (!id) {
+        return;
+      }
+      // The API returns the counts as strings.
+      const count = (value?: string | null) =>
+        value === undefined || value === null ? null : Number(value);
+      metrics[id] = {
+        ...emptyPostMetrics,
+        views: count(statistics?.viewCount),
+        likes: count(statistics?.likeCount),
+        comments: count(statistics?.commentCount),
+      };
+    });
+  }
+  return metrics;
+};
+
+// YouTube reports neither who a channel follows nor its total likes.
+export const fetchYoutubeChannelStats = async (
+  credentials: Credentials
+): Promise<AccountStats> => {
+  const authClient = createYoutubeAuthClient();
+  authClient.setCredentials(credentials);
+  const service = google.youtube("v3");
+  const response = await service.channels.list(
+    {
+      auth: authClient,
+      part: ["statistics"],
+      mine: true,
+    },
+    youtubeRequestOptions
+  );
+  const statistics = response.data.items?.[0]?.statistics;
+  if (!statistics) {
+    throw new Error("Failed fetching YouTube channel stats");
+  }
+  return {
+    ...emptyAccountStats,
+    // Channels can hide their subscriber count, which then reads as zero.
+    followers: statistics.hiddenSubscriberCount
+      ? null
+      : Number(statistics.subscriberCount ?? 0),
+    posts: Number(statistics.videoCount ?? 0),
+  };
+};
+
 export const getYoutubeChannelInfo = async (token: Credentials) => {
   const logger = new Logger().with({
     function: "getYoutubeChannelInfo",
     token,
   });
-  youtubeAuthClient.setCredentials(token);
+  const authClient = createYoutubeAuthClient();
+  authClient.setCredentials(token);
   var service = google.youtube("v3");
 
-  const response = await service.channels.list({
-    auth: youtubeAuthClient,
-    part: ["snippet", "contentDetails", "statistics"],
-    mine: true,
-  });
+  const response = await service.channels.list(
+    {
+      auth: authClient,
+      part: ["snippet", "contentDetails", "statistics"],
+      mine: true,
+    },
+    youtubeRequestOptions
+  );
 
   var channels = response?.data.items;
   if (!channels) {
@@ -241,75 +653,3 @@ export const getYoutubeChannelInfo = async (token: Credentials) => {
     thumbnail,
   };
 };
-
-export const refreshYoutubeAccessTokens = async () => {
-  const supabase = createAdminClient();
-  const logger = new Logger().with({
-    function: "refreshYoutubeAccessTokens",
-  });
-  const { data, error } = await supabase.from("youtube-channels").select("*");
-  logger.info(startingFunctionString);
-  if (error) {
-    logger.error(errorString, error);
-    await logger.flush();
-    throw error;
-  }
-  if (!data) {
-    logger.error(errorString, {
-      error: "No data returned from youtube channels",
-    });
-    await logger.flush();
-    throw error;
-  }
-  for (let i = 0; i < data.length; i++) {
-    const { credentials, id } = data[i];
-    await refreshYoutubeAccessToken({
-      credentials: credentials as Credentials,
-      id,
-    });
-  }
-  logger.info(endingFunctionString, {
-    numberOfAccounts: data.length,
-  });
-  await logger.flush();
-};
-
-const refreshYoutubeAccessToken = async ({
-  credentials,
-  id,
-}: {
-  credentials: Credentials;
-  id: string;
-}) => {
-  const supabase = createAdminClient();
-  const logger = new Logger().with({
-    function: "refreshYoutubeAccessToken",
-    id,
-  });
-  try {
-    logger.info(startingFunctionString);
-
-    youtubeAuthClient.setCredentials(credentials);
-    const { credentials: updatedCredentials } =
-      await youtubeAuthClient.refreshAccessToken();
-
-    const { error } = await supabase
-      .from("youtube-channels")
-      .update({
-        credentials: { ...updatedCredentials },
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", id);
-    if (error) {
-      logger.error(errorString, { error: error.message });
-    }
-
-    logger.info(endingFunctionString);
-  } catch (error) {
-    logger.error(errorString, {
-      error: error instanceof Error ? error.message : JSON.stringify(error),
-    });
-  } finally {
-    await logger.flush();
-  }
-};
@@ -0,0 +1,29 @@
+import Icons from "@/components/common/Icons";
+import Text from "@/components/common/Text";
+import { AccountSummary } from "../actions/socialMediaAccounts";
+import { PublishPlatform } from "@/utils/publishRetry";
+
+export default function AccountBadge({
+  platform,
+  account,
+}: {
+  platform: PublishPlatform;
+  account?: AccountSummary;
+}) {
+  const PlatformIcon = Icons[platform];
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative w-8 h-8">
+        {account && (
+          <img
+            src={account.pictureUrl}
+            alt={account.name}
+            className="w-8 h-8 rounded-full"
+          />
+        )}
+        <PlatformIcon className="absolute bottom-[-8px] right-[-8px] w-6 h-6 rounded-full" />
+      </div>
+      <Text text={account?.name ?? "Disconnected account"} />
+    </div>
+  );
+}
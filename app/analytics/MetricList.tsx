@@ -0,0 +1,28 @@
+import { PostMetrics, postMetricNames } from "@/utils/postAnalytics";
+
+export const metricLabels: { [name in keyof PostMetrics]: string } = {
+  views: "Views",
+  reach: "Reach",
+  likes: "Likes",
+  comments: "Comments",
+  shares: "Shares",
+  saves: "Saves",
+};
+
+// Only the metrics the network reported are shown.
+export default function MetricList({ metrics }: { metrics: PostMetrics }) {
+  return (
+    <div className="flex flex-wrap gap-4 text-sm">
+      {postMetricNames
+        .filter((name) => metrics[name] !== null)
+        .map((name) => (
+          <div key={name} className="flex flex-col">
+            <span className="font-semibold">
+              {metrics[name]!.toLocaleString()}
+            </span>
+            <span className="text-gray-500">{metricLabels[name]}</span>
+          </div>
+        ))}
+    </div>
+  );
+}
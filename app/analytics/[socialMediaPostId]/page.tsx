@@ -0,0 +1,98 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getUser } from "@/app/actions/user";
+import { getCurrentWorkspace } from "@/app/actions/workspaces";
+import Text from "@/components/common/Text";
+import { postMetricNames } from "@/utils/postAnalytics";
+import { fetchAccountSummaries } from "../../actions/socialMediaAccounts";
+import { fetchPostMetricsHistory } from "../../actions/postAnalytics";
+import AccountBadge from "../AccountBadge";
+import MetricList, { metricLabels } from "../MetricList";
+
+export const maxDuration = 300;
+
+export default async function PostAnalyticsPage({
+  params,
+}: {
+  params: { socialMediaPostId: string };
+}) {
+  const { user } = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+  const workspace = await getCurrentWorkspace(user.id);
+
+  const [histories, accounts] = await Promise.all([
+    fetchPostMetricsHistory({
+      socialMediaPostId: params.socialMediaPostId,
+      workspaceId: workspace.id,
+    }),
+    fetchAccountSummaries(workspace.id),
+  ]);
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-[1024px] px-2 mt-8">
+      <Text intent="title" text="Post Analytics" />
+      <Link className="underline text-orange-600 text-sm" href="/analytics">
+        Back to all analytics
+      </Link>
+      {histories.length === 0 && (
+        <Text
+          color="secondary"
+          text="We haven't collected any metrics for this post yet."
+        />
+      )}
+      {histories.map((history) => {
+        const latest = history.snapshots[history.snapshots.length - 1];
+        // Columns for the metrics this network reports.
+        const metricNames = postMetricNames.filter(
+          (name) => latest.metrics[name] !== null
+        );
+        return (
+          <div
+            key={`${history.platform}-${history.platformPostId}`}
+            className="p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col gap-4 w-full"
+          >
+            <AccountBadge
+              platform={history.platform}
+              account={accounts[history.accountId]}
+            />
+            <MetricList metrics={latest.metrics} />
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr>
+                  <th className="py-1">Collected</th>
+                  {metricNames.map((name) => (
+                    <th key={name} className="py-1">
+                      {metricLabels[name]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {history.snapshots
+                  .slice()
+                  .reverse()
+                  .map((snapshot) => (
+                    <tr
+                      key={snapshot.capturedAt}
+                      className="border-t border-gray-500"
+                    >
+                      <td className="py-1">
+                        {new Date(snapshot.capturedAt).toLocaleString()}
+                      </td>
+                      {metricNames.map((name) => (
+                        <td key={name} className="py-1">
+                          {snapshot.metrics[name]?.toLocaleString() ?? "—"}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
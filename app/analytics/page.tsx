@@ -0,0 +1,92 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getUser } from "@/app/actions/user";
+import { getCurrentWorkspace } from "@/app/actions/workspaces";
+import Text from "@/components/common/Text";
+import { fetchAccountSummaries } from "../actions/socialMediaAccounts";
+import { fetchAnalyticsOverview } from "../actions/postAnalytics";
+import AccountBadge from "./AccountBadge";
+import MetricList from "./MetricList";
+
+export const maxDuration = 300;
+
+export default async function AnalyticsPage() {
+  const { user } = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+  const workspace = await getCurrentWorkspace(user.id);
+
+  const [{ accounts: accountAnalytics, posts }, accounts] = await Promise.all([
+    fetchAnalyticsOverview(workspace.id),
+    fetchAccountSummaries(workspace.id),
+  ]);
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full max-w-[1024px] px-2 mt-8">
+      <Text intent="title" text="Analytics" />
+      {posts.length === 0 && (
+        <Text
+          color="secondary"
+          text="We collect your posts' metrics a few times a day, so check back soon after publishing."
+        />
+      )}
+      {accountAnalytics.length > 0 && (
+        <div className="flex flex-col gap-2 w-full">
+          <Text alignment="left" intent="subtitle" text="Accounts" />
+          {accountAnalytics.map((account) => (
+            <div
+              key={`${account.platform}-${account.accountId}`}
+              className="p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col gap-2"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <AccountBadge
+                  platform={account.platform}
+                  account={accounts[account.accountId]}
+                />
+                <Text
+                  alignment="right"
+                  color="secondary"
+                  text={`${account.numberOfPosts} ${
+                    account.numberOfPosts === 1 ? "post" : "posts"
+                  }`}
+                />
+              </div>
+              <MetricList metrics={account.totals} />
+            </div>
+          ))}
+        </div>
+      )}
+      {posts.length > 0 && (
+        <div className="flex flex-col gap-2 w-full">
+          <Text alignment="left" intent="subtitle" text="Posts" />
+          {posts.map((post) => (
+            <div
+              key={`${post.platform}-${post.platformPostId}`}
+              className="p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col gap-2"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <AccountBadge
+                  platform={post.platform}
+                  account={accounts[post.accountId]}
+                />
+                <Link
+                  className="underline text-orange-600 text-sm"
+                  href={`/analytics/${post.socialMediaPostId}`}
+                >
+                  View history
+                </Link>
+              </div>
+              <MetricList metrics={post.metrics} />
+              <Text
+                alignment="left"
+                color="secondary"
+                text={`Updated ${new Date(post.capturedAt).toLocaleString()}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { collectAccountStats } from "@/app/actions/accountStats";
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  withRedaction,
+} from "@/utils/logging";
+import { AxiomRequest, withAxiom } from "next-axiom";
+import { NextResponse } from "next/server";
+
+export const maxDuration = 300;
+
+export const GET = withAxiom(async (req: AxiomRequest) => {
+  const logger = withRedaction(req.log).with({
+    path: "/api/cron/collect-account-stats",
+    method: "GET",
+  });
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new Response("Unauthorized", {
+      status: 401,
+    });
+  }
+  try {
+    logger.info(startingFunctionString);
+    await collectAccountStats();
+    logger.info(endingFunctionString);
+    return NextResponse.json(
+      { message: "Successfully collected account stats" },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error(errorString);
+    return NextResponse.json(
+      { message: "Error collecting account stats" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,39 @@
+import { collectPostMetrics } from "@/app/actions/postAnalytics";
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  withRedaction,
+} from "@/utils/logging";
+import { AxiomRequest, withAxiom } from "next-axiom";
+import { NextResponse } from "next/server";
+
+export const maxDuration = 300;
+
+export const GET = withAxiom(async (req: AxiomRequest) => {
+  const logger = withRedaction(req.log).with({
+    path: "/api/cron/collect-post-metrics",
+    method: "GET",
+  });
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new Response("Unauthorized", {
+      status: 401,
+    });
+  }
+  try {
+    logger.info(startingFunctionString);
+    await collectPostMetrics();
+    logger.info(endingFunctionString);
+    return NextResponse.json(
+      { message: "Successfully collected post metrics" },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error(errorString);
+    return NextResponse.json(
+      { message: "Error collecting post metrics" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,52 @@
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  withRedaction,
+} from "@/utils/logging";
+import {
+  platformAdapters,
+  reencryptPlatformAccountTokens,
+} from "@/utils/platforms";
+import { PublishPlatform } from "@/utils/publishRetry";
+import { AxiomRequest, withAxiom } from "next-axiom";
+import { NextResponse } from "next/server";
+
+export const maxDuration = 300;
+
+// Not scheduled: run once after deploying token encryption, and again after
+// adding a new key to TOKEN_ENCRYPTION_KEYS, before the old key is removed.
+export const GET = withAxiom(async (req: AxiomRequest) => {
+  const logger = withRedaction(req.log).with({
+    path: "/api/cron/encrypt-platform-tokens",
+    method: "GET",
+  });
+  const authHeader = req.headers.get("authorization");
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new Response("Unauthorized", {
+      status: 401,
+    });
+  }
+  try {
+    logger.info(startingFunctionString);
+    const platforms = Object.keys(platformAdapters) as PublishPlatform[];
+    let numberOfAccounts = 0;
+    for (let i = 0; i < platforms.length; i++) {
+      numberOfAccounts += await reencryptPlatformAccountTokens(platforms[i]);
+    }
+    logger.info(endingFunctionString, { numberOfAccounts });
+    return NextResponse.json(
+      {
+        message: "Successfully encrypted platform tokens",
+        numberOfAccounts,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error(errorString);
+    return NextResponse.json(
+      { message: "Error encrypting platform tokens" },
+      { status: 500 }
+    );
+  }
+});
@@ -2,13 +2,15 @@ import {
   endingFunctionString,
   errorString,
   startingFunctionString,
+  Logger,
+  withRedaction,
 } from "@/utils/logging";
 import { kv } from "@vercel/kv";
-import { AxiomRequest, Logger, withAxiom } from "next-axiom";
+import { AxiomRequest, withAxiom } from "next-axiom";
 import { NextResponse } from "next/server";
 
 export const GET = withAxiom(async (req: AxiomRequest) => {
-  const logger = req.log.with({
+  const logger = withRedaction(req.log).with({
     path: "/api/cron/github-star-count",
     method: "GET",
   });
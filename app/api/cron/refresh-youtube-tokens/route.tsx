@@ -1,14 +1,15 @@
-import { refreshYoutubeAccessTokens } from "@/app/actions/youtube";
 import {
   endingFunctionString,
   errorString,
   startingFunctionString,
+  withRedaction,
 } from "@/utils/logging";
+import { refreshPlatformAccessTokens } from "@/utils/platforms";
 import { AxiomRequest, withAxiom } from "next-axiom";
 import { NextResponse } from "next/server";
 
 export const GET = withAxiom(async (req: AxiomRequest) => {
-  const logger = req.log.with({
+  const logger = withRedaction(req.log).with({
     path: "/api/cron/refresh-youtube-token",
     method: "GET",
   });
@@ -20,7 +21,7 @@ export const GET = withAxiom(async (req: AxiomRequest) => {
   }
   try {
     logger.info(startingFunctionString);
-    await refreshYoutubeAccessTokens();
+    await refreshPlatformAccessTokens("youtube");
     logger.info(endingFunctionString);
     return NextResponse.json(
       { message: "Successfully refreshed youtube access tokens" },
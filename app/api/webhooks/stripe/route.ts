@@ -1,12 +1,14 @@
 import type { Stripe } from "stripe";
 import { NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe";
-import { AxiomRequest, Logger, withAxiom } from "next-axiom";
+import { AxiomRequest, withAxiom } from "next-axiom";
 import { createAdminClient } from "@/utils/supabase/server";
 import {
   endingFunctionString,
   errorString,
   startingFunctionString,
+  Logger,
+  withRedaction,
 } from "@/utils/logging";
 import { trackServerEvent } from "@/utils/posthog/utils";
 
@@ -16,7 +18,7 @@ const STRIPE_MONTHLY_PRICE_ID = process.env.STRIPE_MONTHLY_PRICE_ID;
 const STRIPE_YEARLY_PRICE_ID = process.env.STRIPE_YEARLY_PRICE_ID;
 
 export const POST = withAxiom(async (req: AxiomRequest) => {
-  const log = req.log.with({
+  const log = withRedaction(req.log).with({
     path: "webhooks/stripe",
     method: "POST",
   });
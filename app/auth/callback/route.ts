@@ -1,10 +1,14 @@
-import { endingFunctionString, startingFunctionString } from "@/utils/logging";
+import {
+  endingFunctionString,
+  startingFunctionString,
+  withRedaction,
+} from "@/utils/logging";
 import { createClient } from "@/utils/supabase/server";
 import { AxiomRequest, withAxiom } from "next-axiom";
 import { NextResponse } from "next/server";
 
 export const GET = withAxiom(async (request: AxiomRequest) => {
-  const logger = request.log.with({
+  const logger = withRedaction(request.log).with({
     route: "/auth/callback",
     method: "GET",
   });
@@ -1,19 +1,31 @@
 import { createClient } from "@/utils/supabase/server";
-import { AxiomRequest, Logger, withAxiom } from "next-axiom";
+import { getCurrentWorkspace } from "@/app/actions/workspaces";
+import { buildTikTokAPIURL } from "@/utils/tiktok";
+import { AxiomRequest, withAxiom } from "next-axiom";
 import {
   endingFunctionString,
   errorString,
   startingFunctionString,
+  Logger,
+  withRedaction,
 } from "@/utils/logging";
 import { NextResponse } from "next/server";
 import { redirect } from "next/navigation";
 import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import { encryptAccountTokens } from "@/utils/platforms/accountTokens";
+import {
+  getTikTokRedirectURI,
+  TIKTOK_OAUTH_COOKIE,
+  verifyTikTokOAuthState,
+} from "@/utils/tiktokOAuth";
 
 export const GET = withAxiom(async (request: AxiomRequest) => {
   const requestUrl = new URL(request.url);
   const code = decodeURIComponent(requestUrl.searchParams.get("code") || "");
+  const state = requestUrl.searchParams.get("state");
   const origin = requestUrl.origin;
-  const logger = request.log.with({
+  const logger = withRedaction(request.log).with({
     method: "GET",
     path: "/auth/tiktok/callback",
     code,
@@ -27,16 +39,29 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
       logger.error(errorString, { error: "No user found." });
       throw Error("No user found");
     }
-    const response = await fetch(
-      `https://open.tiktokapis.com/v2/oauth/token/`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: `code=${code}&client_key=${process.env.TIKTOK_CLIENT_KEY}&client_secret=${process.env.TIKTOK_CLIENT_SECRET}&grant_type=authorization_code&redirect_uri=https://socialqueue.ai/auth/tiktok/callback`,
-      }
-    );
+    const codeVerifier = verifyTikTokOAuthState({
+      cookie: request.cookies.get(TIKTOK_OAUTH_COOKIE)?.value,
+      state,
+    });
+    cookies().delete({
+      name: TIKTOK_OAUTH_COOKIE,
+      path: "/auth/tiktok/callback",
+    });
+    if (!codeVerifier) {
+      logger.error(errorString, {
+        error: "TikTok login state doesn't match the one we sent",
+      });
+      throw Error("TikTok login state doesn't match the one we sent");
+    }
+    const workspace = await getCurrentWorkspace(userId);
+    const redirectUri = encodeURIComponent(getTikTokRedirectURI());
+    const response = await fetch(buildTikTokAPIURL("/v2/oauth/token/"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: `code=${code}&client_key=${process.env.TIKTOK_CLIENT_KEY}&client_secret=${process.env.TIKTOK_CLIENT_SECRET}&grant_type=authorization_code&redirect_uri=${redirectUri}&code_verifier=${codeVerifier}`,
+    });
     const data = (await response.json()) as {
       access_token?: string;
       expires_in?: number;
@@ -56,7 +81,9 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
       throw Error("Failed to get access token from TikTok");
     }
     logger.info("Got response from tiktok", {
-      data,
+      openId: data.open_id,
+      scope: data.scope,
+      expiresIn: data.expires_in,
     });
     const { access_token, refresh_token, open_id } = data;
     if (!access_token || !refresh_token || !open_id) {
@@ -70,18 +97,21 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
 
     const accountIsAlreadySaved = await checkIfTikTokAccountIsAlreadySaved({
       openId: open_id,
-      userId: userId,
+      workspaceId: workspace.id,
     });
     if (accountIsAlreadySaved) {
       return NextResponse.redirect(`${origin}/accounts`);
     }
 
-    const { error: userError } = await supabase.from("tiktok-accounts").insert({
-      id: open_id,
-      access_token: access_token,
-      refresh_token: refresh_token,
-      user_id: userId,
-    });
+    const { error: userError } = await supabase.from("tiktok-accounts").insert(
+      encryptAccountTokens("tiktok-accounts", {
+        id: open_id,
+        access_token: access_token,
+        refresh_token: refresh_token,
+        user_id: userId,
+        workspace_id: workspace.id,
+      })
+    );
     if (userError) {
       logger.error(errorString, {
         error: userError,
@@ -106,15 +136,15 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
 
 const checkIfTikTokAccountIsAlreadySaved = async ({
   openId,
-  userId,
+  workspaceId,
 }: {
   openId: string;
-  userId: string;
+  workspaceId: string;
 }) => {
   const logger = new Logger().with({
     function: "checkIfTikTokAccountIsAlreadySaved",
     openId,
-    userId,
+    workspaceId,
   });
   try {
     const supabase = createClient();
@@ -123,7 +153,7 @@ const checkIfTikTokAccountIsAlreadySaved = async ({
       .from("tiktok-accounts")
       .select("*")
       .eq("id", openId)
-      .eq("user_id", userId);
+      .eq("workspace_id", workspaceId);
     if (error) {
       logger.error(errorString, error);
       await logger.flush();
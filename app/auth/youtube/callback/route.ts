@@ -1,17 +1,21 @@
 import { getYoutubeChannelInfo } from "@/app/actions/youtube";
+import { getCurrentWorkspace } from "@/app/actions/workspaces";
 import {
   endingFunctionString,
   errorString,
   startingFunctionString,
+  Logger,
+  withRedaction,
 } from "@/utils/logging";
 import { createClient } from "@/utils/supabase/server";
-import youtubeAuthClient from "@/utils/youtube";
-import { AxiomRequest, Logger, withAxiom } from "next-axiom";
+import { createYoutubeAuthClient } from "@/utils/youtube";
+import { AxiomRequest, withAxiom } from "next-axiom";
 import { revalidatePath } from "next/cache";
 import { NextResponse } from "next/server";
+import { encryptAccountTokens } from "@/utils/platforms/accountTokens";
 
 export const GET = withAxiom(async (request: AxiomRequest) => {
-  let logger = request.log.with({
+  let logger = withRedaction(request.log).with({
     path: "/auth/youtube/callback",
     method: "GET",
   });
@@ -33,7 +37,7 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
       return NextResponse.redirect(`${origin}/accounts?error=${error}`);
     } else if (code) {
       try {
-        let { tokens } = await youtubeAuthClient.getToken(code);
+        let { tokens } = await createYoutubeAuthClient().getToken(code);
         logger = logger.with({ tokens });
         const channelInfo = await getYoutubeChannelInfo(tokens);
         if (!channelInfo) {
@@ -60,9 +64,10 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
           );
         }
 
+        const workspace = await getCurrentWorkspace(userId);
         const isAlreadySaved = await checkIfYoutubeChannelIsAlreadySaved({
           channelId,
-          userId,
+          workspaceId: workspace.id,
         });
 
         if (isAlreadySaved) {
@@ -76,12 +81,15 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
             `${origin}/accounts?error=Sorry, something unexpected happened. Our team is looking into it.`
           );
         }
-        const { error } = await supabase.from("youtube-channels").insert({
-          credentials: { ...tokens },
-          channel_custom_url: customUrl,
-          id: channelId,
-          user_id: userId,
-        });
+        const { error } = await supabase.from("youtube-channels").insert(
+          encryptAccountTokens("youtube-channels", {
+            credentials: { ...tokens },
+            channel_custom_url: customUrl,
+            id: channelId,
+            user_id: userId,
+            workspace_id: workspace.id,
+          })
+        );
         if (error) {
           logger.error(errorString, { error: error.message });
           return NextResponse.redirect(
@@ -116,15 +124,15 @@ export const GET = withAxiom(async (request: AxiomRequest) => {
 
 const checkIfYoutubeChannelIsAlreadySaved = async ({
   channelId,
-  userId,
+  workspaceId,
 }: {
   channelId: string;
-  userId: string;
+  workspaceId: string;
 }) => {
   const logger = new Logger().with({
     function: "checkIfYoutubeChannelIsAlreadySaved",
     channelId,
-    userId,
+    workspaceId,
   });
   try {
     const supabase = createClient();
@@ -133,7 +141,7 @@ const checkIfYoutubeChannelIsAlreadySaved = async ({
       .from("youtube-channels")
       .select("*")
       .eq("id", channelId)
-      .eq("user_id", userId);
+      .eq("workspace_id", workspaceId);
     if (error) {
       logger.error(errorString, error);
       await logger.flush();
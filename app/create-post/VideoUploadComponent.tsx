@@ -1,6 +1,15 @@
 "use client";
 
-import { ChangeEvent, memo, useRef, useState } from "react";
+import {
+  ChangeEvent,
+  Dispatch,
+  memo,
+  SetStateAction,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/common/Button";
 import {
   CheckCircleIcon,
@@ -10,25 +19,15 @@ import {
 } from "@heroicons/react/24/solid";
 import Text from "@/components/common/Text";
 import TextArea from "@/components/common/TextArea";
-import {
-  checkInstagramContainerStatus,
-  createInstagramContainer,
-  createSocialMediaPost,
-  publishInstagramMediaContainer,
-  saveInstagramId,
-} from "@/app/actions/socialMediaPosts";
+import { createSocialMediaPost } from "@/app/actions/socialMediaPosts";
 import Icons from "@/components/common/Icons";
 import TextInput from "@/components/common/TextInput";
 import LoadingSpinner from "@/components/common/LoadingSpinner";
 import { useLogger } from "next-axiom";
-import { errorString } from "@/utils/logging";
+import { errorString, withRedaction } from "@/utils/logging";
 import { createClient } from "@/utils/supabase/client";
-import {
-  checkTikTokPublishStatus,
-  PrivacyLevel,
-  uploadTikTokPost,
-  writeTikTokPostToSupabase,
-} from "../actions/tiktok";
+import { checkTikTokCreatorInfo, PrivacyLevel } from "../actions/tiktok";
+import { YoutubeVideoStatus } from "../actions/youtube";
 import Toggle from "@/components/common/Toggle";
 import Selector, { SelectorOption } from "@/components/common/Selector";
 import {
@@ -37,6 +36,40 @@ import {
   YoutubeChannelWithVideoRestrictions,
 } from "../actions/socialMediaAccounts";
 import ChevronDownIcon from "@heroicons/react/24/outline/ChevronDownIcon";
+import {
+  advanceSocialMediaPostDestination,
+  enqueueSocialMediaPost,
+  InstagramDestinationSettings,
+  SocialMediaPostDestination,
+  startSocialMediaPost,
+  submitSocialMediaPostForApproval,
+  TikTokDestinationSettings,
+  YoutubeDestinationSettings,
+} from "../actions/socialMediaPostQueue";
+import {
+  countHashtags,
+  countYoutubeTagCharacters,
+  INSTAGRAM_MAX_HASHTAGS,
+  MediaDetails,
+  MediaRestrictions,
+  platformDefinitions,
+  PostText,
+  TIKTOK_PHOTO_TITLE_LIMIT,
+  YOUTUBE_DESCRIPTION_LIMIT,
+  YOUTUBE_TAGS_LIMIT,
+  YOUTUBE_THUMBNAIL_MAX_SIZE,
+} from "@/utils/platforms/definitions";
+import { PublishPlatform } from "@/utils/publishRetry";
+import { Tables } from "@/types/supabase";
+import toast from "react-hot-toast";
+import { canPublishPosts, WorkspaceRole } from "@/utils/workspaceRoles";
+import {
+  clearSocialMediaPostDraftMediaFiles,
+  createSocialMediaPostDraft,
+  saveSocialMediaPostDraft,
+  SocialMediaPostDraft,
+  SocialMediaPostDraftSettings,
+} from "../actions/socialMediaPostDrafts";
 
 const bucketName =
   process.env.NEXT_PUBLIC_SOCIAL_MEDIA_POST_MEDIA_FILES_STORAGE_BUCKET;
@@ -60,6 +93,47 @@ const privacyLevels: SelectorOption<PrivacyLevel>[] = [
   },
 ];
 
+const youtubeVisibilities: SelectorOption<YoutubeVideoStatus>[] = [
+  { name: "Public", value: "public" },
+  { name: "Unlisted", value: "unlisted" },
+  { name: "Private", value: "private" },
+];
+
+// The categories YouTube lets uploads be assigned to.
+const youtubeCategories: SelectorOption<string>[] = [
+  { name: "People & Blogs", value: "22" },
+  { name: "Film & Animation", value: "1" },
+  { name: "Autos & Vehicles", value: "2" },
+  { name: "Music", value: "10" },
+  { name: "Pets & Animals", value: "15" },
+  { name: "Sports", value: "17" },
+  { name: "Travel & Events", value: "19" },
+  { name: "Gaming", value: "20" },
+  { name: "Comedy", value: "23" },
+  { name: "Entertainment", value: "24" },
+  { name: "News & Politics", value: "25" },
+  { name: "Howto & Style", value: "26" },
+  { name: "Education", value: "27" },
+  { name: "Science & Technology", value: "28" },
+  { name: "Nonprofits & Activism", value: "29" },
+];
+
+const youtubeLanguages: SelectorOption<string>[] = [
+  { name: "Not set", value: "" },
+  { name: "English", value: "en" },
+  { name: "Spanish", value: "es" },
+  { name: "Portuguese", value: "pt" },
+  { name: "French", value: "fr" },
+  { name: "German", value: "de" },
+  { name: "Italian", value: "it" },
+  { name: "Hindi", value: "hi" },
+  { name: "Japanese", value: "ja" },
+  { name: "Korean", value: "ko" },
+  { name: "Chinese", value: "zh" },
+];
+
+const supportedYoutubeThumbnailTypes = ["image/jpeg", "image/png"];
+
 type ProcessingState =
   | "processing"
   | "posted"
@@ -67,11 +141,58 @@ type ProcessingState =
   | "disabled"
   | "uploading";
 
+type ProcessingStatus = { state: ProcessingState; message?: string };
+
+type PlatformAccount = MediaRestrictions & {
+  platform: PublishPlatform;
+  id: string;
+  name: string;
+  pictureUrl: string;
+  error: string | undefined;
+};
+
+// Instagram carousels are the largest multi-media post we support.
+const MAX_MEDIA_FILES = 10;
+
+const supportedImageTypes = ["image/jpeg", "image/png", "image/webp"];
+
+const toAccountKey = (platform: PublishPlatform, accountId: string) =>
+  `${platform}-${accountId}`;
+
+const buildPlatformAccounts = ({
+  instagramAccounts,
+  tiktokAccounts,
+  youtubeChannels,
+}: {
+  instagramAccounts: InstagramAccountWithVideoRestrictions[];
+  tiktokAccounts: TikTokAccountWithVideoRestrictions[];
+  youtubeChannels: YoutubeChannelWithVideoRestrictions[];
+}): PlatformAccount[] => [
+  ...instagramAccounts.map((account) => ({
+    ...account,
+    platform: "instagram" as const,
+    name: account.account_name,
+    pictureUrl: account.picture_file_path,
+  })),
+  ...tiktokAccounts.map((account) => ({
+    ...account,
+    platform: "tiktok" as const,
+    name: account.account_name,
+    pictureUrl: account.profile_picture_file_path,
+  })),
+  ...youtubeChannels.map((channel) => ({
+    ...channel,
+    platform: "youtube" as const,
+    name: channel.channel_custom_url,
+    pictureUrl: channel.profile_picture_path,
+  })),
+];
+
 const MemoizedMedia = memo(
   function Media({ file, onRemove }: { file: File; onRemove: () => void }) {
     return (
       <div className={"flex flex-col items-center gap-2 w-full"}>
-        {file.type === "image/jpeg" ? (
+        {file.type.startsWith("image/") ? (
           <img
             className="w-96 shadow-lg rounded-lg h-auto aspect-image my-8"
             src={URL.createObjectURL(file)}
@@ -94,283 +215,687 @@ const MemoizedMedia = memo(
   (prevProps, nextProps) => prevProps.file === nextProps.file
 );
 
+const UseBaseCaptionButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    className="underline text-orange-600 text-sm"
+    type="button"
+    onClick={onClick}
+  >
+    Use base caption
+  </button>
+);
+
 export default function VideoUploadComponent({
   instagramAccounts,
   tiktokAccounts,
   youtubeChannels,
   userId,
+  workspaceId,
+  role,
   isProUser,
+  draft,
 }: {
   instagramAccounts: InstagramAccountWithVideoRestrictions[];
   tiktokAccounts: TikTokAccountWithVideoRestrictions[];
   youtubeChannels: YoutubeChannelWithVideoRestrictions[];
   userId: string;
+  workspaceId: string;
+  role: WorkspaceRole;
   isProUser: boolean;
+  draft?: SocialMediaPostDraft;
 }) {
-  const [disableDuet, setDisableDuet] = useState<boolean>(false);
-  const [disableComment, setDisableComment] = useState<boolean>(false);
-  const [disableStitch, setDisableStitch] = useState<boolean>(false);
-  const [privateYoutube, setPrivateYoutube] = useState<boolean>(false);
-  const [selectedInstagramAccounts, setSelectedInstagramAccounts] = useState<
-    InstagramAccountWithVideoRestrictions[]
-  >([]);
-  const [selectedTiktokAccounts, setSelectedTiktokAccounts] = useState<
-    TikTokAccountWithVideoRestrictions[]
-  >([]);
-  const [selectedYoutubeChannels, setSelectedYoutubeChannels] = useState<
-    YoutubeChannelWithVideoRestrictions[]
-  >([]);
-  const [files, setFiles] = useState<File[]>([]);
-  const [
-    instagramAccountIdToProcessingState,
-    setInstagramAccountIdToProcessingState,
-  ] = useState<{
-    [key: string]: { state: ProcessingState; message?: string };
-  }>(
-    instagramAccounts.reduce((acc, account) => {
-      if (account.error) {
-        acc[account.instagram_business_account_id] = {
-          state: "disabled",
-          message: account.error,
-        };
-      }
-      return acc;
-    }, {} as { [key: string]: { state: ProcessingState; message?: string } })
+  const router = useRouter();
+  // Contributors' posts wait for an owner or editor to approve them.
+  const needsApproval = !canPublishPosts(role);
+  const draftSettings = draft?.settings;
+  const [draftId, setDraftId] = useState<string | undefined>(draft?.id);
+  const [isSavingDraft, setIsSavingDraft] = useState<boolean>(false);
+  const [disableDuet, setDisableDuet] = useState<boolean>(
+    draftSettings?.disableDuet ?? false
   );
-  const [
-    tiktokAccountIdToProcessingState,
-    setTiktokAccountIdToProcessingState,
-  ] = useState<{
-    [key: string]: { state: ProcessingState; message?: string };
-  }>(
-    tiktokAccounts.reduce((acc, account) => {
-      if (account.error) {
-        acc[account.id] = { state: "disabled", message: account.error };
-      }
-      return acc;
-    }, {} as { [key: string]: { state: ProcessingState; message?: string } })
+  const [disableComment, setDisableComment] = useState<boolean>(
+    draftSettings?.disableComment ?? false
   );
-  const [
-    youtubeChannelIdToProcessingState,
-    setYoutubeChannelIdToProcessingState,
-  ] = useState<{
-    [key: string]: { state: ProcessingState; message?: string };
-  }>(
-    youtubeChannels.reduce((acc, channel) => {
-      if (channel.error) {
-        acc[channel.id] = { state: "disabled", message: channel.error };
-      }
-      return acc;
-    }, {} as { [key: string]: { state: ProcessingState; message?: string } })
+  const [disableStitch, setDisableStitch] = useState<boolean>(
+    draftSettings?.disableStitch ?? false
   );
-  const [youtubeTitle, setYoutubeTitle] = useState<string>("");
-  const [instagramCaption, setInstagramCaption] = useState<string>("");
+  const [youtubeVisibility, setYoutubeVisibility] = useState(
+    youtubeVisibilities.find(
+      ({ value }) => value === draftSettings?.youtubeVisibility
+    ) ?? youtubeVisibilities[0]
+  );
+  const [youtubeDescription, setYoutubeDescription] = useState<string>(
+    draftSettings?.youtubeDescription ?? ""
+  );
+  const [youtubeTags, setYoutubeTags] = useState<string>(
+    draftSettings?.youtubeTags?.join(", ") ?? ""
+  );
+  const [youtubeCategory, setYoutubeCategory] = useState(
+    youtubeCategories.find(
+      ({ value }) => value === draftSettings?.youtubeCategoryId
+    ) ?? youtubeCategories[0]
+  );
+  const [youtubeLanguage, setYoutubeLanguage] = useState(
+    youtubeLanguages.find(
+      ({ value }) => value === draftSettings?.youtubeDefaultLanguage
+    ) ?? youtubeLanguages[0]
+  );
+  const [youtubeMadeForKids, setYoutubeMadeForKids] = useState<boolean>(
+    draftSettings?.youtubeMadeForKids ?? false
+  );
+  // Thumbnails aren't kept with drafts, only the media itself.
+  const [youtubeThumbnail, setYoutubeThumbnail] = useState<File | null>(null);
+  const platformAccounts = buildPlatformAccounts({
+    instagramAccounts,
+    tiktokAccounts,
+    youtubeChannels,
+  });
+  const [selectedAccounts, setSelectedAccounts] = useState<PlatformAccount[]>(
+    () =>
+      platformAccounts.filter((account) =>
+        draftSettings?.selectedAccounts.some(
+          ({ platform, accountId }) =>
+            platform === account.platform && accountId === account.id
+        )
+      )
+  );
+  const [files, setFiles] = useState<File[]>([]);
+  // Kept per file so removing a file also lifts the restrictions it caused.
+  const [fileMediaDetails, setFileMediaDetails] = useState<
+    Map<File, MediaDetails>
+  >(new Map());
+  const [accountKeyToProcessingState, setAccountKeyToProcessingState] =
+    useState<{ [key: string]: ProcessingStatus }>(
+      platformAccounts.reduce((acc, account) => {
+        if (account.error) {
+          acc[toAccountKey(account.platform, account.id)] = {
+            state: "disabled",
+            message: account.error,
+          };
+        }
+        return acc;
+      }, {} as { [key: string]: ProcessingStatus })
+    );
+  // Each platform follows the base caption until the user edits its own copy.
+  const [baseCaption, setBaseCaption] = useState<string>(
+    draftSettings?.baseCaption ?? ""
+  );
+  const [youtubeTitleOverride, setYoutubeTitleOverride] = useState<
+    string | null
+  >(draftSettings?.youtubeTitle ?? null);
+  const [instagramCaptionOverride, setInstagramCaptionOverride] = useState<
+    string | null
+  >(draftSettings?.instagramCaption ?? null);
   const [tiktokAutoAddMusicToPhotos, setTiktokAutoAddMusicToPhotos] =
-    useState<boolean>(false);
-  const [tiktokCaption, setTiktokCaption] = useState<string>("");
+    useState<boolean>(draftSettings?.tiktokAutoAddMusicToPhotos ?? false);
+  const [tiktokCaptionOverride, setTiktokCaptionOverride] = useState<
+    string | null
+  >(draftSettings?.tiktokCaption ?? null);
   const [tiktokShouldDiscloseContent, setTiktokShouldDiscloseContent] =
-    useState<boolean>(false);
+    useState<boolean>(draftSettings?.tiktokShouldDiscloseContent ?? false);
   const [tiktokIsYourBrandPromotion, setTiktokIsYourBrandPromotion] =
-    useState<boolean>(false);
-  const [tiktokIsBrandedContent, setTiktokIsBrandedContent] =
-    useState<boolean>(false);
+    useState<boolean>(draftSettings?.tiktokIsYourBrandPromotion ?? false);
+  const [tiktokIsBrandedContent, setTiktokIsBrandedContent] = useState<boolean>(
+    draftSettings?.tiktokIsBrandedContent ?? false
+  );
+  // TikTok accounts the post goes to as a draft in the creator's inbox.
+  const [tiktokInboxAccountIds, setTiktokInboxAccountIds] = useState<string[]>(
+    draftSettings?.tiktokInboxAccountIds ?? []
+  );
   const [tiktokPrivacyLevel, setTiktokPrivacyLevel] = useState<
     SelectorOption<PrivacyLevel>
-  >({
-    name: "Public",
-    value: "PUBLIC_TO_EVERYONE",
-  });
-  const [tiktokTitle, setTiktokTitle] = useState<string>("");
-  const [showWatermark, setShowWatermark] = useState<boolean>(true);
+  >(
+    privacyLevels.find(
+      (privacyLevel) => privacyLevel.value === draftSettings?.tiktokPrivacyLevel
+    ) ?? {
+      name: "Public",
+      value: "PUBLIC_TO_EVERYONE",
+    }
+  );
+  const [tiktokTitle, setTiktokTitle] = useState<string>(
+    draftSettings?.tiktokTitle ?? ""
+  );
+  const [showWatermark, setShowWatermark] = useState<boolean>(
+    draftSettings?.showWatermark ?? true
+  );
+  const youtubeTagList = youtubeTags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+  const instagramCaption = instagramCaptionOverride ?? baseCaption;
+  const tiktokCaption = tiktokCaptionOverride ?? baseCaption;
+  const youtubeTitle = youtubeTitleOverride ?? baseCaption;
   const [showTikTokAdditionalSettings, setShowTikTokAdditionalSettings] =
     useState<boolean>(false);
-  let logger = useLogger().with({
+  const [scheduleForLater, setScheduleForLater] = useState<boolean>(false);
+  const [scheduledAt, setScheduledAt] = useState<string>("");
+  const [addToQueue, setAddToQueue] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  let logger = withRedaction(useLogger()).with({
     component: "VideoUploadComponent",
   });
   const supabase = createClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // The same photo can be picked twice, so files are keyed by identity rather
+  // than by name.
+  const fileKeys = useRef(new WeakMap<File, number>());
+  const nextFileKey = useRef(0);
+  const toFileKey = (file: File) => {
+    if (!fileKeys.current.has(file)) {
+      fileKeys.current.set(file, nextFileKey.current++);
+    }
+    return fileKeys.current.get(file);
+  };
 
   const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
     event.preventDefault();
     if (fileInputRef.current?.files) {
-      const files = fileInputRef.current?.files;
-      for (let i = 0; i < files.length; i++) {
-        const selectedFile = files[i];
-        if (
-          selectedFile.type === "video/mp4" ||
-          selectedFile.type === "video/quicktime"
-        ) {
-          // Validate file size (1GB max)
-          const maxSizeInBytes = 1024 * 1024 * 1024;
-
-          // Validate file duration (3 seconds min, 15 minutes max)
-          const video = document.createElement("video");
-          video.preload = "metadata";
-          video.onloadedmetadata = () => {
-            window.URL.revokeObjectURL(video.src);
-            const duration = video.duration;
-            disableSocialMediaAccountsIfNecessary({
-              duration,
-              videoSize: selectedFile.size,
-            });
-            setFiles((prev) => [...prev, selectedFile]);
-          };
-          video.src = URL.createObjectURL(selectedFile);
-        }
+      const selectedFiles = Array.from(fileInputRef.current.files);
+      if (files.length + selectedFiles.length > MAX_MEDIA_FILES) {
+        toast.error(`You can add up to ${MAX_MEDIA_FILES} photos or videos`);
       }
+      selectedFiles
+        .slice(0, MAX_MEDIA_FILES - files.length)
+        .forEach(addMediaFile);
+      fileInputRef.current.value = "";
     }
   };
 
-  const disableSocialMediaAccountsIfNecessary = ({
-    duration,
-    videoSize,
-  }: {
-    duration: number;
-    videoSize: number;
-  }) => {
-    disableAccountsBasedOnVideoDuration(duration);
-    disableAccountsBasedOnVideoSize(videoSize);
+  const addMediaFile = (selectedFile: File) => {
+    if (supportedImageTypes.includes(selectedFile.type)) {
+      setFiles((prev) => [...prev, selectedFile]);
+    } else if (
+      selectedFile.type === "video/mp4" ||
+      selectedFile.type === "video/quicktime"
+    ) {
+      const video = document.createElement("video");
+      video.preload = "metadata";
+      video.onloadedmetadata = () => {
+        window.URL.revokeObjectURL(video.src);
+        setFileMediaDetails((prev) =>
+          new Map(prev).set(selectedFile, {
+            duration: video.duration,
+            size: selectedFile.size,
+          })
+        );
+        setFiles((prev) => [...prev, selectedFile]);
+      };
+      video.src = URL.createObjectURL(selectedFile);
+    }
   };
 
-  const disableAccountsBasedOnVideoDuration = (duration: number) => {
-    const updatedTiktokAccountStates = {
-      ...tiktokAccountIdToProcessingState,
-    };
-    tiktokAccounts.forEach((account) => {
-      if (duration > account.max_video_duration) {
-        updatedTiktokAccountStates[account.id] = {
-          state: "disabled",
-          message: `Cannot upload video longer than ${account.max_video_duration} seconds to this account`,
-        };
-      } else if (duration < account.min_video_duration) {
-        updatedTiktokAccountStates[account.id] = {
-          state: "disabled",
-          message: `Cannot upload video shorter than ${account.max_video_duration} seconds to this account`,
-        };
+  // The draft's media is downloaded back into the form so it can be edited and
+  // uploaded again like freshly picked files.
+  useEffect(() => {
+    if (!draft) {
+      return;
+    }
+    const loadDraftMediaFiles = async () => {
+      try {
+        for (let i = 0; i < draft.mediaFiles.length; i++) {
+          const { path, url } = draft.mediaFiles[i];
+          const response = await fetch(url);
+          if (!response.ok) {
+            throw new Error(`Failed to download ${path}`);
+          }
+          const blob = await response.blob();
+          addMediaFile(
+            new File([blob], path.split("/").pop() ?? path, {
+              type: blob.type,
+            })
+          );
+        }
+      } catch (error) {
+        logger.error(errorString, {
+          error: error instanceof Error ? error.message : error,
+        });
+        toast.error(
+          "Sorry, we couldn't load the media for this draft. Please add it again."
+        );
       }
-    });
-    setTiktokAccountIdToProcessingState(updatedTiktokAccountStates);
-
-    const updatedInstagramAccountStates = {
-      ...instagramAccountIdToProcessingState,
     };
-    instagramAccounts.forEach((account) => {
-      if (duration > account.max_video_duration) {
-        updatedInstagramAccountStates[account.instagram_business_account_id] = {
-          state: "disabled",
-          message: `Cannot upload video longer than ${account.max_video_duration} seconds to this account`,
-        };
-      } else if (duration < account.min_video_duration) {
-        updatedInstagramAccountStates[account.instagram_business_account_id] = {
-          state: "disabled",
-          message: `Cannot upload video shorter than ${account.min_video_duration} seconds to this account`,
-        };
-      }
-    });
-    setInstagramAccountIdToProcessingState(updatedInstagramAccountStates);
+    void loadDraftMediaFiles();
+  }, []);
 
-    const updatedYoutubeChannelStates = {
-      ...youtubeChannelIdToProcessingState,
-    };
-    youtubeChannels.forEach((channel) => {
-      if (duration > channel.max_video_duration) {
-        updatedYoutubeChannelStates[channel.id] = {
-          state: "disabled",
-          message: `Cannot upload video longer than ${channel.max_video_duration} seconds to this channel`,
-        };
-      } else if (duration < channel.min_video_duration) {
-        updatedYoutubeChannelStates[channel.id] = {
-          state: "disabled",
-          message: `Cannot upload video shorter than ${channel.min_video_duration} seconds to this channel`,
-        };
-      }
-    });
-    setYoutubeChannelIdToProcessingState(updatedYoutubeChannelStates);
+  const handleCustomButtonClick = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.click();
+    }
   };
 
-  const disableAccountsBasedOnVideoSize = (size: number) => {
-    const updatedTiktokAccountStates = {
-      ...tiktokAccountIdToProcessingState,
-    };
-    tiktokAccounts.forEach((account) => {
-      if (size > account.max_video_size) {
-        updatedTiktokAccountStates[account.id] = {
-          state: "disabled",
-          message: `Cannot upload videos larger than ${
-            account.max_video_size / 1024 ** 3
-          } GB to this account`,
-        };
-      }
-    });
-    setTiktokAccountIdToProcessingState(updatedTiktokAccountStates);
+  const addWatermark = (text: string) =>
+    showWatermark ? `${text} — posted from SocialQueue.ai` : text;
 
-    const updatedInstagramAccountStates = {
-      ...instagramAccountIdToProcessingState,
-    };
-    instagramAccounts.forEach((account) => {
-      if (size > account.max_video_size) {
-        updatedInstagramAccountStates[account.instagram_business_account_id] = {
-          state: "disabled",
-          message: `Cannot upload videos larger than ${
-            account.max_video_size / 1024 ** 3
-          } GB to this account`,
-        };
-      }
-    });
-    setInstagramAccountIdToProcessingState(updatedInstagramAccountStates);
+  // The watermark counts towards each platform's limits.
+  const watermarkLength = addWatermark("").length;
+  const postType =
+    files.length > 0 && files[0].type.includes("image") ? "image" : "video";
+  const platformTexts: { [platform in PublishPlatform]: PostText } = {
+    instagram: { caption: addWatermark(instagramCaption) },
+    tiktok: { caption: addWatermark(tiktokCaption), title: tiktokTitle },
+    // A watermark alone doesn't count as a title.
+    youtube: {
+      caption: youtubeTitle && addWatermark(youtubeTitle),
+      description: youtubeDescription,
+      tags: youtubeTagList,
+    },
+  };
+  const textWarnings = Array.from(
+    new Set(selectedAccounts.map((account) => account.platform))
+  ).flatMap((platform) =>
+    platformDefinitions[platform].validateText(
+      platformTexts[platform],
+      postType
+    )
+  );
+  // Direct posts follow each creator's settings in TikTok, so the form only
+  // offers what every selected account allows. Inbox uploads are finished in
+  // the TikTok app instead.
+  const tiktokCreatorConstraints = tiktokAccounts
+    .filter(
+      (account) =>
+        selectedAccounts.some(
+          ({ platform, id }) => platform === "tiktok" && id === account.id
+        ) && !tiktokInboxAccountIds.includes(account.id)
+    )
+    .flatMap(({ creator_constraints }) =>
+      creator_constraints ? [creator_constraints] : []
+    );
+  const tiktokPrivacyLevels = privacyLevels.filter(({ value }) =>
+    tiktokCreatorConstraints.every(({ privacyLevelOptions }) =>
+      privacyLevelOptions.includes(value)
+    )
+  );
+  const isTiktokCommentLocked = tiktokCreatorConstraints.some(
+    ({ commentDisabled }) => commentDisabled
+  );
+  const isTiktokDuetLocked = tiktokCreatorConstraints.some(
+    ({ duetDisabled }) => duetDisabled
+  );
+  const isTiktokStitchLocked = tiktokCreatorConstraints.some(
+    ({ stitchDisabled }) => stitchDisabled
+  );
+  const tiktokWarnings =
+    tiktokCreatorConstraints.length === 0
+      ? []
+      : tiktokPrivacyLevels.length === 0
+      ? [
+          "Your TikTok accounts don't share a privacy level, so post to them separately.",
+        ]
+      : tiktokPrivacyLevels.some(
+          ({ value }) => value === tiktokPrivacyLevel.value
+        )
+      ? []
+      : ["Choose who can see your TikTok post."];
+  const warnings = [...textWarnings, ...tiktokWarnings];
 
-    const updatedYoutubeChannelStates = {
-      ...youtubeChannelIdToProcessingState,
+  const buildSocialMediaPostDestinations = ({
+    file,
+    youtubeThumbnailPath,
+  }: {
+    file: File;
+    youtubeThumbnailPath?: string;
+  }): SocialMediaPostDestination[] => {
+    const postType = file.type.includes("video") ? "video" : "image";
+    const destinationSettings: {
+      instagram: InstagramDestinationSettings;
+      tiktok: TikTokDestinationSettings;
+      youtube: YoutubeDestinationSettings;
+    } = {
+      instagram: {
+        caption: addWatermark(instagramCaption),
+        postType,
+      },
+      tiktok: {
+        title: tiktokTitle,
+        caption: addWatermark(tiktokCaption),
+        postType,
+        privacyLevel: tiktokPrivacyLevel.value,
+        disableDuet: disableDuet || isTiktokDuetLocked,
+        disableComment: disableComment || isTiktokCommentLocked,
+        disableStitch: disableStitch || isTiktokStitchLocked,
+        autoAddMusic: tiktokAutoAddMusicToPhotos,
+        brandOrganicToggle: tiktokIsYourBrandPromotion,
+        brandContentToggle: tiktokIsBrandedContent,
+        videoDurationSec: fileMediaDetails.get(file)?.duration,
+      },
+      youtube: {
+        title: addWatermark(youtubeTitle),
+        visibility: youtubeVisibility.value,
+        description: youtubeDescription,
+        tags: youtubeTagList,
+        categoryId: youtubeCategory.value,
+        madeForKids: youtubeMadeForKids,
+        defaultLanguage: youtubeLanguage.value || undefined,
+        thumbnailPath: youtubeThumbnailPath,
+      },
     };
-    youtubeChannels.forEach((channel) => {
-      if (size > channel.max_video_size) {
-        updatedYoutubeChannelStates[channel.id] = {
-          state: "disabled",
-          message: `Cannot upload videos larger than ${
-            channel.max_video_size / 1024 ** 3
-          } GB to this account`,
-        };
-      }
-    });
-    setYoutubeChannelIdToProcessingState(updatedYoutubeChannelStates);
+    return selectedAccounts.map(
+      (account) =>
+        ({
+          platform: account.platform,
+          accountId: account.id,
+          settings:
+            account.platform === "tiktok"
+              ? {
+                  ...destinationSettings.tiktok,
+                  postMode: tiktokInboxAccountIds.includes(account.id)
+                    ? "MEDIA_UPLOAD"
+                    : "DIRECT_POST",
+                }
+              : destinationSettings[account.platform],
+        } as SocialMediaPostDestination)
+    );
   };
 
-  const handleCustomButtonClick = () => {
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
+  const setDestinationProcessingState = (
+    platform: PublishPlatform,
+    accountId: string,
+    processingState: ProcessingStatus
+  ) =>
+    setAccountKeyToProcessingState((prev) => ({
+      ...prev,
+      [toAccountKey(platform, accountId)]: processingState,
+    }));
+
+  const setTiktokInbox =
+    (accountId: string): Dispatch<SetStateAction<boolean>> =>
+    (enabled) =>
+      setTiktokInboxAccountIds((prev) => {
+        const isEnabled =
+          typeof enabled === "function"
+            ? enabled(prev.includes(accountId))
+            : enabled;
+        return isEnabled
+          ? [...prev.filter((id) => id !== accountId), accountId]
+          : prev.filter((id) => id !== accountId);
+      });
+
+  const isPlatformSelected = (platform: PublishPlatform) =>
+    selectedAccounts.some((account) => account.platform === platform);
+
+  const buildDraftSettings = (): SocialMediaPostDraftSettings => ({
+    selectedAccounts: selectedAccounts.map(({ platform, id }) => ({
+      platform,
+      accountId: id,
+    })),
+    baseCaption,
+    instagramCaption: instagramCaptionOverride,
+    tiktokTitle,
+    tiktokCaption: tiktokCaptionOverride,
+    tiktokPrivacyLevel: tiktokPrivacyLevel.value,
+    disableDuet,
+    disableComment,
+    disableStitch,
+    tiktokAutoAddMusicToPhotos,
+    tiktokShouldDiscloseContent,
+    tiktokIsYourBrandPromotion,
+    tiktokIsBrandedContent,
+    tiktokInboxAccountIds,
+    youtubeTitle: youtubeTitleOverride,
+    youtubeVisibility: youtubeVisibility.value,
+    youtubeDescription,
+    youtubeTags: youtubeTagList,
+    youtubeCategoryId: youtubeCategory.value,
+    youtubeDefaultLanguage: youtubeLanguage.value,
+    youtubeMadeForKids,
+    showWatermark,
+  });
+
+  const uploadSocialMediaPostFiles = async (postId: string) => {
+    for (let i = 0; i < files.length; i++) {
+      await uploadSocialMediaPostFile({
+        userId,
+        file: files[i],
+        index: i,
+        postId,
+      });
     }
   };
 
-  const processSocialMediaPost = () => {
-    selectedInstagramAccounts.forEach((account) => {
-      setInstagramAccountIdToProcessingState({
-        [account.instagram_business_account_id]: {
-          state: "uploading",
-          message: "Uploading",
-        },
+  const saveDraft = async () => {
+    setIsSavingDraft(true);
+    try {
+      const socialMediaPostId =
+        draftId ?? (await createSocialMediaPostDraft({ userId, workspaceId }));
+      setDraftId(socialMediaPostId);
+      await saveSocialMediaPostDraft({
+        socialMediaPostId,
+        userId,
+        settings: buildDraftSettings(),
       });
-    });
-
-    selectedTiktokAccounts.forEach((account) => {
-      setTiktokAccountIdToProcessingState({
-        [account.id]: {
-          state: "uploading",
-          message: "Uploading",
-        },
+      await clearSocialMediaPostDraftMediaFiles({ socialMediaPostId, userId });
+      await uploadSocialMediaPostFiles(socialMediaPostId);
+      toast.success("Your draft is saved");
+    } catch (error) {
+      logger.error(errorString, {
+        error: error instanceof Error ? error.message : error,
       });
-    });
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Sorry, we had an issue saving your draft. Please try again."
+      );
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
 
-    selectedYoutubeChannels.forEach((channel) => {
-      setYoutubeChannelIdToProcessingState({
-        [channel.id]: {
+  const uploadYoutubeThumbnail = async (postId: string) => {
+    if (!youtubeThumbnail || !isPlatformSelected("youtube")) {
+      return undefined;
+    }
+    const filePath = `${userId}/${postId}/youtube-thumbnail.${
+      youtubeThumbnail.name.split(".").pop() ?? "jpg"
+    }`;
+    const { error } = await supabase.storage
+      .from(bucketName!)
+      .upload(filePath, youtubeThumbnail, { upsert: true });
+    if (error) {
+      logger.error(errorString, error);
+      throw new Error(
+        "Sorry, we couldn't upload your YouTube thumbnail. Please try again."
+      );
+    }
+    return filePath;
+  };
+
+  const handleYoutubeThumbnailChange = (
+    event: ChangeEvent<HTMLInputElement>
+  ) => {
+    const thumbnail = event.target.files?.[0];
+    event.target.value = "";
+    if (!thumbnail) {
+      return;
+    }
+    if (!supportedYoutubeThumbnailTypes.includes(thumbnail.type)) {
+      toast.error("YouTube thumbnails must be JPEG or PNG images");
+      return;
+    }
+    if (thumbnail.size > YOUTUBE_THUMBNAIL_MAX_SIZE) {
+      toast.error("YouTube thumbnails must be smaller than 2 MB");
+      return;
+    }
+    setYoutubeThumbnail(thumbnail);
+  };
+
+  const processSocialMediaPost = async () => {
+    const publishLater = scheduleForLater || addToQueue || needsApproval;
+    if (!publishLater) {
+      selectedAccounts.forEach(({ platform, id: accountId }) =>
+        setDestinationProcessingState(platform, accountId, {
           state: "uploading",
           message: "Uploading",
-        },
+        })
+      );
+    }
+    setIsSubmitting(true);
+    try {
+      await checkTikTokCreatorInfo({
+        workspaceId,
+        destinations: buildSocialMediaPostDestinations({
+          file: files[0],
+        }).flatMap((destination) =>
+          destination.platform === "tiktok" ? [destination] : []
+        ),
       });
+      const socialMediaPostId =
+        draftId ?? (await createSocialMediaPost({ userId, workspaceId }));
+      // The thumbnail goes up first so the YouTube destination can point at it.
+      const youtubeThumbnailPath = await uploadYoutubeThumbnail(
+        socialMediaPostId
+      );
+      const enqueuedDestinations = await enqueueSocialMediaPost({
+        socialMediaPostId,
+        userId,
+        workspaceId,
+        destinations: buildSocialMediaPostDestinations({
+          file: files[0],
+          youtubeThumbnailPath,
+        }),
+        scheduledAt: scheduleForLater
+          ? new Date(scheduledAt).toISOString()
+          : undefined,
+        addToQueue,
+      });
+      if (draftId) {
+        // The draft is now a regular post, so saving again starts a new draft.
+        setDraftId(undefined);
+        router.replace("/create-post");
+        await clearSocialMediaPostDraftMediaFiles({
+          socialMediaPostId,
+          userId,
+        });
+      }
+      await uploadSocialMediaPostFiles(socialMediaPostId);
+      if (needsApproval) {
+        await submitSocialMediaPostForApproval({ socialMediaPostId, userId });
+        toast.success(
+          "Your post was sent for approval. It goes out once an editor approves it."
+        );
+        setFiles([]);
+        setSelectedAccounts([]);
+        setScheduledAt("");
+        return;
+      }
+      await startSocialMediaPost({ socialMediaPostId, userId });
+      if (addToQueue) {
+        const [firstSlot] = enqueuedDestinations
+          .map((destination) => destination.scheduled_at!)
+          .sort();
+        toast.success(
+          `Your post was added to the queue and goes out first at ${new Date(
+            firstSlot
+          ).toLocaleString()}`
+        );
+        setFiles([]);
+        setSelectedAccounts([]);
+        return;
+      }
+      if (scheduleForLater) {
+        toast.success(
+          `Your post is scheduled for ${new Date(scheduledAt).toLocaleString()}`
+        );
+        setFiles([]);
+        setSelectedAccounts([]);
+        setScheduledAt("");
+        return;
+      }
+      toast.success(
+        "Your post is on its way! Feel free to leave this page, we'll finish posting in the background."
+      );
+      enqueuedDestinations.forEach((destination) => {
+        void observeSocialMediaPostDestination(destination);
+      });
+    } catch (error) {
+      logger.error(errorString, {
+        error: error instanceof Error ? error.message : error,
+      });
+      const message = error instanceof Error ? error.message : "Unknown error";
+      if (publishLater) {
+        toast.error(message);
+      } else {
+        selectedAccounts.forEach(({ platform, id: accountId }) =>
+          setDestinationProcessingState(platform, accountId, {
+            state: "error",
+            message,
+          })
+        );
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Publishing happens server side, so this only nudges the destination along
+  // while the page is open; the queue worker picks it up if the user leaves.
+  const observeSocialMediaPostDestination = async ({
+    id,
+    platform,
+    account_id,
+  }: Tables<"social-media-post-destinations">) => {
+    const destinationPlatform =
+      platform as SocialMediaPostDestination["platform"];
+    setDestinationProcessingState(destinationPlatform, account_id, {
+      state: "processing",
+      message: "Processing",
     });
-    createSocialMediaPost(userId).then(async (socialMediaPostId) => {
-      processSingleSocialMediaPost({ socialMediaPostId });
-    });
+    try {
+      while (true) {
+        const { status, errorMessage, nextAttemptAt, uploadProgress, url } =
+          await advanceSocialMediaPostDestination({
+            destinationId: id,
+            userId,
+          });
+        if (status === "published") {
+          setDestinationProcessingState(destinationPlatform, account_id, {
+            state: "posted",
+            message: "Posted",
+          });
+          if (url) {
+            toast.success(
+              <span>
+                Your {platformDefinitions[destinationPlatform].displayName} post
+                is live.{" "}
+                <a
+                  className="underline"
+                  href={url}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  View post
+                </a>
+              </span>
+            );
+          }
+          return;
+        }
+        if (status === "failed") {
+          setDestinationProcessingState(destinationPlatform, account_id, {
+            state: "error",
+            message: errorMessage ?? "Unknown error",
+          });
+          return;
+        }
+        setDestinationProcessingState(destinationPlatform, account_id, {
+          state: "processing",
+          message: nextAttemptAt
+            ? "Retrying"
+            : uploadProgress !== null
+            ? `Uploading ${Math.floor(uploadProgress * 100)}%`
+            : "Processing",
+        });
+        await new Promise((resolve) => setTimeout(resolve, 5000));
+      }
+    } catch (error) {
+      logger.error(errorString, {
+        error: error instanceof Error ? error.message : error,
+      });
+      setDestinationProcessingState(destinationPlatform, account_id, {
+        state: "error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   };
 
   const uploadSocialMediaPostFile = async ({
@@ -434,210 +959,7 @@ export default function VideoUploadComponent({
     return uploadResponse.path;
   };
 
-  const processSingleSocialMediaPost = async ({
-    socialMediaPostId,
-  }: {
-    socialMediaPostId: string;
-  }) => {
-    const file = files[0];
-    let filePath = "";
-    try {
-      filePath = await uploadSocialMediaPostFile({
-        userId,
-        file,
-        index: 0,
-        postId: socialMediaPostId,
-      });
-    } catch (error) {
-      selectedInstagramAccounts.forEach((account) => {
-        setInstagramAccountIdToProcessingState({
-          [account.instagram_business_account_id]: {
-            state: "error",
-            message: error instanceof Error ? error.message : "Unknown error",
-          },
-        });
-      });
-
-      selectedTiktokAccounts.forEach((account) => {
-        setTiktokAccountIdToProcessingState({
-          [account.id]: {
-            state: "error",
-            message: error instanceof Error ? error.message : "Unknown error",
-          },
-        });
-      });
-
-      selectedYoutubeChannels.forEach((channel) => {
-        setYoutubeChannelIdToProcessingState({
-          [channel.id]: {
-            state: "error",
-            message: error instanceof Error ? error.message : "Unknown error",
-          },
-        });
-      });
-    }
-    if (filePath) {
-      selectedInstagramAccounts.forEach((account) => {
-        setInstagramAccountIdToProcessingState({
-          [account.instagram_business_account_id]: {
-            state: "processing",
-            message: "Processing",
-          },
-        });
-        const caption = showWatermark
-          ? `${instagramCaption} — posted from SocialQueue.ai`
-          : instagramCaption;
-        createInstagramContainer({
-          instagramBusinessAccountId: account.instagram_business_account_id,
-          filePath,
-          caption,
-          userId,
-          postType: file.type.includes("video") ? "video" : "image",
-          isCarouselItem: false,
-        })
-          .then((containerId) =>
-            checkInstagramContainerStatus({
-              containerIds: [containerId],
-              instagramBusinessAccountId: account.instagram_business_account_id,
-              userId,
-            }).then(() => {
-              publishInstagramMediaContainer({
-                instagramMediaContainerId: containerId,
-                instagramBusinessAccountId:
-                  account.instagram_business_account_id,
-                userId,
-              }).then((instagramMediaId) => {
-                saveInstagramId({
-                  instagramMediaId,
-                  parentSocialMediaPostId: socialMediaPostId,
-                  caption: `${instagramCaption} — posted from SocialQueue.ai`,
-                  userId,
-                  instagramAccountId: account.id,
-                });
-                setInstagramAccountIdToProcessingState({
-                  [account.instagram_business_account_id]: {
-                    state: "posted",
-                    message: "Posted",
-                  },
-                });
-              });
-            })
-          )
-          .catch((error) => {
-            setInstagramAccountIdToProcessingState({
-              [account.instagram_business_account_id]: {
-                state: "error",
-                message:
-                  error instanceof Error ? error.message : "Unknown error",
-              },
-            });
-          });
-      });
-      selectedTiktokAccounts.forEach((account) => {
-        setTiktokAccountIdToProcessingState({
-          [account.id]: {
-            state: "processing",
-            message: "Processing",
-          },
-        });
-        const caption = showWatermark
-          ? `${tiktokCaption} — posted from SocialQueue.ai`
-          : tiktokCaption;
-        uploadTikTokPost({
-          userId,
-          caption,
-          autoAddMusic: tiktokAutoAddMusicToPhotos,
-          brandOrganicToggle: tiktokIsYourBrandPromotion,
-          brandContentToggle: tiktokIsBrandedContent,
-          accessToken: account.access_token,
-          filePath,
-          privacyLevel: tiktokPrivacyLevel.value,
-          disableDuet,
-          disableComment,
-          disableStitch,
-          videoCoverTimestamp: 0,
-          postType: file.type.includes("video") ? "video" : "image",
-        }).then((publishId) =>
-          checkTikTokPublishStatus({
-            publishIds: [publishId],
-            accessToken: account.access_token,
-          }).then(() => {
-            writeTikTokPostToSupabase({
-              userId,
-              caption,
-              publishId,
-              privacyLevel: "SELF_ONLY",
-              disableDuet,
-              disableComment,
-              videoCoverTimestamp: 0,
-              parentSocialMediaPostId: socialMediaPostId,
-              tiktokAccountId: account.id,
-            });
-            setTiktokAccountIdToProcessingState({
-              [account.id]: {
-                state: "posted",
-                message: "Posted",
-              },
-            });
-          })
-        );
-      });
-      selectedYoutubeChannels.forEach((channel) => {
-        setYoutubeChannelIdToProcessingState({
-          [channel.id]: {
-            state: "processing",
-            message: "Processing",
-          },
-        });
-        const formData = new FormData();
-        const title = showWatermark
-          ? `${youtubeTitle} — posted from SocialQueue.ai`
-          : youtubeTitle;
-        formData.append("youtubeChannelId", channel.id);
-        formData.append("videoPath", filePath);
-        formData.append("title", title);
-        formData.append("userId", userId);
-        formData.append("parentSocialMediaPostId", socialMediaPostId);
-        formData.append("isPrivate", privateYoutube.toString());
-        fetch("/api/youtube/post", {
-          method: "POST",
-          body: formData,
-        })
-          .then((resp) => {
-            if (resp.ok) {
-              setYoutubeChannelIdToProcessingState({
-                [channel.id]: {
-                  state: "posted",
-                  message: "Posted",
-                },
-              });
-            } else {
-              resp.json().then((data: { message: string }) => {
-                setYoutubeChannelIdToProcessingState({
-                  [channel.id]: {
-                    state: "error",
-                    message: data.message,
-                  },
-                });
-              });
-            }
-          })
-          .catch((error) => {
-            logger.error(errorString, {
-              error: error instanceof Error ? error.message : error,
-            });
-            setYoutubeChannelIdToProcessingState({
-              [channel.id]: {
-                state: "error",
-                message:
-                  error instanceof Error ? error.message : "Unknown error",
-              },
-            });
-          });
-      });
-    }
-  };
-
+  const fileTypes = files.map((file) => file.type);
   const containsPhotos = files.some((file) => file.type.includes("image"));
 
   return (
@@ -648,7 +970,7 @@ export default function VideoUploadComponent({
         }
       >
         {files.map((file) => (
-          <div>
+          <div key={toFileKey(file)}>
             <MemoizedMedia
               file={file}
               onRemove={() =>
@@ -666,230 +988,101 @@ export default function VideoUploadComponent({
           <p className="text-gray-400">Click to add photos or videos</p>
         </div>
       )}
+      {files.length > 0 && files.length < MAX_MEDIA_FILES && (
+        <Button
+          intent="secondary"
+          type="button"
+          onClick={handleCustomButtonClick}
+        >
+          Add more photos or videos
+        </Button>
+      )}
       <div className={"flex flex-col justify-center w-full"}>
         <div className={"flex flex-wrap justify-center items-center gap-2"}>
-          {instagramAccounts.map((account) => (
-            <button
-              className={`p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col justify-center items-center gap-2 ${
-                selectedInstagramAccounts.find(
-                  (acc) =>
-                    acc.instagram_business_account_id ===
-                    account.instagram_business_account_id
-                ) && "border-2 border-orange-500"
-              } disabled:opacity-50 min-h-32`}
-              disabled={
-                instagramAccountIdToProcessingState[
-                  account.instagram_business_account_id
-                ]?.state === "disabled"
-              }
-              onClick={() =>
-                setSelectedInstagramAccounts((prev) => {
-                  if (
-                    prev.find(
-                      (acc) =>
-                        acc.instagram_business_account_id ===
-                        account.instagram_business_account_id
-                    )
-                  ) {
-                    return prev.filter(
-                      (acc) =>
-                        acc.instagram_business_account_id !==
-                        account.instagram_business_account_id
-                    );
-                  }
-                  return [...prev, account];
-                })
-              }
-              key={account.instagram_business_account_id}
-            >
-              <div className="flex items-center gap-2">
-                <div className="relative w-8 h-8">
-                  <img
-                    src={account.picture_file_path}
-                    alt={account.account_name}
-                    className="w-8 h-8 rounded-full"
-                  />
-                  <Icons.instagram className="absolute bottom-[-8px] right-[-8px] w-6 h-6 rounded-full" />
-                </div>
-                <Text text={account.account_name} />
-              </div>
-              <div className="text-sm mt-1 flex items-center gap-2 justify-between w-full">
-                <p
-                  className={`
-                  ${
-                    instagramAccountIdToProcessingState[
-                      account.instagram_business_account_id
-                    ]?.state === "posted" && "text-green-400"
-                  }
-                  ${
-                    instagramAccountIdToProcessingState[
-                      account.instagram_business_account_id
-                    ]?.state === "error" && "text-red-400"
-                  }
-                  ${
-                    instagramAccountIdToProcessingState[
-                      account.instagram_business_account_id
-                    ]?.state === "processing" && "text-orange-400"
-                  }
-                `}
-                >
-                  {`${
-                    instagramAccountIdToProcessingState[
-                      account.instagram_business_account_id
-                    ]?.message ?? ""
-                  }`}
-                </p>
-                {(instagramAccountIdToProcessingState[
-                  account.instagram_business_account_id
-                ]?.state === "processing" ||
-                  instagramAccountIdToProcessingState[
-                    account.instagram_business_account_id
-                  ]?.state === "uploading") && (
-                  <LoadingSpinner size="h-6 w-6" />
-                )}
-                {instagramAccountIdToProcessingState[
-                  account.instagram_business_account_id
-                ]?.state === "error" && (
-                  <XCircleIcon className="h-6 w-6 text-red-4000" />
-                )}
-                {instagramAccountIdToProcessingState[
-                  account.instagram_business_account_id
-                ]?.state === "posted" && (
-                  <CheckCircleIcon className="h-6 w-6 text-green-400" />
-                )}
-              </div>
-            </button>
-          ))}
-          {tiktokAccounts.map((account) => (
-            <button
-              className={`p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col justify-center items-center gap-2 ${
-                selectedTiktokAccounts.find((acc) => acc.id === account.id) &&
-                "border-2 border-orange-500"
-              } disabled:opacity-50 min-h-32`}
-              disabled={
-                tiktokAccountIdToProcessingState[account.id]?.state ===
-                "disabled"
-              }
-              onClick={() =>
-                setSelectedTiktokAccounts((prev) => {
-                  if (prev.find((acc) => acc.id === account.id)) {
-                    return prev.filter((acc) => acc.id !== account.id);
-                  }
-                  return [...prev, account];
+          {platformAccounts.map((account) => {
+            const accountKey = toAccountKey(account.platform, account.id);
+            const { validateMedia, validateMediaSelection } =
+              platformDefinitions[account.platform];
+            const mediaError =
+              validateMediaSelection(fileTypes) ??
+              files
+                .map((file) => {
+                  const media = fileMediaDetails.get(file);
+                  return media ? validateMedia(media, account) : null;
                 })
-              }
-              key={account.id}
-            >
-              <div className="flex items-center gap-2">
-                <div className="relative w-8 h-8">
-                  <img
-                    src={account.profile_picture_file_path}
-                    alt={account.account_name}
-                    className="w-8 h-8 rounded-full"
-                  />
-                  <Icons.tiktok className="absolute bottom-[-8px] right-[-8px] w-6 h-6 rounded-full" />
+                .find((error) => error !== null);
+            const processingState: ProcessingStatus | undefined = mediaError
+              ? { state: "disabled", message: mediaError }
+              : accountKeyToProcessingState[accountKey];
+            const PlatformIcon = Icons[account.platform];
+            return (
+              <button
+                className={`p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col justify-center items-center gap-2 ${
+                  selectedAccounts.find(
+                    (selected) =>
+                      toAccountKey(selected.platform, selected.id) ===
+                      accountKey
+                  ) && "border-2 border-orange-500"
+                } disabled:opacity-50 min-h-32`}
+                disabled={processingState?.state === "disabled"}
+                onClick={() =>
+                  setSelectedAccounts((prev) => {
+                    if (
+                      prev.find(
+                        (selected) =>
+                          toAccountKey(selected.platform, selected.id) ===
+                          accountKey
+                      )
+                    ) {
+                      return prev.filter(
+                        (selected) =>
+                          toAccountKey(selected.platform, selected.id) !==
+                          accountKey
+                      );
+                    }
+                    return [...prev, account];
+                  })
+                }
+                key={accountKey}
+              >
+                <div className="flex items-center gap-2">
+                  <div className="relative w-8 h-8">
+                    <img
+                      src={account.pictureUrl}
+                      alt={account.name}
+                      className="w-8 h-8 rounded-full"
+                    />
+                    <PlatformIcon className="absolute bottom-[-8px] right-[-8px] w-6 h-6 rounded-full" />
+                  </div>
+                  <Text text={account.name} />
                 </div>
-                <Text text={account.account_name} />
-              </div>
-              <div className="text-sm mt-1 flex items-center gap-2 justify-between w-full">
-                <p
-                  className={`
-                  ${
-                    tiktokAccountIdToProcessingState[account.id]?.state ===
-                      "posted" && "text-green-400"
-                  }
-                  ${
-                    tiktokAccountIdToProcessingState[account.id]?.state ===
-                      "error" && "text-red-400"
-                  }
-                  ${
-                    tiktokAccountIdToProcessingState[account.id]?.state ===
-                      "processing" && "text-orange-400"
-                  }
-                `}
-                >
-                  {`${
-                    tiktokAccountIdToProcessingState[account.id]?.message ?? ""
-                  }`}
-                </p>
-                {(tiktokAccountIdToProcessingState[account.id]?.state ===
-                  "processing" ||
-                  tiktokAccountIdToProcessingState[account.id]?.state ===
-                    "uploading") && <LoadingSpinner size="h-6 w-6" />}
-                {tiktokAccountIdToProcessingState[account.id]?.state ===
-                  "error" && <XCircleIcon className="h-6 w-6 text-red-4000" />}
-                {tiktokAccountIdToProcessingState[account.id]?.state ===
-                  "posted" && (
-                  <CheckCircleIcon className="h-6 w-6 text-green-400" />
-                )}
-              </div>
-            </button>
-          ))}
-          {youtubeChannels.map((channel) => (
-            <button
-              className={`p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col justify-center items-center gap-2 ${
-                selectedYoutubeChannels.find((ch) => ch.id === channel.id) &&
-                "border-2 border-orange-500"
-              } disabled:opacity-50 min-h-32`}
-              disabled={
-                youtubeChannelIdToProcessingState[channel.id]?.state ===
-                "disabled"
-              }
-              onClick={() =>
-                setSelectedYoutubeChannels((prev) => {
-                  if (prev.find((acc) => acc.id === channel.id)) {
-                    return prev.filter((acc) => acc.id !== channel.id);
-                  }
-                  return [...prev, channel];
-                })
-              }
-              key={channel.id}
-            >
-              <div className="flex items-center gap-2">
-                <div className="relative w-8 h-8">
-                  <img
-                    src={channel.profile_picture_path}
-                    alt={channel.channel_custom_url}
-                    className="w-8 h-8 rounded-full"
-                  />
-                  <Icons.youtube className="absolute bottom-[-8px] right-[-8px] w-6 h-6 rounded-full" />
+                <div className="text-sm mt-1 flex items-center gap-2 justify-between w-full">
+                  <p
+                    className={`
+                    ${processingState?.state === "posted" && "text-green-400"}
+                    ${processingState?.state === "error" && "text-red-400"}
+                    ${
+                      processingState?.state === "processing" &&
+                      "text-orange-400"
+                    }
+                  `}
+                  >
+                    {`${processingState?.message ?? ""}`}
+                  </p>
+                  {(processingState?.state === "processing" ||
+                    processingState?.state === "uploading") && (
+                    <LoadingSpinner size="h-6 w-6" />
+                  )}
+                  {processingState?.state === "error" && (
+                    <XCircleIcon className="h-6 w-6 text-red-400" />
+                  )}
+                  {processingState?.state === "posted" && (
+                    <CheckCircleIcon className="h-6 w-6 text-green-400" />
+                  )}
                 </div>
-                <Text text={channel.channel_custom_url} />
-              </div>
-              <div className="text-sm mt-1 flex items-center gap-2 justify-between w-full">
-                <p
-                  className={`
-                  ${
-                    youtubeChannelIdToProcessingState[channel.id]?.state ===
-                      "posted" && "text-green-400"
-                  }
-                  ${
-                    youtubeChannelIdToProcessingState[channel.id]?.state ===
-                      "error" && "text-red-400"
-                  }
-                  ${
-                    youtubeChannelIdToProcessingState[channel.id]?.state ===
-                      "processing" && "text-orange-400"
-                  }
-                `}
-                >
-                  {`${
-                    youtubeChannelIdToProcessingState[channel.id]?.message ?? ""
-                  }`}
-                </p>
-                {(youtubeChannelIdToProcessingState[channel.id]?.state ===
-                  "processing" ||
-                  youtubeChannelIdToProcessingState[channel.id]?.state ===
-                    "uploading") && <LoadingSpinner size="h-6 w-6" />}
-                {youtubeChannelIdToProcessingState[channel.id]?.state ===
-                  "error" && <XCircleIcon className="h-6 w-6 text-red-400" />}
-                {youtubeChannelIdToProcessingState[channel.id]?.state ===
-                  "posted" && (
-                  <CheckCircleIcon className="h-6 w-6 text-green-400" />
-                )}
-              </div>
-            </button>
-          ))}
+              </button>
+            );
+          })}
         </div>
         <form
           action={processSocialMediaPost}
@@ -902,11 +1095,32 @@ export default function VideoUploadComponent({
             style={{ display: "none" }}
             className={"hidden"}
             ref={fileInputRef}
-            multiple={false}
+            multiple={true}
             name={"mediaFiles"}
-            accept="video/mp4, video/quicktime"
+            accept="video/mp4, video/quicktime, image/jpeg, image/png, image/webp"
           />
-          {selectedInstagramAccounts.length > 0 && (
+          {selectedAccounts.length > 0 && (
+            <div className="flex flex-col items-start gap-2 w-full">
+              <Text
+                alignment={"left"}
+                intent="title"
+                text="Caption"
+                additionalStyles="mt-4"
+              />
+              <TextArea
+                title={
+                  "Used for every platform unless you change it in that platform's settings"
+                }
+                name={"baseCaption"}
+                placeholder={
+                  "Check out thecontentmarketingblueprint.com for help with social media marketing!"
+                }
+                value={baseCaption}
+                setValue={setBaseCaption}
+              />
+            </div>
+          )}
+          {isPlatformSelected("instagram") && (
             <div className="flex flex-col items-start gap-2 w-full">
               <Text
                 alignment={"left"}
@@ -921,11 +1135,33 @@ export default function VideoUploadComponent({
                   "Check out thecontentmarketingblueprint.com for help with social media marketing!"
                 }
                 value={instagramCaption}
-                setValue={setInstagramCaption}
+                setValue={setInstagramCaptionOverride}
+                characterLimit={
+                  platformDefinitions.instagram.captionLimit(postType) -
+                  watermarkLength
+                }
               />
+              <div className="flex items-center justify-between w-full text-sm">
+                <p
+                  className={
+                    countHashtags(instagramCaption) > INSTAGRAM_MAX_HASHTAGS
+                      ? "text-red-600"
+                      : "text-gray-400"
+                  }
+                >
+                  {`${countHashtags(
+                    instagramCaption
+                  )}/${INSTAGRAM_MAX_HASHTAGS} hashtags`}
+                </p>
+                {instagramCaptionOverride !== null && (
+                  <UseBaseCaptionButton
+                    onClick={() => setInstagramCaptionOverride(null)}
+                  />
+                )}
+              </div>
             </div>
           )}
-          {selectedYoutubeChannels.length > 0 && (
+          {isPlatformSelected("youtube") && (
             <div className="flex flex-col items-start gap-2 w-full">
               <Text
                 alignment={"left"}
@@ -940,19 +1176,98 @@ export default function VideoUploadComponent({
                   "Check out thecontentmarketingblueprint.com for help with social media marketing!"
                 }
                 required={true}
-                maxLength={70}
+                maxLength={
+                  platformDefinitions.youtube.captionLimit(postType) -
+                  watermarkLength
+                }
                 type={"text"}
                 value={youtubeTitle}
-                setValue={setYoutubeTitle}
+                setValue={setYoutubeTitleOverride}
+              />
+              {youtubeTitleOverride !== null && (
+                <UseBaseCaptionButton
+                  onClick={() => setYoutubeTitleOverride(null)}
+                />
+              )}
+              <TextArea
+                title={"Description"}
+                name={"youtubeDescription"}
+                value={youtubeDescription}
+                setValue={setYoutubeDescription}
+                characterLimit={YOUTUBE_DESCRIPTION_LIMIT}
+              />
+              <TextInput
+                name={"youtubeTags"}
+                title={"Tags (separated by commas)"}
+                placeholder={"marketing, social media"}
+                type={"text"}
+                value={youtubeTags}
+                setValue={setYoutubeTags}
+              />
+              <p
+                className={`text-sm self-end ${
+                  countYoutubeTagCharacters(youtubeTagList) > YOUTUBE_TAGS_LIMIT
+                    ? "text-red-600"
+                    : "text-gray-400"
+                }`}
+              >
+                {`${countYoutubeTagCharacters(
+                  youtubeTagList
+                )}/${YOUTUBE_TAGS_LIMIT}`}
+              </p>
+              <Selector
+                title="Visibility"
+                options={youtubeVisibilities}
+                selected={youtubeVisibility}
+                setSelected={setYoutubeVisibility}
+                styleOverride="w-full"
+              />
+              <Selector
+                title="Category"
+                options={youtubeCategories}
+                selected={youtubeCategory}
+                setSelected={setYoutubeCategory}
+                styleOverride="w-full"
+              />
+              <Selector
+                title="Video language"
+                options={youtubeLanguages}
+                selected={youtubeLanguage}
+                setSelected={setYoutubeLanguage}
+                styleOverride="w-full"
               />
               <Toggle
-                enabled={privateYoutube}
-                setEnabled={setPrivateYoutube}
-                label="Private Youtube Video"
+                enabled={youtubeMadeForKids}
+                setEnabled={setYoutubeMadeForKids}
+                label="Made for kids"
+                toolTipId="youtube-made-for-kids"
+                toolTipString="YouTube requires you to tell them whether your video is made for kids, as defined by COPPA."
               />
+              <div className="flex items-center gap-2 text-sm">
+                <label className="underline text-orange-600 hover:cursor-pointer">
+                  {youtubeThumbnail ? "Change thumbnail" : "Add a thumbnail"}
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept={supportedYoutubeThumbnailTypes.join(", ")}
+                    onChange={handleYoutubeThumbnailChange}
+                  />
+                </label>
+                {youtubeThumbnail && (
+                  <>
+                    <p>{youtubeThumbnail.name}</p>
+                    <button
+                      type="button"
+                      onClick={() => setYoutubeThumbnail(null)}
+                    >
+                      <TrashIcon className="h-4 w-4 text-gray-400" />
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
           )}
-          {selectedTiktokAccounts.length > 0 && (
+          {isPlatformSelected("tiktok") && (
             <div className="flex flex-col items-start gap-2 w-full">
               <Text
                 alignment={"left"}
@@ -970,7 +1285,7 @@ export default function VideoUploadComponent({
                   value={tiktokTitle}
                   setValue={setTiktokTitle}
                   required={true}
-                  maxLength={90}
+                  maxLength={TIKTOK_PHOTO_TITLE_LIMIT}
                   type="text"
                 />
               )}
@@ -981,15 +1296,43 @@ export default function VideoUploadComponent({
                   "Check out thecontentmarketingblueprint.com for help with social media marketing!"
                 }
                 value={tiktokCaption}
-                setValue={setTiktokCaption}
+                setValue={setTiktokCaptionOverride}
+                characterLimit={
+                  platformDefinitions.tiktok.captionLimit(postType) -
+                  watermarkLength
+                }
               />
+              {tiktokCaptionOverride !== null && (
+                <UseBaseCaptionButton
+                  onClick={() => setTiktokCaptionOverride(null)}
+                />
+              )}
               <Selector
                 title="Who can see this post"
-                options={privacyLevels}
+                options={tiktokPrivacyLevels}
                 selected={tiktokPrivacyLevel}
                 setSelected={setTiktokPrivacyLevel}
                 styleOverride="w-full"
               />
+              {selectedAccounts
+                .filter((account) => account.platform === "tiktok")
+                .map((account) => (
+                  <div
+                    key={account.id}
+                    className="flex items-center justify-between w-full"
+                  >
+                    <Text
+                      intent="subtitle"
+                      text={`Send to ${account.name}'s TikTok drafts`}
+                    />
+                    <Toggle
+                      enabled={tiktokInboxAccountIds.includes(account.id)}
+                      setEnabled={setTiktokInbox(account.id)}
+                      toolTipId={`tiktok-inbox-${account.id}`}
+                      toolTipString="Uploads the video to your TikTok inbox instead of posting it, so you can finish editing and post it from the TikTok app."
+                    />
+                  </div>
+                ))}
 
               <div className="flex items-center justify-between w-full">
                 <Text intent="subtitle" text="Additional TikTok Settings" />
@@ -1011,15 +1354,29 @@ export default function VideoUploadComponent({
                       <div className="flex items-center justify-between w-full">
                         <Text intent="subtitle" text="Disable Duet" />
                         <Toggle
-                          enabled={disableDuet}
+                          enabled={disableDuet || isTiktokDuetLocked}
                           setEnabled={setDisableDuet}
+                          disabled={isTiktokDuetLocked}
+                          toolTipId="tiktok-duet-locked"
+                          toolTipString={
+                            isTiktokDuetLocked
+                              ? "One of your TikTok accounts has Duet turned off in the TikTok app."
+                              : undefined
+                          }
                         />
                       </div>
                       <div className="flex items-center justify-between w-full">
                         <Text intent="subtitle" text="Disable Stitch" />
                         <Toggle
-                          enabled={disableStitch}
+                          enabled={disableStitch || isTiktokStitchLocked}
                           setEnabled={setDisableStitch}
+                          disabled={isTiktokStitchLocked}
+                          toolTipId="tiktok-stitch-locked"
+                          toolTipString={
+                            isTiktokStitchLocked
+                              ? "One of your TikTok accounts has Stitch turned off in the TikTok app."
+                              : undefined
+                          }
                         />
                       </div>
                     </>
@@ -1028,8 +1385,15 @@ export default function VideoUploadComponent({
                   <div className="flex items-center justify-between w-full">
                     <Text intent="subtitle" text="Disable Comments" />
                     <Toggle
-                      enabled={disableComment}
+                      enabled={disableComment || isTiktokCommentLocked}
                       setEnabled={setDisableComment}
+                      disabled={isTiktokCommentLocked}
+                      toolTipId="tiktok-comment-locked"
+                      toolTipString={
+                        isTiktokCommentLocked
+                          ? "One of your TikTok accounts has comments turned off in the TikTok app."
+                          : undefined
+                      }
                     />
                   </div>
 
@@ -1109,6 +1473,39 @@ export default function VideoUploadComponent({
               </p>
             </div>
           )}
+          <div className="flex flex-col items-start gap-2 w-full mt-4">
+            <Toggle
+              label="Add to queue"
+              enabled={addToQueue}
+              setEnabled={setAddToQueue}
+              toolTipId="add-to-queue"
+              toolTipString="Posts to each account in its next free queue slot. You can set up queue slots on the accounts page."
+              disabled={scheduleForLater}
+            />
+            <Toggle
+              label="Schedule for later"
+              enabled={scheduleForLater}
+              setEnabled={setScheduleForLater}
+              disabled={addToQueue}
+            />
+            {scheduleForLater && (
+              <input
+                className="rounded-lg p-2 text-lg w-full border-2 border-gray-500"
+                type="datetime-local"
+                name="scheduledAt"
+                required={true}
+                value={scheduledAt}
+                onChange={(event) => setScheduledAt(event.target.value)}
+              />
+            )}
+          </div>
+          {warnings.length > 0 && (
+            <ul className="flex flex-col gap-1 w-full mt-4 text-sm text-red-600 list-disc list-inside">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
           <div className="flex items-center justify-between w-full">
             <Toggle
               label="Post with watermark"
@@ -1119,30 +1516,46 @@ export default function VideoUploadComponent({
               tou can turn off the watermark by upgrading to a paid account.`}
               disabled={!isProUser}
             />
-            <Button
-              disabled={
-                (selectedInstagramAccounts.length === 0 &&
-                  selectedYoutubeChannels.length === 0 &&
-                  selectedTiktokAccounts.length === 0) ||
-                files.length === 0 ||
-                (selectedYoutubeChannels.length > 0 &&
-                  youtubeTitle.length === 0) ||
-                (selectedYoutubeChannels.length > 0 &&
-                  youtubeTitle.length > 100) ||
-                Object.values(instagramAccountIdToProcessingState).some(
-                  (state) => state.state === "processing"
-                ) ||
-                Object.values(youtubeChannelIdToProcessingState).some(
-                  (state) => state.state === "processing"
-                ) ||
-                Object.values(tiktokAccountIdToProcessingState).some(
-                  (state) => state.state === "processing"
-                )
-              }
-              type={"submit"}
-            >
-              Upload Post
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                intent="secondary"
+                type="button"
+                loading={isSavingDraft}
+                disabled={isSubmitting || isSavingDraft}
+                onClick={saveDraft}
+              >
+                Save Draft
+              </Button>
+              <Button
+                disabled={
+                  isSavingDraft ||
+                  selectedAccounts.length === 0 ||
+                  selectedAccounts.some((account) =>
+                    platformDefinitions[
+                      account.platform
+                    ].validateMediaSelection(fileTypes)
+                  ) ||
+                  files.length === 0 ||
+                  isSubmitting ||
+                  (scheduleForLater &&
+                    (!scheduledAt ||
+                      new Date(scheduledAt).getTime() <= Date.now())) ||
+                  warnings.length > 0 ||
+                  Object.values(accountKeyToProcessingState).some(
+                    (state) => state.state === "processing"
+                  )
+                }
+                type={"submit"}
+              >
+                {needsApproval
+                  ? "Submit for Approval"
+                  : addToQueue
+                  ? "Add to Queue"
+                  : scheduleForLater
+                  ? "Schedule Post"
+                  : "Upload Post"}
+              </Button>
+            </div>
           </div>
         </form>
       </div>
@@ -1,26 +1,58 @@
 import { getUser } from "@/app/actions/user";
+import { getCurrentWorkspace } from "@/app/actions/workspaces";
 import { redirect } from "next/navigation";
 import { fetchUserConnectSocialMediaAccounts } from "../actions/socialMediaAccounts";
 import VideoUploadComponent from "./VideoUploadComponent";
+import { fetchSocialMediaPostDraft } from "../actions/socialMediaPostDrafts";
+import Text from "@/components/common/Text";
+import { canCreatePosts } from "@/utils/workspaceRoles";
 
 export const maxDuration = 300;
 
-export default async function PostPage() {
+export default async function PostPage({
+  searchParams,
+}: {
+  searchParams: { draftId?: string };
+}) {
   const { isProUser, user } = await getUser();
   if (!user) {
     redirect("/login");
   }
+  const workspace = await getCurrentWorkspace(user.id);
+  if (!canCreatePosts(workspace.role)) {
+    return (
+      <div className="flex flex-col items-center gap-2 w-full max-w-[1024px] px-2 mt-8">
+        <Text intent="title" text="You can't post in this workspace" />
+        <Text
+          color="secondary"
+          text="Viewers can see the workspace's posts and analytics. Ask an owner to change your role to post."
+        />
+      </div>
+    );
+  }
   const { instagramAccounts, tiktokAccounts, youtubeChannels } =
-    await fetchUserConnectSocialMediaAccounts(user.id);
+    await fetchUserConnectSocialMediaAccounts(workspace.id);
+  // A draft that was posted or deleted since the link was opened just starts a
+  // fresh post.
+  const draft = searchParams.draftId
+    ? await fetchSocialMediaPostDraft({
+        socialMediaPostId: searchParams.draftId,
+        userId: user.id,
+      }).catch(() => undefined)
+    : undefined;
 
   return (
     <div className="flex flex-col items-center w-[1024px]">
       <VideoUploadComponent
         instagramAccounts={instagramAccounts}
         userId={user.id}
+        workspaceId={workspace.id}
+        role={workspace.role}
         tiktokAccounts={tiktokAccounts}
         youtubeChannels={youtubeChannels}
         isProUser={isProUser}
+        draft={draft}
+        key={draft?.id}
       />
     </div>
   );
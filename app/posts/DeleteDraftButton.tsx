@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { Button } from "@/components/common/Button";
+import { deleteSocialMediaPostDraft } from "../actions/socialMediaPostDrafts";
+
+export default function DeleteDraftButton({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) {
+  const router = useRouter();
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const deleteDraft = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteSocialMediaPostDraft({ socialMediaPostId, userId });
+      toast.success("Your draft was deleted");
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Sorry, we had an issue deleting your draft. Please try again."
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Button
+      intent="danger"
+      size="sm"
+      loading={isDeleting}
+      onClick={deleteDraft}
+    >
+      Delete
+    </Button>
+  );
+}
@@ -0,0 +1,86 @@
+import Link from "next/link";
+import Icons from "@/components/common/Icons";
+import Text from "@/components/common/Text";
+import { SocialMediaPostDraftSettings } from "../actions/socialMediaPostDrafts";
+import { AccountSummary } from "../actions/socialMediaAccounts";
+import DeleteDraftButton from "./DeleteDraftButton";
+
+export default function DraftList({
+  drafts,
+  accounts,
+  userId,
+}: {
+  drafts: {
+    id: string;
+    updatedAt: string;
+    settings: SocialMediaPostDraftSettings;
+  }[];
+  accounts: { [accountId: string]: AccountSummary };
+  userId: string;
+}) {
+  if (drafts.length === 0) {
+    return null;
+  }
+  return (
+    <div className="flex flex-col gap-4 w-full mt-8">
+      <Text intent="title" text="Your Drafts" />
+      {drafts.map((draft) => (
+        <div
+          key={draft.id}
+          className="p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col gap-2"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <Text
+              alignment="left"
+              intent="subtitle"
+              text={`Saved ${new Date(draft.updatedAt).toLocaleString()}`}
+            />
+            <div className="flex items-center gap-2">
+              {draft.settings.selectedAccounts.map(
+                ({ platform, accountId }) => {
+                  const PlatformIcon = Icons[platform];
+                  const account = accounts[accountId];
+                  return (
+                    <div
+                      key={`${platform}-${accountId}`}
+                      className="relative w-8 h-8"
+                    >
+                      {account && (
+                        <img
+                          src={account.pictureUrl}
+                          alt={account.name}
+                          className="w-8 h-8 rounded-full"
+                        />
+                      )}
+                      <PlatformIcon className="absolute bottom-[-8px] right-[-8px] w-6 h-6 rounded-full" />
+                    </div>
+                  );
+                }
+              )}
+            </div>
+          </div>
+          <Text
+            alignment="left"
+            color="secondary"
+            text={
+              draft.settings.baseCaption ||
+              draft.settings.instagramCaption ||
+              draft.settings.tiktokCaption ||
+              draft.settings.youtubeTitle ||
+              "No caption yet"
+            }
+          />
+          <div className="flex items-center gap-2">
+            <Link
+              className="underline text-orange-600 text-sm"
+              href={`/create-post?draftId=${draft.id}`}
+            >
+              Open draft
+            </Link>
+            <DeleteDraftButton socialMediaPostId={draft.id} userId={userId} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import Link from "next/link";
+import {
+  CheckCircleIcon,
+  ClockIcon,
+  XCircleIcon,
+} from "@heroicons/react/24/solid";
+import Icons from "@/components/common/Icons";
+import Text from "@/components/common/Text";
+import LoadingSpinner from "@/components/common/LoadingSpinner";
+import {
+  SocialMediaPostHistoryEntry,
+  SocialMediaPostOutcome,
+} from "../actions/postHistory";
+import { SocialMediaPostStatus } from "../actions/socialMediaPostQueue";
+import { AccountSummary } from "../actions/socialMediaAccounts";
+import RetryDestinationButton from "./RetryDestinationButton";
+import RemoveQueuedPostButton from "./RemoveQueuedPostButton";
+import ReviewPostButtons from "./ReviewPostButtons";
+import { canPublishPosts, WorkspaceRole } from "@/utils/workspaceRoles";
+
+const postStatusLabels: { [status in SocialMediaPostStatus]: string } = {
+  draft: "Draft",
+  uploading: "Uploading",
+  pending_approval: "Awaiting approval",
+  rejected: "Rejected",
+  scheduled: "Scheduled",
+  publishing: "Publishing",
+  published: "Published",
+  failed: "Failed",
+};
+
+const outcomeStatusLabels: {
+  [status in SocialMediaPostOutcome["status"]]: string;
+} = {
+  uploading: "Uploading",
+  pending: "Queued",
+  processing: "Processing",
+  published: "Published",
+  failed: "Failed",
+  rejected: "Rejected",
+};
+
+export default function PostHistory({
+  posts,
+  accounts,
+  userId,
+  role,
+}: {
+  posts: SocialMediaPostHistoryEntry[];
+  accounts: { [accountId: string]: AccountSummary };
+  userId: string;
+  role: WorkspaceRole;
+}) {
+  return (
+    <div className="flex flex-col gap-4 w-full mt-8">
+      <Text intent="title" text="Your Posts" />
+      {posts.length === 0 && (
+        <div className="flex flex-col items-center gap-2">
+          <Text color="secondary" text="You haven't made any posts yet." />
+          <Link className="underline text-orange-600" href="/create-post">
+            Create your first post
+          </Link>
+        </div>
+      )}
+      {posts.map((post) => (
+        <div
+          key={post.id}
+          className="p-4 rounded-lg bg-secondaryBackground-light dark:bg-secondaryBackground-dark flex flex-col gap-2"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <Text
+              alignment="left"
+              intent="subtitle"
+              text={new Date(
+                post.scheduledAt ?? post.createdAt
+              ).toLocaleString()}
+            />
+            <Text alignment="right" text={postStatusLabels[post.status]} />
+          </div>
+          {post.outcomes.map((outcome) => (
+            <OutcomeRow
+              key={`${outcome.platform}-${outcome.accountId}`}
+              outcome={outcome}
+              account={accounts[outcome.accountId]}
+              userId={userId}
+              canRetry={canPublishPosts(role)}
+              isAwaitingApproval={post.status === "pending_approval"}
+            />
+          ))}
+          {post.status === "rejected" && post.reviewComment && (
+            <Text
+              alignment="left"
+              color="error"
+              text={`Rejected: ${post.reviewComment}`}
+            />
+          )}
+          {post.status === "pending_approval" && canPublishPosts(role) && (
+            <ReviewPostButtons socialMediaPostId={post.id} userId={userId} />
+          )}
+          {post.status === "published" && (
+            <Link
+              className="underline text-orange-600 text-sm"
+              href={`/analytics/${post.id}`}
+            >
+              View analytics
+            </Link>
+          )}
+          {post.status === "scheduled" && canPublishPosts(role) && (
+            <RemoveQueuedPostButton
+              socialMediaPostId={post.id}
+              userId={userId}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const OutcomeRow = ({
+  outcome,
+  account,
+  userId,
+  canRetry,
+  isAwaitingApproval,
+}: {
+  outcome: SocialMediaPostOutcome;
+  account?: AccountSummary;
+  userId: string;
+  canRetry: boolean;
+  // The media is uploaded, the destinations just haven't been released yet.
+  isAwaitingApproval: boolean;
+}) => {
+  const PlatformIcon = Icons[outcome.platform];
+  const isWaitingToRetry =
+    outcome.nextAttemptAt !== null &&
+    (outcome.status === "pending" || outcome.status === "processing");
+  const isWaitingForSlot =
+    outcome.scheduledAt !== null &&
+    new Date(outcome.scheduledAt).getTime() > Date.now() &&
+    (outcome.status === "uploading" || outcome.status === "pending");
+  return (
+    <div className="flex flex-col gap-1 border-t border-gray-500 pt-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className="relative w-8 h-8">
+            {account && (
+              <img
+                src={account.pictureUrl}
+                alt={account.name}
+                className="w-8 h-8 rounded-full"
+              />
+            )}
+            <PlatformIcon className="absolute bottom-[-8px] right-[-8px] w-6 h-6 rounded-full" />
+          </div>
+          <Text text={account?.name ?? "Disconnected account"} />
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <p
+            className={`
+              ${outcome.status === "published" && "text-green-400"}
+              ${outcome.status === "failed" && "text-red-400"}
+              ${outcome.status === "rejected" && "text-red-400"}
+              ${outcome.status === "processing" && "text-orange-400"}
+            `}
+          >
+            {isAwaitingApproval
+              ? "Awaiting approval"
+              : isWaitingToRetry
+              ? "Retrying"
+              : outcome.status === "published" && outcome.sentToInbox
+              ? "Sent to TikTok drafts"
+              : outcomeStatusLabels[outcome.status]}
+          </p>
+          {((outcome.status === "uploading" && !isAwaitingApproval) ||
+            outcome.status === "processing") && (
+            <LoadingSpinner size="h-6 w-6" />
+          )}
+          {outcome.status === "pending" && (
+            <ClockIcon className="h-6 w-6 text-gray-400" />
+          )}
+          {(outcome.status === "failed" || outcome.status === "rejected") && (
+            <XCircleIcon className="h-6 w-6 text-red-400" />
+          )}
+          {outcome.status === "published" && (
+            <CheckCircleIcon className="h-6 w-6 text-green-400" />
+          )}
+        </div>
+      </div>
+      {outcome.caption && (
+        <Text alignment="left" color="secondary" text={outcome.caption} />
+      )}
+      {outcome.errorMessage && (
+        <Text alignment="left" color="error" text={outcome.errorMessage} />
+      )}
+      {isWaitingForSlot && outcome.scheduledAt && (
+        <Text
+          alignment="left"
+          color="secondary"
+          text={`Queued for ${new Date(outcome.scheduledAt).toLocaleString()}`}
+        />
+      )}
+      {isWaitingToRetry && outcome.nextAttemptAt && (
+        <Text
+          alignment="left"
+          color="secondary"
+          text={`We'll try again at ${new Date(
+            outcome.nextAttemptAt
+          ).toLocaleTimeString()}`}
+        />
+      )}
+      {outcome.status === "failed" && outcome.destinationId && canRetry && (
+        <RetryDestinationButton
+          destinationId={outcome.destinationId}
+          userId={userId}
+        />
+      )}
+      {outcome.url && (
+        <a
+          className="underline text-orange-600 text-sm"
+          href={outcome.url}
+          target="_blank"
+          rel="noreferrer"
+        >
+          View post
+        </a>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { Button } from "@/components/common/Button";
+import { removeQueuedSocialMediaPost } from "../actions/socialMediaPostQueue";
+
+export default function RemoveQueuedPostButton({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) {
+  const router = useRouter();
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const removePost = async () => {
+    setIsRemoving(true);
+    try {
+      await removeQueuedSocialMediaPost({ socialMediaPostId, userId });
+      toast.success("Your post was removed from the queue");
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Sorry, we had an issue removing your post. Please try again."
+      );
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <Button
+      intent="secondary"
+      size="sm"
+      loading={isRemoving}
+      onClick={removePost}
+    >
+      Remove from queue
+    </Button>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { Button } from "@/components/common/Button";
+import { retrySocialMediaPostDestination } from "../actions/socialMediaPostQueue";
+
+export default function RetryDestinationButton({
+  destinationId,
+  userId,
+}: {
+  destinationId: string;
+  userId: string;
+}) {
+  const router = useRouter();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const retryDestination = async () => {
+    setIsRetrying(true);
+    try {
+      await retrySocialMediaPostDestination({ destinationId, userId });
+      toast.success("Your post is queued to try again");
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Sorry, we had an issue retrying your post. Please try again."
+      );
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Button
+      intent="secondary"
+      size="sm"
+      loading={isRetrying}
+      onClick={retryDestination}
+    >
+      Retry
+    </Button>
+  );
+}
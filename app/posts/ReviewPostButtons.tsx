@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { Button } from "@/components/common/Button";
+import TextInput from "@/components/common/TextInput";
+import {
+  approveSocialMediaPost,
+  rejectSocialMediaPost,
+} from "../actions/socialMediaPostQueue";
+
+export default function ReviewPostButtons({
+  socialMediaPostId,
+  userId,
+}: {
+  socialMediaPostId: string;
+  userId: string;
+}) {
+  const router = useRouter();
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [comment, setComment] = useState("");
+
+  const review = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+    fallbackError: string
+  ) => {
+    setIsReviewing(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallbackError);
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const approve = () =>
+    review(
+      () => approveSocialMediaPost({ socialMediaPostId, userId }),
+      "The post was approved",
+      "Sorry, we had an issue approving this post. Please try again."
+    );
+
+  const reject = () =>
+    review(
+      () => rejectSocialMediaPost({ socialMediaPostId, userId, comment }),
+      "The post was rejected",
+      "Sorry, we had an issue rejecting this post. Please try again."
+    );
+
+  if (isRejecting) {
+    return (
+      <div className="flex items-center gap-2">
+        <TextInput
+          name="reviewComment"
+          type="text"
+          placeholder="What should be changed?"
+          value={comment}
+          setValue={setComment}
+        />
+        <Button
+          intent="danger"
+          size="sm"
+          loading={isReviewing}
+          disabled={!comment.trim()}
+          onClick={reject}
+        >
+          Reject
+        </Button>
+        <Button
+          intent="secondary"
+          size="sm"
+          disabled={isReviewing}
+          onClick={() => setIsRejecting(false)}
+        >
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        intent="primary"
+        size="sm"
+        loading={isReviewing}
+        onClick={approve}
+      >
+        Approve
+      </Button>
+      <Button
+        intent="secondary"
+        size="sm"
+        disabled={isReviewing}
+        onClick={() => setIsRejecting(true)}
+      >
+        Reject
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { redirect } from "next/navigation";
+import { getUser } from "@/app/actions/user";
+import { getCurrentWorkspace } from "@/app/actions/workspaces";
+import { fetchAccountSummaries } from "../actions/socialMediaAccounts";
+import { fetchSocialMediaPostHistory } from "../actions/postHistory";
+import { fetchSocialMediaPostDrafts } from "../actions/socialMediaPostDrafts";
+import PostHistory from "./PostHistory";
+import DraftList from "./DraftList";
+
+export const maxDuration = 300;
+
+export default async function PostsPage() {
+  const { user } = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+  const workspace = await getCurrentWorkspace(user.id);
+
+  const [posts, drafts, accounts] = await Promise.all([
+    fetchSocialMediaPostHistory(workspace.id),
+    fetchSocialMediaPostDrafts(workspace.id),
+    fetchAccountSummaries(workspace.id),
+  ]);
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-[1024px] px-2">
+      <DraftList drafts={drafts} accounts={accounts} userId={user.id} />
+      <PostHistory
+        posts={posts}
+        accounts={accounts}
+        userId={user.id}
+        role={workspace.role}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
-import { errorString } from "@/utils/logging";
-import { Logger } from "next-axiom";
+import { errorString, Logger } from "@/utils/logging";
 import { fetchProduct } from "../actions/stripe";
 import PricingTableClientComponent from "./PricingTableClientComponent";
 import { getUser } from "../actions/user";
@@ -0,0 +1,321 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import { Button } from "@/components/common/Button";
+import Text from "@/components/common/Text";
+import TextInput from "@/components/common/TextInput";
+import Selector, { SelectorOption } from "@/components/common/Selector";
+import {
+  canManageMembers,
+  WorkspaceRole,
+  workspaceRoleDescriptions,
+  workspaceRoleLabels,
+  workspaceRoles,
+} from "@/utils/workspaceRoles";
+import {
+  acceptWorkspaceInvitation,
+  createWorkspace,
+  inviteToWorkspace,
+  removeWorkspaceMember,
+  revokeWorkspaceInvitation,
+  switchWorkspace,
+  updateWorkspaceMemberRole,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+} from "../actions/workspaces";
+
+const roleOptions: SelectorOption<WorkspaceRole>[] = workspaceRoles.map(
+  (role) => ({ name: workspaceRoleLabels[role], value: role })
+);
+
+export default function WorkspaceManager({
+  userId,
+  workspace,
+  workspaces,
+  members,
+  invitations,
+  pendingInvitations,
+}: {
+  userId: string;
+  workspace: Workspace;
+  workspaces: Workspace[];
+  members: WorkspaceMember[];
+  invitations: { id: string; email: string; role: WorkspaceRole }[];
+  pendingInvitations: WorkspaceInvitation[];
+}) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState(
+    roleOptions.find(({ value }) => value === "editor")!
+  );
+  const isOwner = canManageMembers(workspace.role);
+
+  // Every change on this page goes through here so errors are reported the
+  // same way and the server components pick up the new workspace.
+  const run = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+    fallbackError: string
+  ) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallbackError);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const switchTo = (workspaceId: string) =>
+    run(
+      () => switchWorkspace({ userId, workspaceId }),
+      "Switched workspace",
+      "Sorry, we had an issue switching workspace. Please try again."
+    );
+
+  const create = () =>
+    run(
+      async () => {
+        const { id } = await createWorkspace({ userId, name: workspaceName });
+        await switchWorkspace({ userId, workspaceId: id });
+        setWorkspaceName("");
+      },
+      "Your workspace was created",
+      "Sorry, we had an issue creating your workspace. Please try again."
+    );
+
+  const invite = () =>
+    run(
+      async () => {
+        await inviteToWorkspace({
+          workspaceId: workspace.id,
+          userId,
+          email: inviteEmail,
+          role: inviteRole.value,
+        });
+        setInviteEmail("");
+      },
+      "Your invitation was sent",
+      "Sorry, we had an issue sending your invitation. Please try again."
+    );
+
+  const accept = (invitationId: string) =>
+    run(
+      async () => {
+        const workspaceId = await acceptWorkspaceInvitation({
+          invitationId,
+          userId,
+        });
+        await switchWorkspace({ userId, workspaceId });
+      },
+      "You joined the workspace",
+      "Sorry, we had an issue joining this workspace. Please try again."
+    );
+
+  const changeRole = (memberUserId: string, role: WorkspaceRole) =>
+    run(
+      () =>
+        updateWorkspaceMemberRole({
+          workspaceId: workspace.id,
+          userId,
+          memberUserId,
+          role,
+        }),
+      "The role was changed",
+      "Sorry, we had an issue changing this role. Please try again."
+    );
+
+  return (
+    <div className="flex flex-col gap-6 w-full">
+      <Text intent="title" text={workspace.name} />
+      {pendingInvitations.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <Text alignment="left" intent="subtitle" text="Invitations" />
+          {pendingInvitations.map((invitation) => (
+            <div
+              key={invitation.id}
+              className="flex items-center justify-between gap-2"
+            >
+              <p>{`You've been invited to ${invitation.workspaceName}`}</p>
+              <Button
+                intent="secondary"
+                size="sm"
+                loading={isSaving}
+                onClick={() => accept(invitation.id)}
+              >
+                Join
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-col gap-2">
+        <Text alignment="left" intent="subtitle" text="Your workspaces" />
+        {workspaces.map(({ id, name }) => (
+          <div key={id} className="flex items-center justify-between gap-2">
+            <p>{name}</p>
+            {id === workspace.id ? (
+              <Text alignment="right" color="secondary" text="Current" />
+            ) : (
+              <Button
+                intent="secondary"
+                size="sm"
+                loading={isSaving}
+                onClick={() => switchTo(id)}
+              >
+                Switch
+              </Button>
+            )}
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <TextInput
+            name="workspaceName"
+            type="text"
+            placeholder="New workspace name"
+            value={workspaceName}
+            setValue={setWorkspaceName}
+          />
+          <Button
+            intent="secondary"
+            size="sm"
+            loading={isSaving}
+            disabled={!workspaceName.trim()}
+            onClick={create}
+          >
+            Create
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Text alignment="left" intent="subtitle" text="Members" />
+        {workspaceRoles.map((role) => (
+          <Text
+            key={role}
+            alignment="left"
+            color="secondary"
+            text={`${workspaceRoleLabels[role]}: ${workspaceRoleDescriptions[role]}`}
+          />
+        ))}
+        {members.map((member) => (
+          <div
+            key={member.userId}
+            className="flex items-center justify-between gap-2"
+          >
+            <p>{member.email}</p>
+            <div className="flex items-center gap-2">
+              {isOwner ? (
+                <Selector
+                  options={roleOptions}
+                  selected={
+                    roleOptions.find(({ value }) => value === member.role)!
+                  }
+                  setSelected={(option) => {
+                    if (typeof option !== "function") {
+                      void changeRole(member.userId, option.value);
+                    }
+                  }}
+                  styleOverride="w-36"
+                />
+              ) : (
+                <Text
+                  alignment="right"
+                  color="secondary"
+                  text={workspaceRoleLabels[member.role]}
+                />
+              )}
+              {(isOwner || member.userId === userId) && (
+                <Button
+                  intent="danger"
+                  size="sm"
+                  loading={isSaving}
+                  disabled={members.length === 1}
+                  onClick={() =>
+                    run(
+                      () =>
+                        removeWorkspaceMember({
+                          workspaceId: workspace.id,
+                          userId,
+                          memberUserId: member.userId,
+                        }),
+                      member.userId === userId
+                        ? "You left the workspace"
+                        : "Your teammate was removed",
+                      "Sorry, we had an issue removing this teammate. Please try again."
+                    )
+                  }
+                >
+                  {member.userId === userId ? "Leave" : "Remove"}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+        {invitations.map((invitation) => (
+          <div
+            key={invitation.id}
+            className="flex items-center justify-between gap-2"
+          >
+            <p>{`${invitation.email} (invited as ${workspaceRoleLabels[
+              invitation.role
+            ].toLowerCase()})`}</p>
+            {isOwner && (
+              <Button
+                intent="danger"
+                size="sm"
+                loading={isSaving}
+                onClick={() =>
+                  run(
+                    () =>
+                      revokeWorkspaceInvitation({
+                        invitationId: invitation.id,
+                        userId,
+                      }),
+                    "The invitation was removed",
+                    "Sorry, we had an issue removing this invitation. Please try again."
+                  )
+                }
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        ))}
+        {isOwner && (
+          <div className="flex items-center gap-2">
+            <TextInput
+              name="inviteEmail"
+              type="email"
+              placeholder="teammate@example.com"
+              value={inviteEmail}
+              setValue={setInviteEmail}
+            />
+            <Selector
+              options={roleOptions}
+              selected={inviteRole}
+              setSelected={setInviteRole}
+              styleOverride="w-36"
+            />
+            <Button
+              intent="secondary"
+              size="sm"
+              loading={isSaving}
+              disabled={!inviteEmail.trim()}
+              onClick={invite}
+            >
+              Invite
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
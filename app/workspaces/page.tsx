@@ -0,0 +1,37 @@
+import { redirect } from "next/navigation";
+import { getUser } from "@/app/actions/user";
+import {
+  fetchPendingWorkspaceInvitations,
+  fetchWorkspaceMembers,
+  fetchWorkspaces,
+  getCurrentWorkspace,
+} from "../actions/workspaces";
+import WorkspaceManager from "./WorkspaceManager";
+
+export default async function WorkspacesPage() {
+  const { user } = await getUser();
+  if (!user) {
+    redirect("/login");
+  }
+  const workspace = await getCurrentWorkspace(user.id);
+
+  const [workspaces, { members, invitations }, pendingInvitations] =
+    await Promise.all([
+      fetchWorkspaces(user.id),
+      fetchWorkspaceMembers(workspace.id),
+      fetchPendingWorkspaceInvitations(user.id),
+    ]);
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-[1024px] px-2 mt-8">
+      <WorkspaceManager
+        userId={user.id}
+        workspace={workspace}
+        workspaces={workspaces}
+        members={members}
+        invitations={invitations}
+        pendingInvitations={pendingInvitations}
+      />
+    </div>
+  );
+}
@@ -29,6 +29,18 @@ export default function HeaderBarClientComponent({
       {
         name: "Create Post",
         href: "/create-post",
+      },
+      {
+        name: "Post History",
+        href: "/posts",
+      },
+      {
+        name: "Analytics",
+        href: "/analytics",
+      },
+      {
+        name: "Workspace",
+        href: "/workspaces",
       }
     );
   } else {
@@ -19,6 +19,9 @@ export default function TextArea({
 }) {
   const [textLength, setTextLength] = useState(0);
 
+  // Controlled values can change from outside, e.g. a shared caption.
+  const length = value !== undefined ? value.length : textLength;
+
   const handleTextChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
     setTextLength(event.target.value.length);
     setValue?.(event.target.value);
@@ -46,10 +49,10 @@ export default function TextArea({
       {characterLimit && (
         <p
           className={`mt-2 text-sm text-right ${
-            textLength > characterLimit ? "text-red-600" : "text-gray-400"
+            length > characterLimit ? "text-red-600" : "text-gray-400"
           }`}
         >
-          {textLength}/{characterLimit}
+          {length}/{characterLimit}
         </p>
       )}
     </div>
@@ -1,6 +1,6 @@
 import { NextFetchEvent, type NextRequest } from "next/server";
 import { updateSession } from "@/utils/supabase/middleware";
-import { Logger } from "next-axiom";
+import { Logger } from "@/utils/logging";
 
 export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const logger = new Logger({ source: "middleware" });
@@ -0,0 +1,290 @@
+import {
+  createUpload,
+  generateMockId,
+  MockFailure,
+  MockRequest,
+  MockResponse,
+  MockState,
+  MockUpload,
+  takeFailure,
+  uploadStatus,
+} from "./state";
+
+const graphError = (
+  status: number,
+  error: {
+    message: string;
+    code: number;
+    error_subcode?: number;
+    is_transient?: boolean;
+  }
+): MockResponse => ({
+  status,
+  body: {
+    error: {
+      type: "OAuthException",
+      fbtrace_id: "mock-fbtrace-id",
+      ...error,
+    },
+  },
+});
+
+const invalidParameter = (message: string) =>
+  graphError(400, { message, code: 100 });
+
+const failureResponse = (failure: MockFailure): MockResponse => {
+  switch (failure) {
+    case "rate_limit":
+      return graphError(400, {
+        message: "Application request limit reached",
+        code: 4,
+        is_transient: true,
+      });
+    case "server_error":
+      return graphError(500, {
+        message:
+          "An unexpected error has occurred. Please retry your request later.",
+        code: 2,
+        is_transient: true,
+      });
+    case "invalid_request":
+    case "processing_error":
+      return invalidParameter("Invalid parameter");
+  }
+};
+
+const containerStatusCode = (state: MockState, upload: MockUpload) => {
+  const statuses =
+    upload.kind === "carousel"
+      ? upload.children.map((childId) =>
+          uploadStatus(state, state.uploads[childId])
+        )
+      : [uploadStatus(state, upload)];
+  if (statuses.includes("failed")) {
+    return "ERROR";
+  }
+  if (statuses.includes("processing")) {
+    return "IN_PROGRESS";
+  }
+  return upload.published ? "PUBLISHED" : "FINISHED";
+};
+
+const countPublishedPosts = (state: MockState) =>
+  Object.keys(state.uploads).filter((id) => {
+    const upload = state.uploads[id];
+    return upload.kind !== "tiktok" && upload.published;
+  }).length;
+
+const createContainer = (
+  state: MockState,
+  request: MockRequest
+): MockResponse => {
+  const failure = takeFailure(state, "graph.createContainer", request);
+  if (failure && failure !== "processing_error") {
+    return failureResponse(failure);
+  }
+  const { searchParams } = request;
+  if (searchParams.get("media_type") === "CAROUSEL") {
+    const children = (searchParams.get("children") ?? "").split(",");
+    if (children.some((childId) => !state.uploads[childId])) {
+      return invalidParameter("Invalid carousel children");
+    }
+    const carousel = createUpload(state, {
+      prefix: "ig-carousel",
+      kind: "carousel",
+      failed: failure === "processing_error",
+      children,
+    });
+    return { status: 200, body: { id: carousel.id } };
+  }
+  if (!searchParams.get("image_url") && !searchParams.get("video_url")) {
+    return invalidParameter("The parameter image_url or video_url is required");
+  }
+  const container = createUpload(state, {
+    prefix: "ig-container",
+    kind: "container",
+    failed: failure === "processing_error",
+  });
+  return { status: 200, body: { id: container.id } };
+};
+
+const publishContainer = (
+  state: MockState,
+  request: MockRequest
+): MockResponse => {
+  const failure = takeFailure(state, "graph.publish", request);
+  if (failure) {
+    return failureResponse(failure);
+  }
+  const upload = state.uploads[request.searchParams.get("creation_id") ?? ""];
+  if (!upload || upload.kind === "tiktok") {
+    return invalidParameter("Invalid creation_id");
+  }
+  switch (containerStatusCode(state, upload)) {
+    case "IN_PROGRESS":
+      return graphError(400, {
+        message: "Media ID is not available",
+        code: 9007,
+        error_subcode: 2207027,
+      });
+    case "ERROR":
+      return graphError(400, {
+        message: "The media could not be published",
+        code: 9004,
+        error_subcode: 2207052,
+      });
+    case "PUBLISHED":
+      return invalidParameter("The media has already been published");
+  }
+  upload.published = true;
+  return { status: 200, body: { id: generateMockId(state, "ig-media") } };
+};
+
+const fetchNode = (
+  state: MockState,
+  request: MockRequest,
+  nodeId: string
+): MockResponse => {
+  const upload = state.uploads[nodeId];
+  if (upload) {
+    const failure = takeFailure(state, "graph.containerStatus", request);
+    if (failure && failure !== "processing_error") {
+      return failureResponse(failure);
+    }
+    if (failure === "processing_error") {
+      upload.failed = true;
+    }
+    return {
+      status: 200,
+      body: { id: upload.id, status_code: containerStatusCode(state, upload) },
+    };
+  }
+  if (nodeId.startsWith("ig-media")) {
+    const failure = takeFailure(state, "graph.media", request);
+    if (failure) {
+      return failureResponse(failure);
+    }
+    return {
+      status: 200,
+      body: {
+        id: nodeId,
+        permalink: `https://www.instagram.com/p/${nodeId}/`,
+        media_type: "IMAGE",
+        like_count: 12,
+        comments_count: 3,
+      },
+    };
+  }
+  const failure = takeFailure(state, "graph.account", request);
+  if (failure) {
+    return failureResponse(failure);
+  }
+  return {
+    status: 200,
+    body: {
+      id: nodeId,
+      username: `mock_${nodeId}`,
+      profile_picture_url: "https://example.com/mock-profile-picture.jpg",
+      followers_count: 1500,
+      follows_count: 150,
+      media_count: 30,
+    },
+  };
+};
+
+export const handleGraphRequest = (
+  state: MockState,
+  request: MockRequest
+): MockResponse | null => {
+  // Every Graph API path starts with the API version, e.g. /v20.0/me
+  const segments = request.path
+    .replace(/^\/v\d+(\.\d+)?/, "")
+    .split("/")
+    .filter(Boolean);
+  const [nodeId, edge] = segments;
+
+  if (
+    request.method === "GET" &&
+    nodeId === "oauth" &&
+    edge === "access_token"
+  ) {
+    const failure = takeFailure(state, "graph.accessToken", request);
+    if (failure) {
+      return failureResponse(failure);
+    }
+    return {
+      status: 200,
+      body: {
+        access_token: "mock-long-lived-user-access-token",
+        token_type: "bearer",
+        expires_in: 5183944,
+      },
+    };
+  }
+  if (!nodeId || segments.length > 2) {
+    return null;
+  }
+  if (request.method === "GET" && !edge) {
+    return fetchNode(state, request, nodeId);
+  }
+  if (request.method === "GET" && edge === "insights") {
+    const failure = takeFailure(state, "graph.insights", request);
+    if (failure) {
+      return failureResponse(failure);
+    }
+    const metrics = (request.searchParams.get("metric") ?? "").split(",");
+    return {
+      status: 200,
+      body: {
+        data: metrics.filter(Boolean).map((name) => ({
+          name,
+          period: "lifetime",
+          values: [{ value: 40 }],
+          id: `${nodeId}/insights/${name}/lifetime`,
+        })),
+      },
+    };
+  }
+  if (request.method === "GET" && edge === "accounts") {
+    const failure = takeFailure(state, "graph.pageAccounts", request);
+    if (failure) {
+      return failureResponse(failure);
+    }
+    return {
+      status: 200,
+      body: {
+        data: [
+          {
+            id: "mock-facebook-page",
+            name: "Mock Page",
+            access_token: "mock-page-access-token",
+          },
+        ],
+      },
+    };
+  }
+  if (request.method === "GET" && edge === "content_publishing_limit") {
+    const failure = takeFailure(state, "graph.publishingLimit", request);
+    if (failure) {
+      return failureResponse(failure);
+    }
+    return {
+      status: 200,
+      body: {
+        data: [
+          {
+            config: { quota_total: 50, quota_duration: 86400 },
+            quota_usage: countPublishedPosts(state),
+          },
+        ],
+      },
+    };
+  }
+  if (request.method === "POST" && edge === "media") {
+    return createContainer(state, request);
+  }
+  if (request.method === "POST" && edge === "media_publish") {
+    return publishContainer(state, request);
+  }
+  return null;
+};
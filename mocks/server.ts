@@ -0,0 +1,183 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { handleGraphRequest } from "./graphApi";
+import {
+  createMockState,
+  MockFailure,
+  MockRequest,
+  MockResponse,
+  MockRoute,
+  MockState,
+} from "./state";
+import { handleTikTokRequest } from "./tiktokApi";
+import { handleGoogleRequest } from "./youtubeApi";
+
+export type { MockFailure, MockRoute } from "./state";
+
+export type MockPlatformServer = {
+  url: string;
+  // The env vars that point the app at this server instead of the real APIs.
+  env: {
+    FACEBOOK_GRAPH_API_BASE_URL: string;
+    TIKTOK_API_BASE_URL: string;
+    YOUTUBE_API_BASE_URL: string;
+    GOOGLE_OAUTH_TOKEN_URL: string;
+  };
+  state: MockState;
+  // Makes the next `times` requests to the route fail.
+  failNext: (route: MockRoute, failure: MockFailure, times?: number) => void;
+  reset: () => void;
+  close: () => Promise<void>;
+};
+
+const platformHandlers: {
+  prefix: string;
+  handle: (state: MockState, request: MockRequest) => MockResponse | null;
+}[] = [
+  { prefix: "/graph", handle: handleGraphRequest },
+  { prefix: "/tiktok", handle: handleTikTokRequest },
+  { prefix: "/google", handle: handleGoogleRequest },
+];
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const sendJSON = (
+  res: ServerResponse,
+  { status, body, headers }: MockResponse
+) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=UTF-8",
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+};
+
+// Lets tests running in another process, e.g. against `next dev`, control the
+// server the same way failNext and reset do.
+const handleControlRequest = (
+  server: Pick<MockPlatformServer, "failNext" | "reset" | "state">,
+  request: MockRequest
+): MockResponse | null => {
+  if (request.method === "POST" && request.path === "/failures") {
+    const { route, failure, times } = JSON.parse(request.body || "{}") as {
+      route: MockRoute;
+      failure: MockFailure;
+      times?: number;
+    };
+    server.failNext(route, failure, times);
+    return { status: 200, body: { failures: server.state.failures } };
+  }
+  if (request.method === "POST" && request.path === "/reset") {
+    server.reset();
+    return { status: 200, body: {} };
+  }
+  if (request.method === "GET" && request.path === "/requests") {
+    return {
+      status: 200,
+      body: {
+        requests: server.state.requests.map((recorded) => ({
+          ...recorded,
+          searchParams: Object.fromEntries(recorded.searchParams),
+        })),
+      },
+    };
+  }
+  return null;
+};
+
+export const startMockPlatformServer = async ({
+  port = 0,
+  processingDelayMs = 0,
+}: {
+  port?: number;
+  // How long uploaded media stays processing, e.g. IN_PROGRESS on Instagram.
+  processingDelayMs?: number;
+} = {}): Promise<MockPlatformServer> => {
+  let state = createMockState({ processingDelayMs });
+  const controls = {
+    get state() {
+      return state;
+    },
+    failNext: (route: MockRoute, failure: MockFailure, times = 1) => {
+      state.failures[route] = { failure, times };
+    },
+    reset: () => {
+      state = createMockState({ processingDelayMs });
+    },
+  };
+
+  const server = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const request: MockRequest = {
+        method: req.method ?? "GET",
+        path: url.pathname,
+        searchParams: url.searchParams,
+        headers: req.headers,
+        body: await readBody(req),
+      };
+      if (url.pathname.startsWith("/__mock/")) {
+        const response = handleControlRequest(controls, {
+          ...request,
+          path: url.pathname.slice("/__mock".length),
+        });
+        return sendJSON(res, response ?? { status: 404, body: {} });
+      }
+      const platform = platformHandlers.find(({ prefix }) =>
+        url.pathname.startsWith(`${prefix}/`)
+      );
+      const response = platform?.handle(state, {
+        ...request,
+        path: url.pathname.slice(platform.prefix.length),
+      });
+      sendJSON(
+        res,
+        response ?? {
+          status: 404,
+          body: {
+            error: { message: `No mock for ${req.method} ${url.pathname}` },
+          },
+        }
+      );
+    } catch (error) {
+      sendJSON(res, {
+        status: 500,
+        body: {
+          error: {
+            message: error instanceof Error ? error.message : String(error),
+          },
+        },
+      });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  const url = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    env: {
+      FACEBOOK_GRAPH_API_BASE_URL: `${url}/graph`,
+      TIKTOK_API_BASE_URL: `${url}/tiktok`,
+      YOUTUBE_API_BASE_URL: `${url}/google/`,
+      GOOGLE_OAUTH_TOKEN_URL: `${url}/google/token`,
+    },
+    get state() {
+      return state;
+    },
+    failNext: controls.failNext,
+    reset: controls.reset,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // fetch keeps connections alive, which would otherwise hold close open.
+        server.closeAllConnections();
+      }),
+  };
+};
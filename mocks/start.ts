@@ -0,0 +1,22 @@
+import { startMockPlatformServer } from "./server";
+
+const main = async () => {
+  const server = await startMockPlatformServer({
+    port: Number(process.env.MOCK_PLATFORM_SERVER_PORT ?? 4100),
+    processingDelayMs: Number(process.env.MOCK_PROCESSING_DELAY_MS ?? 5000),
+  });
+  console.log(`Mock platform server listening on ${server.url}`);
+  console.log("Point the app at it by adding these to .env.local:");
+  Object.entries(server.env).forEach(([key, value]) =>
+    console.log(`${key}=${value}`)
+  );
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+};
+
+main();
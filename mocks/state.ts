@@ -0,0 +1,169 @@
+export type MockRoute =
+  | "graph.accessToken"
+  | "graph.pageAccounts"
+  | "graph.account"
+  | "graph.publishingLimit"
+  | "graph.createContainer"
+  | "graph.containerStatus"
+  | "graph.publish"
+  | "graph.media"
+  | "graph.insights"
+  | "tiktok.token"
+  | "tiktok.creatorInfo"
+  | "tiktok.userInfo"
+  | "tiktok.init"
+  | "tiktok.status"
+  | "tiktok.upload"
+  | "tiktok.videoQuery"
+  | "youtube.channels"
+  | "youtube.insert"
+  | "youtube.upload"
+  | "youtube.thumbnails"
+  | "youtube.videos"
+  | "google.token";
+
+// rate_limit and server_error are the failures the queue should retry,
+// invalid_request is one it shouldn't and processing_error fails the media
+// after it's been accepted, e.g. a container ending up in ERROR.
+export type MockFailure =
+  | "rate_limit"
+  | "server_error"
+  | "invalid_request"
+  | "processing_error";
+
+export type MockRequest = {
+  method: string;
+  // The path with the platform prefix removed, e.g. /v2/post/publish/video/init/
+  path: string;
+  searchParams: URLSearchParams;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+};
+
+export type MockResponse = {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+};
+
+export type RecordedRequest = MockRequest & {
+  route: MockRoute;
+  receivedAt: number;
+};
+
+// Media the platforms are "processing", keyed by the id handed back to us.
+export type MockUpload = {
+  id: string;
+  kind: "container" | "carousel" | "tiktok";
+  createdAt: number;
+  failed: boolean;
+  published: boolean;
+  children: string[];
+  // Set for TikTok FILE_UPLOAD posts, which wait for every chunk.
+  fileUpload?: { size: number; receivedBytes: number };
+  // Set for TikTok posts sent to the creator's inbox instead of published.
+  inbox?: boolean;
+};
+
+// A resumable YouTube upload, keyed by its upload_id.
+export type MockYoutubeUploadSession = {
+  id: string;
+  size: number;
+  receivedBytes: number;
+  metadata: Record<string, any>;
+  videoId: string | null;
+};
+
+export type MockState = {
+  processingDelayMs: number;
+  failures: { [route in MockRoute]?: { failure: MockFailure; times: number } };
+  uploads: Record<string, MockUpload>;
+  youtubeUploadSessions: Record<string, MockYoutubeUploadSession>;
+  requests: RecordedRequest[];
+  nextId: number;
+};
+
+export const createMockState = ({
+  processingDelayMs,
+}: {
+  processingDelayMs: number;
+}): MockState => ({
+  processingDelayMs,
+  failures: {},
+  uploads: {},
+  youtubeUploadSessions: {},
+  requests: [],
+  nextId: 1,
+});
+
+export const generateMockId = (state: MockState, prefix: string) =>
+  `${prefix}-${state.nextId++}`;
+
+// Records the request and returns the failure queued for the route, if any.
+export const takeFailure = (
+  state: MockState,
+  route: MockRoute,
+  request: MockRequest
+): MockFailure | null => {
+  state.requests.push({ ...request, route, receivedAt: Date.now() });
+  const queued = state.failures[route];
+  if (!queued) {
+    return null;
+  }
+  queued.times--;
+  if (queued.times <= 0) {
+    delete state.failures[route];
+  }
+  return queued.failure;
+};
+
+export const createUpload = (
+  state: MockState,
+  {
+    prefix,
+    kind,
+    failed,
+    children = [],
+  }: {
+    prefix: string;
+    kind: MockUpload["kind"];
+    failed: boolean;
+    children?: string[];
+  }
+) => {
+  const upload: MockUpload = {
+    id: generateMockId(state, prefix),
+    kind,
+    createdAt: Date.now(),
+    failed,
+    published: false,
+    children,
+  };
+  state.uploads[upload.id] = upload;
+  return upload;
+};
+
+export const uploadStatus = (state: MockState, upload: MockUpload) => {
+  if (upload.failed) {
+    return "failed";
+  }
+  return Date.now() - upload.createdAt < state.processingDelayMs
+    ? "processing"
+    : "finished";
+};
+
+export const bearerToken = (request: MockRequest) => {
+  const authorization = request.headers["authorization"];
+  if (typeof authorization !== "string") {
+    return null;
+  }
+  return authorization.replace(/^Bearer /, "");
+};
+
+export const parseJSONBody = (request: MockRequest) => {
+  try {
+    return JSON.parse(request.body || "{}") as Record<string, any>;
+  } catch {
+    return {};
+  }
+};
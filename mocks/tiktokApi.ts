@@ -0,0 +1,317 @@
+import {
+  bearerToken,
+  createUpload,
+  generateMockId,
+  MockFailure,
+  MockRequest,
+  MockResponse,
+  MockRoute,
+  MockState,
+  parseJSONBody,
+  takeFailure,
+  uploadStatus,
+} from "./state";
+
+const tiktokResponse = (
+  status: number,
+  data: unknown,
+  code = "ok",
+  message = ""
+): MockResponse => ({
+  status,
+  body: { data, error: { code, message, log_id: "mock-log-id" } },
+});
+
+const failureResponse = (failure: MockFailure): MockResponse => {
+  switch (failure) {
+    case "rate_limit":
+      return tiktokResponse(429, {}, "rate_limit_exceeded", "Rate limited");
+    case "server_error":
+      return tiktokResponse(500, {}, "internal_error", "Internal error");
+    case "invalid_request":
+    case "processing_error":
+      return tiktokResponse(
+        403,
+        {},
+        "spam_risk_too_many_posts",
+        "The daily post cap has been reached"
+      );
+  }
+};
+
+// Returns an error response when the request isn't authorized or should fail.
+const checkRequest = (
+  state: MockState,
+  route: MockRoute,
+  request: MockRequest
+): { failure: MockFailure | null; response: MockResponse | null } => {
+  const failure = takeFailure(state, route, request);
+  if (!bearerToken(request)) {
+    return {
+      failure,
+      response: tiktokResponse(
+        401,
+        {},
+        "access_token_invalid",
+        "The access token is invalid or not found in the request."
+      ),
+    };
+  }
+  if (failure && failure !== "processing_error") {
+    return { failure, response: failureResponse(failure) };
+  }
+  return { failure, response: null };
+};
+
+const fetchToken = (state: MockState, request: MockRequest): MockResponse => {
+  const failure = takeFailure(state, "tiktok.token", request);
+  if (failure === "rate_limit") {
+    return {
+      status: 429,
+      body: {
+        error: "rate_limit_exceeded",
+        error_description: "Too many requests",
+      },
+    };
+  }
+  if (failure === "server_error") {
+    return {
+      status: 500,
+      body: { error: "server_error", error_description: "Internal error" },
+    };
+  }
+  const form = new URLSearchParams(request.body);
+  const grantType = form.get("grant_type");
+  const grant =
+    grantType === "authorization_code"
+      ? form.get("code")
+      : form.get("refresh_token");
+  if (
+    failure ||
+    !grant ||
+    (grantType !== "authorization_code" && grantType !== "refresh_token")
+  ) {
+    return {
+      status: 400,
+      body: {
+        error: "invalid_grant",
+        error_description: "Authorization code or refresh token is invalid.",
+      },
+    };
+  }
+  return {
+    status: 200,
+    body: {
+      access_token: generateMockId(state, "mock-tiktok-access-token"),
+      refresh_token: generateMockId(state, "mock-tiktok-refresh-token"),
+      open_id: "mock-tiktok-open-id",
+      expires_in: 86400,
+      refresh_expires_in: 31536000,
+      scope: "user.info.basic,video.publish",
+      token_type: "Bearer",
+    },
+  };
+};
+
+const initPost = (
+  state: MockState,
+  request: MockRequest,
+  mediaType: "video" | "photo"
+): MockResponse => {
+  const { failure, response } = checkRequest(state, "tiktok.init", request);
+  if (response) {
+    return response;
+  }
+  const { source_info, post_mode } = parseJSONBody(request);
+  const isFileUpload =
+    mediaType === "video" && source_info?.source === "FILE_UPLOAD";
+  const hasMedia = isFileUpload
+    ? source_info.video_size > 0 &&
+      source_info.chunk_size > 0 &&
+      source_info.total_chunk_count ===
+        Math.max(Math.floor(source_info.video_size / source_info.chunk_size), 1)
+    : mediaType === "video"
+    ? Boolean(source_info?.video_url)
+    : Array.isArray(source_info?.photo_images) &&
+      source_info.photo_images.length > 0;
+  if (!hasMedia) {
+    return tiktokResponse(
+      400,
+      {},
+      "invalid_params",
+      "No media was provided in source_info"
+    );
+  }
+  const upload = createUpload(state, {
+    prefix: `v_pub_url~v2-${mediaType}`,
+    kind: "tiktok",
+    failed: failure === "processing_error",
+  });
+  upload.inbox =
+    request.path === "/v2/post/publish/inbox/video/init/" ||
+    post_mode === "MEDIA_UPLOAD";
+  if (!isFileUpload) {
+    return tiktokResponse(200, { publish_id: upload.id });
+  }
+  upload.fileUpload = { size: source_info.video_size, receivedBytes: 0 };
+  return tiktokResponse(200, {
+    publish_id: upload.id,
+    upload_url: `http://${request.headers.host}/tiktok/upload/?upload_id=${upload.id}`,
+  });
+};
+
+// Answers 206 for each chunk until the last one, then starts processing.
+const uploadVideoChunk = (
+  state: MockState,
+  request: MockRequest
+): MockResponse => {
+  const failure = takeFailure(state, "tiktok.upload", request);
+  const upload = state.uploads[request.searchParams.get("upload_id") ?? ""];
+  if (!upload?.fileUpload) {
+    return { status: 404, body: {} };
+  }
+  if (failure) {
+    return failureResponse(failure);
+  }
+  const range = String(request.headers["content-range"] ?? "").match(
+    /^bytes (\d+)-(\d+)\/(\d+)$/
+  );
+  if (
+    !range ||
+    Number(range[1]) > upload.fileUpload.receivedBytes ||
+    Number(range[3]) !== upload.fileUpload.size
+  ) {
+    return { status: 416, body: {} };
+  }
+  upload.fileUpload.receivedBytes = Number(range[2]) + 1;
+  if (upload.fileUpload.receivedBytes < upload.fileUpload.size) {
+    return { status: 206, body: {} };
+  }
+  // Processing starts once TikTok has the whole video.
+  upload.createdAt = Date.now();
+  return { status: 201, body: {} };
+};
+
+const fetchPublishStatus = (
+  state: MockState,
+  request: MockRequest
+): MockResponse => {
+  const { failure, response } = checkRequest(state, "tiktok.status", request);
+  if (response) {
+    return response;
+  }
+  const upload = state.uploads[parseJSONBody(request).publish_id];
+  if (!upload || upload.kind !== "tiktok") {
+    return tiktokResponse(
+      400,
+      {},
+      "invalid_publish_id",
+      "The publish_id does not exist"
+    );
+  }
+  if (failure === "processing_error") {
+    upload.failed = true;
+  }
+  if (
+    upload.fileUpload &&
+    upload.fileUpload.receivedBytes < upload.fileUpload.size
+  ) {
+    return tiktokResponse(200, { status: "PROCESSING_UPLOAD" });
+  }
+  switch (uploadStatus(state, upload)) {
+    case "failed":
+      return tiktokResponse(200, {
+        status: "FAILED",
+        fail_reason: "video_pull_failed",
+      });
+    case "processing":
+      return tiktokResponse(200, { status: "PROCESSING_DOWNLOAD" });
+    case "finished":
+      upload.published = true;
+      if (upload.inbox) {
+        return tiktokResponse(200, { status: "SEND_TO_USER_INBOX" });
+      }
+      return tiktokResponse(200, {
+        status: "PUBLISH_COMPLETE",
+        publicaly_available_post_id: [Number(upload.id.split("-").pop())],
+      });
+  }
+};
+
+export const handleTikTokRequest = (
+  state: MockState,
+  request: MockRequest
+): MockResponse | null => {
+  if (request.method === "PUT" && request.path === "/upload/") {
+    return uploadVideoChunk(state, request);
+  }
+  if (request.method === "GET" && request.path === "/v2/user/info/") {
+    const { response } = checkRequest(state, "tiktok.userInfo", request);
+    return (
+      response ??
+      tiktokResponse(200, {
+        user: {
+          open_id: "mock-tiktok-open-id",
+          follower_count: 2400,
+          following_count: 80,
+          likes_count: 52000,
+          video_count: 45,
+        },
+      })
+    );
+  }
+  if (request.method !== "POST") {
+    return null;
+  }
+  switch (request.path) {
+    case "/v2/oauth/token/":
+      return fetchToken(state, request);
+    case "/v2/post/publish/creator_info/query/": {
+      const { response } = checkRequest(state, "tiktok.creatorInfo", request);
+      return (
+        response ??
+        tiktokResponse(200, {
+          creator_avatar_url: "https://example.com/mock-avatar.jpg",
+          creator_username: "mock_creator",
+          creator_nickname: "Mock Creator",
+          privacy_level_options: [
+            "PUBLIC_TO_EVERYONE",
+            "MUTUAL_FOLLOW_FRIENDS",
+            "SELF_ONLY",
+          ],
+          comment_disabled: false,
+          duet_disabled: false,
+          stitch_disabled: false,
+          max_video_post_duration_sec: 600,
+        })
+      );
+    }
+    case "/v2/post/publish/video/init/":
+    case "/v2/post/publish/inbox/video/init/":
+      return initPost(state, request, "video");
+    case "/v2/post/publish/content/init/":
+      return initPost(state, request, "photo");
+    case "/v2/post/publish/status/fetch/":
+      return fetchPublishStatus(state, request);
+    case "/v2/video/query/": {
+      const { response } = checkRequest(state, "tiktok.videoQuery", request);
+      const videoIds: string[] =
+        parseJSONBody(request).filters?.video_ids ?? [];
+      return (
+        response ??
+        tiktokResponse(200, {
+          videos: videoIds.map((id) => ({
+            id,
+            view_count: 250,
+            like_count: 20,
+            comment_count: 4,
+            share_count: 2,
+          })),
+          cursor: 0,
+          has_more: false,
+        })
+      );
+    }
+  }
+  return null;
+};
@@ -0,0 +1,301 @@
+import {
+  bearerToken,
+  generateMockId,
+  MockFailure,
+  MockRequest,
+  MockResponse,
+  MockState,
+  parseJSONBody,
+  takeFailure,
+} from "./state";
+
+const youtubeError = (
+  status: number,
+  reason: string,
+  message: string
+): MockResponse => ({
+  status,
+  body: {
+    error: {
+      code: status,
+      message,
+      errors: [{ message, domain: "youtube.video", reason }],
+    },
+  },
+});
+
+const failureResponse = (failure: MockFailure): MockResponse => {
+  switch (failure) {
+    case "rate_limit":
+      return youtubeError(
+        429,
+        "rateLimitExceeded",
+        "The request cannot be completed because you have exceeded your quota."
+      );
+    case "server_error":
+      return youtubeError(503, "backendError", "Backend Error");
+    case "invalid_request":
+    case "processing_error":
+      return youtubeError(400, "invalidTitle", "The video title is invalid.");
+  }
+};
+
+const unauthorized = () =>
+  youtubeError(
+    401,
+    "authError",
+    "Request had invalid authentication credentials."
+  );
+
+type MockVideoMetadata = {
+  snippet?: { title?: string; description?: string; tags?: string[] };
+  status?: { privacyStatus?: string; selfDeclaredMadeForKids?: boolean };
+};
+
+// The upload session url points back at this server, like YouTube's does.
+const startResumableUpload = (
+  state: MockState,
+  request: MockRequest
+): MockResponse => {
+  const failure = takeFailure(state, "youtube.insert", request);
+  if (!bearerToken(request)) {
+    return unauthorized();
+  }
+  if (failure) {
+    return failureResponse(failure);
+  }
+  const size = Number(request.headers["x-upload-content-length"]);
+  if (request.searchParams.get("uploadType") !== "resumable" || !size) {
+    return youtubeError(
+      400,
+      "badRequest",
+      "Only resumable uploads with X-Upload-Content-Length are mocked."
+    );
+  }
+  const metadata = parseJSONBody(request) as MockVideoMetadata;
+  if (!metadata.snippet?.title) {
+    return youtubeError(400, "invalidTitle", "The video title is missing.");
+  }
+  const session = {
+    id: generateMockId(state, "mock-youtube-upload"),
+    size,
+    receivedBytes: 0,
+    metadata,
+    videoId: null,
+  };
+  state.youtubeUploadSessions[session.id] = session;
+  return {
+    status: 200,
+    headers: {
+      Location: `http://${request.headers.host}/google/upload/youtube/v3/videos?uploadType=resumable&upload_id=${session.id}`,
+    },
+    body: {},
+  };
+};
+
+// Takes a chunk, or just reports progress for a `bytes */size` range, and
+// answers 308 until the whole video has arrived.
+const uploadVideoChunk = (
+  state: MockState,
+  request: MockRequest
+): MockResponse => {
+  const failure = takeFailure(state, "youtube.upload", request);
+  const session =
+    state.youtubeUploadSessions[request.searchParams.get("upload_id") ?? ""];
+  if (!session) {
+    return youtubeError(404, "notFound", "The upload session was not found.");
+  }
+  if (failure) {
+    return failureResponse(failure);
+  }
+  const range = String(request.headers["content-range"] ?? "").match(
+    /^bytes (?:\*|(\d+)-(\d+))\/(\d+)$/
+  );
+  if (!range || Number(range[3]) !== session.size) {
+    return youtubeError(400, "badRequest", "The Content-Range is invalid.");
+  }
+  if (range[1] !== undefined) {
+    if (Number(range[1]) > session.receivedBytes) {
+      return youtubeError(
+        400,
+        "badRequest",
+        "The chunk starts after the bytes received so far."
+      );
+    }
+    session.receivedBytes = Math.max(
+      session.receivedBytes,
+      Number(range[2]) + 1
+    );
+  }
+  if (session.receivedBytes < session.size) {
+    return {
+      status: 308,
+      headers: session.receivedBytes
+        ? { Range: `bytes=0-${session.receivedBytes - 1}` }
+        : {},
+      body: {},
+    };
+  }
+  session.videoId ??= generateMockId(state, "mock-youtube-video");
+  return {
+    status: 200,
+    body: {
+      kind: "youtube#video",
+      id: session.videoId,
+      snippet: session.metadata.snippet,
+      status: { uploadStatus: "uploaded", ...session.metadata.status },
+    },
+  };
+};
+
+const fetchToken = (state: MockState, request: MockRequest): MockResponse => {
+  const failure = takeFailure(state, "google.token", request);
+  if (failure === "rate_limit" || failure === "server_error") {
+    return {
+      status: failure === "rate_limit" ? 429 : 500,
+      body: { error: "temporarily_unavailable" },
+    };
+  }
+  const form = new URLSearchParams(request.body);
+  const grantType = form.get("grant_type");
+  if (
+    failure ||
+    (grantType === "refresh_token" && !form.get("refresh_token")) ||
+    (grantType === "authorization_code" && !form.get("code"))
+  ) {
+    return {
+      status: 400,
+      body: {
+        error: "invalid_grant",
+        error_description: "Token has been expired or revoked.",
+      },
+    };
+  }
+  return {
+    status: 200,
+    body: {
+      access_token: generateMockId(state, "mock-google-access-token"),
+      expires_in: 3599,
+      scope:
+        "https://www.googleapis.com/auth/youtube.readonly https://www.googleapis.com/auth/youtube.upload",
+      token_type: "Bearer",
+      // Google only issues a refresh token when the user first consents.
+      ...(grantType === "authorization_code" && {
+        refresh_token: generateMockId(state, "mock-google-refresh-token"),
+      }),
+    },
+  };
+};
+
+export const handleGoogleRequest = (
+  state: MockState,
+  request: MockRequest
+): MockResponse | null => {
+  if (request.method === "POST" && request.path === "/token") {
+    return fetchToken(state, request);
+  }
+  if (request.method === "GET" && request.path === "/youtube/v3/channels") {
+    const failure = takeFailure(state, "youtube.channels", request);
+    if (!bearerToken(request)) {
+      return unauthorized();
+    }
+    if (failure) {
+      return failureResponse(failure);
+    }
+    return {
+      status: 200,
+      body: {
+        kind: "youtube#channelListResponse",
+        items: [
+          {
+            kind: "youtube#channel",
+            id: "mock-youtube-channel",
+            snippet: {
+              title: "Mock Channel",
+              customUrl: "@mockchannel",
+              thumbnails: {
+                default: { url: "https://example.com/mock-thumbnail.jpg" },
+              },
+            },
+            contentDetails: {},
+            statistics: {
+              subscriberCount: "320",
+              hiddenSubscriberCount: false,
+              videoCount: "12",
+            },
+          },
+        ],
+      },
+    };
+  }
+  if (request.method === "GET" && request.path === "/youtube/v3/videos") {
+    const failure = takeFailure(state, "youtube.videos", request);
+    if (!bearerToken(request)) {
+      return unauthorized();
+    }
+    if (failure) {
+      return failureResponse(failure);
+    }
+    const videoIds = (request.searchParams.get("id") ?? "").split(",");
+    return {
+      status: 200,
+      body: {
+        kind: "youtube#videoListResponse",
+        items: videoIds.filter(Boolean).map((id) => ({
+          kind: "youtube#video",
+          id,
+          statistics: {
+            viewCount: "100",
+            likeCount: "10",
+            favoriteCount: "0",
+            commentCount: "2",
+          },
+        })),
+      },
+    };
+  }
+  if (
+    request.method === "POST" &&
+    request.path === "/upload/youtube/v3/videos"
+  ) {
+    return startResumableUpload(state, request);
+  }
+  if (
+    request.method === "PUT" &&
+    request.path === "/upload/youtube/v3/videos"
+  ) {
+    return uploadVideoChunk(state, request);
+  }
+  if (
+    request.method === "POST" &&
+    request.path === "/upload/youtube/v3/thumbnails/set"
+  ) {
+    const failure = takeFailure(state, "youtube.thumbnails", request);
+    if (!bearerToken(request)) {
+      return unauthorized();
+    }
+    if (failure) {
+      return failureResponse(failure);
+    }
+    const videoId = request.searchParams.get("videoId");
+    if (!videoId) {
+      return youtubeError(400, "invalidVideoId", "The video id is missing.");
+    }
+    return {
+      status: 200,
+      body: {
+        kind: "youtube#thumbnailSetResponse",
+        items: [
+          {
+            default: {
+              url: `https://i.ytimg.com/vi/${videoId}/default.jpg`,
+              width: 120,
+              height: 90,
+            },
+          },
+        ],
+      },
+    };
+  }
+  return null;
+};
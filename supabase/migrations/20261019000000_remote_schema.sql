@@ -0,0 +1,199 @@
+-- The schema that existed before migrations were tracked in this repo, so a
+-- local database can be built from scratch. Projects that already have these
+-- tables should mark it as applied with
+-- `supabase migration repair --status applied 20261019000000`.
+
+create table "public"."social-media-posts" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "user_id" uuid not null,
+  constraint "social-media-posts_pkey" primary key ("id"),
+  constraint "social-media-posts_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."social-media-post-media-files" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "media_file_path" text not null,
+  "parent_social_media_post_id" uuid not null,
+  "user_id" uuid not null,
+  constraint "social-media-post-media-files_pkey" primary key ("id"),
+  constraint "social-media-post-media-files_parent-social-media-post-id_fkey"
+    foreign key ("parent_social_media_post_id")
+    references "public"."social-media-posts" ("id") on delete cascade,
+  constraint "social-media-post-media-files_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."instagram-accounts" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "updated_at" timestamp with time zone not null default now(),
+  "access_token" text not null,
+  "facebook_page_id" text not null,
+  "instagram_business_account_id" text not null,
+  "user_id" uuid not null,
+  constraint "instagram-accounts_pkey" primary key ("id"),
+  constraint "instagram-accounts_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."instagram-posts" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "caption" text,
+  "instagram_account_id" uuid not null,
+  "instagram_media_id" text not null,
+  "parent_social_media_post_id" uuid not null,
+  "user_id" uuid not null,
+  constraint "instagram-posts_pkey" primary key ("id"),
+  constraint "instagram-posts_instagram_account_id_fkey"
+    foreign key ("instagram_account_id")
+    references "public"."instagram-accounts" ("id") on delete cascade,
+  constraint "instagram-posts_parent-social-media-post-id_fkey"
+    foreign key ("parent_social_media_post_id")
+    references "public"."social-media-posts" ("id") on delete cascade,
+  constraint "instagram-posts_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."tiktok-accounts" (
+  "id" text not null,
+  "created_at" timestamp with time zone not null default now(),
+  "updated_at" timestamp with time zone not null default now(),
+  "access_token" text not null,
+  "refresh_token" text not null,
+  "user_id" uuid,
+  constraint "tiktok-accounts_pkey" primary key ("id"),
+  constraint "tiktok-accounts_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."tiktok-posts" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "caption" text,
+  "disable_comment" boolean not null,
+  "disable_duet" boolean not null,
+  "disable_stitch" boolean not null,
+  "parent_social_media_post_id" uuid not null,
+  "privacy_level" text not null,
+  "publicaly_available_post_id" text,
+  "publish_id" text not null,
+  "tiktok_account_id" text not null,
+  "user_id" uuid not null,
+  "video_cover_timestamp_ms" integer not null,
+  constraint "tiktok-posts_pkey" primary key ("id"),
+  constraint "tiktok-posts_parent_social_media_post_id_fkey"
+    foreign key ("parent_social_media_post_id")
+    references "public"."social-media-posts" ("id") on delete cascade,
+  constraint "tiktok-posts_tiktok_account_id_fkey"
+    foreign key ("tiktok_account_id")
+    references "public"."tiktok-accounts" ("id") on delete cascade,
+  constraint "tiktok-posts_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."youtube-channels" (
+  "id" text not null,
+  "created_at" timestamp with time zone not null default now(),
+  "updated_at" timestamp with time zone not null default now(),
+  "channel_custom_url" text not null,
+  "credentials" jsonb not null,
+  "user_id" uuid not null,
+  constraint "youtube-channels_pkey" primary key ("id"),
+  constraint "youtube-channels_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."youtube-posts" (
+  "id" text not null,
+  "created_at" timestamp with time zone not null default now(),
+  "parent_social_media_post_id" uuid not null,
+  "title" text not null,
+  "user_id" uuid not null default auth.uid(),
+  "youtube_channel_id" text not null,
+  constraint "youtube-posts_pkey" primary key ("id"),
+  constraint "youtube-posts_parent_social_media_post_id_fkey"
+    foreign key ("parent_social_media_post_id")
+    references "public"."social-media-posts" ("id") on delete cascade,
+  constraint "youtube-posts_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade,
+  constraint "youtube-posts_youtube_channel_id_fkey"
+    foreign key ("youtube_channel_id")
+    references "public"."youtube-channels" ("id") on delete cascade
+);
+
+create table "public"."pro-users" (
+  "user_id" uuid not null,
+  "created_at" timestamp with time zone not null default now(),
+  "stripe_customer_id" text not null,
+  constraint "pro-users_pkey" primary key ("user_id"),
+  constraint "premium-users_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+alter table "public"."social-media-posts" enable row level security;
+alter table "public"."social-media-post-media-files" enable row level security;
+alter table "public"."instagram-accounts" enable row level security;
+alter table "public"."instagram-posts" enable row level security;
+alter table "public"."tiktok-accounts" enable row level security;
+alter table "public"."tiktok-posts" enable row level security;
+alter table "public"."youtube-channels" enable row level security;
+alter table "public"."youtube-posts" enable row level security;
+alter table "public"."pro-users" enable row level security;
+
+create policy "Users can manage their own posts"
+  on "public"."social-media-posts"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+create policy "Users can manage their own post media files"
+  on "public"."social-media-post-media-files"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+create policy "Users can manage their own Instagram accounts"
+  on "public"."instagram-accounts"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+create policy "Users can manage their own Instagram posts"
+  on "public"."instagram-posts"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+create policy "Users can manage their own TikTok accounts"
+  on "public"."tiktok-accounts"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+create policy "Users can manage their own TikTok posts"
+  on "public"."tiktok-posts"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+create policy "Users can manage their own YouTube channels"
+  on "public"."youtube-channels"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+create policy "Users can manage their own YouTube posts"
+  on "public"."youtube-posts"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+-- Written by the Stripe webhook with the service role.
+create policy "Users can read their own subscription"
+  on "public"."pro-users"
+  for select
+  using (auth.uid() = "user_id");
@@ -0,0 +1,32 @@
+alter table "public"."social-media-posts"
+  add column "scheduled_at" timestamp with time zone,
+  add column "status" text not null default 'published';
+
+create index "social-media-posts_status_scheduled_at_idx"
+  on "public"."social-media-posts" ("status", "scheduled_at");
+
+create table "public"."social-media-post-destinations" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "parent_social_media_post_id" uuid not null,
+  "user_id" uuid not null,
+  "platform" text not null,
+  "account_id" text not null,
+  "settings" jsonb not null default '{}'::jsonb,
+  constraint "social-media-post-destinations_pkey" primary key ("id"),
+  constraint "social-media-post-destinations_parent_social_media_post_id_fkey"
+    foreign key ("parent_social_media_post_id")
+    references "public"."social-media-posts" ("id") on delete cascade,
+  constraint "social-media-post-destinations_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade,
+  constraint "social-media-post-destinations_platform_check"
+    check ("platform" in ('instagram', 'tiktok', 'youtube'))
+);
+
+alter table "public"."social-media-post-destinations" enable row level security;
+
+create policy "Users can manage their own post destinations"
+  on "public"."social-media-post-destinations"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
@@ -0,0 +1,11 @@
+alter table "public"."social-media-post-destinations"
+  add column "status" text not null default 'pending',
+  add column "platform_reference_id" text,
+  add column "error_message" text,
+  add column "locked_until" timestamp with time zone,
+  add column "updated_at" timestamp with time zone not null default now(),
+  add constraint "social-media-post-destinations_status_check"
+    check ("status" in ('pending', 'processing', 'published', 'failed'));
+
+create index "social-media-post-destinations_status_idx"
+  on "public"."social-media-post-destinations" ("status");
@@ -0,0 +1,13 @@
+alter table "public"."social-media-post-destinations"
+  add column "platform_post_url" text,
+  drop constraint "social-media-post-destinations_status_check",
+  add constraint "social-media-post-destinations_status_check"
+    check (
+      "status" in ('uploading', 'pending', 'processing', 'published', 'failed')
+    );
+
+create index "social-media-post-destinations_parent_social_media_post_id_idx"
+  on "public"."social-media-post-destinations" ("parent_social_media_post_id");
+
+create index "social-media-posts_user_id_created_at_idx"
+  on "public"."social-media-posts" ("user_id", "created_at" desc);
@@ -0,0 +1,3 @@
+alter table "public"."social-media-post-destinations"
+  add column "attempts" integer not null default 0,
+  add column "next_attempt_at" timestamp with time zone;
@@ -0,0 +1,37 @@
+create table "public"."account-queue-slots" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "user_id" uuid not null,
+  "platform" text not null,
+  "account_id" text not null,
+  "day_of_week" smallint not null,
+  "time_of_day" time without time zone not null,
+  "timezone" text not null,
+  constraint "account-queue-slots_pkey" primary key ("id"),
+  constraint "account-queue-slots_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade,
+  constraint "account-queue-slots_platform_check"
+    check ("platform" in ('instagram', 'tiktok', 'youtube')),
+  constraint "account-queue-slots_day_of_week_check"
+    check ("day_of_week" between 0 and 6),
+  constraint "account-queue-slots_unique_slot"
+    unique ("platform", "account_id", "day_of_week", "time_of_day")
+);
+
+alter table "public"."account-queue-slots" enable row level security;
+
+create policy "Users can manage their own queue slots"
+  on "public"."account-queue-slots"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
+
+-- Queued destinations each go out at their account's slot, so a single post
+-- can publish to different accounts at different times.
+alter table "public"."social-media-post-destinations"
+  add column "scheduled_at" timestamp with time zone,
+  add column "queued" boolean not null default false;
+
+create index "social-media-post-destinations_queued_account_idx"
+  on "public"."social-media-post-destinations" ("platform", "account_id", "scheduled_at")
+  where "queued";
@@ -0,0 +1,8 @@
+-- Drafts keep the create-post form's settings on the post itself until it's
+-- published, at which point destinations take over.
+alter table "public"."social-media-posts"
+  add column "draft_settings" jsonb,
+  add column "updated_at" timestamp with time zone not null default now();
+
+create index "social-media-posts_user_id_status_idx"
+  on "public"."social-media-posts" ("user_id", "status");
@@ -0,0 +1,8 @@
+alter table "public"."youtube-posts"
+  add column "description" text,
+  add column "tags" text[] not null default '{}',
+  add column "category_id" text,
+  add column "privacy_status" text,
+  add column "self_declared_made_for_kids" boolean,
+  add column "default_language" text,
+  add column "thumbnail_path" text;
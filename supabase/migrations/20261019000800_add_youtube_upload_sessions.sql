@@ -0,0 +1,30 @@
+-- YouTube videos are sent through a resumable upload session over several
+-- queue steps, so the session and the bytes YouTube has acknowledged outlive
+-- the function that started it.
+create table "public"."youtube-upload-sessions" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "updated_at" timestamp with time zone not null default now(),
+  "user_id" uuid not null,
+  "destination_id" uuid not null,
+  "session_url" text not null,
+  "video_path" text not null,
+  "video_size" bigint not null,
+  "uploaded_bytes" bigint not null default 0,
+  "video_id" text,
+  constraint "youtube-upload-sessions_pkey" primary key ("id"),
+  constraint "youtube-upload-sessions_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade,
+  constraint "youtube-upload-sessions_destination_id_fkey"
+    foreign key ("destination_id")
+    references "public"."social-media-post-destinations" ("id") on delete cascade,
+  constraint "youtube-upload-sessions_destination_id_key" unique ("destination_id")
+);
+
+alter table "public"."youtube-upload-sessions" enable row level security;
+
+create policy "Users can manage their own YouTube upload sessions"
+  on "public"."youtube-upload-sessions"
+  for all
+  using (auth.uid() = "user_id")
+  with check (auth.uid() = "user_id");
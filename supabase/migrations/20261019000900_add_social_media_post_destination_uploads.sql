@@ -0,0 +1,7 @@
+-- Platforms that take the video from us in chunks, rather than pulling it from
+-- a signed URL, record where the upload is up to. The next queue step carries
+-- on from there and the create-post page shows the progress.
+alter table "public"."social-media-post-destinations"
+  add column "upload_url" text,
+  add column "upload_size" bigint,
+  add column "uploaded_bytes" bigint not null default 0;
@@ -0,0 +1,6 @@
+-- Videos sent to the creator's TikTok inbox aren't public until they finish
+-- them in the app, so they're kept apart from direct posts.
+alter table "public"."tiktok-posts"
+  add column "post_mode" text not null default 'DIRECT_POST',
+  add constraint "tiktok-posts_post_mode_check"
+    check ("post_mode" in ('DIRECT_POST', 'MEDIA_UPLOAD'));
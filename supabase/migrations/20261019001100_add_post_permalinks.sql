@@ -0,0 +1,4 @@
+-- Links to the live posts, so post history can point at them.
+alter table "public"."instagram-posts" add column "permalink" text;
+
+alter table "public"."tiktok-posts" add column "permalink" text;
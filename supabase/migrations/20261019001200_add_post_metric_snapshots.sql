@@ -0,0 +1,48 @@
+-- Metrics are collected on a schedule and kept as a time series, so a post's
+-- performance can be followed over the days after it's published. Networks
+-- leave out the metrics they don't report.
+create table "public"."post-metric-snapshots" (
+  "id" uuid not null default gen_random_uuid(),
+  "captured_at" timestamp with time zone not null default now(),
+  "user_id" uuid not null,
+  "parent_social_media_post_id" uuid not null,
+  "platform" text not null,
+  "account_id" text not null,
+  "platform_post_id" text not null,
+  "views" bigint,
+  "reach" bigint,
+  "likes" bigint,
+  "comments" bigint,
+  "shares" bigint,
+  "saves" bigint,
+  constraint "post-metric-snapshots_pkey" primary key ("id"),
+  constraint "post-metric-snapshots_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade,
+  constraint "post-metric-snapshots_parent_social_media_post_id_fkey"
+    foreign key ("parent_social_media_post_id")
+    references "public"."social-media-posts" ("id") on delete cascade,
+  constraint "post-metric-snapshots_platform_check"
+    check ("platform" in ('instagram', 'tiktok', 'youtube'))
+);
+
+alter table "public"."post-metric-snapshots" enable row level security;
+
+-- Snapshots are written by the metrics job with the service role.
+create policy "Users can read their own post metrics"
+  on "public"."post-metric-snapshots"
+  for select
+  using (auth.uid() = "user_id");
+
+create index "post-metric-snapshots_post_idx"
+  on "public"."post-metric-snapshots" ("parent_social_media_post_id", "captured_at");
+
+create index "post-metric-snapshots_account_idx"
+  on "public"."post-metric-snapshots" ("user_id", "platform", "account_id", "captured_at");
+
+-- Each snapshot holds a post's lifetime totals, so the latest one is all the
+-- overview needs.
+create view "public"."latest-post-metric-snapshots"
+  with (security_invoker = true) as
+  select distinct on ("platform", "platform_post_id") *
+  from "public"."post-metric-snapshots"
+  order by "platform", "platform_post_id", "captured_at" desc;
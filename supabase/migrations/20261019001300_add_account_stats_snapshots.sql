@@ -0,0 +1,32 @@
+-- One row per account per day, so follower growth can be charted over time.
+-- Collecting again on the same day replaces that day's numbers.
+create table "public"."account-stats-snapshots" (
+  "id" uuid not null default gen_random_uuid(),
+  "captured_on" date not null default current_date,
+  "captured_at" timestamp with time zone not null default now(),
+  "user_id" uuid not null,
+  "platform" text not null,
+  "account_id" text not null,
+  "followers" bigint,
+  "following" bigint,
+  "likes" bigint,
+  "posts" bigint,
+  constraint "account-stats-snapshots_pkey" primary key ("id"),
+  constraint "account-stats-snapshots_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade,
+  constraint "account-stats-snapshots_platform_check"
+    check ("platform" in ('instagram', 'tiktok', 'youtube')),
+  constraint "account-stats-snapshots_account_day_key"
+    unique ("platform", "account_id", "captured_on")
+);
+
+alter table "public"."account-stats-snapshots" enable row level security;
+
+-- Snapshots are written by the daily stats job with the service role.
+create policy "Users can read their own account stats"
+  on "public"."account-stats-snapshots"
+  for select
+  using (auth.uid() = "user_id");
+
+create index "account-stats-snapshots_user_idx"
+  on "public"."account-stats-snapshots" ("user_id", "captured_on");
@@ -0,0 +1,356 @@
+-- Workspaces own connected accounts and posts, so a team can share them
+-- without sharing a login. Every user gets a personal workspace when they
+-- sign up, and existing rows move into their owner's personal workspace.
+create table "public"."workspaces" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "name" text not null,
+  "created_by" uuid not null,
+  constraint "workspaces_pkey" primary key ("id"),
+  constraint "workspaces_created_by_fkey"
+    foreign key ("created_by") references "auth"."users" ("id") on delete cascade
+);
+
+-- The email is copied from the member's account so teammates can see who is
+-- in the workspace without reading auth.users.
+create table "public"."workspace-members" (
+  "workspace_id" uuid not null,
+  "user_id" uuid not null,
+  "created_at" timestamp with time zone not null default now(),
+  "email" text not null,
+  constraint "workspace-members_pkey" primary key ("workspace_id", "user_id"),
+  constraint "workspace-members_workspace_id_fkey"
+    foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade,
+  constraint "workspace-members_user_id_fkey"
+    foreign key ("user_id") references "auth"."users" ("id") on delete cascade
+);
+
+create table "public"."workspace-invitations" (
+  "id" uuid not null default gen_random_uuid(),
+  "created_at" timestamp with time zone not null default now(),
+  "workspace_id" uuid not null,
+  "email" text not null,
+  "invited_by" uuid not null,
+  constraint "workspace-invitations_pkey" primary key ("id"),
+  constraint "workspace-invitations_workspace_id_fkey"
+    foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade,
+  constraint "workspace-invitations_invited_by_fkey"
+    foreign key ("invited_by") references "auth"."users" ("id") on delete cascade,
+  constraint "workspace-invitations_workspace_email_key"
+    unique ("workspace_id", "email")
+);
+
+create index "workspace-members_user_idx"
+  on "public"."workspace-members" ("user_id");
+
+create index "workspace-invitations_email_idx"
+  on "public"."workspace-invitations" ("email");
+
+-- Security definer so the policies below can check membership without
+-- recursing into the members table's own policies.
+create function "public"."is_workspace_member"("workspace" uuid)
+  returns boolean
+  language sql
+  stable
+  security definer
+  set search_path = public
+as $$
+  select exists (
+    select 1 from "public"."workspace-members"
+    where "workspace_id" = "workspace" and "user_id" = auth.uid()
+  );
+$$;
+
+create function "public"."can_access_social_media_post"("post" uuid)
+  returns boolean
+  language sql
+  stable
+  security definer
+  set search_path = public
+as $$
+  select exists (
+    select 1 from "public"."social-media-posts"
+    where "id" = "post" and "public"."is_workspace_member"("workspace_id")
+  );
+$$;
+
+create function "public"."create_personal_workspace"()
+  returns trigger
+  language plpgsql
+  security definer
+  set search_path = public
+as $$
+declare
+  "workspace" uuid;
+begin
+  insert into "public"."workspaces" ("name", "created_by")
+  values ('Personal', new."id")
+  returning "id" into "workspace";
+  insert into "public"."workspace-members" ("workspace_id", "user_id", "email")
+  values ("workspace", new."id", coalesce(new."email", ''));
+  return new;
+end;
+$$;
+
+create trigger "on_auth_user_created_create_personal_workspace"
+  after insert on "auth"."users"
+  for each row execute function "public"."create_personal_workspace"();
+
+-- Users who signed up before workspaces existed.
+with "created" as (
+  insert into "public"."workspaces" ("name", "created_by")
+  select 'Personal', "id" from "auth"."users"
+  returning "id", "created_by"
+)
+insert into "public"."workspace-members" ("workspace_id", "user_id", "email")
+select "created"."id", "users"."id", coalesce("users"."email", '')
+from "created"
+join "auth"."users" "users" on "users"."id" = "created"."created_by";
+
+alter table "public"."social-media-posts" add column "workspace_id" uuid;
+alter table "public"."instagram-accounts" add column "workspace_id" uuid;
+alter table "public"."tiktok-accounts" add column "workspace_id" uuid;
+alter table "public"."youtube-channels" add column "workspace_id" uuid;
+alter table "public"."account-queue-slots" add column "workspace_id" uuid;
+alter table "public"."post-metric-snapshots" add column "workspace_id" uuid;
+alter table "public"."account-stats-snapshots" add column "workspace_id" uuid;
+
+update "public"."social-media-posts" "rows" set "workspace_id" = "workspaces"."id"
+  from "public"."workspaces" "workspaces" where "workspaces"."created_by" = "rows"."user_id";
+update "public"."instagram-accounts" "rows" set "workspace_id" = "workspaces"."id"
+  from "public"."workspaces" "workspaces" where "workspaces"."created_by" = "rows"."user_id";
+update "public"."tiktok-accounts" "rows" set "workspace_id" = "workspaces"."id"
+  from "public"."workspaces" "workspaces" where "workspaces"."created_by" = "rows"."user_id";
+update "public"."youtube-channels" "rows" set "workspace_id" = "workspaces"."id"
+  from "public"."workspaces" "workspaces" where "workspaces"."created_by" = "rows"."user_id";
+update "public"."account-queue-slots" "rows" set "workspace_id" = "workspaces"."id"
+  from "public"."workspaces" "workspaces" where "workspaces"."created_by" = "rows"."user_id";
+update "public"."post-metric-snapshots" "rows" set "workspace_id" = "workspaces"."id"
+  from "public"."workspaces" "workspaces" where "workspaces"."created_by" = "rows"."user_id";
+update "public"."account-stats-snapshots" "rows" set "workspace_id" = "workspaces"."id"
+  from "public"."workspaces" "workspaces" where "workspaces"."created_by" = "rows"."user_id";
+
+-- TikTok accounts, like their user_id, can be left without a workspace.
+alter table "public"."social-media-posts" alter column "workspace_id" set not null;
+alter table "public"."instagram-accounts" alter column "workspace_id" set not null;
+alter table "public"."youtube-channels" alter column "workspace_id" set not null;
+alter table "public"."account-queue-slots" alter column "workspace_id" set not null;
+alter table "public"."post-metric-snapshots" alter column "workspace_id" set not null;
+alter table "public"."account-stats-snapshots" alter column "workspace_id" set not null;
+
+alter table "public"."social-media-posts"
+  add constraint "social-media-posts_workspace_id_fkey"
+  foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade;
+alter table "public"."instagram-accounts"
+  add constraint "instagram-accounts_workspace_id_fkey"
+  foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade;
+alter table "public"."tiktok-accounts"
+  add constraint "tiktok-accounts_workspace_id_fkey"
+  foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade;
+alter table "public"."youtube-channels"
+  add constraint "youtube-channels_workspace_id_fkey"
+  foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade;
+alter table "public"."account-queue-slots"
+  add constraint "account-queue-slots_workspace_id_fkey"
+  foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade;
+alter table "public"."post-metric-snapshots"
+  add constraint "post-metric-snapshots_workspace_id_fkey"
+  foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade;
+alter table "public"."account-stats-snapshots"
+  add constraint "account-stats-snapshots_workspace_id_fkey"
+  foreign key ("workspace_id") references "public"."workspaces" ("id") on delete cascade;
+
+create index "social-media-posts_workspace_idx"
+  on "public"."social-media-posts" ("workspace_id", "created_at");
+
+-- The view's columns were fixed when it was created, so it's rebuilt to pick
+-- up workspace_id.
+create or replace view "public"."latest-post-metric-snapshots"
+  with (security_invoker = true) as
+  select distinct on ("platform", "platform_post_id") *
+  from "public"."post-metric-snapshots"
+  order by "platform", "platform_post_id", "captured_at" desc;
+
+alter table "public"."workspaces" enable row level security;
+alter table "public"."workspace-members" enable row level security;
+alter table "public"."workspace-invitations" enable row level security;
+
+-- The creator can read a workspace before their own membership is added, and
+-- invitees can see the name of the workspace they're being asked to join.
+create policy "Members can read their workspaces"
+  on "public"."workspaces"
+  for select
+  using (
+    "public"."is_workspace_member"("id")
+    or auth.uid() = "created_by"
+    or exists (
+      select 1 from "public"."workspace-invitations"
+      where "workspace_id" = "workspaces"."id"
+        and lower("email") = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+create policy "Users can create workspaces"
+  on "public"."workspaces"
+  for insert
+  with check (auth.uid() = "created_by");
+
+create policy "Members can rename their workspaces"
+  on "public"."workspaces"
+  for update
+  using ("public"."is_workspace_member"("id"));
+
+create policy "Members can read their teammates"
+  on "public"."workspace-members"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+-- Users join a workspace they created or were invited to.
+create policy "Users can join workspaces they were invited to"
+  on "public"."workspace-members"
+  for insert
+  with check (
+    auth.uid() = "user_id"
+    and (
+      exists (
+        select 1 from "public"."workspaces"
+        where "id" = "workspace_id" and "created_by" = auth.uid()
+      )
+      or exists (
+        select 1 from "public"."workspace-invitations"
+        where "workspace_id" = "workspace-members"."workspace_id"
+          and lower("email") = lower(auth.jwt() ->> 'email')
+      )
+    )
+  );
+
+create policy "Members can remove teammates"
+  on "public"."workspace-members"
+  for delete
+  using ("public"."is_workspace_member"("workspace_id"));
+
+create policy "Members and invitees can read invitations"
+  on "public"."workspace-invitations"
+  for select
+  using (
+    "public"."is_workspace_member"("workspace_id")
+    or lower("email") = lower(auth.jwt() ->> 'email')
+  );
+
+create policy "Members can invite teammates"
+  on "public"."workspace-invitations"
+  for insert
+  with check (
+    "public"."is_workspace_member"("workspace_id") and auth.uid() = "invited_by"
+  );
+
+create policy "Members and invitees can remove invitations"
+  on "public"."workspace-invitations"
+  for delete
+  using (
+    "public"."is_workspace_member"("workspace_id")
+    or lower("email") = lower(auth.jwt() ->> 'email')
+  );
+
+drop policy "Users can manage their own posts" on "public"."social-media-posts";
+create policy "Members can manage their workspace's posts"
+  on "public"."social-media-posts"
+  for all
+  using ("public"."is_workspace_member"("workspace_id"))
+  with check ("public"."is_workspace_member"("workspace_id"));
+
+drop policy "Users can manage their own Instagram accounts" on "public"."instagram-accounts";
+create policy "Members can manage their workspace's Instagram accounts"
+  on "public"."instagram-accounts"
+  for all
+  using ("public"."is_workspace_member"("workspace_id"))
+  with check ("public"."is_workspace_member"("workspace_id"));
+
+drop policy "Users can manage their own TikTok accounts" on "public"."tiktok-accounts";
+create policy "Members can manage their workspace's TikTok accounts"
+  on "public"."tiktok-accounts"
+  for all
+  using ("public"."is_workspace_member"("workspace_id"))
+  with check ("public"."is_workspace_member"("workspace_id"));
+
+drop policy "Users can manage their own YouTube channels" on "public"."youtube-channels";
+create policy "Members can manage their workspace's YouTube channels"
+  on "public"."youtube-channels"
+  for all
+  using ("public"."is_workspace_member"("workspace_id"))
+  with check ("public"."is_workspace_member"("workspace_id"));
+
+drop policy "Users can manage their own queue slots" on "public"."account-queue-slots";
+create policy "Members can manage their workspace's queue slots"
+  on "public"."account-queue-slots"
+  for all
+  using ("public"."is_workspace_member"("workspace_id"))
+  with check ("public"."is_workspace_member"("workspace_id"));
+
+drop policy "Users can read their own post metrics" on "public"."post-metric-snapshots";
+create policy "Members can read their workspace's post metrics"
+  on "public"."post-metric-snapshots"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+drop policy "Users can read their own account stats" on "public"."account-stats-snapshots";
+create policy "Members can read their workspace's account stats"
+  on "public"."account-stats-snapshots"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+-- Rows that belong to a post follow the post's workspace, so any teammate can
+-- retry, reschedule or remove it.
+drop policy "Users can manage their own post media files" on "public"."social-media-post-media-files";
+create policy "Members can manage their workspace's post media files"
+  on "public"."social-media-post-media-files"
+  for all
+  using ("public"."can_access_social_media_post"("parent_social_media_post_id"))
+  with check ("public"."can_access_social_media_post"("parent_social_media_post_id"));
+
+drop policy "Users can manage their own post destinations" on "public"."social-media-post-destinations";
+create policy "Members can manage their workspace's post destinations"
+  on "public"."social-media-post-destinations"
+  for all
+  using ("public"."can_access_social_media_post"("parent_social_media_post_id"))
+  with check ("public"."can_access_social_media_post"("parent_social_media_post_id"));
+
+drop policy "Users can manage their own Instagram posts" on "public"."instagram-posts";
+create policy "Members can manage their workspace's Instagram posts"
+  on "public"."instagram-posts"
+  for all
+  using ("public"."can_access_social_media_post"("parent_social_media_post_id"))
+  with check ("public"."can_access_social_media_post"("parent_social_media_post_id"));
+
+drop policy "Users can manage their own TikTok posts" on "public"."tiktok-posts";
+create policy "Members can manage their workspace's TikTok posts"
+  on "public"."tiktok-posts"
+  for all
+  using ("public"."can_access_social_media_post"("parent_social_media_post_id"))
+  with check ("public"."can_access_social_media_post"("parent_social_media_post_id"));
+
+drop policy "Users can manage their own YouTube posts" on "public"."youtube-posts";
+create policy "Members can manage their workspace's YouTube posts"
+  on "public"."youtube-posts"
+  for all
+  using ("public"."can_access_social_media_post"("parent_social_media_post_id"))
+  with check ("public"."can_access_social_media_post"("parent_social_media_post_id"));
+
+drop policy "Users can manage their own YouTube upload sessions" on "public"."youtube-upload-sessions";
+create policy "Members can manage their workspace's YouTube upload sessions"
+  on "public"."youtube-upload-sessions"
+  for all
+  using (
+    exists (
+      select 1 from "public"."social-media-post-destinations"
+      where "id" = "destination_id"
+        and "public"."can_access_social_media_post"("parent_social_media_post_id")
+    )
+  )
+  with check (
+    exists (
+      select 1 from "public"."social-media-post-destinations"
+      where "id" = "destination_id"
+        and "public"."can_access_social_media_post"("parent_social_media_post_id")
+    )
+  );
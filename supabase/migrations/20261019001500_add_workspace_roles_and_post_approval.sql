@@ -0,0 +1,170 @@
+-- Members get a role so a team can let juniors draft posts without letting
+-- them publish. Owners manage the team, editors publish and review,
+-- contributors submit posts for approval and viewers only look.
+alter table "public"."workspace-members"
+  add column "role" text not null default 'editor',
+  add constraint "workspace-members_role_check"
+    check ("role" in ('owner', 'editor', 'contributor', 'viewer'));
+
+alter table "public"."workspace-invitations"
+  add column "role" text not null default 'editor',
+  add constraint "workspace-invitations_role_check"
+    check ("role" in ('owner', 'editor', 'contributor', 'viewer'));
+
+update "public"."workspace-members" "members" set "role" = 'owner'
+  from "public"."workspaces" "workspaces"
+  where "workspaces"."id" = "members"."workspace_id"
+    and "workspaces"."created_by" = "members"."user_id";
+
+create or replace function "public"."create_personal_workspace"()
+  returns trigger
+  language plpgsql
+  security definer
+  set search_path = public
+as $$
+declare
+  "workspace" uuid;
+begin
+  insert into "public"."workspaces" ("name", "created_by")
+  values ('Personal', new."id")
+  returning "id" into "workspace";
+  insert into "public"."workspace-members" ("workspace_id", "user_id", "email", "role")
+  values ("workspace", new."id", coalesce(new."email", ''), 'owner');
+  return new;
+end;
+$$;
+
+create function "public"."has_workspace_role"("workspace" uuid, "roles" text[])
+  returns boolean
+  language sql
+  stable
+  security definer
+  set search_path = public
+as $$
+  select exists (
+    select 1 from "public"."workspace-members"
+    where "workspace_id" = "workspace"
+      and "user_id" = auth.uid()
+      and "role" = any ("roles")
+  );
+$$;
+
+-- Creators join as the owner and invitees with the role they were invited
+-- with, so nobody can promote themselves on the way in.
+drop policy "Users can join workspaces they were invited to" on "public"."workspace-members";
+create policy "Users can join workspaces they were invited to"
+  on "public"."workspace-members"
+  for insert
+  with check (
+    auth.uid() = "user_id"
+    and (
+      exists (
+        select 1 from "public"."workspaces"
+        where "id" = "workspace_id"
+          and "created_by" = auth.uid()
+          and "workspace-members"."role" = 'owner'
+      )
+      or exists (
+        select 1 from "public"."workspace-invitations"
+        where "workspace_id" = "workspace-members"."workspace_id"
+          and lower("email") = lower(auth.jwt() ->> 'email')
+          and "role" = "workspace-members"."role"
+      )
+    )
+  );
+
+create policy "Owners can change their teammates' roles"
+  on "public"."workspace-members"
+  for update
+  using ("public"."has_workspace_role"("workspace_id", array['owner']))
+  with check ("public"."has_workspace_role"("workspace_id", array['owner']));
+
+drop policy "Members can remove teammates" on "public"."workspace-members";
+create policy "Owners can remove teammates and members can leave"
+  on "public"."workspace-members"
+  for delete
+  using (
+    "public"."has_workspace_role"("workspace_id", array['owner'])
+    or auth.uid() = "user_id"
+  );
+
+drop policy "Members can invite teammates" on "public"."workspace-invitations";
+create policy "Owners can invite teammates"
+  on "public"."workspace-invitations"
+  for insert
+  with check (
+    "public"."has_workspace_role"("workspace_id", array['owner'])
+    and auth.uid() = "invited_by"
+  );
+
+drop policy "Members can manage their workspace's posts" on "public"."social-media-posts";
+create policy "Members can read their workspace's posts"
+  on "public"."social-media-posts"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+create policy "Contributors can create their workspace's posts"
+  on "public"."social-media-posts"
+  for insert
+  with check (
+    "public"."has_workspace_role"("workspace_id", array['owner', 'editor', 'contributor'])
+  );
+
+create policy "Contributors can edit their workspace's posts"
+  on "public"."social-media-posts"
+  for update
+  using (
+    "public"."has_workspace_role"("workspace_id", array['owner', 'editor', 'contributor'])
+  )
+  with check (
+    "public"."has_workspace_role"("workspace_id", array['owner', 'editor', 'contributor'])
+  );
+
+create policy "Contributors can delete their workspace's posts"
+  on "public"."social-media-posts"
+  for delete
+  using (
+    "public"."has_workspace_role"("workspace_id", array['owner', 'editor', 'contributor'])
+  );
+
+-- A contributor's post waits in pending_approval until an editor approves it,
+-- which schedules or publishes it, or rejects it with a comment.
+alter table "public"."social-media-posts"
+  add column "review_comment" text,
+  add column "reviewed_by" uuid,
+  add column "reviewed_at" timestamp with time zone,
+  add constraint "social-media-posts_reviewed_by_fkey"
+    foreign key ("reviewed_by") references "auth"."users" ("id") on delete set null;
+
+alter table "public"."social-media-post-destinations"
+  drop constraint "social-media-post-destinations_status_check",
+  add constraint "social-media-post-destinations_status_check"
+    check (
+      "status" in ('uploading', 'pending', 'processing', 'published', 'failed', 'rejected')
+    );
+
+-- Row level security can't tell which status a row is moving to, so a
+-- trigger keeps contributors from skipping approval. The queue worker runs
+-- without a user and isn't restricted.
+create function "public"."check_social_media_post_status"()
+  returns trigger
+  language plpgsql
+  security definer
+  set search_path = public
+as $$
+begin
+  if auth.uid() is null
+    or (tg_op = 'UPDATE' and new."status" is not distinct from old."status")
+    or new."status" in ('draft', 'uploading', 'pending_approval')
+    or "public"."has_workspace_role"(new."workspace_id", array['owner', 'editor'])
+  then
+    return new;
+  end if;
+  raise exception 'Only owners and editors can publish posts'
+    using errcode = '42501';
+end;
+$$;
+
+create trigger "check_social_media_post_status"
+  before insert or update on "public"."social-media-posts"
+  for each row execute function "public"."check_social_media_post_status"();
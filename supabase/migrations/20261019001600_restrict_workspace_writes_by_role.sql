@@ -0,0 +1,227 @@
+-- The workspace's own settings, its connected accounts and their queue slots
+-- can only be changed by owners and editors, the rest of the team can only
+-- read them.
+drop policy "Members can rename their workspaces" on "public"."workspaces";
+create policy "Owners can rename their workspaces"
+  on "public"."workspaces"
+  for update
+  using ("public"."has_workspace_role"("id", array['owner']))
+  with check ("public"."has_workspace_role"("id", array['owner']));
+
+drop policy "Members can manage their workspace's Instagram accounts" on "public"."instagram-accounts";
+create policy "Members can read their workspace's Instagram accounts"
+  on "public"."instagram-accounts"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+create policy "Editors can connect their workspace's Instagram accounts"
+  on "public"."instagram-accounts"
+  for insert
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can update their workspace's Instagram accounts"
+  on "public"."instagram-accounts"
+  for update
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']))
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can remove their workspace's Instagram accounts"
+  on "public"."instagram-accounts"
+  for delete
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+drop policy "Members can manage their workspace's TikTok accounts" on "public"."tiktok-accounts";
+create policy "Members can read their workspace's TikTok accounts"
+  on "public"."tiktok-accounts"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+create policy "Editors can connect their workspace's TikTok accounts"
+  on "public"."tiktok-accounts"
+  for insert
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can update their workspace's TikTok accounts"
+  on "public"."tiktok-accounts"
+  for update
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']))
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can remove their workspace's TikTok accounts"
+  on "public"."tiktok-accounts"
+  for delete
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+drop policy "Members can manage their workspace's YouTube channels" on "public"."youtube-channels";
+create policy "Members can read their workspace's YouTube channels"
+  on "public"."youtube-channels"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+create policy "Editors can connect their workspace's YouTube channels"
+  on "public"."youtube-channels"
+  for insert
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can update their workspace's YouTube channels"
+  on "public"."youtube-channels"
+  for update
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']))
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can remove their workspace's YouTube channels"
+  on "public"."youtube-channels"
+  for delete
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+drop policy "Members can manage their workspace's queue slots" on "public"."account-queue-slots";
+create policy "Members can read their workspace's queue slots"
+  on "public"."account-queue-slots"
+  for select
+  using ("public"."is_workspace_member"("workspace_id"));
+
+create policy "Editors can add their workspace's queue slots"
+  on "public"."account-queue-slots"
+  for insert
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can update their workspace's queue slots"
+  on "public"."account-queue-slots"
+  for update
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']))
+  with check ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+create policy "Editors can remove their workspace's queue slots"
+  on "public"."account-queue-slots"
+  for delete
+  using ("public"."has_workspace_role"("workspace_id", array['owner', 'editor']));
+
+-- Contributors can only touch a post while they're still writing it, or
+-- withdraw it while it waits for review. Once it's been submitted, changing
+-- its captions or schedule would skip the approval.
+create function "public"."can_edit_social_media_post"("post" uuid)
+  returns boolean
+  language sql
+  stable
+  security definer
+  set search_path = public
+as $$
+  select exists (
+    select 1 from "public"."social-media-posts"
+    where "id" = "post"
+      and (
+        "public"."has_workspace_role"("workspace_id", array['owner', 'editor'])
+        or (
+          "public"."has_workspace_role"("workspace_id", array['contributor'])
+          and "status" in ('draft', 'uploading')
+        )
+      )
+  );
+$$;
+
+drop policy "Contributors can edit their workspace's posts" on "public"."social-media-posts";
+create policy "Contributors can edit their workspace's posts"
+  on "public"."social-media-posts"
+  for update
+  using (
+    "public"."has_workspace_role"("workspace_id", array['owner', 'editor'])
+    or (
+      "public"."has_workspace_role"("workspace_id", array['contributor'])
+      and "status" in ('draft', 'uploading')
+    )
+  )
+  with check (
+    "public"."has_workspace_role"("workspace_id", array['owner', 'editor'])
+    or (
+      "public"."has_workspace_role"("workspace_id", array['contributor'])
+      and "status" in ('draft', 'uploading', 'pending_approval')
+    )
+  );
+
+drop policy "Contributors can delete their workspace's posts" on "public"."social-media-posts";
+create policy "Contributors can delete their workspace's posts"
+  on "public"."social-media-posts"
+  for delete
+  using (
+    "public"."has_workspace_role"("workspace_id", array['owner', 'editor'])
+    or (
+      "public"."has_workspace_role"("workspace_id", array['contributor'])
+      and "status" in ('draft', 'uploading', 'pending_approval', 'rejected')
+    )
+  );
+
+drop policy "Members can manage their workspace's post destinations" on "public"."social-media-post-destinations";
+create policy "Members can read their workspace's post destinations"
+  on "public"."social-media-post-destinations"
+  for select
+  using ("public"."can_access_social_media_post"("parent_social_media_post_id"));
+
+create policy "Contributors can add destinations to posts they can edit"
+  on "public"."social-media-post-destinations"
+  for insert
+  with check ("public"."can_edit_social_media_post"("parent_social_media_post_id"));
+
+create policy "Contributors can update destinations of posts they can edit"
+  on "public"."social-media-post-destinations"
+  for update
+  using ("public"."can_edit_social_media_post"("parent_social_media_post_id"))
+  with check ("public"."can_edit_social_media_post"("parent_social_media_post_id"));
+
+create policy "Contributors can remove destinations of posts they can edit"
+  on "public"."social-media-post-destinations"
+  for delete
+  using ("public"."can_edit_social_media_post"("parent_social_media_post_id"));
+
+drop policy "Members can manage their workspace's post media files" on "public"."social-media-post-media-files";
+create policy "Members can read their workspace's post media files"
+  on "public"."social-media-post-media-files"
+  for select
+  using ("public"."can_access_social_media_post"("parent_social_media_post_id"));
+
+create policy "Contributors can add media files to posts they can edit"
+  on "public"."social-media-post-media-files"
+  for insert
+  with check ("public"."can_edit_social_media_post"("parent_social_media_post_id"));
+
+create policy "Contributors can update media files of posts they can edit"
+  on "public"."social-media-post-media-files"
+  for update
+  using ("public"."can_edit_social_media_post"("parent_social_media_post_id"))
+  with check ("public"."can_edit_social_media_post"("parent_social_media_post_id"));
+
+create policy "Contributors can remove media files of posts they can edit"
+  on "public"."social-media-post-media-files"
+  for delete
+  using ("public"."can_edit_social_media_post"("parent_social_media_post_id"));
+
+-- Upload sessions are only written while publishing, which contributors
+-- can't do.
+drop policy "Members can manage their workspace's YouTube upload sessions" on "public"."youtube-upload-sessions";
+create policy "Members can read their workspace's YouTube upload sessions"
+  on "public"."youtube-upload-sessions"
+  for select
+  using (
+    exists (
+      select 1 from "public"."social-media-post-destinations"
+      where "id" = "destination_id"
+        and "public"."can_access_social_media_post"("parent_social_media_post_id")
+    )
+  );
+
+create policy "Members can manage upload sessions of posts they can edit"
+  on "public"."youtube-upload-sessions"
+  for all
+  using (
+    exists (
+      select 1 from "public"."social-media-post-destinations"
+      where "id" = "destination_id"
+        and "public"."can_edit_social_media_post"("parent_social_media_post_id")
+    )
+  )
+  with check (
+    exists (
+      select 1 from "public"."social-media-post-destinations"
+      where "id" = "destination_id"
+        and "public"."can_edit_social_media_post"("parent_social_media_post_id")
+    )
+  );
@@ -0,0 +1,30 @@
+-- Contributors can edit a destination while its post is still uploading, so
+-- without this they could mark it pending and have it published without
+-- approval. Like check_social_media_post_status, the queue worker runs without
+-- a user and isn't restricted.
+create function "public"."check_social_media_post_destination_status"()
+  returns trigger
+  language plpgsql
+  security definer
+  set search_path = public
+as $$
+begin
+  if auth.uid() is null
+    or (tg_op = 'UPDATE' and new."status" is not distinct from old."status")
+    or new."status" = 'uploading'
+    or exists (
+      select 1 from "public"."social-media-posts"
+      where "id" = new."parent_social_media_post_id"
+        and "public"."has_workspace_role"("workspace_id", array['owner', 'editor'])
+    )
+  then
+    return new;
+  end if;
+  raise exception 'Only owners and editors can publish posts'
+    using errcode = '42501';
+end;
+$$;
+
+create trigger "check_social_media_post_destination_status"
+  before insert or update on "public"."social-media-post-destinations"
+  for each row execute function "public"."check_social_media_post_destination_status"();
@@ -0,0 +1,10 @@
+-- Only owners can invite teammates, so only they can cancel an invitation.
+-- Invitees can still remove their own once they've accepted it.
+drop policy "Members and invitees can remove invitations" on "public"."workspace-invitations";
+create policy "Owners and invitees can remove invitations"
+  on "public"."workspace-invitations"
+  for delete
+  using (
+    "public"."has_workspace_role"("workspace_id", array['owner'])
+    or lower("email") = lower(auth.jwt() ->> 'email')
+  );
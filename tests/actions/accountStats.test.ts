@@ -0,0 +1,64 @@
+import {
+  collectAccountStats,
+  fetchAccountStatsHistory,
+} from "@/app/actions/accountStats";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  insertInstagramAccount,
+  insertYoutubeChannel,
+  signInAsNewUser,
+} from "../helpers/supabase";
+
+describe("account stats", () => {
+  let userId: string;
+  let workspaceId: string;
+
+  beforeEach(async () => {
+    ({ userId, workspaceId } = await signInAsNewUser());
+  });
+
+  it("records one day of stats per account", async () => {
+    const instagramAccount = await insertInstagramAccount(userId);
+    const youtubeChannel = await insertYoutubeChannel(userId);
+
+    await collectAccountStats();
+    await collectAccountStats();
+
+    const histories = await fetchAccountStatsHistory(workspaceId);
+    expect(histories).toHaveLength(2);
+    expect(histories).toEqual(
+      expect.arrayContaining([
+        {
+          platform: "instagram",
+          accountId: instagramAccount.id,
+          days: [
+            {
+              capturedOn: expect.any(String),
+              stats: {
+                followers: 1500,
+                following: 150,
+                likes: null,
+                posts: 30,
+              },
+            },
+          ],
+        },
+        {
+          platform: "youtube",
+          accountId: youtubeChannel.id,
+          days: [
+            {
+              capturedOn: expect.any(String),
+              stats: {
+                followers: 320,
+                following: null,
+                likes: null,
+                posts: 12,
+              },
+            },
+          ],
+        },
+      ])
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { saveInstagramAccount } from "@/app/actions/instagramAccounts";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
+import { isEncryptedToken } from "@/utils/tokenEncryption";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  failNextPlatformRequest,
+  fetchPlatformRequests,
+} from "../helpers/mockPlatforms";
+import { signInAsNewUser } from "../helpers/supabase";
+
+describe("saveInstagramAccount", () => {
+  let userId: string;
+  let workspaceId: string;
+  let supabase: Awaited<ReturnType<typeof signInAsNewUser>>["supabase"];
+  let formData: FormData;
+
+  beforeEach(async () => {
+    ({ userId, workspaceId, supabase } = await signInAsNewUser());
+    formData = new FormData();
+    formData.set("appScopedUserId", "app-scoped-user-id");
+    formData.set("accessToken", "short-lived-access-token");
+    formData.set("instagramBusinessAccountId", `ig-${userId}`);
+    formData.set("facebookPageId", "facebook-page-id");
+    formData.set("userId", userId);
+    formData.set("workspaceId", workspaceId);
+  });
+
+  const fetchSavedAccounts = async () => {
+    const { data } = await supabase
+      .from("instagram-accounts")
+      .select("access_token, facebook_page_id, instagram_business_account_id")
+      .eq("user_id", userId);
+    return data;
+  };
+
+  const fetchDecryptedAccounts = async () =>
+    (await fetchSavedAccounts())?.map((account) =>
+      decryptAccountTokens("instagram-accounts", account)
+    );
+
+  it("exchanges the access token for a long lived page token and saves the account", async () => {
+    const result = await saveInstagramAccount(null, formData);
+
+    expect(result).toEqual({
+      data: {
+        message: "Successfully added Instagram account",
+        instagramBusinessAccountId: `ig-${userId}`,
+      },
+      error: null,
+    });
+    expect(await fetchDecryptedAccounts()).toEqual([
+      {
+        access_token: "mock-page-access-token",
+        facebook_page_id: "facebook-page-id",
+        instagram_business_account_id: `ig-${userId}`,
+      },
+    ]);
+    const [savedAccount] = (await fetchSavedAccounts())!;
+    expect(isEncryptedToken(savedAccount.access_token)).toBe(true);
+    const [tokenExchange] = await fetchPlatformRequests("graph.accessToken");
+    expect(tokenExchange.searchParams).toMatchObject({
+      grant_type: "fb_exchange_token",
+      fb_exchange_token: "short-lived-access-token",
+    });
+  });
+
+  it("doesn't save an account twice", async () => {
+    await saveInstagramAccount(null, formData);
+
+    const result = await saveInstagramAccount(null, formData);
+
+    expect(result).toBeUndefined();
+    expect(await fetchSavedAccounts()).toHaveLength(1);
+  });
+
+  it("returns an error when the Graph API rejects the access token", async () => {
+    await failNextPlatformRequest("graph.accessToken", "invalid_request");
+
+    const result = await saveInstagramAccount(null, formData);
+
+    expect(result).toEqual({
+      error:
+        "Sorry, we ran into an error connecting your Instagram account. Please try again.",
+    });
+    expect(await fetchSavedAccounts()).toEqual([]);
+  });
+
+  it("returns an error when the page token can't be fetched", async () => {
+    await failNextPlatformRequest("graph.pageAccounts", "server_error");
+
+    const result = await saveInstagramAccount(null, formData);
+
+    expect(result).toEqual({
+      error:
+        "Sorry, we ran into an error connecting your Instagram account. Please try again.",
+    });
+    expect(await fetchSavedAccounts()).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  collectPostMetrics,
+  fetchAnalyticsOverview,
+  fetchPostMetricsHistory,
+} from "@/app/actions/postAnalytics";
+import { randomUUID } from "node:crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createAdminTestClient,
+  insertSocialMediaPost,
+  insertYoutubeChannel,
+  signInAsNewUser,
+} from "../helpers/supabase";
+
+const youtubeMetrics = {
+  views: 100,
+  reach: null,
+  likes: 10,
+  comments: 2,
+  shares: null,
+  saves: null,
+};
+
+describe("post analytics", () => {
+  let userId: string;
+  let workspaceId: string;
+  let youtubeChannelId: string;
+  let socialMediaPostId: string;
+  let videoId: string;
+
+  beforeEach(async () => {
+    ({ userId, workspaceId } = await signInAsNewUser());
+    youtubeChannelId = (await insertYoutubeChannel(userId)).id;
+    socialMediaPostId = await insertSocialMediaPost(userId);
+    videoId = `video-${randomUUID()}`;
+    const { error } = await createAdminTestClient()
+      .from("youtube-posts")
+      .insert({
+        id: videoId,
+        user_id: userId,
+        youtube_channel_id: youtubeChannelId,
+        parent_social_media_post_id: socialMediaPostId,
+        title: "A title",
+      });
+    if (error) {
+      throw error;
+    }
+  });
+
+  it("stores a snapshot of each published post's metrics", async () => {
+    await collectPostMetrics();
+
+    expect(await fetchAnalyticsOverview(workspaceId)).toEqual({
+      accounts: [
+        {
+          platform: "youtube",
+          accountId: youtubeChannelId,
+          numberOfPosts: 1,
+          totals: youtubeMetrics,
+        },
+      ],
+      posts: [
+        expect.objectContaining({
+          socialMediaPostId,
+          platform: "youtube",
+          platformPostId: videoId,
+          metrics: youtubeMetrics,
+        }),
+      ],
+    });
+  });
+
+  it("keeps every snapshot in the post's history", async () => {
+    await collectPostMetrics();
+    await collectPostMetrics();
+
+    const histories = await fetchPostMetricsHistory({
+      socialMediaPostId,
+      workspaceId,
+    });
+    expect(histories).toHaveLength(1);
+    expect(histories[0].snapshots).toEqual([
+      expect.objectContaining({ metrics: youtubeMetrics }),
+      expect.objectContaining({ metrics: youtubeMetrics }),
+    ]);
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  acceptWorkspaceInvitation,
+  fetchPendingWorkspaceInvitations,
+  inviteToWorkspace,
+} from "@/app/actions/workspaces";
+import {
+  advanceSocialMediaPostDestination,
+  approveSocialMediaPost,
+  enqueueSocialMediaPost,
+  rejectSocialMediaPost,
+  removeQueuedSocialMediaPost,
+  startSocialMediaPost,
+  submitSocialMediaPostForApproval,
+} from "@/app/actions/socialMediaPostQueue";
+import { createSocialMediaPost } from "@/app/actions/socialMediaPosts";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createAdminTestClient,
+  insertTikTokAccount,
+  signInAsNewUser,
+} from "../helpers/supabase";
+
+describe("post approval", () => {
+  let owner: Awaited<ReturnType<typeof signInAsNewUser>>;
+  let contributor: Awaited<ReturnType<typeof signInAsNewUser>>;
+  let socialMediaPostId: string;
+
+  beforeEach(async () => {
+    contributor = await signInAsNewUser();
+    owner = await signInAsNewUser();
+    const tiktokAccount = await insertTikTokAccount(owner.userId);
+    await inviteToWorkspace({
+      workspaceId: owner.workspaceId,
+      userId: owner.userId,
+      email: contributor.email,
+      role: "contributor",
+    });
+
+    await contributor.signIn();
+    const [invitation] = await fetchPendingWorkspaceInvitations(
+      contributor.userId
+    );
+    await acceptWorkspaceInvitation({
+      invitationId: invitation.id,
+      userId: contributor.userId,
+    });
+    socialMediaPostId = await createSocialMediaPost({
+      userId: contributor.userId,
+      workspaceId: owner.workspaceId,
+    });
+    await enqueueSocialMediaPost({
+      socialMediaPostId,
+      userId: contributor.userId,
+      workspaceId: owner.workspaceId,
+      destinations: [
+        {
+          platform: "tiktok",
+          accountId: tiktokAccount.id,
+          settings: {
+            caption: "A caption",
+            postType: "video",
+            privacyLevel: "SELF_ONLY",
+            disableDuet: false,
+            disableComment: false,
+            disableStitch: false,
+            autoAddMusic: false,
+            brandOrganicToggle: false,
+            brandContentToggle: false,
+          },
+        },
+      ],
+      scheduledAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  const fetchPost = async () => {
+    const supabase = createAdminTestClient();
+    const [{ data: post }, { data: destinations }] = await Promise.all([
+      supabase
+        .from("social-media-posts")
+        .select("status, review_comment, reviewed_by")
+        .eq("id", socialMediaPostId)
+        .single(),
+      supabase
+        .from("social-media-post-destinations")
+        .select("status")
+        .eq("parent_social_media_post_id", socialMediaPostId),
+    ]);
+    return { post, destinations };
+  };
+
+  it("won't let a contributor publish without approval", async () => {
+    await expect(
+      startSocialMediaPost({ socialMediaPostId, userId: contributor.userId })
+    ).rejects.toThrow("Only owners and editors can publish posts.");
+    const { error } = await contributor.supabase
+      .from("social-media-posts")
+      .update({ status: "publishing" })
+      .eq("id", socialMediaPostId);
+    expect(error).not.toBeNull();
+    expect((await fetchPost()).post?.status).toBe("uploading");
+  });
+
+  it("won't let a contributor publish a destination directly", async () => {
+    const { data: destination } = await createAdminTestClient()
+      .from("social-media-post-destinations")
+      .select("id")
+      .eq("parent_social_media_post_id", socialMediaPostId)
+      .single();
+    const { error } = await contributor.supabase
+      .from("social-media-post-destinations")
+      .update({ status: "pending" })
+      .eq("id", destination!.id);
+    expect(error).not.toBeNull();
+    await expect(
+      advanceSocialMediaPostDestination({
+        destinationId: destination!.id,
+        userId: contributor.userId,
+      })
+    ).rejects.toThrow("Only owners and editors can publish posts.");
+    expect((await fetchPost()).destinations).toEqual([{ status: "uploading" }]);
+  });
+
+  it("won't let a contributor change a post after submitting it", async () => {
+    await submitSocialMediaPostForApproval({
+      socialMediaPostId,
+      userId: contributor.userId,
+    });
+
+    await contributor.supabase
+      .from("social-media-post-destinations")
+      .update({ settings: { caption: "A different caption" } })
+      .eq("parent_social_media_post_id", socialMediaPostId);
+    const { data: destination } = await createAdminTestClient()
+      .from("social-media-post-destinations")
+      .select("settings")
+      .eq("parent_social_media_post_id", socialMediaPostId)
+      .single();
+    expect(destination?.settings).toMatchObject({ caption: "A caption" });
+  });
+
+  it("schedules a contributor's post once an editor approves it", async () => {
+    await submitSocialMediaPostForApproval({
+      socialMediaPostId,
+      userId: contributor.userId,
+    });
+    await expect(
+      approveSocialMediaPost({ socialMediaPostId, userId: contributor.userId })
+    ).rejects.toThrow("Only owners and editors can publish posts.");
+
+    await owner.signIn();
+    expect(
+      await approveSocialMediaPost({ socialMediaPostId, userId: owner.userId })
+    ).toBe("scheduled");
+    expect(await fetchPost()).toEqual({
+      post: {
+        status: "scheduled",
+        review_comment: null,
+        reviewed_by: owner.userId,
+      },
+      destinations: [{ status: "pending" }],
+    });
+  });
+
+  it("doesn't publish an approved post before its scheduled time", async () => {
+    await submitSocialMediaPostForApproval({
+      socialMediaPostId,
+      userId: contributor.userId,
+    });
+    await owner.signIn();
+    await approveSocialMediaPost({ socialMediaPostId, userId: owner.userId });
+    // Even once the post is publishing, its destinations wait for its time.
+    await createAdminTestClient()
+      .from("social-media-posts")
+      .update({ status: "publishing" })
+      .eq("id", socialMediaPostId);
+    const { data: destination } = await createAdminTestClient()
+      .from("social-media-post-destinations")
+      .select("id")
+      .eq("parent_social_media_post_id", socialMediaPostId)
+      .single();
+
+    expect(
+      await advanceSocialMediaPostDestination({
+        destinationId: destination!.id,
+        userId: owner.userId,
+      })
+    ).toMatchObject({ status: "pending" });
+    expect((await fetchPost()).destinations).toEqual([{ status: "pending" }]);
+  });
+
+  it("won't let a contributor remove an approved post from the queue", async () => {
+    await submitSocialMediaPostForApproval({
+      socialMediaPostId,
+      userId: contributor.userId,
+    });
+    await owner.signIn();
+    await approveSocialMediaPost({ socialMediaPostId, userId: owner.userId });
+
+    await contributor.signIn();
+    await expect(
+      removeQueuedSocialMediaPost({
+        socialMediaPostId,
+        userId: contributor.userId,
+      })
+    ).rejects.toThrow("Only owners and editors can remove scheduled posts.");
+    expect((await fetchPost()).post?.status).toBe("scheduled");
+  });
+
+  it("checks the signed in user's role rather than the user id passed in", async () => {
+    await submitSocialMediaPostForApproval({
+      socialMediaPostId,
+      userId: contributor.userId,
+    });
+
+    await expect(
+      approveSocialMediaPost({ socialMediaPostId, userId: owner.userId })
+    ).rejects.toThrow("Only owners and editors can publish posts.");
+    expect((await fetchPost()).post?.status).toBe("pending_approval");
+  });
+
+  it("keeps the comment when an editor rejects a post", async () => {
+    await submitSocialMediaPostForApproval({
+      socialMediaPostId,
+      userId: contributor.userId,
+    });
+
+    await owner.signIn();
+    await rejectSocialMediaPost({
+      socialMediaPostId,
+      userId: owner.userId,
+      comment: "Please fix the caption",
+    });
+    expect(await fetchPost()).toEqual({
+      post: {
+        status: "rejected",
+        review_comment: "Please fix the caption",
+        reviewed_by: owner.userId,
+      },
+      destinations: [{ status: "rejected" }],
+    });
+    await expect(
+      approveSocialMediaPost({ socialMediaPostId, userId: owner.userId })
+    ).rejects.toThrow("This post has already been reviewed.");
+  });
+});
@@ -0,0 +1,149 @@
+import { addQueueSlot } from "@/app/actions/queueSlots";
+import {
+  enqueueSocialMediaPost,
+  removeQueuedSocialMediaPost,
+  SocialMediaPostDestination,
+  startSocialMediaPost,
+} from "@/app/actions/socialMediaPostQueue";
+import { listUpcomingSlotTimes } from "@/utils/queueSlots";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  insertSocialMediaPost,
+  insertTikTokAccount,
+  signInAsNewUser,
+} from "../helpers/supabase";
+
+const slots = [
+  { day_of_week: 1, time_of_day: "09:00", timezone: "Europe/London" },
+  { day_of_week: 4, time_of_day: "17:30", timezone: "Europe/London" },
+];
+
+describe("queue slots", () => {
+  let userId: string;
+  let workspaceId: string;
+  let supabase: Awaited<ReturnType<typeof signInAsNewUser>>["supabase"];
+  let destination: SocialMediaPostDestination;
+
+  beforeEach(async () => {
+    ({ userId, workspaceId, supabase } = await signInAsNewUser());
+    const tiktokAccount = await insertTikTokAccount(userId);
+    destination = {
+      platform: "tiktok",
+      accountId: tiktokAccount.id,
+      settings: {
+        caption: "A caption",
+        postType: "video",
+        privacyLevel: "SELF_ONLY",
+        disableDuet: false,
+        disableComment: false,
+        disableStitch: false,
+        autoAddMusic: false,
+        brandOrganicToggle: false,
+        brandContentToggle: false,
+      },
+    };
+  });
+
+  const addSlots = async () => {
+    for (let i = 0; i < slots.length; i++) {
+      await addQueueSlot({
+        userId,
+        workspaceId,
+        platform: "tiktok",
+        accountId: destination.accountId,
+        dayOfWeek: slots[i].day_of_week,
+        timeOfDay: slots[i].time_of_day,
+        timezone: slots[i].timezone,
+      });
+    }
+  };
+
+  const queuePost = async () => {
+    const socialMediaPostId = await insertSocialMediaPost(userId);
+    await enqueueSocialMediaPost({
+      socialMediaPostId,
+      userId,
+      workspaceId,
+      destinations: [destination],
+      addToQueue: true,
+    });
+    await startSocialMediaPost({ socialMediaPostId, userId });
+    return socialMediaPostId;
+  };
+
+  const fetchScheduledTimes = async (socialMediaPostIds: string[]) => {
+    const { data } = await supabase
+      .from("social-media-post-destinations")
+      .select("parent_social_media_post_id, scheduled_at")
+      .in("parent_social_media_post_id", socialMediaPostIds);
+    return socialMediaPostIds.map((id) =>
+      new Date(
+        data!.find(
+          (row) => row.parent_social_media_post_id === id
+        )!.scheduled_at!
+      ).toISOString()
+    );
+  };
+
+  it("puts each queued post into the next free slot", async () => {
+    await addSlots();
+
+    const socialMediaPostIds = [await queuePost(), await queuePost()];
+
+    const slotTimes = listUpcomingSlotTimes(slots, new Date())
+      .slice(0, 2)
+      .map((time) => time.toISOString());
+    expect(await fetchScheduledTimes(socialMediaPostIds)).toEqual(slotTimes);
+    const { data: post } = await supabase
+      .from("social-media-posts")
+      .select("status, scheduled_at")
+      .eq("id", socialMediaPostIds[1])
+      .single();
+    expect(post?.status).toBe("scheduled");
+    expect(new Date(post!.scheduled_at!).toISOString()).toBe(slotTimes[1]);
+  });
+
+  it("throws when the account has no queue slots", async () => {
+    await expect(queuePost()).rejects.toThrow(
+      "One of your accounts doesn't have any queue slots yet."
+    );
+  });
+
+  it("rejects slots in a timezone that doesn't exist", async () => {
+    await expect(
+      addQueueSlot({
+        userId,
+        workspaceId,
+        platform: "tiktok",
+        accountId: destination.accountId,
+        dayOfWeek: 1,
+        timeOfDay: "09:00",
+        timezone: "Europe/Atlantis",
+      })
+    ).rejects.toThrow("Please pick a valid day and time for your queue slot.");
+  });
+
+  it("moves later posts up when a queued post is removed", async () => {
+    await addSlots();
+    const [firstPostId, ...laterPostIds] = [
+      await queuePost(),
+      await queuePost(),
+      await queuePost(),
+    ];
+
+    await removeQueuedSocialMediaPost({
+      socialMediaPostId: firstPostId,
+      userId,
+    });
+
+    const slotTimes = listUpcomingSlotTimes(slots, new Date())
+      .slice(0, 2)
+      .map((time) => time.toISOString());
+    expect(await fetchScheduledTimes(laterPostIds)).toEqual(slotTimes);
+    const { data } = await supabase
+      .from("social-media-posts")
+      .select("id")
+      .eq("id", firstPostId);
+    expect(data).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  createSocialMediaPostDraft,
+  deleteSocialMediaPostDraft,
+  fetchSocialMediaPostDraft,
+  fetchSocialMediaPostDrafts,
+  saveSocialMediaPostDraft,
+  SocialMediaPostDraftSettings,
+} from "@/app/actions/socialMediaPostDrafts";
+import { beforeEach, describe, expect, it } from "vitest";
+import { insertSocialMediaPost, signInAsNewUser } from "../helpers/supabase";
+
+const settings: SocialMediaPostDraftSettings = {
+  selectedAccounts: [{ platform: "tiktok", accountId: "open-id" }],
+  baseCaption: "A caption",
+  instagramCaption: null,
+  tiktokTitle: "A title",
+  tiktokCaption: null,
+  tiktokPrivacyLevel: "SELF_ONLY",
+  disableDuet: true,
+  disableComment: false,
+  disableStitch: false,
+  tiktokAutoAddMusicToPhotos: false,
+  tiktokShouldDiscloseContent: false,
+  tiktokIsYourBrandPromotion: false,
+  tiktokIsBrandedContent: false,
+  youtubeTitle: null,
+  youtubeVisibility: "unlisted",
+  youtubeDescription: "",
+  youtubeTags: [],
+  youtubeCategoryId: "22",
+  youtubeDefaultLanguage: "",
+  youtubeMadeForKids: false,
+  showWatermark: true,
+};
+
+describe("social media post drafts", () => {
+  let userId: string;
+  let workspaceId: string;
+  let supabase: Awaited<ReturnType<typeof signInAsNewUser>>["supabase"];
+
+  beforeEach(async () => {
+    ({ userId, workspaceId, supabase } = await signInAsNewUser());
+  });
+
+  it("saves a draft and loads it back", async () => {
+    const socialMediaPostId = await createSocialMediaPostDraft({
+      userId,
+      workspaceId,
+    });
+
+    await saveSocialMediaPostDraft({ socialMediaPostId, userId, settings });
+
+    expect(await fetchSocialMediaPostDrafts(workspaceId)).toEqual([
+      expect.objectContaining({ id: socialMediaPostId, settings }),
+    ]);
+    expect(
+      await fetchSocialMediaPostDraft({ socialMediaPostId, userId })
+    ).toMatchObject({ id: socialMediaPostId, settings, mediaFiles: [] });
+  });
+
+  it("doesn't save over a post that isn't a draft", async () => {
+    const socialMediaPostId = await insertSocialMediaPost(userId);
+
+    await expect(
+      saveSocialMediaPostDraft({ socialMediaPostId, userId, settings })
+    ).rejects.toThrow("This draft has already been posted.");
+    await expect(
+      fetchSocialMediaPostDraft({ socialMediaPostId, userId })
+    ).rejects.toThrow("Sorry, we couldn't find this draft.");
+  });
+
+  it("deletes a draft", async () => {
+    const socialMediaPostId = await createSocialMediaPostDraft({
+      userId,
+      workspaceId,
+    });
+    await saveSocialMediaPostDraft({ socialMediaPostId, userId, settings });
+
+    await deleteSocialMediaPostDraft({ socialMediaPostId, userId });
+
+    const { data } = await supabase
+      .from("social-media-posts")
+      .select("id")
+      .eq("id", socialMediaPostId);
+    expect(data).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  createSocialMediaPost,
+  fetchInstagramMediaPermalink,
+  saveInstagramId,
+} from "@/app/actions/socialMediaPosts";
+import { randomUUID } from "node:crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { failNextPlatformRequest } from "../helpers/mockPlatforms";
+import {
+  insertInstagramAccount,
+  insertSocialMediaPost,
+  signInAsNewUser,
+} from "../helpers/supabase";
+
+describe("createSocialMediaPost", () => {
+  it("creates a post for the signed in user", async () => {
+    const { userId, workspaceId, supabase } = await signInAsNewUser();
+
+    const socialMediaPostId = await createSocialMediaPost({
+      userId,
+      workspaceId,
+    });
+
+    const { data } = await supabase
+      .from("social-media-posts")
+      .select("id, user_id")
+      .eq("id", socialMediaPostId)
+      .single();
+    expect(data).toEqual({ id: socialMediaPostId, user_id: userId });
+  });
+
+  it("throws when creating a post in another user's workspace", async () => {
+    const { userId: otherUserId, workspaceId: otherWorkspaceId } =
+      await signInAsNewUser();
+    await signInAsNewUser();
+
+    await expect(
+      createSocialMediaPost({
+        userId: otherUserId,
+        workspaceId: otherWorkspaceId,
+      })
+    ).rejects.toThrow(
+      "Sorry, we had an issue creating your post. Please try again."
+    );
+  });
+});
+
+describe("saveInstagramId", () => {
+  let userId: string;
+  let supabase: Awaited<ReturnType<typeof signInAsNewUser>>["supabase"];
+  let parentSocialMediaPostId: string;
+
+  beforeEach(async () => {
+    ({ userId, supabase } = await signInAsNewUser());
+    parentSocialMediaPostId = await insertSocialMediaPost(userId);
+  });
+
+  it("saves the published media against the post", async () => {
+    const instagramAccount = await insertInstagramAccount(userId);
+
+    await saveInstagramId({
+      instagramMediaId: "ig-media-1",
+      parentSocialMediaPostId,
+      caption: "A caption",
+      userId,
+      instagramAccountId: instagramAccount.id,
+    });
+
+    const { data } = await supabase
+      .from("instagram-posts")
+      .select("instagram_media_id, caption, instagram_account_id")
+      .eq("parent_social_media_post_id", parentSocialMediaPostId);
+    expect(data).toEqual([
+      {
+        instagram_media_id: "ig-media-1",
+        caption: "A caption",
+        instagram_account_id: instagramAccount.id,
+      },
+    ]);
+  });
+
+  it("throws when the Instagram account doesn't exist", async () => {
+    await expect(
+      saveInstagramId({
+        instagramMediaId: "ig-media-1",
+        parentSocialMediaPostId,
+        caption: "A caption",
+        userId,
+        instagramAccountId: randomUUID(),
+      })
+    ).rejects.toMatchObject({ code: "23503" });
+  });
+});
+
+describe("fetchInstagramMediaPermalink", () => {
+  let userId: string;
+  let workspaceId: string;
+  let instagramBusinessAccountId: string;
+
+  beforeEach(async () => {
+    ({ userId, workspaceId } = await signInAsNewUser());
+    ({ instagram_business_account_id: instagramBusinessAccountId } =
+      await insertInstagramAccount(userId));
+  });
+
+  it("returns the link to the published media", async () => {
+    expect(
+      await fetchInstagramMediaPermalink({
+        instagramBusinessAccountId,
+        instagramMediaId: "ig-media-1",
+        userId,
+        workspaceId,
+      })
+    ).toBe("https://www.instagram.com/p/ig-media-1/");
+  });
+
+  it("returns null when Instagram doesn't answer", async () => {
+    await failNextPlatformRequest("graph.media", "server_error");
+
+    expect(
+      await fetchInstagramMediaPermalink({
+        instagramBusinessAccountId,
+        instagramMediaId: "ig-media-1",
+        userId,
+        workspaceId,
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,319 @@
+import {
+  checkTikTokCreatorInfo,
+  deleteTikTokAccount,
+  uploadTikTokVideoChunks,
+  writeTikTokPostToSupabase,
+} from "@/app/actions/tiktok";
+import { TikTokDestinationSettings } from "@/app/actions/socialMediaPostQueue";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  failNextPlatformRequest,
+  fetchPlatformRequests,
+} from "../helpers/mockPlatforms";
+import {
+  createAdminTestClient,
+  insertSocialMediaPost,
+  insertSocialMediaPostDestination,
+  insertTikTokAccount,
+  signInAsNewUser,
+  uploadMediaFile,
+} from "../helpers/supabase";
+
+const buildFormData = (fields: Record<string, string>) => {
+  const data = new FormData();
+  Object.entries(fields).forEach(([key, value]) => data.set(key, value));
+  return data;
+};
+
+describe("writeTikTokPostToSupabase", () => {
+  let userId: string;
+  let supabase: Awaited<ReturnType<typeof signInAsNewUser>>["supabase"];
+  let parentSocialMediaPostId: string;
+
+  beforeEach(async () => {
+    ({ userId, supabase } = await signInAsNewUser());
+    parentSocialMediaPostId = await insertSocialMediaPost(userId);
+  });
+
+  it("saves the post", async () => {
+    const tiktokAccount = await insertTikTokAccount(userId);
+
+    await writeTikTokPostToSupabase({
+      userId,
+      publishId: "v_pub_url~v2-video-1",
+      parentSocialMediaPostId,
+      caption: "A caption",
+      privacyLevel: "SELF_ONLY",
+      disableComment: true,
+      disableDuet: false,
+      videoCoverTimestamp: 0,
+      tiktokAccountId: tiktokAccount.id,
+    });
+
+    const { data } = await supabase
+      .from("tiktok-posts")
+      .select("publish_id, caption, privacy_level, disable_comment")
+      .eq("parent_social_media_post_id", parentSocialMediaPostId);
+    expect(data).toEqual([
+      {
+        publish_id: "v_pub_url~v2-video-1",
+        caption: "A caption",
+        privacy_level: "SELF_ONLY",
+        disable_comment: true,
+      },
+    ]);
+  });
+
+  it("records posts sent to the creator's TikTok drafts", async () => {
+    const tiktokAccount = await insertTikTokAccount(userId);
+
+    await writeTikTokPostToSupabase({
+      userId,
+      publishId: "v_pub_url~v2-video-1",
+      parentSocialMediaPostId,
+      caption: "A caption",
+      privacyLevel: "SELF_ONLY",
+      disableComment: false,
+      disableDuet: false,
+      videoCoverTimestamp: 0,
+      tiktokAccountId: tiktokAccount.id,
+      postMode: "MEDIA_UPLOAD",
+    });
+
+    const { data } = await supabase
+      .from("tiktok-posts")
+      .select("post_mode")
+      .eq("parent_social_media_post_id", parentSocialMediaPostId);
+    expect(data).toEqual([{ post_mode: "MEDIA_UPLOAD" }]);
+  });
+
+  it("throws when the TikTok account doesn't exist", async () => {
+    await expect(
+      writeTikTokPostToSupabase({
+        userId,
+        publishId: "v_pub_url~v2-video-1",
+        parentSocialMediaPostId,
+        caption: "A caption",
+        privacyLevel: "SELF_ONLY",
+        disableComment: false,
+        disableDuet: false,
+        videoCoverTimestamp: 0,
+        tiktokAccountId: "missing-open-id",
+      })
+    ).rejects.toThrow("Failed to save post to database");
+  });
+});
+
+describe("deleteTikTokAccount", () => {
+  it("deletes the account", async () => {
+    const { userId, workspaceId, supabase } = await signInAsNewUser();
+    const tiktokAccount = await insertTikTokAccount(userId);
+
+    const result = await deleteTikTokAccount(
+      null,
+      buildFormData({
+        userId,
+        workspaceId,
+        tiktokAccountId: tiktokAccount.id,
+      })
+    );
+
+    expect(result).toEqual({
+      data: "Successfully deleted TikTok account",
+      error: null,
+    });
+    const { data } = await supabase
+      .from("tiktok-accounts")
+      .select()
+      .eq("id", tiktokAccount.id);
+    expect(data).toEqual([]);
+  });
+
+  it("doesn't delete another user's account", async () => {
+    const { userId: otherUserId, workspaceId: otherWorkspaceId } =
+      await signInAsNewUser();
+    const tiktokAccount = await insertTikTokAccount(otherUserId);
+    await signInAsNewUser();
+
+    await deleteTikTokAccount(
+      null,
+      buildFormData({
+        userId: otherUserId,
+        workspaceId: otherWorkspaceId,
+        tiktokAccountId: tiktokAccount.id,
+      })
+    );
+
+    const { data } = await createAdminTestClient()
+      .from("tiktok-accounts")
+      .select("id")
+      .eq("id", tiktokAccount.id);
+    expect(data).toEqual([{ id: tiktokAccount.id }]);
+  });
+
+  it("returns an error when the delete fails", async () => {
+    await signInAsNewUser();
+
+    const result = await deleteTikTokAccount(
+      null,
+      buildFormData({
+        userId: "not-a-user-id",
+        workspaceId: "not-a-workspace-id",
+        tiktokAccountId: "open-id",
+      })
+    );
+
+    expect(result).toEqual({
+      error:
+        "Sorry, we ran into an error deleting your TikTok account. Please try again.",
+    });
+  });
+});
+
+describe("checkTikTokCreatorInfo", () => {
+  let userId: string;
+  let workspaceId: string;
+  let accountId: string;
+  const settings: TikTokDestinationSettings = {
+    caption: "A caption",
+    postType: "video",
+    privacyLevel: "SELF_ONLY",
+    disableDuet: false,
+    disableComment: false,
+    disableStitch: false,
+    autoAddMusic: false,
+    brandOrganicToggle: false,
+    brandContentToggle: false,
+  };
+
+  beforeEach(async () => {
+    ({ userId, workspaceId } = await signInAsNewUser());
+    accountId = (await insertTikTokAccount(userId)).id;
+  });
+
+  it("passes when the creator can make the post", async () => {
+    await expect(
+      checkTikTokCreatorInfo({
+        workspaceId,
+        destinations: [{ accountId, settings }],
+      })
+    ).resolves.toBeUndefined();
+    expect(await fetchPlatformRequests("tiktok.creatorInfo")).toHaveLength(1);
+  });
+
+  it("throws when the creator doesn't offer the privacy level", async () => {
+    await expect(
+      checkTikTokCreatorInfo({
+        workspaceId,
+        destinations: [
+          {
+            accountId,
+            settings: { ...settings, privacyLevel: "FOLLOWER_OF_CREATOR" },
+          },
+        ],
+      })
+    ).rejects.toThrow("can't post with the privacy level");
+  });
+
+  it("throws when TikTok won't let the creator post", async () => {
+    await failNextPlatformRequest("tiktok.creatorInfo", "invalid_request");
+
+    await expect(
+      checkTikTokCreatorInfo({
+        workspaceId,
+        destinations: [{ accountId, settings }],
+      })
+    ).rejects.toThrow("You've posted too many times recently");
+  });
+
+  it("skips posts sent to the creator's TikTok drafts", async () => {
+    await checkTikTokCreatorInfo({
+      workspaceId,
+      destinations: [
+        { accountId, settings: { ...settings, postMode: "MEDIA_UPLOAD" } },
+      ],
+    });
+
+    expect(await fetchPlatformRequests("tiktok.creatorInfo")).toEqual([]);
+  });
+});
+
+describe("uploadTikTokVideoChunks", () => {
+  const video = new Uint8Array(1024 * 1024).fill(7);
+  // Storage has no policies for the test users, so the upload runs as the
+  // cron worker does.
+  const supabase = createAdminTestClient();
+  let destinationId: string;
+  let videoPath: string;
+  let uploadUrl: string;
+
+  beforeEach(async () => {
+    const { userId } = await signInAsNewUser();
+    const tiktokAccount = await insertTikTokAccount(userId);
+    const parentSocialMediaPostId = await insertSocialMediaPost(userId);
+    destinationId = (
+      await insertSocialMediaPostDestination({
+        userId,
+        parentSocialMediaPostId,
+        platform: "tiktok",
+        accountId: tiktokAccount.id,
+      })
+    ).id;
+    videoPath = `${userId}/${parentSocialMediaPostId}/video.mp4`;
+    await uploadMediaFile(videoPath, video);
+    const response = await fetch(
+      `${process.env.TIKTOK_API_BASE_URL}/v2/post/publish/video/init/`,
+      {
+        method: "POST",
+        headers: { Authorization: `Bearer ${tiktokAccount.access_token}` },
+        body: JSON.stringify({
+          source_info: {
+            source: "FILE_UPLOAD",
+            video_size: video.length,
+            chunk_size: video.length,
+            total_chunk_count: 1,
+          },
+        }),
+      }
+    );
+    ({
+      data: { upload_url: uploadUrl },
+    } = await response.json());
+  });
+
+  const uploadChunks = () =>
+    uploadTikTokVideoChunks({
+      destinationId,
+      uploadUrl,
+      videoPath,
+      videoSize: video.length,
+      uploadedBytes: 0,
+      supabase,
+    });
+
+  const fetchUploadedBytes = async () => {
+    const { data } = await supabase
+      .from("social-media-post-destinations")
+      .select("uploaded_bytes")
+      .eq("id", destinationId)
+      .single();
+    return data?.uploaded_bytes;
+  };
+
+  it("sends the video from storage and records the progress", async () => {
+    expect(await uploadChunks()).toBe(video.length);
+
+    expect(await fetchUploadedBytes()).toBe(video.length);
+    const requests = await fetchPlatformRequests("tiktok.upload");
+    expect(requests.map(({ headers }) => headers["content-range"])).toEqual([
+      `bytes 0-${video.length - 1}/${video.length}`,
+    ]);
+  });
+
+  it("throws a retryable error when TikTok is unavailable", async () => {
+    await failNextPlatformRequest("tiktok.upload", "server_error");
+
+    await expect(uploadChunks()).rejects.toMatchObject({ retryable: true });
+    expect(await fetchUploadedBytes()).toBe(0);
+  });
+});
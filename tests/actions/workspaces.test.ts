@@ -0,0 +1,208 @@
+import { fetchSocialMediaPostHistory } from "@/app/actions/postHistory";
+import {
+  acceptWorkspaceInvitation,
+  fetchPendingWorkspaceInvitations,
+  fetchWorkspaceMembers,
+  inviteToWorkspace,
+  removeWorkspaceMember,
+  revokeWorkspaceInvitation,
+  updateWorkspaceMemberRole,
+} from "@/app/actions/workspaces";
+import { WorkspaceRole } from "@/utils/workspaceRoles";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  insertSocialMediaPost,
+  insertTikTokAccount,
+  signInAsNewUser,
+} from "../helpers/supabase";
+
+describe("workspaces", () => {
+  let owner: Awaited<ReturnType<typeof signInAsNewUser>>;
+  let teammate: Awaited<ReturnType<typeof signInAsNewUser>>;
+
+  beforeEach(async () => {
+    teammate = await signInAsNewUser();
+    owner = await signInAsNewUser();
+  });
+
+  const inviteAndAccept = async (role: WorkspaceRole = "editor") => {
+    await inviteToWorkspace({
+      workspaceId: owner.workspaceId,
+      userId: owner.userId,
+      email: teammate.email,
+      role,
+    });
+    await teammate.signIn();
+    const [invitation] = await fetchPendingWorkspaceInvitations(
+      teammate.userId
+    );
+    return acceptWorkspaceInvitation({
+      invitationId: invitation.id,
+      userId: teammate.userId,
+    });
+  };
+
+  it("shares the workspace's accounts and posts with an invited teammate", async () => {
+    const tiktokAccount = await insertTikTokAccount(owner.userId);
+    const socialMediaPostId = await insertSocialMediaPost(owner.userId);
+
+    expect(await inviteAndAccept()).toBe(owner.workspaceId);
+
+    const { data: accounts } = await teammate.supabase
+      .from("tiktok-accounts")
+      .select("id")
+      .eq("workspace_id", owner.workspaceId);
+    expect(accounts).toEqual([{ id: tiktokAccount.id }]);
+    const posts = await fetchSocialMediaPostHistory(owner.workspaceId);
+    expect(posts.map(({ id }) => id)).toEqual([socialMediaPostId]);
+    expect(await fetchPendingWorkspaceInvitations(teammate.userId)).toEqual([]);
+  });
+
+  it("shows the invitation to the invitee with the workspace's name", async () => {
+    await inviteToWorkspace({
+      workspaceId: owner.workspaceId,
+      userId: owner.userId,
+      email: teammate.email.toUpperCase(),
+    });
+    await teammate.signIn();
+
+    expect(await fetchPendingWorkspaceInvitations(teammate.userId)).toEqual([
+      expect.objectContaining({
+        workspaceId: owner.workspaceId,
+        workspaceName: "Personal",
+        email: teammate.email,
+      }),
+    ]);
+  });
+
+  it("doesn't share the workspace's accounts before the invitation is accepted", async () => {
+    await insertTikTokAccount(owner.userId);
+    await inviteToWorkspace({
+      workspaceId: owner.workspaceId,
+      userId: owner.userId,
+      email: teammate.email,
+    });
+    await teammate.signIn();
+
+    const { data } = await teammate.supabase
+      .from("tiktok-accounts")
+      .select("id")
+      .eq("workspace_id", owner.workspaceId);
+    expect(data).toEqual([]);
+  });
+
+  it("throws when inviting someone who is already a member", async () => {
+    await expect(
+      inviteToWorkspace({
+        workspaceId: owner.workspaceId,
+        userId: owner.userId,
+        email: owner.email,
+      })
+    ).rejects.toThrow("This person is already in your workspace.");
+  });
+
+  it("gives the teammate the role they were invited with", async () => {
+    await inviteAndAccept("contributor");
+
+    const { members } = await fetchWorkspaceMembers(owner.workspaceId);
+    expect(members).toEqual([
+      { userId: owner.userId, email: owner.email, role: "owner" },
+      { userId: teammate.userId, email: teammate.email, role: "contributor" },
+    ]);
+  });
+
+  it("only lets viewers read the workspace's accounts", async () => {
+    const tiktokAccount = await insertTikTokAccount(owner.userId);
+    await inviteAndAccept("viewer");
+
+    await teammate.supabase
+      .from("tiktok-accounts")
+      .delete()
+      .eq("id", tiktokAccount.id);
+    const { data } = await teammate.supabase
+      .from("tiktok-accounts")
+      .select("id")
+      .eq("workspace_id", owner.workspaceId);
+    expect(data).toEqual([{ id: tiktokAccount.id }]);
+  });
+
+  it("only lets owners invite and remove teammates", async () => {
+    await inviteAndAccept("editor");
+
+    await expect(
+      inviteToWorkspace({
+        workspaceId: owner.workspaceId,
+        userId: teammate.userId,
+        email: "someone@example.com",
+      })
+    ).rejects.toThrow("Only owners can invite teammates.");
+    await expect(
+      removeWorkspaceMember({
+        workspaceId: owner.workspaceId,
+        userId: teammate.userId,
+        memberUserId: owner.userId,
+      })
+    ).rejects.toThrow("Only owners can remove teammates.");
+  });
+
+  it("only lets owners cancel invitations", async () => {
+    await inviteAndAccept("viewer");
+    await owner.signIn();
+    await inviteToWorkspace({
+      workspaceId: owner.workspaceId,
+      userId: owner.userId,
+      email: "someone@example.com",
+    });
+    await teammate.signIn();
+    const { data: invitations } = await teammate.supabase
+      .from("workspace-invitations")
+      .select("id")
+      .eq("workspace_id", owner.workspaceId);
+
+    await expect(
+      revokeWorkspaceInvitation({
+        invitationId: invitations![0].id,
+        userId: teammate.userId,
+      })
+    ).rejects.toThrow("Only owners can cancel invitations.");
+    await teammate.supabase
+      .from("workspace-invitations")
+      .delete()
+      .eq("id", invitations![0].id);
+    const { data } = await teammate.supabase
+      .from("workspace-invitations")
+      .select("id")
+      .eq("workspace_id", owner.workspaceId);
+    expect(data).toEqual(invitations);
+  });
+
+  it("keeps at least one owner in the workspace", async () => {
+    await inviteAndAccept("editor");
+    await owner.signIn();
+
+    await expect(
+      removeWorkspaceMember({
+        workspaceId: owner.workspaceId,
+        userId: owner.userId,
+        memberUserId: owner.userId,
+      })
+    ).rejects.toThrow("A workspace needs at least one owner.");
+    await updateWorkspaceMemberRole({
+      workspaceId: owner.workspaceId,
+      userId: owner.userId,
+      memberUserId: teammate.userId,
+      role: "owner",
+    });
+    await removeWorkspaceMember({
+      workspaceId: owner.workspaceId,
+      userId: owner.userId,
+      memberUserId: owner.userId,
+    });
+
+    await teammate.signIn();
+    const { members } = await fetchWorkspaceMembers(owner.workspaceId);
+    expect(members).toEqual([
+      { userId: teammate.userId, email: teammate.email, role: "owner" },
+    ]);
+  });
+});
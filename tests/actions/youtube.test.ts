@@ -0,0 +1,131 @@
+import {
+  resumeYoutubeVideoUpload,
+  startYoutubeVideoUpload,
+} from "@/app/actions/youtube";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  failNextPlatformRequest,
+  fetchPlatformRequests,
+} from "../helpers/mockPlatforms";
+import {
+  createAdminTestClient,
+  insertSocialMediaPost,
+  insertSocialMediaPostDestination,
+  insertYoutubeChannel,
+  signInAsNewUser,
+  uploadMediaFile,
+} from "../helpers/supabase";
+
+const video = new Uint8Array(300 * 1024).fill(7);
+
+describe("resumable YouTube uploads", () => {
+  // Storage has no policies for the test users, so the uploads run as the
+  // cron worker does.
+  const supabase = createAdminTestClient();
+  let userId: string;
+  let youtubeChannelId: string;
+  let destinationId: string;
+  let videoPath: string;
+
+  beforeEach(async () => {
+    ({ userId } = await signInAsNewUser());
+    youtubeChannelId = (await insertYoutubeChannel(userId)).id;
+    const parentSocialMediaPostId = await insertSocialMediaPost(userId);
+    destinationId = (
+      await insertSocialMediaPostDestination({
+        userId,
+        parentSocialMediaPostId,
+        platform: "youtube",
+        accountId: youtubeChannelId,
+      })
+    ).id;
+    videoPath = `${userId}/${parentSocialMediaPostId}/video.mp4`;
+    await uploadMediaFile(videoPath, video);
+  });
+
+  const startUpload = () =>
+    startYoutubeVideoUpload({
+      userId,
+      destinationId,
+      youtubeChannelId,
+      videoPath,
+      metadata: { title: "A title", visibility: "unlisted" },
+      supabase,
+    });
+
+  const resumeUpload = () =>
+    resumeYoutubeVideoUpload({
+      userId,
+      destinationId,
+      youtubeChannelId,
+      supabase,
+    });
+
+  const fetchSession = async () => {
+    const { data } = await supabase
+      .from("youtube-upload-sessions")
+      .select("uploaded_bytes, video_size, video_id")
+      .eq("destination_id", destinationId)
+      .single();
+    return data;
+  };
+
+  it("uploads the video from storage and records it", async () => {
+    await startUpload();
+
+    const videoId = await resumeUpload();
+
+    expect(videoId).toMatch(/^mock-youtube-video-/);
+    expect(await fetchSession()).toEqual({
+      uploaded_bytes: video.length,
+      video_size: video.length,
+      video_id: videoId,
+    });
+    const [init] = await fetchPlatformRequests("youtube.insert");
+    expect(init.headers["x-upload-content-length"]).toBe(String(video.length));
+    expect(JSON.parse(init.body)).toMatchObject({
+      snippet: { title: "A title" },
+      status: { privacyStatus: "unlisted" },
+    });
+  });
+
+  it("carries on from the last byte YouTube acknowledged", async () => {
+    await startUpload();
+    // Stands in for a step that sent a chunk but timed out before recording it.
+    const { data: session } = await supabase
+      .from("youtube-upload-sessions")
+      .select("session_url")
+      .eq("destination_id", destinationId)
+      .single();
+    const sentBytes = 256 * 1024;
+    await fetch(session!.session_url, {
+      method: "PUT",
+      redirect: "manual",
+      headers: {
+        "Content-Range": `bytes 0-${sentBytes - 1}/${video.length}`,
+      },
+      body: video.slice(0, sentBytes),
+    });
+
+    const videoId = await resumeUpload();
+
+    expect(videoId).toMatch(/^mock-youtube-video-/);
+    const ranges = (await fetchPlatformRequests("youtube.upload")).map(
+      ({ headers }) => headers["content-range"]
+    );
+    expect(ranges.slice(-2)).toEqual([
+      `bytes */${video.length}`,
+      `bytes ${sentBytes}-${video.length - 1}/${video.length}`,
+    ]);
+  });
+
+  it("throws a retryable error and keeps the session when YouTube is unavailable", async () => {
+    await startUpload();
+    await failNextPlatformRequest("youtube.upload", "server_error");
+
+    await expect(resumeUpload()).rejects.toMatchObject({ retryable: true });
+    expect((await fetchSession())?.video_id).toBeNull();
+
+    expect(await resumeUpload()).toMatch(/^mock-youtube-video-/);
+  });
+});
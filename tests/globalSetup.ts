@@ -0,0 +1,89 @@
+import { Database } from "@/types/supabase";
+import { createClient } from "@supabase/supabase-js";
+import { execFileSync } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import type { TestProject } from "vitest/node";
+import { startMockPlatformServer } from "../mocks/server";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    env: Record<string, string>;
+  }
+}
+
+const mediaFilesStorageBucket = "social-media-post-media-files";
+
+const fetchLocalSupabaseEnv = () => {
+  try {
+    const status = JSON.parse(
+      execFileSync("supabase", ["status", "--output", "json"], {
+        encoding: "utf8",
+      })
+    ) as { API_URL: string; ANON_KEY: string; SERVICE_ROLE_KEY: string };
+    return {
+      NEXT_PUBLIC_SUPABASE_URL: status.API_URL,
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: status.ANON_KEY,
+      SUPABASE_SERVICE_ROLE_KEY: status.SERVICE_ROLE_KEY,
+    };
+  } catch (error) {
+    throw new Error(
+      `Couldn't find a local Supabase — run \`supabase start\` first. ${
+        error instanceof Error ? error.message : ""
+      }`
+    );
+  }
+};
+
+const createMediaFilesStorageBucket = async ({
+  url,
+  serviceRoleKey,
+}: {
+  url: string;
+  serviceRoleKey: string;
+}) => {
+  const supabase = createClient<Database>(url, serviceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const { data } = await supabase.storage.getBucket(mediaFilesStorageBucket);
+  if (data) {
+    return;
+  }
+  const { error } = await supabase.storage.createBucket(
+    mediaFilesStorageBucket
+  );
+  if (error) {
+    throw error;
+  }
+};
+
+const setup = async (project: TestProject) => {
+  const supabaseEnv = fetchLocalSupabaseEnv();
+  await createMediaFilesStorageBucket({
+    url: supabaseEnv.NEXT_PUBLIC_SUPABASE_URL,
+    serviceRoleKey: supabaseEnv.SUPABASE_SERVICE_ROLE_KEY,
+  });
+  const mockPlatformServer = await startMockPlatformServer();
+
+  project.provide("env", {
+    ...supabaseEnv,
+    ...mockPlatformServer.env,
+    MOCK_PLATFORM_SERVER_URL: mockPlatformServer.url,
+    NEXT_PUBLIC_SOCIAL_MEDIA_POST_MEDIA_FILES_STORAGE_BUCKET:
+      mediaFilesStorageBucket,
+    FACEBOOK_GRAPH_API_VERSION: "20.0",
+    NEXT_PUBLIC_FACEBOOK_CLIENT_ID: "mock-facebook-client-id",
+    FACEBOOK_CLIENT_SECRET: "mock-facebook-client-secret",
+    TIKTOK_CLIENT_KEY: "mock-tiktok-client-key",
+    TIKTOK_CLIENT_SECRET: "mock-tiktok-client-secret",
+    YOUTUBE_CLIENT_ID: "mock-youtube-client-id",
+    YOUTUBE_CLIENT_SECRET: "mock-youtube-client-secret",
+    YOUTUBE_REDIRECT_URI: "http://localhost:3000/auth/youtube/callback",
+    TOKEN_ENCRYPTION_KEYS: `test:${randomBytes(32).toString("base64")}`,
+  });
+
+  return async () => {
+    await mockPlatformServer.close();
+  };
+};
+
+export default setup;
@@ -0,0 +1,31 @@
+import { MockFailure, MockRoute, RecordedRequest } from "@/mocks/state";
+
+// The mock platform server runs in the global setup, so tests control it over
+// HTTP rather than through startMockPlatformServer's handle.
+const controlURL = (path: string) =>
+  `${process.env.MOCK_PLATFORM_SERVER_URL}/__mock${path}`;
+
+export const failNextPlatformRequest = async (
+  route: MockRoute,
+  failure: MockFailure,
+  times = 1
+) => {
+  await fetch(controlURL("/failures"), {
+    method: "POST",
+    body: JSON.stringify({ route, failure, times }),
+  });
+};
+
+export const resetMockPlatforms = async () => {
+  await fetch(controlURL("/reset"), { method: "POST" });
+};
+
+export const fetchPlatformRequests = async (route: MockRoute) => {
+  const response = await fetch(controlURL("/requests"));
+  const { requests } = (await response.json()) as {
+    requests: (Omit<RecordedRequest, "searchParams"> & {
+      searchParams: Record<string, string>;
+    })[];
+  };
+  return requests.filter((request) => request.route === route);
+};
@@ -0,0 +1,195 @@
+import { Database } from "@/types/supabase";
+import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+
+type TestSupabaseClient = ReturnType<typeof createClient<Database>>;
+
+const clientOptions = {
+  auth: { autoRefreshToken: false, persistSession: false },
+};
+
+let signedInUserClient: TestSupabaseClient | null = null;
+
+export const createAdminTestClient = () =>
+  createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    clientOptions
+  );
+
+// Stands in for the cookie based client the actions use during a request.
+export const getSignedInUserClient = () => {
+  if (!signedInUserClient) {
+    throw new Error("No test user is signed in — call signInAsNewUser first");
+  }
+  return signedInUserClient;
+};
+
+export const signInAsNewUser = async () => {
+  const email = `test-${randomUUID()}@example.com`;
+  const password = randomUUID();
+  const { data, error } = await createAdminTestClient().auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+  });
+  if (error) {
+    throw error;
+  }
+  // Signs this user back in, for tests that switch between teammates.
+  const signIn = () => signInWithPassword({ email, password });
+  const supabase = await signIn();
+  const workspaceId = await fetchPersonalWorkspaceId(data.user.id);
+  return { userId: data.user.id, workspaceId, email, supabase, signIn };
+};
+
+const signInWithPassword = async ({
+  email,
+  password,
+}: {
+  email: string;
+  password: string;
+}) => {
+  const supabase = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    clientOptions
+  );
+  const { error } = await supabase.auth.signInWithPassword({
+    email,
+    password,
+  });
+  if (error) {
+    throw error;
+  }
+  signedInUserClient = supabase;
+  return supabase;
+};
+
+// Every user gets a personal workspace when they sign up, which the insert
+// helpers put rows in so tests keep passing just the user id around.
+export const fetchPersonalWorkspaceId = async (userId: string) => {
+  const { data, error } = await createAdminTestClient()
+    .from("workspaces")
+    .select("id")
+    .eq("created_by", userId)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data.id;
+};
+
+export const insertSocialMediaPost = async (userId: string) => {
+  const { data, error } = await createAdminTestClient()
+    .from("social-media-posts")
+    .insert({
+      user_id: userId,
+      workspace_id: await fetchPersonalWorkspaceId(userId),
+    })
+    .select("id")
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data.id;
+};
+
+export const insertInstagramAccount = async (userId: string) => {
+  const { data, error } = await createAdminTestClient()
+    .from("instagram-accounts")
+    .insert({
+      user_id: userId,
+      workspace_id: await fetchPersonalWorkspaceId(userId),
+      access_token: "mock-page-access-token",
+      facebook_page_id: `page-${randomUUID()}`,
+      instagram_business_account_id: `ig-${randomUUID()}`,
+    })
+    .select()
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data;
+};
+
+export const insertTikTokAccount = async (userId: string) => {
+  const { data, error } = await createAdminTestClient()
+    .from("tiktok-accounts")
+    .insert({
+      id: `open-id-${randomUUID()}`,
+      user_id: userId,
+      workspace_id: await fetchPersonalWorkspaceId(userId),
+      access_token: "expired-tiktok-access-token",
+      refresh_token: "tiktok-refresh-token",
+    })
+    .select()
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data;
+};
+
+export const insertYoutubeChannel = async (userId: string) => {
+  const { data, error } = await createAdminTestClient()
+    .from("youtube-channels")
+    .insert({
+      id: `channel-${randomUUID()}`,
+      user_id: userId,
+      workspace_id: await fetchPersonalWorkspaceId(userId),
+      channel_custom_url: "@mockchannel",
+      credentials: {
+        access_token: "mock-google-access-token",
+        refresh_token: "mock-google-refresh-token",
+        expiry_date: Date.now() + 60 * 60 * 1000,
+      },
+    })
+    .select()
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data;
+};
+
+export const insertSocialMediaPostDestination = async ({
+  userId,
+  parentSocialMediaPostId,
+  platform,
+  accountId,
+}: {
+  userId: string;
+  parentSocialMediaPostId: string;
+  platform: string;
+  accountId: string;
+}) => {
+  const { data, error } = await createAdminTestClient()
+    .from("social-media-post-destinations")
+    .insert({
+      user_id: userId,
+      parent_social_media_post_id: parentSocialMediaPostId,
+      platform,
+      account_id: accountId,
+      status: "processing",
+    })
+    .select()
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data;
+};
+
+export const uploadMediaFile = async (filePath: string, body: Uint8Array) => {
+  const { error } = await createAdminTestClient()
+    .storage.from(
+      process.env.NEXT_PUBLIC_SOCIAL_MEDIA_POST_MEDIA_FILES_STORAGE_BUCKET!
+    )
+    .upload(filePath, body, { contentType: "video/mp4" });
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { afterEach, inject, vi } from "vitest";
+import { resetMockPlatforms } from "./helpers/mockPlatforms";
+
+// Module level constants, e.g. the Graph API base URL, read the env when the
+// actions are imported, which happens after this file runs.
+Object.assign(process.env, inject("env"));
+
+// These need a Next.js request, so stand in for them: the Supabase clients
+// normally read the session from the request's cookies.
+vi.mock("next/cache", () => ({
+  revalidatePath: vi.fn(),
+}));
+
+vi.mock("@/utils/supabase/server", async () => {
+  const { createAdminTestClient, getSignedInUserClient } = await import(
+    "./helpers/supabase"
+  );
+  return {
+    createClient: getSignedInUserClient,
+    createAdminClient: createAdminTestClient,
+  };
+});
+
+afterEach(async () => {
+  await resetMockPlatforms();
+});
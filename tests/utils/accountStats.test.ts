@@ -0,0 +1,21 @@
+import { accountStatChange, emptyAccountStats } from "@/utils/accountStats";
+import { describe, expect, it } from "vitest";
+
+const day = (followers: number | null) => ({
+  stats: { ...emptyAccountStats, followers },
+});
+
+describe("accountStatChange", () => {
+  it("compares the latest day with the first one", () => {
+    expect(accountStatChange([day(100), day(90), day(130)], "followers")).toBe(
+      30
+    );
+  });
+
+  it("skips days the stat wasn't reported", () => {
+    expect(
+      accountStatChange([day(null), day(100), day(120)], "followers")
+    ).toBe(20);
+    expect(accountStatChange([day(100)], "likes")).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { Logger, redactSecrets, withRedaction } from "@/utils/logging";
+import { Logger as AxiomLogger } from "next-axiom";
+import { describe, expect, it } from "vitest";
+
+describe("redacting secrets from logs", () => {
+  it("redacts secret keys in nested objects", () => {
+    expect(
+      redactSecrets({
+        userId: "user",
+        accessToken: "s3cr3t",
+        data: { refresh_token: "s3cr3t", open_id: "open" },
+        tokens: { access_token: "s3cr3t" },
+        credentials: { refresh_token: "s3cr3t" },
+      })
+    ).toEqual({
+      userId: "user",
+      accessToken: "[REDACTED]",
+      data: { refresh_token: "[REDACTED]", open_id: "open" },
+      tokens: "[REDACTED]",
+      credentials: "[REDACTED]",
+    });
+  });
+
+  it("redacts secret query params and bearer tokens in strings", () => {
+    expect(
+      redactSecrets(
+        "https://graph.facebook.com/v19.0/1/media?caption=hi&access_token=s3cr3t&media_type=REELS"
+      )
+    ).toBe(
+      "https://graph.facebook.com/v19.0/1/media?caption=hi&access_token=[REDACTED]&media_type=REELS"
+    );
+    expect(redactSecrets(["Bearer s3cr3t"])).toEqual(["Bearer [REDACTED]"]);
+  });
+
+  it("redacts the message, stack and cause of errors", () => {
+    const error = new Error(
+      "Request to https://graph.facebook.com/me?access_token=s3cr3t failed",
+      { cause: { url: "https://open.tiktokapis.com", accessToken: "s3cr3t" } }
+    );
+    const redacted = redactSecrets(error);
+
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.message).toBe(
+      "Request to https://graph.facebook.com/me?access_token=[REDACTED] failed"
+    );
+    expect(redacted.stack).not.toContain("s3cr3t");
+    expect(redacted.cause).toEqual({
+      url: "https://open.tiktokapis.com",
+      accessToken: "[REDACTED]",
+    });
+    expect(error.message).toContain("s3cr3t");
+
+    const logger = new Logger();
+    logger.error("Failed", { error });
+    logger.error("Failed", error);
+    expect(JSON.stringify(logger.logEvents)).not.toContain("s3cr3t");
+  });
+
+  it("redacts what the logger is given", () => {
+    const logger = new Logger().with({
+      graphUrl: "https://graph.facebook.com/me?access_token=s3cr3t",
+    });
+    logger.info("Checked", { accessToken: "s3cr3t", statusCode: 200 });
+    const [event] = logger.logEvents;
+    expect(JSON.stringify(event)).not.toContain("s3cr3t");
+    expect(event.fields).toMatchObject({ statusCode: 200 });
+  });
+
+  it("redacts loggers created by next-axiom", () => {
+    const logger = withRedaction(new AxiomLogger()).with({
+      refreshToken: "s3cr3t",
+    });
+    logger.error("Failed", { client_secret: "s3cr3t" });
+    expect(JSON.stringify(logger.logEvents)).not.toContain("s3cr3t");
+  });
+});
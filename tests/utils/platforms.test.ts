@@ -0,0 +1,210 @@
+import {
+  reencryptPlatformAccountTokens,
+  refreshPlatformAccessTokens,
+} from "@/utils/platforms";
+import { decryptAccountTokens } from "@/utils/platforms/accountTokens";
+import { isEncryptedToken } from "@/utils/tokenEncryption";
+import { randomBytes } from "node:crypto";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  failNextPlatformRequest,
+  fetchPlatformRequests,
+} from "../helpers/mockPlatforms";
+import {
+  createAdminTestClient,
+  insertInstagramAccount,
+  insertTikTokAccount,
+  insertYoutubeChannel,
+  signInAsNewUser,
+} from "../helpers/supabase";
+
+const fetchTikTokAccount = async (id: string) => {
+  const { data, error } = await createAdminTestClient()
+    .from("tiktok-accounts")
+    .select("access_token, refresh_token")
+    .eq("id", id)
+    .single();
+  if (error) {
+    throw error;
+  }
+  return decryptAccountTokens("tiktok-accounts", data);
+};
+
+describe("refreshPlatformAccessTokens", () => {
+  it("saves refreshed TikTok tokens", async () => {
+    const { userId } = await signInAsNewUser();
+    const tiktokAccount = await insertTikTokAccount(userId);
+
+    await refreshPlatformAccessTokens("tiktok");
+
+    const { access_token, refresh_token } = await fetchTikTokAccount(
+      tiktokAccount.id
+    );
+    expect(access_token).toMatch(/^mock-tiktok-access-token-/);
+    expect(refresh_token).toMatch(/^mock-tiktok-refresh-token-/);
+    const tokenRequests = await fetchPlatformRequests("tiktok.token");
+    expect(
+      tokenRequests.map(({ body }) =>
+        new URLSearchParams(body).get("grant_type")
+      )
+    ).toContain("refresh_token");
+  });
+
+  it("keeps the old tokens when TikTok rejects the refresh token", async () => {
+    const { userId } = await signInAsNewUser();
+    const tiktokAccount = await insertTikTokAccount(userId);
+    // Every account is refreshed, so fail all of them.
+    await failNextPlatformRequest("tiktok.token", "invalid_request", 1000);
+
+    await expect(
+      refreshPlatformAccessTokens("tiktok")
+    ).resolves.toBeUndefined();
+
+    expect(await fetchTikTokAccount(tiktokAccount.id)).toEqual({
+      access_token: "expired-tiktok-access-token",
+      refresh_token: "tiktok-refresh-token",
+    });
+  });
+
+  it("keeps refreshing the other accounts when one can't be refreshed", async () => {
+    const { userId } = await signInAsNewUser();
+    const brokenAccount = await insertTikTokAccount(userId);
+    const tiktokAccount = await insertTikTokAccount(userId);
+    const supabase = createAdminTestClient();
+    await supabase
+      .from("tiktok-accounts")
+      .update({ access_token: "enc:v1:removed:key:token" })
+      .eq("id", brokenAccount.id);
+
+    try {
+      await refreshPlatformAccessTokens("tiktok");
+    } finally {
+      await supabase
+        .from("tiktok-accounts")
+        .delete()
+        .eq("id", brokenAccount.id);
+    }
+
+    const { access_token } = await fetchTikTokAccount(tiktokAccount.id);
+    expect(access_token).toMatch(/^mock-tiktok-access-token-/);
+  });
+});
+
+describe("reencryptPlatformAccountTokens", () => {
+  it("encrypts tokens saved before encryption was added", async () => {
+    const { userId } = await signInAsNewUser();
+    const tiktokAccount = await insertTikTokAccount(userId);
+
+    await reencryptPlatformAccountTokens("tiktok");
+
+    const { data } = await createAdminTestClient()
+      .from("tiktok-accounts")
+      .select("access_token, refresh_token")
+      .eq("id", tiktokAccount.id)
+      .single();
+    expect(isEncryptedToken(data!.access_token)).toBe(true);
+    expect(isEncryptedToken(data!.refresh_token)).toBe(true);
+    expect(await fetchTikTokAccount(tiktokAccount.id)).toEqual({
+      access_token: "expired-tiktok-access-token",
+      refresh_token: "tiktok-refresh-token",
+    });
+  });
+
+  describe("when rotating keys", () => {
+    const originalKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+    const oldKey = `old:${randomBytes(32).toString("base64")}`;
+    const newKey = `new:${randomBytes(32).toString("base64")}`;
+
+    const reencryptAllPlatforms = async () => {
+      await reencryptPlatformAccountTokens("instagram");
+      await reencryptPlatformAccountTokens("tiktok");
+      await reencryptPlatformAccountTokens("youtube");
+    };
+
+    // The other test files share the database, so their accounts go back to
+    // the key they were encrypted with.
+    afterEach(async () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = `${originalKeys},${newKey},${oldKey}`;
+      await reencryptAllPlatforms();
+      process.env.TOKEN_ENCRYPTION_KEYS = originalKeys;
+    });
+
+    const fetchStoredTokens = async ({
+      instagramAccountId,
+      tiktokAccountId,
+      youtubeChannelId,
+    }: {
+      instagramAccountId: string;
+      tiktokAccountId: string;
+      youtubeChannelId: string;
+    }) => {
+      const supabase = createAdminTestClient();
+      const [{ data: instagram }, { data: tiktok }, { data: youtube }] =
+        await Promise.all([
+          supabase
+            .from("instagram-accounts")
+            .select("access_token")
+            .eq("id", instagramAccountId)
+            .single(),
+          supabase
+            .from("tiktok-accounts")
+            .select("access_token, refresh_token")
+            .eq("id", tiktokAccountId)
+            .single(),
+          supabase
+            .from("youtube-channels")
+            .select("credentials")
+            .eq("id", youtubeChannelId)
+            .single(),
+        ]);
+      return {
+        instagram: instagram!,
+        tiktok: tiktok!,
+        youtube: youtube!,
+        encryptedValues: [
+          instagram!.access_token,
+          tiktok!.access_token,
+          tiktok!.refresh_token,
+          youtube!.credentials as string,
+        ],
+      };
+    };
+
+    it("re-encrypts every account table with the new key", async () => {
+      const { userId } = await signInAsNewUser();
+      process.env.TOKEN_ENCRYPTION_KEYS = `${oldKey},${originalKeys}`;
+      const accountIds = {
+        instagramAccountId: (await insertInstagramAccount(userId)).id,
+        tiktokAccountId: (await insertTikTokAccount(userId)).id,
+        youtubeChannelId: (await insertYoutubeChannel(userId)).id,
+      };
+      await reencryptAllPlatforms();
+      const { encryptedValues: oldValues } = await fetchStoredTokens(
+        accountIds
+      );
+      oldValues.forEach((value) => expect(value).toMatch(/^enc:v1:old:/));
+
+      process.env.TOKEN_ENCRYPTION_KEYS = `${newKey},${oldKey},${originalKeys}`;
+      await reencryptAllPlatforms();
+
+      // The old key can go once everything has been re-encrypted.
+      process.env.TOKEN_ENCRYPTION_KEYS = newKey;
+      const { instagram, tiktok, youtube, encryptedValues } =
+        await fetchStoredTokens(accountIds);
+      encryptedValues.forEach((value) => expect(value).toMatch(/^enc:v1:new:/));
+      expect(decryptAccountTokens("instagram-accounts", instagram)).toEqual({
+        access_token: "mock-page-access-token",
+      });
+      expect(decryptAccountTokens("tiktok-accounts", tiktok)).toEqual({
+        access_token: "expired-tiktok-access-token",
+        refresh_token: "tiktok-refresh-token",
+      });
+      expect(
+        decryptAccountTokens("youtube-channels", youtube).credentials
+      ).toMatchObject({
+        access_token: "mock-google-access-token",
+        refresh_token: "mock-google-refresh-token",
+      });
+    });
+  });
+});
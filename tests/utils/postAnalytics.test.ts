@@ -0,0 +1,17 @@
+import { emptyPostMetrics, sumPostMetrics } from "@/utils/postAnalytics";
+import { describe, expect, it } from "vitest";
+
+describe("sumPostMetrics", () => {
+  it("adds up the metrics each post reported", () => {
+    expect(
+      sumPostMetrics([
+        { ...emptyPostMetrics, views: 100, likes: 10 },
+        { ...emptyPostMetrics, views: 50, likes: 5, saves: 2 },
+      ])
+    ).toEqual({ ...emptyPostMetrics, views: 150, likes: 15, saves: 2 });
+  });
+
+  it("leaves metrics no post reported as null", () => {
+    expect(sumPostMetrics([])).toEqual(emptyPostMetrics);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  buildTikTokPostURL,
+  calculateTikTokChunkRange,
+  calculateTikTokChunks,
+  findTikTokCreatorConflict,
+} from "@/utils/tiktok";
+import { describe, expect, it } from "vitest";
+
+const MB = 1024 ** 2;
+
+describe("calculateTikTokChunks", () => {
+  it("sends videos under 5 MB as a single chunk", () => {
+    expect(calculateTikTokChunks(3 * MB)).toEqual({
+      chunkSize: 3 * MB,
+      totalChunkCount: 1,
+    });
+    expect(calculateTikTokChunkRange({ videoSize: 3 * MB, start: 0 })).toEqual({
+      start: 0,
+      end: 3 * MB - 1,
+    });
+  });
+
+  it("sends videos smaller than a chunk as a single chunk", () => {
+    expect(calculateTikTokChunks(6 * MB)).toEqual({
+      chunkSize: 6 * MB,
+      totalChunkCount: 1,
+    });
+    expect(calculateTikTokChunkRange({ videoSize: 6 * MB, start: 0 })).toEqual({
+      start: 0,
+      end: 6 * MB - 1,
+    });
+  });
+
+  it("adds the remainder to the last chunk", () => {
+    expect(calculateTikTokChunks(25 * MB)).toEqual({
+      chunkSize: 10 * MB,
+      totalChunkCount: 2,
+    });
+    expect(calculateTikTokChunkRange({ videoSize: 25 * MB, start: 0 })).toEqual(
+      { start: 0, end: 10 * MB - 1 }
+    );
+    expect(
+      calculateTikTokChunkRange({ videoSize: 25 * MB, start: 10 * MB })
+    ).toEqual({ start: 10 * MB, end: 25 * MB - 1 });
+  });
+
+  it("grows the chunks to stay within 1000 of them", () => {
+    const videoSize = 12 * 1024 * MB;
+
+    const { chunkSize, totalChunkCount } = calculateTikTokChunks(videoSize);
+
+    expect(totalChunkCount).toBeLessThanOrEqual(1000);
+    expect(chunkSize).toBeLessThanOrEqual(64 * MB);
+    expect(videoSize - chunkSize * (totalChunkCount - 1)).toBeLessThanOrEqual(
+      128 * MB
+    );
+  });
+});
+
+describe("findTikTokCreatorConflict", () => {
+  const constraints = {
+    privacyLevelOptions: ["PUBLIC_TO_EVERYONE", "SELF_ONLY"],
+    commentDisabled: false,
+    duetDisabled: true,
+    stitchDisabled: false,
+    maxVideoPostDurationSec: 60,
+  };
+  const settings = {
+    postType: "video" as const,
+    privacyLevel: "SELF_ONLY",
+    disableComment: false,
+    disableDuet: true,
+    disableStitch: false,
+  };
+
+  it("allows posts that follow the creator's settings", () => {
+    expect(
+      findTikTokCreatorConflict({ constraints, settings })
+    ).toBeUndefined();
+  });
+
+  it("rejects privacy levels the creator doesn't offer", () => {
+    expect(
+      findTikTokCreatorConflict({
+        constraints,
+        settings: { ...settings, privacyLevel: "FOLLOWER_OF_CREATOR" },
+      })
+    ).toMatch("privacy level");
+  });
+
+  it("rejects interactions the creator turned off, except Duet on photos", () => {
+    const duetEnabled = { ...settings, disableDuet: false };
+
+    expect(
+      findTikTokCreatorConflict({ constraints, settings: duetEnabled })
+    ).toMatch("Duet");
+    expect(
+      findTikTokCreatorConflict({
+        constraints,
+        settings: { ...duetEnabled, postType: "image" },
+      })
+    ).toBeUndefined();
+  });
+
+  it("rejects videos longer than the creator can post", () => {
+    expect(
+      findTikTokCreatorConflict({
+        constraints,
+        settings: { ...settings, videoDurationSec: 90 },
+      })
+    ).toMatch("60 seconds");
+    expect(
+      findTikTokCreatorConflict({
+        constraints,
+        settings: { ...settings, videoDurationSec: 45 },
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe("buildTikTokPostURL", () => {
+  it("links videos and photo posts under the creator's profile", () => {
+    expect(
+      buildTikTokPostURL({
+        username: "creator",
+        publicPostId: "123",
+        postType: "video",
+      })
+    ).toBe("https://www.tiktok.com/@creator/video/123");
+    expect(
+      buildTikTokPostURL({
+        username: "creator",
+        publicPostId: "123",
+        postType: "image",
+      })
+    ).toBe("https://www.tiktok.com/@creator/photo/123");
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  createTikTokOAuthState,
+  verifyTikTokOAuthState,
+} from "@/utils/tiktokOAuth";
+import { createHash } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("TikTok OAuth state", () => {
+  const originalSecret = process.env.TIKTOK_CLIENT_SECRET;
+
+  beforeEach(() => {
+    process.env.TIKTOK_CLIENT_SECRET = "tiktok-client-secret";
+  });
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env.TIKTOK_CLIENT_SECRET;
+    } else {
+      process.env.TIKTOK_CLIENT_SECRET = originalSecret;
+    }
+  });
+
+  it("returns the verifier the challenge was made from", () => {
+    const { state, codeChallenge, cookie } = createTikTokOAuthState();
+
+    const codeVerifier = verifyTikTokOAuthState({ cookie, state });
+
+    expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+    expect(
+      createHash("sha256")
+        .update(codeVerifier ?? "")
+        .digest("hex")
+    ).toBe(codeChallenge);
+  });
+
+  it("rejects a state from a different login", () => {
+    const { cookie } = createTikTokOAuthState();
+    const { state } = createTikTokOAuthState();
+
+    expect(verifyTikTokOAuthState({ cookie, state })).toBeNull();
+    expect(verifyTikTokOAuthState({ cookie, state: null })).toBeNull();
+    expect(verifyTikTokOAuthState({ cookie: undefined, state })).toBeNull();
+  });
+
+  it("rejects a cookie that wasn't signed by us", () => {
+    const { state, cookie } = createTikTokOAuthState();
+    const [, , signature] = cookie.split(".");
+
+    expect(
+      verifyTikTokOAuthState({
+        cookie: `${state}.attacker-verifier.${signature}`,
+        state,
+      })
+    ).toBeNull();
+  });
+});
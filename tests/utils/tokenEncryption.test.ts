@@ -0,0 +1,81 @@
+import {
+  decryptToken,
+  encryptToken,
+  isEncryptedToken,
+  needsReencryption,
+} from "@/utils/tokenEncryption";
+import { randomBytes } from "node:crypto";
+import { afterEach, describe, expect, it } from "vitest";
+
+const generateKey = (id: string) =>
+  `${id}:${randomBytes(32).toString("base64")}`;
+
+describe("token encryption", () => {
+  const originalKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+
+  afterEach(() => {
+    if (originalKeys === undefined) {
+      delete process.env.TOKEN_ENCRYPTION_KEYS;
+    } else {
+      process.env.TOKEN_ENCRYPTION_KEYS = originalKeys;
+    }
+  });
+
+  it("decrypts what it encrypts", () => {
+    process.env.TOKEN_ENCRYPTION_KEYS = generateKey("current");
+
+    const encrypted = encryptToken("access-token");
+
+    expect(isEncryptedToken(encrypted)).toBe(true);
+    expect(encrypted).not.toContain("access-token");
+    expect(decryptToken(encrypted)).toBe("access-token");
+    expect(encryptToken("access-token")).not.toBe(encrypted);
+  });
+
+  it("returns tokens saved before encryption as they are", () => {
+    process.env.TOKEN_ENCRYPTION_KEYS = generateKey("current");
+
+    expect(decryptToken("plaintext-token")).toBe("plaintext-token");
+    expect(needsReencryption("plaintext-token")).toBe(true);
+  });
+
+  it("reads tokens encrypted with a rotated key until it's removed", () => {
+    const oldKey = generateKey("old");
+    process.env.TOKEN_ENCRYPTION_KEYS = oldKey;
+    const encrypted = encryptToken("access-token");
+
+    process.env.TOKEN_ENCRYPTION_KEYS = `${generateKey("new")},${oldKey}`;
+    expect(decryptToken(encrypted)).toBe("access-token");
+    expect(needsReencryption(encrypted)).toBe(true);
+    expect(needsReencryption(encryptToken("access-token"))).toBe(false);
+
+    process.env.TOKEN_ENCRYPTION_KEYS = generateKey("new");
+    expect(() => decryptToken(encrypted)).toThrow(
+      "No token encryption key with the id old"
+    );
+  });
+
+  it("refuses a token that was tampered with", () => {
+    process.env.TOKEN_ENCRYPTION_KEYS = generateKey("current");
+    const encrypted = encryptToken("access-token");
+    const ciphertext = Buffer.from(encrypted.split(":").pop()!, "base64");
+    ciphertext[ciphertext.length - 1] ^= 1;
+
+    expect(() =>
+      decryptToken(
+        `${encrypted.slice(
+          0,
+          encrypted.lastIndexOf(":")
+        )}:${ciphertext.toString("base64")}`
+      )
+    ).toThrow();
+  });
+
+  it("throws when no key is configured", () => {
+    delete process.env.TOKEN_ENCRYPTION_KEYS;
+
+    expect(() => encryptToken("access-token")).toThrow(
+      "TOKEN_ENCRYPTION_KEYS isn't set"
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import {
+  canCreatePosts,
+  canManageMembers,
+  canPublishPosts,
+  toWorkspaceRole,
+} from "@/utils/workspaceRoles";
+import { describe, expect, it } from "vitest";
+
+describe("workspace roles", () => {
+  it("only lets owners and editors publish", () => {
+    expect(canPublishPosts("owner")).toBe(true);
+    expect(canPublishPosts("editor")).toBe(true);
+    expect(canPublishPosts("contributor")).toBe(false);
+    expect(canPublishPosts("viewer")).toBe(false);
+  });
+
+  it("lets contributors create posts but not viewers", () => {
+    expect(canCreatePosts("contributor")).toBe(true);
+    expect(canCreatePosts("viewer")).toBe(false);
+  });
+
+  it("only lets owners manage members", () => {
+    expect(canManageMembers("owner")).toBe(true);
+    expect(canManageMembers("editor")).toBe(false);
+  });
+
+  it("treats unknown roles as viewers", () => {
+    expect(toWorkspaceRole("editor")).toBe("editor");
+    expect(toWorkspaceRole("admin")).toBe("viewer");
+  });
+});
@@ -9,6 +9,114 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      "account-queue-slots": {
+        Row: {
+          account_id: string
+          created_at: string
+          day_of_week: number
+          id: string
+          platform: string
+          time_of_day: string
+          timezone: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          day_of_week: number
+          id?: string
+          platform: string
+          time_of_day: string
+          timezone: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          day_of_week?: number
+          id?: string
+          platform?: string
+          time_of_day?: string
+          timezone?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account-queue-slots_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account-queue-slots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      "account-stats-snapshots": {
+        Row: {
+          account_id: string
+          captured_at: string
+          captured_on: string
+          followers: number | null
+          following: number | null
+          id: string
+          likes: number | null
+          platform: string
+          posts: number | null
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          account_id: string
+          captured_at?: string
+          captured_on?: string
+          followers?: number | null
+          following?: number | null
+          id?: string
+          likes?: number | null
+          platform: string
+          posts?: number | null
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string
+          captured_at?: string
+          captured_on?: string
+          followers?: number | null
+          following?: number | null
+          id?: string
+          likes?: number | null
+          platform?: string
+          posts?: number | null
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account-stats-snapshots_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account-stats-snapshots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       "instagram-accounts": {
         Row: {
           access_token: string
@@ -18,6 +126,7 @@ export type Database = {
           instagram_business_account_id: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
           access_token: string
@@ -27,6 +136,7 @@ export type Database = {
           instagram_business_account_id: string
           updated_at?: string
           user_id: string
+          workspace_id: string
         }
         Update: {
           access_token?: string
@@ -36,6 +146,7 @@ export type Database = {
           instagram_business_account_id?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
         Relationships: [
           {
@@ -45,6 +156,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "instagram-accounts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       "instagram-posts": {
@@ -55,6 +173,7 @@ export type Database = {
           instagram_account_id: string
           instagram_media_id: string
           parent_social_media_post_id: string
+          permalink: string | null
           user_id: string
         }
         Insert: {
@@ -64,6 +183,7 @@ export type Database = {
           instagram_account_id: string
           instagram_media_id: string
           parent_social_media_post_id: string
+          permalink?: string | null
           user_id: string
         }
         Update: {
@@ -73,6 +193,7 @@ export type Database = {
           instagram_account_id?: string
           instagram_media_id?: string
           parent_social_media_post_id?: string
+          permalink?: string | null
           user_id?: string
         }
         Relationships: [
@@ -99,6 +220,79 @@ export type Database = {
           },
         ]
       }
+      "post-metric-snapshots": {
+        Row: {
+          account_id: string
+          captured_at: string
+          comments: number | null
+          id: string
+          likes: number | null
+          parent_social_media_post_id: string
+          platform: string
+          platform_post_id: string
+          reach: number | null
+          saves: number | null
+          shares: number | null
+          user_id: string
+          views: number | null
+          workspace_id: string
+        }
+        Insert: {
+          account_id: string
+          captured_at?: string
+          comments?: number | null
+          id?: string
+          likes?: number | null
+          parent_social_media_post_id: string
+          platform: string
+          platform_post_id: string
+          reach?: number | null
+          saves?: number | null
+          shares?: number | null
+          user_id: string
+          views?: number | null
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string
+          captured_at?: string
+          comments?: number | null
+          id?: string
+          likes?: number | null
+          parent_social_media_post_id?: string
+          platform?: string
+          platform_post_id?: string
+          reach?: number | null
+          saves?: number | null
+          shares?: number | null
+          user_id?: string
+          views?: number | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post-metric-snapshots_parent_social_media_post_id_fkey"
+            columns: ["parent_social_media_post_id"]
+            isOneToOne: false
+            referencedRelation: "social-media-posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post-metric-snapshots_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post-metric-snapshots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       "pro-users": {
         Row: {
           created_at: string
@@ -125,6 +319,90 @@ export type Database = {
           },
         ]
       }
+      "social-media-post-destinations": {
+        Row: {
+          account_id: string
+          attempts: number
+          created_at: string
+          error_message: string | null
+          id: string
+          locked_until: string | null
+          next_attempt_at: string | null
+          parent_social_media_post_id: string
+          platform: string
+          platform_post_url: string | null
+          platform_reference_id: string | null
+          queued: boolean
+          scheduled_at: string | null
+          settings: Json
+          status: string
+          updated_at: string
+          upload_size: number | null
+          upload_url: string | null
+          uploaded_bytes: number
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          attempts?: number
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          locked_until?: string | null
+          next_attempt_at?: string | null
+          parent_social_media_post_id: string
+          platform: string
+          platform_post_url?: string | null
+          platform_reference_id?: string | null
+          queued?: boolean
+          scheduled_at?: string | null
+          settings?: Json
+          status?: string
+          updated_at?: string
+          upload_size?: number | null
+          upload_url?: string | null
+          uploaded_bytes?: number
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          attempts?: number
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          locked_until?: string | null
+          next_attempt_at?: string | null
+          parent_social_media_post_id?: string
+          platform?: string
+          platform_post_url?: string | null
+          platform_reference_id?: string | null
+          queued?: boolean
+          scheduled_at?: string | null
+          settings?: Json
+          status?: string
+          updated_at?: string
+          upload_size?: number | null
+          upload_url?: string | null
+          uploaded_bytes?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "social-media-post-destinations_parent_social_media_post_id_fkey"
+            columns: ["parent_social_media_post_id"]
+            isOneToOne: false
+            referencedRelation: "social-media-posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "social-media-post-destinations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       "social-media-post-media-files": {
         Row: {
           created_at: string
@@ -167,20 +445,51 @@ export type Database = {
       "social-media-posts": {
         Row: {
           created_at: string
+          draft_settings: Json | null
           id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          scheduled_at: string | null
+          status: string
+          updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
           created_at?: string
+          draft_settings?: Json | null
           id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scheduled_at?: string | null
+          status?: string
+          updated_at?: string
           user_id: string
+          workspace_id: string
         }
         Update: {
           created_at?: string
+          draft_settings?: Json | null
           id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scheduled_at?: string | null
+          status?: string
+          updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "social-media-posts_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "social-media-posts_user_id_fkey"
             columns: ["user_id"]
@@ -188,6 +497,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "social-media-posts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       "tiktok-accounts": {
@@ -198,6 +514,7 @@ export type Database = {
           refresh_token: string
           updated_at: string
           user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
           access_token: string
@@ -206,6 +523,7 @@ export type Database = {
           refresh_token: string
           updated_at?: string
           user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
           access_token?: string
@@ -214,6 +532,7 @@ export type Database = {
           refresh_token?: string
           updated_at?: string
           user_id?: string | null
+          workspace_id?: string | null
         }
         Relationships: [
           {
@@ -223,6 +542,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tiktok-accounts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       "tiktok-posts": {
@@ -234,6 +560,8 @@ export type Database = {
           disable_stitch: boolean
           id: string
           parent_social_media_post_id: string
+          permalink: string | null
+          post_mode: string
           privacy_level: string
           publicaly_available_post_id: string | null
           publish_id: string
@@ -249,6 +577,8 @@ export type Database = {
           disable_stitch: boolean
           id?: string
           parent_social_media_post_id: string
+          permalink?: string | null
+          post_mode?: string
           privacy_level: string
           publicaly_available_post_id?: string | null
           publish_id: string
@@ -264,6 +594,8 @@ export type Database = {
           disable_stitch?: boolean
           id?: string
           parent_social_media_post_id?: string
+          permalink?: string | null
+          post_mode?: string
           privacy_level?: string
           publicaly_available_post_id?: string | null
           publish_id?: string
@@ -303,6 +635,7 @@ export type Database = {
           id: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
           channel_custom_url: string
@@ -311,6 +644,7 @@ export type Database = {
           id: string
           updated_at?: string
           user_id: string
+          workspace_id: string
         }
         Update: {
           channel_custom_url?: string
@@ -319,6 +653,7 @@ export type Database = {
           id?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
         Relationships: [
           {
@@ -328,29 +663,57 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "youtube-channels_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       "youtube-posts": {
         Row: {
+          category_id: string | null
           created_at: string
+          default_language: string | null
+          description: string | null
           id: string
           parent_social_media_post_id: string
+          privacy_status: string | null
+          self_declared_made_for_kids: boolean | null
+          tags: string[]
+          thumbnail_path: string | null
           title: string
           user_id: string
           youtube_channel_id: string
         }
         Insert: {
+          category_id?: string | null
           created_at?: string
+          default_language?: string | null
+          description?: string | null
           id: string
           parent_social_media_post_id: string
+          privacy_status?: string | null
+          self_declared_made_for_kids?: boolean | null
+          tags?: string[]
+          thumbnail_path?: string | null
           title: string
           user_id?: string
           youtube_channel_id: string
         }
         Update: {
+          category_id?: string | null
           created_at?: string
+          default_language?: string | null
+          description?: string | null
           id?: string
           parent_social_media_post_id?: string
+          privacy_status?: string | null
+          self_declared_made_for_kids?: boolean | null
+          tags?: string[]
+          thumbnail_path?: string | null
           title?: string
           user_id?: string
           youtube_channel_id?: string
@@ -379,12 +742,240 @@ export type Database = {
           },
         ]
       }
+      "youtube-upload-sessions": {
+        Row: {
+          created_at: string
+          destination_id: string
+          id: string
+          session_url: string
+          updated_at: string
+          uploaded_bytes: number
+          user_id: string
+          video_id: string | null
+          video_path: string
+          video_size: number
+        }
+        Insert: {
+          created_at?: string
+          destination_id: string
+          id?: string
+          session_url: string
+          updated_at?: string
+          uploaded_bytes?: number
+          user_id: string
+          video_id?: string | null
+          video_path: string
+          video_size: number
+        }
+        Update: {
+          created_at?: string
+          destination_id?: string
+          id?: string
+          session_url?: string
+          updated_at?: string
+          uploaded_bytes?: number
+          user_id?: string
+          video_id?: string | null
+          video_path?: string
+          video_size?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "youtube-upload-sessions_destination_id_fkey"
+            columns: ["destination_id"]
+            isOneToOne: true
+            referencedRelation: "social-media-post-destinations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "youtube-upload-sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      "workspace-invitations": {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string
+          role: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by: string
+          role?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace-invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace-invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      "workspace-members": {
+        Row: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace-members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace-members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      "latest-post-metric-snapshots": {
+        Row: {
+          account_id: string | null
+          captured_at: string | null
+          comments: number | null
+          id: string | null
+          likes: number | null
+          parent_social_media_post_id: string | null
+          platform: string | null
+          platform_post_id: string | null
+          reach: number | null
+          saves: number | null
+          shares: number | null
+          user_id: string | null
+          views: number | null
+          workspace_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post-metric-snapshots_parent_social_media_post_id_fkey"
+            columns: ["parent_social_media_post_id"]
+            isOneToOne: false
+            referencedRelation: "social-media-posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post-metric-snapshots_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post-metric-snapshots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      can_access_social_media_post: {
+        Args: {
+          post: string
+        }
+        Returns: boolean
+      }
+      can_edit_social_media_post: {
+        Args: {
+          post: string
+        }
+        Returns: boolean
+      }
+      has_workspace_role: {
+        Args: {
+          workspace: string
+          roles: string[]
+        }
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: {
+          workspace: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,43 @@
+// Each network reports a different set of these, the rest are left null.
+export type AccountStats = {
+  followers: number | null;
+  following: number | null;
+  likes: number | null;
+  posts: number | null;
+};
+
+export const accountStatNames: (keyof AccountStats)[] = [
+  "followers",
+  "following",
+  "likes",
+  "posts",
+];
+
+export const emptyAccountStats: AccountStats = {
+  followers: null,
+  following: null,
+  likes: null,
+  posts: null,
+};
+
+export const toAccountStats = (snapshot: AccountStats): AccountStats => ({
+  followers: snapshot.followers,
+  following: snapshot.following,
+  likes: snapshot.likes,
+  posts: snapshot.posts,
+});
+
+// Compares the latest day with the earliest one that reported the stat, so an
+// account connected part way through the period still shows its growth.
+export const accountStatChange = (
+  days: { stats: AccountStats }[],
+  name: keyof AccountStats
+) => {
+  const values = days
+    .map(({ stats }) => stats[name])
+    .filter((value): value is number => value !== null);
+  if (values.length === 0) {
+    return null;
+  }
+  return values[values.length - 1] - values[0];
+};
@@ -1,5 +1,4 @@
-import { Logger } from "next-axiom";
-import { errorString } from "@/utils/logging";
+import { errorString, Logger } from "@/utils/logging";
 import toast from "react-hot-toast";
 
 const facebookAppId = process.env.NEXT_PUBLIC_FACEBOOK_CLIENT_ID;
@@ -97,9 +96,20 @@ export type FacebookGraphError = {
   error_user_title: string;
   error_user_msg: string;
   fbtrace_id: string;
+  is_transient?: boolean;
 };
 
-const GRAPH_API_BASE_URL = `https://graph.facebook.com/v${process.env.FACEBOOK_GRAPH_API_VERSION}`;
+// Unknown/service errors, the various Graph API rate limits and media that
+// isn't ready to be published yet.
+const retryableGraphErrorCodes = [1, 2, 4, 17, 32, 341, 613, 9007];
+
+export const isRetryableGraphError = (error: FacebookGraphError) =>
+  Boolean(error.is_transient) || retryableGraphErrorCodes.includes(error.code);
+
+// Overridable so the app can be pointed at the mock platform servers.
+const GRAPH_API_BASE_URL = `${
+  process.env.FACEBOOK_GRAPH_API_BASE_URL || "https://graph.facebook.com"
+}/v${process.env.FACEBOOK_GRAPH_API_VERSION}`;
 
 export const buildGraphAPIURL = ({
   path,
@@ -110,7 +120,8 @@ export const buildGraphAPIURL = ({
   searchParams: Record<string, string | null | undefined>;
   accessToken?: string;
 }): string => {
-  const url = new URL(path, GRAPH_API_BASE_URL);
+  // Resolving the path against the base URL would drop the version segment.
+  const url = new URL(`${GRAPH_API_BASE_URL}${path}`);
 
   Object.keys(searchParams).forEach((key) => {
     if (!searchParams[key]) {
@@ -1,4 +1,84 @@
+import { Logger as AxiomLogger, LoggerConfig } from "next-axiom";
+
 export const startingFunctionString = "Starting function";
 export const endingFunctionString = "Ending function";
 export const warningString = "Warning on function";
 export const errorString = "Error on function";
+
+const REDACTED = "[REDACTED]";
+
+// Keys are compared without case, underscores or dashes, so access_token,
+// accessToken and longLivedPageAccessToken are all caught.
+const secretKeyPattern =
+  /(token|tokens|secret|password|credentials|authorization|verifier|apikey)$/;
+const secretQueryParamPattern =
+  /([?&](?:access_token|refresh_token|client_secret|fb_exchange_token|input_token|code_verifier|token)=)[^&#\s"']+/gi;
+const bearerPattern = /(Bearer\s+)[^\s"']+/gi;
+
+const isSecretKey = (key: string) =>
+  secretKeyPattern.test(key.replace(/[_-]/g, "").toLowerCase());
+
+export const redactSecrets = <Value>(value: Value): Value => {
+  if (typeof value === "string") {
+    return value
+      .replace(secretQueryParamPattern, `$1${REDACTED}`)
+      .replace(bearerPattern, `$1${REDACTED}`) as Value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets) as Value;
+  }
+  // Copied rather than spread so next-axiom still sees an Error. Message, stack
+  // and cause aren't enumerable, and API errors often quote the request URL.
+  if (value instanceof Error) {
+    const redacted: Error = Object.assign(
+      Object.create(Object.getPrototypeOf(value)),
+      redactSecrets({ ...value }),
+      {
+        name: value.name,
+        message: redactSecrets(value.message),
+        stack: redactSecrets(value.stack),
+      }
+    );
+    if (value.cause !== undefined) {
+      redacted.cause = redactSecrets(value.cause);
+    }
+    return redacted as Value;
+  }
+  if (value === null || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      isSecretKey(key) ? REDACTED : redactSecrets(entry),
+    ])
+  ) as Value;
+};
+
+const redactingLoggers = new WeakSet<AxiomLogger>();
+
+// next-axiom's methods are instance properties, so they're wrapped in place
+// rather than overridden. That also covers the loggers withAxiom and
+// useLogger create for us.
+export const withRedaction = <L extends AxiomLogger>(logger: L): L => {
+  if (redactingLoggers.has(logger)) {
+    return logger;
+  }
+  const { debug, info, warn, error, with: withArgs } = logger;
+  logger.debug = (message, args) => debug(message, redactSecrets(args));
+  logger.info = (message, args) => info(message, redactSecrets(args));
+  logger.warn = (message, args) => warn(message, redactSecrets(args));
+  logger.error = (message, args) => error(message, redactSecrets(args));
+  logger.with = (args) => withRedaction(withArgs(redactSecrets(args)));
+  redactingLoggers.add(logger);
+  return logger;
+};
+
+// Use this instead of next-axiom's Logger so tokens and secrets never reach
+// Axiom.
+export class Logger extends AxiomLogger {
+  constructor(config: LoggerConfig = {}) {
+    super({ ...config, args: redactSecrets(config.args) });
+    withRedaction(this);
+  }
+}
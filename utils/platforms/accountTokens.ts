@@ -0,0 +1,70 @@
+import {
+  decryptToken,
+  encryptToken,
+  needsReencryption,
+} from "../tokenEncryption";
+import { PlatformAccountTable } from "./types";
+
+// The columns of each account table that hold credentials. YouTube keeps the
+// whole OAuth credentials object, which is encrypted as JSON and stored as a
+// JSON string.
+const tokenColumns: {
+  [table in PlatformAccountTable]: { [column: string]: "text" | "json" };
+} = {
+  "instagram-accounts": { access_token: "text" },
+  "tiktok-accounts": { access_token: "text", refresh_token: "text" },
+  "youtube-channels": { credentials: "json" },
+};
+
+// For rows about to be inserted or updated. Columns the row doesn't set are
+// left alone.
+export const encryptAccountTokens = <Row extends object>(
+  table: PlatformAccountTable,
+  row: Row
+): Row => {
+  const encryptedRow = { ...row } as { [column: string]: unknown };
+  Object.entries(tokenColumns[table]).forEach(([column, type]) => {
+    const value = encryptedRow[column];
+    if (value === undefined || value === null) {
+      return;
+    }
+    encryptedRow[column] = encryptToken(
+      type === "json" ? JSON.stringify(value) : (value as string)
+    );
+  });
+  return encryptedRow as Row;
+};
+
+// For rows read back from the database, before their tokens are used.
+export const decryptAccountTokens = <Row extends object>(
+  table: PlatformAccountTable,
+  row: Row
+): Row => {
+  const decryptedRow = { ...row } as { [column: string]: unknown };
+  Object.entries(tokenColumns[table]).forEach(([column, type]) => {
+    const value = decryptedRow[column];
+    // JSON columns saved before encryption hold the object itself.
+    if (typeof value !== "string") {
+      return;
+    }
+    const decrypted = decryptToken(value);
+    decryptedRow[column] = type === "json" ? JSON.parse(decrypted) : decrypted;
+  });
+  return decryptedRow as Row;
+};
+
+// The token columns to rewrite, because they're still plaintext or were
+// encrypted with a key that has since been rotated out.
+export const findTokensToReencrypt = <Row extends object>(
+  table: PlatformAccountTable,
+  row: Row
+) => {
+  const storedRow = { ...row } as { [column: string]: unknown };
+  return Object.keys(tokenColumns[table]).filter((column) => {
+    const value = storedRow[column];
+    if (value === undefined || value === null) {
+      return false;
+    }
+    return typeof value !== "string" || needsReencryption(value);
+  });
+};
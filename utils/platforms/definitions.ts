@@ -0,0 +1,200 @@
+import { PublishPlatform } from "@/utils/publishRetry";
+
+export type MediaDetails = {
+  duration: number;
+  size: number;
+};
+
+export type PostText = {
+  caption: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+};
+
+export type MediaRestrictions = {
+  min_video_duration: number;
+  max_video_duration: number;
+  max_video_size: number;
+};
+
+// The parts of a platform that are safe to use in the browser. The server side
+// publishing logic lives in the adapters, which extend these definitions.
+export type PlatformDefinition = {
+  platform: PublishPlatform;
+  displayName: string;
+  validateMedia: (
+    media: MediaDetails,
+    restrictions: MediaRestrictions
+  ) => string | null;
+  // Checks the combination of files in a post, e.g. how many and which types.
+  validateMediaSelection: (mimeTypes: string[]) => string | null;
+  captionLimit: (postType: "video" | "image") => number;
+  // Returns everything the platform would reject about the caption and title,
+  // so the user can fix it before publishing.
+  validateText: (text: PostText, postType: "video" | "image") => string[];
+};
+
+export const INSTAGRAM_MAX_HASHTAGS = 30;
+export const TIKTOK_PHOTO_TITLE_LIMIT = 90;
+
+export const YOUTUBE_DESCRIPTION_LIMIT = 5000;
+export const YOUTUBE_TAGS_LIMIT = 500;
+export const YOUTUBE_THUMBNAIL_MAX_SIZE = 2 * 1024 ** 2;
+
+// YouTube counts the commas between tags, and quotes around tags with spaces.
+export const countYoutubeTagCharacters = (tags: string[]) =>
+  tags.reduce(
+    (total, tag) => total + tag.length + (tag.includes(" ") ? 2 : 0),
+    Math.max(tags.length - 1, 0)
+  );
+
+export const countHashtags = (text: string) =>
+  (text.match(/(^|\s)#[^\s#]+/g) ?? []).length;
+
+const validateLength = ({
+  text,
+  limit,
+  label,
+}: {
+  text: string;
+  limit: number;
+  label: string;
+}) =>
+  text.length > limit
+    ? [`${label} is ${text.length - limit} characters over the ${limit} limit`]
+    : [];
+
+const buildMediaValidator =
+  (accountNoun: string): PlatformDefinition["validateMedia"] =>
+  ({ duration, size }, restrictions) => {
+    if (duration > restrictions.max_video_duration) {
+      return `Cannot upload video longer than ${restrictions.max_video_duration} seconds to this ${accountNoun}`;
+    }
+    if (duration < restrictions.min_video_duration) {
+      return `Cannot upload video shorter than ${restrictions.min_video_duration} seconds to this ${accountNoun}`;
+    }
+    if (size > restrictions.max_video_size) {
+      return `Cannot upload videos larger than ${
+        restrictions.max_video_size / 1024 ** 3
+      } GB to this ${accountNoun}`;
+    }
+    return null;
+  };
+
+const isImage = (mimeType: string) => mimeType.startsWith("image/");
+
+export const platformDefinitions: {
+  [platform in PublishPlatform]: PlatformDefinition;
+} = {
+  instagram: {
+    platform: "instagram",
+    displayName: "Instagram",
+    validateMedia: buildMediaValidator("account"),
+    validateMediaSelection: (mimeTypes) => {
+      if (mimeTypes.length > 10) {
+        return "Instagram posts can have up to 10 photos or videos";
+      }
+      if (mimeTypes.some((type) => isImage(type) && type !== "image/jpeg")) {
+        return "Instagram only supports JPEG photos";
+      }
+      return null;
+    },
+    captionLimit: () => 2200,
+    validateText: ({ caption }) => {
+      const hashtags = countHashtags(caption);
+      return [
+        ...validateLength({
+          text: caption,
+          limit: 2200,
+          label: "Instagram caption",
+        }),
+        ...(hashtags > INSTAGRAM_MAX_HASHTAGS
+          ? [
+              `Instagram captions can have up to ${INSTAGRAM_MAX_HASHTAGS} hashtags, this one has ${hashtags}`,
+            ]
+          : []),
+      ];
+    },
+  },
+  tiktok: {
+    platform: "tiktok",
+    displayName: "TikTok",
+    validateMedia: buildMediaValidator("account"),
+    validateMediaSelection: (mimeTypes) => {
+      const numberOfImages = mimeTypes.filter(isImage).length;
+      if (numberOfImages === 0) {
+        return mimeTypes.length > 1
+          ? "TikTok posts can only have one video"
+          : null;
+      }
+      if (numberOfImages !== mimeTypes.length) {
+        return "TikTok posts can't mix photos and videos";
+      }
+      if (numberOfImages > 35) {
+        return "TikTok posts can have up to 35 photos";
+      }
+      if (
+        mimeTypes.some((type) => type !== "image/jpeg" && type !== "image/webp")
+      ) {
+        return "TikTok only supports JPEG and WebP photos";
+      }
+      return null;
+    },
+    // Photo posts have a separate short title, so their caption is the longer
+    // description.
+    captionLimit: (postType) => (postType === "image" ? 4000 : 2200),
+    validateText: ({ caption, title }, postType) => [
+      ...validateLength({
+        text: caption,
+        limit: platformDefinitions.tiktok.captionLimit(postType),
+        label: "TikTok caption",
+      }),
+      ...(postType === "image"
+        ? validateLength({
+            text: title ?? "",
+            limit: TIKTOK_PHOTO_TITLE_LIMIT,
+            label: "TikTok photo title",
+          })
+        : []),
+    ],
+  },
+  youtube: {
+    platform: "youtube",
+    displayName: "YouTube",
+    validateMedia: buildMediaValidator("channel"),
+    validateMediaSelection: (mimeTypes) => {
+      if (mimeTypes.some(isImage)) {
+        return "YouTube only supports videos";
+      }
+      if (mimeTypes.length > 1) {
+        return "YouTube posts can only have one video";
+      }
+      return null;
+    },
+    // YouTube posts use the caption as the video title.
+    captionLimit: () => 100,
+    validateText: ({ caption, description = "", tags = [] }) => [
+      ...(caption.trim().length === 0 ? ["YouTube videos need a title"] : []),
+      ...validateLength({ text: caption, limit: 100, label: "YouTube title" }),
+      ...(/[<>]/.test(caption)
+        ? ["YouTube titles can't contain < or > characters"]
+        : []),
+      ...validateLength({
+        text: description,
+        limit: YOUTUBE_DESCRIPTION_LIMIT,
+        label: "YouTube description",
+      }),
+      ...(/[<>]/.test(description)
+        ? ["YouTube descriptions can't contain < or > characters"]
+        : []),
+      ...(countYoutubeTagCharacters(tags) > YOUTUBE_TAGS_LIMIT
+        ? [
+            `YouTube tags are ${
+              countYoutubeTagCharacters(tags) - YOUTUBE_TAGS_LIMIT
+            } characters over the ${YOUTUBE_TAGS_LIMIT} limit`,
+          ]
+        : []),
+    ],
+  },
+};
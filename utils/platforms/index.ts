@@ -0,0 +1,133 @@
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import { PublishPlatform } from "@/utils/publishRetry";
+import { createAdminClient } from "@/utils/supabase/server";
+import { instagramAdapter } from "./instagram";
+import { tiktokAdapter } from "./tiktok";
+import { AnyPlatformAdapter } from "./types";
+import { youtubeAdapter } from "./youtube";
+import {
+  decryptAccountTokens,
+  encryptAccountTokens,
+  findTokensToReencrypt,
+} from "./accountTokens";
+
+export const platformAdapters: {
+  [platform in PublishPlatform]: AnyPlatformAdapter;
+} = {
+  instagram: instagramAdapter,
+  tiktok: tiktokAdapter,
+  youtube: youtubeAdapter,
+};
+
+export const getPlatformAdapter = (platform: string) => {
+  if (!(platform in platformAdapters)) {
+    throw new Error(`Unsupported platform: ${platform}`);
+  }
+  return platformAdapters[platform as PublishPlatform];
+};
+
+export const refreshPlatformAccessTokens = async (
+  platform: PublishPlatform
+) => {
+  const logger = new Logger().with({
+    function: "refreshPlatformAccessTokens",
+    platform,
+  });
+  logger.info(startingFunctionString);
+  const adapter = platformAdapters[platform];
+  const supabase = createAdminClient();
+  const { data, error } = await supabase.from(adapter.accountTable).select("*");
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw error;
+  }
+  // One account whose refresh token was revoked, or whose tokens can't be
+  // decrypted, shouldn't keep the accounts after it from being refreshed.
+  let numberOfFailedAccounts = 0;
+  for (let i = 0; i < data.length; i++) {
+    try {
+      await adapter.refreshToken({
+        account: decryptAccountTokens(adapter.accountTable, data[i]),
+        supabase,
+      });
+    } catch (error) {
+      numberOfFailedAccounts++;
+      logger.error(errorString, {
+        accountId: data[i].id,
+        error: error instanceof Error ? error.message : JSON.stringify(error),
+      });
+    }
+  }
+  logger.info(endingFunctionString, {
+    numberOfAccounts: data.length,
+    numberOfFailedAccounts,
+  });
+  await logger.flush();
+};
+
+// Encrypts tokens saved before encryption was added, and re-encrypts ones
+// encrypted with a key that is being rotated out.
+export const reencryptPlatformAccountTokens = async (
+  platform: PublishPlatform
+) => {
+  const logger = new Logger().with({
+    function: "reencryptPlatformAccountTokens",
+    platform,
+  });
+  logger.info(startingFunctionString);
+  const { accountTable } = platformAdapters[platform];
+  const supabase = createAdminClient();
+  const { data, error } = await supabase.from(accountTable).select("*");
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw error;
+  }
+  let numberOfAccounts = 0;
+  for (let i = 0; i < data.length; i++) {
+    const account = data[i];
+    const columns = findTokensToReencrypt(accountTable, account);
+    if (columns.length === 0) {
+      continue;
+    }
+    const decryptedAccount = decryptAccountTokens(accountTable, account) as {
+      [column: string]: unknown;
+    };
+    // Leaves the row alone if a token refresh saved new tokens in the meantime.
+    // Refreshes always move updated_at, and unlike the tokens it can be
+    // compared for YouTube's jsonb credentials too.
+    const { data: updatedAccounts, error: updateError } = await supabase
+      .from(accountTable)
+      .update(
+        encryptAccountTokens(
+          accountTable,
+          Object.fromEntries(
+            columns.map((column) => [column, decryptedAccount[column]])
+          )
+        )
+      )
+      .eq("id", account.id)
+      .eq("updated_at", account.updated_at)
+      .select("id");
+    if (updateError) {
+      logger.error(errorString, { ...updateError, accountId: account.id });
+      continue;
+    }
+    if (updatedAccounts.length === 0) {
+      logger.info("Account changed while re-encrypting", {
+        accountId: account.id,
+      });
+      continue;
+    }
+    numberOfAccounts++;
+  }
+  logger.info(endingFunctionString, { numberOfAccounts });
+  await logger.flush();
+  return numberOfAccounts;
+};
@@ -0,0 +1,225 @@
+import {
+  fetchInstagramAccountStats,
+  fetchInstagramPublishingRateLimit,
+} from "@/app/actions/instagramAccounts";
+import { InstagramDestinationSettings } from "@/app/actions/socialMediaPostQueue";
+import {
+  createInstagramCarouselContainer,
+  createInstagramContainer,
+  fetchInstagramContainerStatus,
+  fetchInstagramMediaMetrics,
+  fetchInstagramMediaPermalink,
+  publishInstagramMediaContainer,
+  saveInstagramId,
+} from "@/app/actions/socialMediaPosts";
+import { PostMetrics } from "@/utils/postAnalytics";
+import { PublishError } from "@/utils/publishRetry";
+import { platformDefinitions } from "./definitions";
+import { PlatformAdapter } from "./types";
+
+const CONTAINER_ID_SEPARATOR = ",";
+
+const parseContainerIds = (referenceId: string | null) => {
+  if (!referenceId) {
+    throw new Error("No Instagram media container found for this post");
+  }
+  return referenceId.split(CONTAINER_ID_SEPARATOR);
+};
+
+const postTypeFromFilePath = (filePath: string) =>
+  /\.(jpe?g|png|webp)$/i.test(filePath) ? "image" : "video";
+
+export const instagramAdapter: PlatformAdapter<
+  InstagramDestinationSettings,
+  "instagram-accounts"
+> = {
+  ...platformDefinitions.instagram,
+  accountTable: "instagram-accounts",
+  fetchLimits: async ({ account, supabase }) => {
+    const {
+      config: { quota_total },
+      quota_usage,
+    } = await fetchInstagramPublishingRateLimit({
+      instagramBusinessAccountId: account.instagram_business_account_id,
+      workspaceId: account.workspace_id,
+      supabase,
+    });
+    // A zero quota means the limit couldn't be fetched, so let the post through
+    // and leave it to the Graph API to reject it.
+    if (quota_total === 0) {
+      return { remainingPosts: null, error: null };
+    }
+    const remainingPosts = quota_total - quota_usage;
+    return {
+      remainingPosts,
+      error:
+        remainingPosts > 0
+          ? null
+          : new PublishError(
+              "You've posted too many times recently. We'll try again later.",
+              { retryable: true }
+            ),
+    };
+  },
+  // A carousel's container is created here along with its children, so a
+  // retried publish step publishes the same container rather than a new one.
+  // Its status only reads FINISHED once every child has finished processing.
+  prepare: async ({ account, settings, userId, mediaFilePaths, supabase }) => {
+    if (mediaFilePaths.length === 1) {
+      const containerId = await createInstagramContainer({
+        instagramBusinessAccountId: account.instagram_business_account_id,
+        filePath: mediaFilePaths[0],
+        caption: settings.caption,
+        userId,
+        workspaceId: account.workspace_id,
+        postType: settings.postType,
+        isCarouselItem: false,
+        supabase,
+      });
+      return { referenceId: containerId };
+    }
+    const childContainerIds: string[] = [];
+    for (let i = 0; i < mediaFilePaths.length; i++) {
+      childContainerIds.push(
+        await createInstagramContainer({
+          instagramBusinessAccountId: account.instagram_business_account_id,
+          filePath: mediaFilePaths[i],
+          userId,
+          workspaceId: account.workspace_id,
+          postType: postTypeFromFilePath(mediaFilePaths[i]),
+          isCarouselItem: true,
+          supabase,
+        })
+      );
+    }
+    const carouselContainerId = await createInstagramCarouselContainer({
+      instagramCarouselMediaContainerIds: childContainerIds,
+      instagramBusinessAccountId: account.instagram_business_account_id,
+      userId,
+      workspaceId: account.workspace_id,
+      caption: settings.caption,
+      supabase,
+    });
+    return { referenceId: carouselContainerId };
+  },
+  pollStatus: async ({ account, userId, supabase }, referenceId) => {
+    const statusCodes = await Promise.all(
+      parseContainerIds(referenceId).map((containerId) =>
+        fetchInstagramContainerStatus({
+          containerId,
+          instagramBusinessAccountId: account.instagram_business_account_id,
+          userId,
+          workspaceId: account.workspace_id,
+          supabase,
+        })
+      )
+    );
+    // PUBLISHED when an earlier publish step got past media_publish. Publishing
+    // again then returns the saved media, or fails rather than posting twice.
+    return statusCodes.every(
+      (statusCode) => statusCode === "FINISHED" || statusCode === "PUBLISHED"
+    )
+      ? "ready"
+      : "processing";
+  },
+  publish: async (
+    { account, settings, userId, parentSocialMediaPostId, supabase },
+    referenceId
+  ) => {
+    // A retry after the media went live must not publish it a second time.
+    const { data: instagramPost, error } = await supabase
+      .from("instagram-posts")
+      .select("instagram_media_id, permalink")
+      .eq("parent_social_media_post_id", parentSocialMediaPostId)
+      .eq("instagram_account_id", account.id)
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      throw error;
+    }
+    if (instagramPost) {
+      return {
+        platformPostId: instagramPost.instagram_media_id,
+        url: instagramPost.permalink,
+      };
+    }
+    const containerIds = parseContainerIds(referenceId);
+    // Destinations prepared before carousel containers were created in
+    // prepare still hold the children.
+    const instagramMediaContainerId =
+      containerIds.length === 1
+        ? containerIds[0]
+        : await createInstagramCarouselContainer({
+            instagramCarouselMediaContainerIds: containerIds,
+            instagramBusinessAccountId: account.instagram_business_account_id,
+            userId,
+            workspaceId: account.workspace_id,
+            caption: settings.caption,
+            supabase,
+          });
+    const instagramMediaId = await publishInstagramMediaContainer({
+      instagramBusinessAccountId: account.instagram_business_account_id,
+      instagramMediaContainerId,
+      userId,
+      workspaceId: account.workspace_id,
+      supabase,
+    });
+    const permalink = await fetchInstagramMediaPermalink({
+      instagramBusinessAccountId: account.instagram_business_account_id,
+      instagramMediaId,
+      userId,
+      workspaceId: account.workspace_id,
+      supabase,
+    });
+    await saveInstagramId({
+      instagramMediaId,
+      parentSocialMediaPostId,
+      caption: settings.caption,
+      userId,
+      instagramAccountId: account.id,
+      permalink,
+      supabase,
+    });
+    return { platformPostId: instagramMediaId, url: permalink };
+  },
+  // Page access tokens minted from a long lived user token don't expire.
+  refreshToken: async () => {},
+  listTrackedPosts: async ({ publishedSince, supabase }) => {
+    const { data, error } = await supabase
+      .from("instagram-posts")
+      .select(
+        "user_id, instagram_account_id, parent_social_media_post_id, instagram_media_id"
+      )
+      .gte("created_at", publishedSince);
+    if (error) {
+      throw error;
+    }
+    return data.map((row) => ({
+      userId: row.user_id,
+      accountId: row.instagram_account_id,
+      parentSocialMediaPostId: row.parent_social_media_post_id,
+      platformPostId: row.instagram_media_id,
+    }));
+  },
+  // Insights are fetched one media at a time, so one deleted post doesn't hold
+  // up the rest.
+  fetchPostMetrics: async ({ account, platformPostIds }) => {
+    const metrics: { [platformPostId: string]: PostMetrics } = {};
+    for (let i = 0; i < platformPostIds.length; i++) {
+      try {
+        metrics[platformPostIds[i]] = await fetchInstagramMediaMetrics({
+          instagramMediaId: platformPostIds[i],
+          accessToken: account.access_token,
+        });
+      } catch {
+        // Already logged, and the next run tries again.
+      }
+    }
+    return metrics;
+  },
+  fetchAccountStats: async ({ account }) =>
+    fetchInstagramAccountStats({
+      instagramBusinessAccountId: account.instagram_business_account_id,
+      accessToken: account.access_token,
+    }),
+};
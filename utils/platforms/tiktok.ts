@@ -0,0 +1,239 @@
+import { TikTokDestinationSettings } from "@/app/actions/socialMediaPostQueue";
+import {
+  fetchCreatorInfo,
+  fetchTikTokPublishStatus,
+  fetchTikTokUserStats,
+  fetchTikTokVideoMetrics,
+  uploadTikTokPost,
+  uploadTikTokVideoChunks,
+  writeTikTokPostToSupabase,
+} from "@/app/actions/tiktok";
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import { PublishError } from "@/utils/publishRetry";
+import {
+  buildTikTokAPIURL,
+  buildTikTokPostURL,
+  findTikTokCreatorConflict,
+} from "@/utils/tiktok";
+import { platformDefinitions } from "./definitions";
+import { PlatformAdapter } from "./types";
+import { encryptAccountTokens } from "./accountTokens";
+
+type TikTokRefreshTokenResponse = {
+  access_token?: string;
+  expires_in?: number;
+  open_id?: string;
+  refresh_expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+  token_type?: string;
+  error?: string;
+  error_description?: string;
+};
+
+// The public link needs the creator's username, which we don't store.
+const buildTikTokPermalink = async ({
+  accessToken,
+  publicPostId,
+  postType,
+}: {
+  accessToken: string;
+  publicPostId: string;
+  postType: TikTokDestinationSettings["postType"];
+}) => {
+  const { data } = await fetchCreatorInfo(accessToken);
+  return data?.creator_username
+    ? buildTikTokPostURL({
+        username: data.creator_username,
+        publicPostId,
+        postType,
+      })
+    : null;
+};
+
+export const tiktokAdapter: PlatformAdapter<
+  TikTokDestinationSettings,
+  "tiktok-accounts"
+> = {
+  ...platformDefinitions.tiktok,
+  accountTable: "tiktok-accounts",
+  // TikTok asks for the creator info to be queried before every direct post.
+  // Inbox uploads are posted by the creator, so they don't need it.
+  fetchLimits: async ({ account, settings }) => {
+    if (settings.postMode === "MEDIA_UPLOAD") {
+      return { remainingPosts: null, error: null };
+    }
+    const { constraints, errorMessage, isRetryableError } =
+      await fetchCreatorInfo(account.access_token);
+    if (errorMessage || !constraints) {
+      return {
+        remainingPosts: null,
+        error: new PublishError(
+          errorMessage ?? "We couldn't check your TikTok account",
+          { retryable: isRetryableError }
+        ),
+      };
+    }
+    // The creator may have changed their settings since the post was made.
+    const conflict = findTikTokCreatorConflict({ constraints, settings });
+    return {
+      remainingPosts: null,
+      error: conflict ? new PublishError(conflict, { retryable: false }) : null,
+    };
+  },
+  prepare: async ({ account, settings, userId, mediaFilePaths, supabase }) => {
+    const { publishId, upload } = await uploadTikTokPost({
+      userId,
+      title: settings.title,
+      caption: settings.caption,
+      autoAddMusic: settings.autoAddMusic,
+      brandOrganicToggle: settings.brandOrganicToggle,
+      brandContentToggle: settings.brandContentToggle,
+      accessToken: account.access_token,
+      filePaths: mediaFilePaths,
+      privacyLevel: settings.privacyLevel,
+      disableDuet: settings.disableDuet,
+      disableComment: settings.disableComment,
+      disableStitch: settings.disableStitch,
+      videoCoverTimestamp: 0,
+      postType: settings.postType,
+      postMode: settings.postMode,
+      supabase,
+    });
+    return { referenceId: publishId, upload };
+  },
+  pollStatus: async (
+    { destination, account, mediaFilePaths, supabase },
+    referenceId
+  ) => {
+    if (!referenceId) {
+      throw new Error("No TikTok publish id found for this post");
+    }
+    const { upload_url, upload_size, uploaded_bytes } = destination;
+    if (upload_url && upload_size && uploaded_bytes < upload_size) {
+      const uploadedBytes = await uploadTikTokVideoChunks({
+        destinationId: destination.id,
+        uploadUrl: upload_url,
+        videoPath: mediaFilePaths[0],
+        videoSize: upload_size,
+        uploadedBytes: uploaded_bytes,
+        supabase,
+      });
+      if (uploadedBytes < upload_size) {
+        return "processing";
+      }
+    }
+    const { isFinished } = await fetchTikTokPublishStatus({
+      publishId: referenceId,
+      accessToken: account.access_token,
+    });
+    return isFinished ? "ready" : "processing";
+  },
+  // TikTok publishes the post, or puts it in the creator's inbox, once
+  // processing completes, so all that's left is recording it.
+  publish: async (
+    { account, settings, userId, parentSocialMediaPostId, supabase },
+    referenceId
+  ) => {
+    if (!referenceId) {
+      throw new Error("No TikTok publish id found for this post");
+    }
+    const { publicPostId } = await fetchTikTokPublishStatus({
+      publishId: referenceId,
+      accessToken: account.access_token,
+    });
+    const permalink = publicPostId
+      ? await buildTikTokPermalink({
+          accessToken: account.access_token,
+          publicPostId,
+          postType: settings.postType,
+        })
+      : null;
+    await writeTikTokPostToSupabase({
+      userId,
+      caption: settings.caption,
+      publishId: referenceId,
+      privacyLevel: settings.privacyLevel,
+      disableDuet: settings.disableDuet,
+      disableComment: settings.disableComment,
+      videoCoverTimestamp: 0,
+      parentSocialMediaPostId,
+      tiktokAccountId: account.id,
+      postMode: settings.postMode,
+      publicPostId,
+      permalink,
+      supabase,
+    });
+    return { platformPostId: publicPostId, url: permalink };
+  },
+  refreshToken: async ({ account, supabase }) => {
+    const logger = new Logger().with({
+      function: "refreshTikTokAccessToken",
+      id: account.id,
+    });
+    logger.info(startingFunctionString);
+    const response = await fetch(buildTikTokAPIURL("/v2/oauth/token/"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: `client_key=${process.env.TIKTOK_CLIENT_KEY}&client_secret=${process.env.TIKTOK_CLIENT_SECRET}&grant_type=refresh_token&refresh_token=${account.refresh_token}`,
+    });
+    const { error, error_description, refresh_token, access_token } =
+      (await response.json()) as TikTokRefreshTokenResponse;
+    if (error) {
+      logger.error(errorString, { error, error_description });
+      await logger.flush();
+      throw Error(error);
+    }
+    const { error: updateError } = await supabase
+      .from("tiktok-accounts")
+      .update(
+        encryptAccountTokens("tiktok-accounts", {
+          refresh_token,
+          access_token,
+          updated_at: new Date().toISOString(),
+        })
+      )
+      .eq("id", account.id);
+    if (updateError) {
+      logger.error(errorString, updateError);
+      await logger.flush();
+      throw updateError;
+    }
+    logger.info(endingFunctionString);
+    await logger.flush();
+  },
+  // Only public posts get an id we can query, inbox uploads and private posts
+  // never do.
+  listTrackedPosts: async ({ publishedSince, supabase }) => {
+    const { data, error } = await supabase
+      .from("tiktok-posts")
+      .select(
+        "user_id, tiktok_account_id, parent_social_media_post_id, publicaly_available_post_id"
+      )
+      .not("publicaly_available_post_id", "is", null)
+      .gte("created_at", publishedSince);
+    if (error) {
+      throw error;
+    }
+    return data.map((row) => ({
+      userId: row.user_id,
+      accountId: row.tiktok_account_id,
+      parentSocialMediaPostId: row.parent_social_media_post_id,
+      platformPostId: row.publicaly_available_post_id!,
+    }));
+  },
+  fetchPostMetrics: async ({ account, platformPostIds }) =>
+    fetchTikTokVideoMetrics({
+      accessToken: account.access_token,
+      videoIds: platformPostIds,
+    }),
+  fetchAccountStats: async ({ account }) =>
+    fetchTikTokUserStats(account.access_token),
+};
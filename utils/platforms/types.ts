@@ -0,0 +1,88 @@
+import { Tables } from "@/types/supabase";
+import { AccountStats } from "@/utils/accountStats";
+import { PostMetrics } from "@/utils/postAnalytics";
+import { PublishError } from "@/utils/publishRetry";
+import { SupabaseServerClient } from "@/utils/supabase/server";
+import { PlatformDefinition } from "./definitions";
+
+export type PlatformAccountTable =
+  | "instagram-accounts"
+  | "tiktok-accounts"
+  | "youtube-channels";
+
+export type PublishContext<Settings, Table extends PlatformAccountTable> = {
+  destination: Tables<"social-media-post-destinations">;
+  settings: Settings;
+  account: Tables<Table>;
+  userId: string;
+  parentSocialMediaPostId: string;
+  mediaFilePaths: string[];
+  supabase: SupabaseServerClient;
+};
+
+export type PublishingLimits = {
+  // null when the platform doesn't report a posting quota
+  remainingPosts: number | null;
+  error: PublishError | null;
+};
+
+export type PreparedPost = {
+  referenceId: string | null;
+  // Set when the platform expects us to send it the video in chunks.
+  upload?: { url: string; size: number };
+};
+
+export type PublishedPost = {
+  platformPostId: string | null;
+  url: string | null;
+};
+
+// A published post whose metrics are still being collected.
+export type TrackedPost = {
+  userId: string;
+  accountId: string;
+  parentSocialMediaPostId: string;
+  platformPostId: string;
+};
+
+// Every network goes through the same steps: check the account can post, hand
+// the media to the platform, wait for it to finish processing and publish.
+// Each call does a bounded amount of work so the queue can run them one per
+// request.
+export type PlatformAdapter<
+  Settings,
+  Table extends PlatformAccountTable
+> = PlatformDefinition & {
+  accountTable: Table;
+  fetchLimits(
+    context: PublishContext<Settings, Table>
+  ): Promise<PublishingLimits>;
+  prepare(context: PublishContext<Settings, Table>): Promise<PreparedPost>;
+  pollStatus(
+    context: PublishContext<Settings, Table>,
+    referenceId: string | null
+  ): Promise<"processing" | "ready">;
+  publish(
+    context: PublishContext<Settings, Table>,
+    referenceId: string | null
+  ): Promise<PublishedPost>;
+  refreshToken(args: {
+    account: Tables<Table>;
+    supabase: SupabaseServerClient;
+  }): Promise<void>;
+  listTrackedPosts(args: {
+    publishedSince: string;
+    supabase: SupabaseServerClient;
+  }): Promise<TrackedPost[]>;
+  // Posts the network no longer returns, e.g. deleted ones, are left out.
+  fetchPostMetrics(args: {
+    account: Tables<Table>;
+    platformPostIds: string[];
+  }): Promise<{ [platformPostId: string]: PostMetrics }>;
+  fetchAccountStats(args: { account: Tables<Table> }): Promise<AccountStats>;
+};
+
+// The queue only knows a destination's settings as the jsonb it was saved
+// with. Each adapter reads them as its own platform's settings, which are the
+// ones a destination for that platform is saved with.
+export type AnyPlatformAdapter = PlatformAdapter<unknown, PlatformAccountTable>;
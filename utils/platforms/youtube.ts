@@ -0,0 +1,161 @@
+import { YoutubeDestinationSettings } from "@/app/actions/socialMediaPostQueue";
+import {
+  fetchYoutubeChannelStats,
+  fetchYoutubeVideoMetrics,
+  resumeYoutubeVideoUpload,
+  startYoutubeVideoUpload,
+  writeYoutubePostToSupabase,
+  YoutubeVideoMetadata,
+} from "@/app/actions/youtube";
+import {
+  endingFunctionString,
+  errorString,
+  startingFunctionString,
+  Logger,
+} from "@/utils/logging";
+import { createYoutubeAuthClient } from "@/utils/youtube";
+import { Credentials } from "google-auth-library";
+import { platformDefinitions } from "./definitions";
+import { PlatformAdapter } from "./types";
+import { encryptAccountTokens } from "./accountTokens";
+
+const buildYoutubeVideoMetadata = (
+  settings: YoutubeDestinationSettings
+): YoutubeVideoMetadata => ({
+  title: settings.title,
+  visibility:
+    settings.visibility ?? (settings.isPrivate ? "private" : "public"),
+  description: settings.description,
+  tags: settings.tags,
+  categoryId: settings.categoryId,
+  madeForKids: settings.madeForKids,
+  defaultLanguage: settings.defaultLanguage,
+});
+
+export const youtubeAdapter: PlatformAdapter<
+  YoutubeDestinationSettings,
+  "youtube-channels"
+> = {
+  ...platformDefinitions.youtube,
+  accountTable: "youtube-channels",
+  fetchLimits: async () => ({ remainingPosts: null, error: null }),
+  // The video is sent through a resumable upload session, a chunk at a time,
+  // while the destination is processing. YouTube publishes it as soon as the
+  // upload completes.
+  prepare: async ({
+    destination,
+    account,
+    settings,
+    userId,
+    mediaFilePaths,
+    supabase,
+  }) => {
+    await startYoutubeVideoUpload({
+      userId,
+      destinationId: destination.id,
+      youtubeChannelId: account.id,
+      videoPath: mediaFilePaths[0],
+      metadata: buildYoutubeVideoMetadata(settings),
+      supabase,
+    });
+    return { referenceId: null };
+  },
+  pollStatus: async ({ destination, account, userId, supabase }) => {
+    const videoId = await resumeYoutubeVideoUpload({
+      userId,
+      destinationId: destination.id,
+      youtubeChannelId: account.id,
+      supabase,
+    });
+    return videoId ? "ready" : "processing";
+  },
+  publish: async ({
+    destination,
+    account,
+    settings,
+    userId,
+    parentSocialMediaPostId,
+    supabase,
+  }) => {
+    // Already uploaded by pollStatus, so this only looks up the video id.
+    const videoId = await resumeYoutubeVideoUpload({
+      userId,
+      destinationId: destination.id,
+      youtubeChannelId: account.id,
+      supabase,
+    });
+    if (!videoId) {
+      throw new Error("No YouTube video id found for this post");
+    }
+    await writeYoutubePostToSupabase({
+      videoId,
+      userId,
+      parentSocialMediaPostId,
+      youtubeChannelId: account.id,
+      metadata: buildYoutubeVideoMetadata(settings),
+      thumbnailPath: settings.thumbnailPath,
+      supabase,
+    });
+    return {
+      platformPostId: videoId,
+      url: `https://www.youtube.com/watch?v=${videoId}`,
+    };
+  },
+  refreshToken: async ({ account, supabase }) => {
+    const logger = new Logger().with({
+      function: "refreshYoutubeAccessToken",
+      id: account.id,
+    });
+    try {
+      logger.info(startingFunctionString);
+
+      const authClient = createYoutubeAuthClient();
+      authClient.setCredentials(account.credentials as Credentials);
+      const { credentials: updatedCredentials } =
+        await authClient.refreshAccessToken();
+
+      const { error } = await supabase
+        .from("youtube-channels")
+        .update(
+          encryptAccountTokens("youtube-channels", {
+            credentials: { ...updatedCredentials },
+            updated_at: new Date().toISOString(),
+          })
+        )
+        .eq("id", account.id);
+      if (error) {
+        logger.error(errorString, { error: error.message });
+      }
+
+      logger.info(endingFunctionString);
+    } catch (error) {
+      logger.error(errorString, {
+        error: error instanceof Error ? error.message : JSON.stringify(error),
+      });
+    } finally {
+      await logger.flush();
+    }
+  },
+  listTrackedPosts: async ({ publishedSince, supabase }) => {
+    const { data, error } = await supabase
+      .from("youtube-posts")
+      .select("id, user_id, youtube_channel_id, parent_social_media_post_id")
+      .gte("created_at", publishedSince);
+    if (error) {
+      throw error;
+    }
+    return data.map((row) => ({
+      userId: row.user_id,
+      accountId: row.youtube_channel_id,
+      parentSocialMediaPostId: row.parent_social_media_post_id,
+      platformPostId: row.id,
+    }));
+  },
+  fetchPostMetrics: async ({ account, platformPostIds }) =>
+    fetchYoutubeVideoMetrics({
+      credentials: account.credentials as Credentials,
+      videoIds: platformPostIds,
+    }),
+  fetchAccountStats: async ({ account }) =>
+    fetchYoutubeChannelStats(account.credentials as Credentials),
+};
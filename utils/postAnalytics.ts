@@ -0,0 +1,52 @@
+// Each network reports a different set of these, the rest are left null.
+export type PostMetrics = {
+  views: number | null;
+  reach: number | null;
+  likes: number | null;
+  comments: number | null;
+  shares: number | null;
+  saves: number | null;
+};
+
+export const postMetricNames: (keyof PostMetrics)[] = [
+  "views",
+  "reach",
+  "likes",
+  "comments",
+  "shares",
+  "saves",
+];
+
+export const emptyPostMetrics: PostMetrics = {
+  views: null,
+  reach: null,
+  likes: null,
+  comments: null,
+  shares: null,
+  saves: null,
+};
+
+export const toPostMetrics = (snapshot: PostMetrics): PostMetrics => ({
+  views: snapshot.views,
+  reach: snapshot.reach,
+  likes: snapshot.likes,
+  comments: snapshot.comments,
+  shares: snapshot.shares,
+  saves: snapshot.saves,
+});
+
+// A metric stays null unless at least one post reported it.
+export const sumPostMetrics = (metrics: PostMetrics[]) =>
+  metrics.reduce<PostMetrics>(
+    (totals, postMetrics) => {
+      const sum = { ...totals };
+      postMetricNames.forEach((name) => {
+        const value = postMetrics[name];
+        if (value !== null) {
+          sum[name] = (sum[name] ?? 0) + value;
+        }
+      });
+      return sum;
+    },
+    { ...emptyPostMetrics }
+  );
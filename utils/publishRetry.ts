@@ -0,0 +1,82 @@
+export type PublishPlatform = "instagram" | "tiktok" | "youtube";
+
+type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+// Every YouTube upload session costs quota, so it gives up sooner than the
+// platforms that pull media from a signed URL.
+export const retryPolicies: { [platform in PublishPlatform]: RetryPolicy } = {
+  instagram: {
+    maxAttempts: 5,
+    baseDelayMs: 60 * 1000,
+    maxDelayMs: 30 * 60 * 1000,
+  },
+  tiktok: {
+    maxAttempts: 5,
+    baseDelayMs: 60 * 1000,
+    maxDelayMs: 30 * 60 * 1000,
+  },
+  youtube: {
+    maxAttempts: 3,
+    baseDelayMs: 2 * 60 * 1000,
+    maxDelayMs: 30 * 60 * 1000,
+  },
+};
+
+export class PublishError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, { retryable }: { retryable: boolean }) {
+    super(message);
+    this.name = "PublishError";
+    this.retryable = retryable;
+  }
+}
+
+const retryableNetworkErrorCodes = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+];
+
+export const isRetryableStatus = (status: number) =>
+  status === 429 || status >= 500;
+
+// Errors we don't recognise are treated as permanent so a broken post fails
+// fast instead of hammering the platform until its attempts run out.
+export const isRetryableError = (error: unknown) => {
+  if (error instanceof PublishError) {
+    return error.retryable;
+  }
+  // fetch rejects with a bare TypeError when the request never got a response.
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return true;
+  }
+  const { code, response } = (error ?? {}) as {
+    code?: unknown;
+    response?: { status?: number };
+  };
+  if (typeof code === "string" && retryableNetworkErrorCodes.includes(code)) {
+    return true;
+  }
+  if (typeof response?.status === "number") {
+    return isRetryableStatus(response.status);
+  }
+  return false;
+};
+
+export const calculateNextAttemptAt = ({
+  platform,
+  attempts,
+}: {
+  platform: PublishPlatform;
+  attempts: number;
+}) => {
+  const { baseDelayMs, maxDelayMs } = retryPolicies[platform];
+  const delayMs = Math.min(baseDelayMs * 2 ** (attempts - 1), maxDelayMs);
+  return new Date(Date.now() + delayMs);
+};
@@ -0,0 +1,158 @@
+import { Tables } from "@/types/supabase";
+
+export type QueueSlot = Pick<
+  Tables<"account-queue-slots">,
+  "day_of_week" | "time_of_day" | "timezone"
+>;
+
+export const daysOfWeek = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// How far ahead a queue is filled before we tell the user it's full.
+const MAX_QUEUE_WEEKS = 52;
+
+const weekdayIndexes: { [weekday: string]: number } = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+// Intl throws a RangeError for zones it doesn't know, which would otherwise
+// only surface once the queue tries to schedule into the slot.
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const zonedDateParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    weekday: "short",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    year: Number(part("year")),
+    month: Number(part("month")),
+    day: Number(part("day")),
+    hour: Number(part("hour")),
+    minute: Number(part("minute")),
+    second: Number(part("second")),
+    weekday: weekdayIndexes[part("weekday")],
+  };
+};
+
+const timeZoneOffsetMs = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = zonedDateParts(
+    date,
+    timeZone
+  );
+  return (
+    Date.UTC(year, month - 1, day, hour, minute, second) -
+    Math.floor(date.getTime() / 1000) * 1000
+  );
+};
+
+// Slots are wall clock times, so the offset is looked up for the day itself to
+// keep a 9:00 slot at 9:00 across daylight saving changes.
+const zonedTimeToDate = ({
+  year,
+  month,
+  day,
+  hour,
+  minute,
+  timeZone,
+}: {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  timeZone: string;
+}) => {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallTime - timeZoneOffsetMs(new Date(wallTime), timeZone);
+  return new Date(wallTime - timeZoneOffsetMs(new Date(guess), timeZone));
+};
+
+const listSlotOccurrences = ({
+  slot,
+  after,
+  weeks,
+}: {
+  slot: QueueSlot;
+  after: Date;
+  weeks: number;
+}) => {
+  const today = zonedDateParts(after, slot.timezone);
+  const [hour, minute] = slot.time_of_day.split(":").map(Number);
+  const daysUntilSlot = (slot.day_of_week - today.weekday + 7) % 7;
+  const occurrences: Date[] = [];
+  for (let week = 0; week <= weeks; week++) {
+    const occurrence = zonedTimeToDate({
+      year: today.year,
+      month: today.month,
+      day: today.day + daysUntilSlot + week * 7,
+      hour,
+      minute,
+      timeZone: slot.timezone,
+    });
+    if (occurrence.getTime() > after.getTime()) {
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+};
+
+// Every upcoming slot time for an account in chronological order, up to the
+// furthest a queue is allowed to reach.
+export const listUpcomingSlotTimes = (slots: QueueSlot[], after: Date) =>
+  slots
+    .flatMap((slot) =>
+      listSlotOccurrences({ slot, after, weeks: MAX_QUEUE_WEEKS })
+    )
+    .sort((a, b) => a.getTime() - b.getTime())
+    .filter(
+      (time, index, times) =>
+        index === 0 || time.getTime() !== times[index - 1].getTime()
+    );
+
+export const findNextFreeSlotTime = ({
+  slots,
+  takenTimes,
+  after,
+}: {
+  slots: QueueSlot[];
+  takenTimes: string[];
+  after: Date;
+}) => {
+  const taken = new Set(takenTimes.map((time) => new Date(time).getTime()));
+  return listUpcomingSlotTimes(slots, after).find(
+    (time) => !taken.has(time.getTime())
+  );
+};
+
+export const formatQueueSlot = (slot: QueueSlot) =>
+  `${daysOfWeek[slot.day_of_week]} ${slot.time_of_day.slice(0, 5)}`;
@@ -36,7 +36,9 @@ export const createClient = () => {
   );
 };
 
-export const createAdminClient = () => {
+export type SupabaseServerClient = ReturnType<typeof createClient>;
+
+export const createAdminClient = (): SupabaseServerClient => {
   const cookieStore = cookies();
   return createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
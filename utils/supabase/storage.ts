@@ -1,15 +1,17 @@
-import { Logger } from "next-axiom";
-import { createClient } from "./server";
-import { errorString } from "../logging";
+import { createClient, SupabaseServerClient } from "./server";
+import { errorString, Logger } from "../logging";
+import { isRetryableStatus, PublishError } from "../publishRetry";
 
 export const getSignedUrl = async ({
   bucketName,
   duration,
   filePath,
+  supabase = createClient(),
 }: {
   bucketName: string;
   duration: number;
   filePath: string;
+  supabase?: SupabaseServerClient;
 }) => {
   const logger = new Logger().with({
     function: "getSignedUrl",
@@ -17,7 +19,6 @@ export const getSignedUrl = async ({
     duration,
     filePath,
   });
-  const supabase = createClient();
   const { data, error } = await supabase.storage
     .from(bucketName)
     .createSignedUrl(filePath, duration);
@@ -36,3 +37,121 @@ export const getSignedUrl = async ({
 
 export const socialMediaPostMediaFilesStorageBucket =
   process.env.NEXT_PUBLIC_SOCIAL_MEDIA_POST_MEDIA_FILES_STORAGE_BUCKET!;
+
+export const downloadFile = async ({
+  bucketName,
+  filePath,
+  supabase = createClient(),
+}: {
+  bucketName: string;
+  filePath: string;
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "downloadFile",
+    bucketName,
+    filePath,
+  });
+  const { data, error } = await supabase.storage
+    .from(bucketName)
+    .download(filePath);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(error.message);
+  }
+  return new File([data], filePath);
+};
+
+export const deleteFiles = async ({
+  bucketName,
+  filePaths,
+  supabase = createClient(),
+}: {
+  bucketName: string;
+  filePaths: string[];
+  supabase?: SupabaseServerClient;
+}) => {
+  if (filePaths.length === 0) {
+    return;
+  }
+  const logger = new Logger().with({
+    function: "deleteFiles",
+    bucketName,
+    filePaths,
+  });
+  const { error } = await supabase.storage.from(bucketName).remove(filePaths);
+  if (error) {
+    logger.error(errorString, error);
+    await logger.flush();
+    throw new Error(error.message);
+  }
+};
+
+// Storage only reports an object's size and type when listing its folder.
+export const fetchFileMetadata = async ({
+  bucketName,
+  filePath,
+  supabase = createClient(),
+}: {
+  bucketName: string;
+  filePath: string;
+  supabase?: SupabaseServerClient;
+}) => {
+  const logger = new Logger().with({
+    function: "fetchFileMetadata",
+    bucketName,
+    filePath,
+  });
+  const separatorIndex = filePath.lastIndexOf("/");
+  const folder = filePath.slice(0, Math.max(separatorIndex, 0));
+  const fileName = filePath.slice(separatorIndex + 1);
+  const { data, error } = await supabase.storage
+    .from(bucketName)
+    .list(folder, { search: fileName });
+  const file = data?.find(({ name }) => name === fileName);
+  if (error || !file?.metadata) {
+    logger.error(errorString, error ?? { error: "File not found" });
+    await logger.flush();
+    throw new Error(error?.message ?? "File not found");
+  }
+  return {
+    size: file.metadata.size as number,
+    mimeType: file.metadata.mimetype as string,
+  };
+};
+
+// Reads part of a file through its signed URL, so large videos can be sent on
+// to a platform without holding the whole file in memory.
+export const fetchFileChunk = async ({
+  signedUrl,
+  start,
+  end,
+}: {
+  signedUrl: string;
+  start: number;
+  end: number;
+}) => {
+  const logger = new Logger().with({
+    function: "fetchFileChunk",
+    start,
+    end,
+  });
+  const response = await fetch(signedUrl, {
+    headers: { Range: `bytes=${start}-${end}` },
+    cache: "no-store",
+  });
+  const chunk = response.ok ? await response.arrayBuffer() : null;
+  if (!chunk || chunk.byteLength !== end - start + 1) {
+    logger.error(errorString, {
+      error: "Failed to read file chunk from storage",
+      status: response.status,
+    });
+    await logger.flush();
+    throw new PublishError(
+      "Sorry, we had an issue reading your video. Please try again.",
+      { retryable: !response.ok && isRetryableStatus(response.status) }
+    );
+  }
+  return chunk;
+};
@@ -0,0 +1,112 @@
+// Overridable so the app can be pointed at the mock platform servers.
+const TIKTOK_API_BASE_URL =
+  process.env.TIKTOK_API_BASE_URL || "https://open.tiktokapis.com";
+
+export const buildTikTokAPIURL = (path: string) =>
+  `${TIKTOK_API_BASE_URL}${path}`;
+
+// TikTok's own links to a post, which only exist once it's public.
+export const buildTikTokPostURL = ({
+  username,
+  publicPostId,
+  postType,
+}: {
+  username: string;
+  publicPostId: string;
+  postType: "video" | "image";
+}) =>
+  `https://www.tiktok.com/@${username}/${
+    postType === "video" ? "video" : "photo"
+  }/${publicPostId}`;
+
+// PULL_FROM_URL has TikTok download the video from a signed storage URL, which
+// only works once the storage domain is verified with TikTok. FILE_UPLOAD
+// sends it from our servers in chunks instead.
+export type TikTokVideoSource = "PULL_FROM_URL" | "FILE_UPLOAD";
+
+export const tiktokVideoSource: TikTokVideoSource =
+  process.env.TIKTOK_VIDEO_SOURCE === "FILE_UPLOAD"
+    ? "FILE_UPLOAD"
+    : "PULL_FROM_URL";
+
+const TIKTOK_CHUNK_SIZE = 10 * 1024 ** 2;
+const TIKTOK_MAX_CHUNK_COUNT = 1000;
+
+// TikTok wants chunks of 5 to 64 MB, with the remainder added to the last one,
+// and at most 1000 of them. Videos smaller than one of our chunks go up as a
+// single chunk, otherwise there'd be no full chunk to add the remainder to.
+export const calculateTikTokChunks = (videoSize: number) => {
+  if (videoSize < TIKTOK_CHUNK_SIZE) {
+    return { chunkSize: videoSize, totalChunkCount: 1 };
+  }
+  const chunkSize = Math.max(
+    TIKTOK_CHUNK_SIZE,
+    Math.ceil(videoSize / TIKTOK_MAX_CHUNK_COUNT)
+  );
+  return { chunkSize, totalChunkCount: Math.floor(videoSize / chunkSize) };
+};
+
+// The byte range of the chunk starting at `start`, in the Content-Range form.
+export const calculateTikTokChunkRange = ({
+  videoSize,
+  start,
+}: {
+  videoSize: number;
+  start: number;
+}) => {
+  const { chunkSize, totalChunkCount } = calculateTikTokChunks(videoSize);
+  const isLastChunk = Math.floor(start / chunkSize) >= totalChunkCount - 1;
+  return {
+    start,
+    end: isLastChunk ? videoSize - 1 : start + chunkSize - 1,
+  };
+};
+
+// What TikTok's creator_info query lets an account do with its next post.
+export type TikTokCreatorConstraints = {
+  privacyLevelOptions: string[];
+  commentDisabled: boolean;
+  duetDisabled: boolean;
+  stitchDisabled: boolean;
+  maxVideoPostDurationSec: number;
+};
+
+// Direct posts have to use one of the creator's privacy levels, keep off the
+// interactions they've turned off in the app and fit in their longest video.
+// Duet, Stitch and the duration don't apply to photos.
+export const findTikTokCreatorConflict = ({
+  constraints,
+  settings,
+}: {
+  constraints: TikTokCreatorConstraints;
+  settings: {
+    postType: "video" | "image";
+    privacyLevel: string;
+    disableComment: boolean;
+    disableDuet: boolean;
+    disableStitch: boolean;
+    videoDurationSec?: number;
+  };
+}) => {
+  if (!constraints.privacyLevelOptions.includes(settings.privacyLevel)) {
+    return "This TikTok account can't post with the privacy level you picked. Please choose another one.";
+  }
+  if (constraints.commentDisabled && !settings.disableComment) {
+    return "This TikTok account has comments turned off. Please disable comments for this post.";
+  }
+  if (settings.postType === "image") {
+    return;
+  }
+  if (constraints.duetDisabled && !settings.disableDuet) {
+    return "This TikTok account has Duet turned off. Please disable Duet for this post.";
+  }
+  if (constraints.stitchDisabled && !settings.disableStitch) {
+    return "This TikTok account has Stitch turned off. Please disable Stitch for this post.";
+  }
+  if (
+    settings.videoDurationSec !== undefined &&
+    settings.videoDurationSec > constraints.maxVideoPostDurationSec
+  ) {
+    return `This TikTok account can only post videos up to ${constraints.maxVideoPostDurationSec} seconds long. Please choose a shorter video.`;
+  }
+};
@@ -0,0 +1,63 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+import { getURL } from "@/utils/utils";
+
+// Holds the state and code verifier between sending the user to TikTok and
+// TikTok sending them back to the callback.
+export const TIKTOK_OAUTH_COOKIE = "tiktok_oauth";
+export const TIKTOK_OAUTH_COOKIE_MAX_AGE = 60 * 10;
+
+export const getTikTokRedirectURI = () => getURL("/auth/tiktok/callback");
+
+// The cookie is signed with the client secret so a cookie planted by another
+// site can't pair its own state with a verifier.
+const sign = (payload: string) => {
+  const secret = process.env.TIKTOK_CLIENT_SECRET;
+  if (!secret) {
+    throw new Error("TIKTOK_CLIENT_SECRET isn't set");
+  }
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+};
+
+// TikTok expects the challenge hex encoded rather than the base64url the
+// PKCE spec uses.
+export const createTikTokOAuthState = () => {
+  const state = randomBytes(24).toString("base64url");
+  const codeVerifier = randomBytes(64).toString("base64url");
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("hex");
+  const payload = `${state}.${codeVerifier}`;
+  return {
+    state,
+    codeChallenge,
+    cookie: `${payload}.${sign(payload)}`,
+  };
+};
+
+// Returns the code verifier to exchange the code with, or null when the cookie
+// is missing, was tampered with or belongs to a different login.
+export const verifyTikTokOAuthState = ({
+  cookie,
+  state,
+}: {
+  cookie?: string;
+  state?: string | null;
+}) => {
+  const [cookieState, codeVerifier, signature] = (cookie ?? "").split(".");
+  if (!cookieState || !codeVerifier || !signature || !state) {
+    return null;
+  }
+  const expectedSignature = Buffer.from(sign(`${cookieState}.${codeVerifier}`));
+  const givenSignature = Buffer.from(signature);
+  if (
+    expectedSignature.length !== givenSignature.length ||
+    !timingSafeEqual(expectedSignature, givenSignature) ||
+    cookieState !== state
+  ) {
+    return null;
+  }
+  return codeVerifier;
+};
@@ -0,0 +1,108 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+// Each token is encrypted with its own data key, and the data key with the
+// key from the env, so rotating keys only means re-encrypting rows rather than
+// changing how tokens are read.
+const ENCRYPTED_TOKEN_PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+type EncryptionKey = {
+  id: string;
+  key: Buffer;
+};
+
+// TOKEN_ENCRYPTION_KEYS is a comma separated list of id:base64-key pairs. The
+// first key encrypts new tokens, the others are older keys kept around until
+// every token encrypted with them has been re-encrypted.
+const loadEncryptionKeys = (): EncryptionKey[] => {
+  const keys = (process.env.TOKEN_ENCRYPTION_KEYS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separatorIndex = entry.indexOf(":");
+      const id = entry.slice(0, separatorIndex);
+      const key = Buffer.from(entry.slice(separatorIndex + 1), "base64");
+      if (separatorIndex <= 0 || key.length !== KEY_LENGTH) {
+        throw new Error(
+          "Each TOKEN_ENCRYPTION_KEYS entry must be an id and a base64 encoded 32 byte key, e.g. 2026-10:<key>"
+        );
+      }
+      return { id, key };
+    });
+  if (keys.length === 0) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS isn't set");
+  }
+  return keys;
+};
+
+const seal = (key: Buffer, plaintext: Buffer) => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv, {
+    authTagLength: AUTH_TAG_LENGTH,
+  });
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+};
+
+const open = (key: Buffer, sealed: Buffer) => {
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    sealed.subarray(0, IV_LENGTH),
+    { authTagLength: AUTH_TAG_LENGTH }
+  );
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(sealed.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]);
+};
+
+const parseEncryptedToken = (value: string) => {
+  const [keyId, wrappedDataKey, ciphertext] = value
+    .slice(ENCRYPTED_TOKEN_PREFIX.length)
+    .split(":");
+  return { keyId, wrappedDataKey, ciphertext };
+};
+
+export const isEncryptedToken = (value: string) =>
+  value.startsWith(ENCRYPTED_TOKEN_PREFIX);
+
+export const encryptToken = (plaintext: string) => {
+  const [currentKey] = loadEncryptionKeys();
+  const dataKey = randomBytes(KEY_LENGTH);
+  const wrappedDataKey = seal(currentKey.key, dataKey);
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, "utf8"));
+  return `${ENCRYPTED_TOKEN_PREFIX}${currentKey.id}:${wrappedDataKey.toString(
+    "base64"
+  )}:${ciphertext.toString("base64")}`;
+};
+
+// Tokens saved before encryption was added are returned as they are, so
+// accounts keep working until their rows have been encrypted.
+export const decryptToken = (value: string) => {
+  if (!isEncryptedToken(value)) {
+    return value;
+  }
+  const { keyId, wrappedDataKey, ciphertext } = parseEncryptedToken(value);
+  const encryptionKey = loadEncryptionKeys().find(({ id }) => id === keyId);
+  if (!encryptionKey) {
+    throw new Error(
+      `No token encryption key with the id ${keyId}, it may have been removed from TOKEN_ENCRYPTION_KEYS before its tokens were re-encrypted`
+    );
+  }
+  const dataKey = open(
+    encryptionKey.key,
+    Buffer.from(wrappedDataKey, "base64")
+  );
+  return open(dataKey, Buffer.from(ciphertext, "base64")).toString("utf8");
+};
+
+// Plaintext tokens and ones encrypted with an older key.
+export const needsReencryption = (value: string) =>
+  !isEncryptedToken(value) ||
+  parseEncryptedToken(value).keyId !== loadEncryptionKeys()[0].id;
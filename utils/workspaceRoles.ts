@@ -0,0 +1,38 @@
+// Ordered from the most to the least access.
+export type WorkspaceRole = "owner" | "editor" | "contributor" | "viewer";
+
+export const workspaceRoles: WorkspaceRole[] = [
+  "owner",
+  "editor",
+  "contributor",
+  "viewer",
+];
+
+export const workspaceRoleLabels: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  contributor: "Contributor",
+  viewer: "Viewer",
+};
+
+export const workspaceRoleDescriptions: Record<WorkspaceRole, string> = {
+  owner: "Manages the team and publishes",
+  editor: "Publishes and reviews posts",
+  contributor: "Submits posts for approval",
+  viewer: "Sees posts and analytics",
+};
+
+// The database stores roles as text, so anything unexpected gets the least
+// access rather than more.
+export const toWorkspaceRole = (role: string): WorkspaceRole =>
+  workspaceRoles.includes(role as WorkspaceRole)
+    ? (role as WorkspaceRole)
+    : "viewer";
+
+export const canCreatePosts = (role: WorkspaceRole) => role !== "viewer";
+
+// Publishing, scheduling, retrying and reviewing a contributor's post.
+export const canPublishPosts = (role: WorkspaceRole) =>
+  role === "owner" || role === "editor";
+
+export const canManageMembers = (role: WorkspaceRole) => role === "owner";
@@ -1,9 +1,21 @@
 import { google } from "googleapis";
 
-const youtubeAuthClient = new google.auth.OAuth2(
-  process.env.YOUTUBE_CLIENT_ID,
-  process.env.YOUTUBE_CLIENT_SECRET,
-  process.env.YOUTUBE_REDIRECT_URI
-);
+// A new client for every call, since credentials are set on the client and
+// the queue works on several channels at once.
+export const createYoutubeAuthClient = () =>
+  new google.auth.OAuth2({
+    clientId: process.env.YOUTUBE_CLIENT_ID,
+    clientSecret: process.env.YOUTUBE_CLIENT_SECRET,
+    redirectUri: process.env.YOUTUBE_REDIRECT_URI,
+    // Overridable so the app can be pointed at the mock platform servers.
+    ...(process.env.GOOGLE_OAUTH_TOKEN_URL && {
+      endpoints: { oauth2TokenUrl: process.env.GOOGLE_OAUTH_TOKEN_URL },
+    }),
+  });
 
-export default youtubeAuthClient;
+// Pass as the options of every YouTube API call so the app can be pointed at
+// the mock platform servers. Setting rootUrl on the service instead would
+// drop any path in the URL and isn't used for media uploads.
+export const youtubeRequestOptions = {
+  rootUrl: process.env.YOUTUBE_API_BASE_URL || undefined,
+};
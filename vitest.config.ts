@@ -0,0 +1,19 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    globalSetup: ["tests/globalSetup.ts"],
+    setupFiles: ["tests/setup.ts"],
+    // The test files share one database and one mock platform server.
+    fileParallelism: false,
+    testTimeout: 30000,
+  },
+});